@@ -3,20 +3,99 @@
  * Moduz+ | Módulo Fallback
  * Arquivo: app/adm/[module]/page.tsx
  * Módulo: Core (Admin)
- * Etapa: Fallback de rotas (v1)
+ * Etapa: Fallback de rotas (v2.1 - secções)
  * Descrição:
  *  - Evita 404 em módulos ainda não implementados (ex.: /adm/people)
  *  - Permite que AdmShell + ModuleGuard executem (redirect + popup)
+ *  - Módulos de manifest (modules/<key>) sem página própria: página genérica a partir do manifest
+ *      (descrição, secções, dependências, permissões, atalho para Definições); UI própria = app/adm/<key>/page.tsx
  *  - Não contém lógica de negócio (guard é a fonte de verdade)
  * =============================================
  */
 
-export default function AdmModuleFallbackPage() {
-  // Esta página existe apenas para evitar 404 e permitir o guard correr.
-  // O ModuleGuard no AdmShell decide: permitir / redireccionar / (futuro: popup).
+import { MODULES, isModuleKey } from "../../../components/adm/module-registry"
+
+export default function AdmModuleFallbackPage({ params }: { params: { module: string } }) {
+  const key = params?.module ?? ""
+  const meta = isModuleKey(key) ? MODULES[key] : null
+
+  if (!meta?.manifest || !meta.implemented) {
+    // Esta página existe apenas para evitar 404 e permitir o guard correr.
+    // O ModuleGuard no AdmShell decide: permitir / redireccionar / (futuro: popup).
+    return (
+      <div className="rounded-xl border border-slate-800 bg-slate-950 p-4 text-sm text-slate-300">
+        A verificar acesso ao módulo…
+      </div>
+    )
+  }
+
   return (
-    <div className="rounded-xl border border-slate-800 bg-slate-950 p-4 text-sm text-slate-300">
-      A verificar acesso ao módulo…
+    <div className="p-4 md:p-6 max-w-5xl mx-auto">
+      <div className="flex items-center gap-2">
+        <div className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: meta.color ?? "#64748b" }} />
+        <h1 className="text-2xl font-semibold text-slate-50">{meta.title}</h1>
+        <span className="rounded-md border border-slate-800 bg-slate-900 px-2 py-0.5 text-[11px] text-slate-300 font-mono">
+          {key}
+        </span>
+      </div>
+      <p className="mt-2 text-sm text-slate-400">{meta.desc}</p>
+
+      {meta.sections?.length ? (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {meta.sections
+            .filter((s) => s.implemented !== false)
+            .map((s) => (
+              <a
+                key={s.key}
+                href={s.href}
+                className="rounded-md border border-slate-800 bg-slate-950 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-900"
+              >
+                {s.label}
+              </a>
+            ))}
+        </div>
+      ) : null}
+
+      <div className="mt-6 grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="rounded-xl border border-slate-800 bg-slate-950 p-4">
+          <h2 className="text-sm font-semibold text-slate-100">Permissões</h2>
+          {meta.permissions?.length ? (
+            <ul className="mt-2 space-y-1 text-xs text-slate-400">
+              {meta.permissions.map((p) => (
+                <li key={p.key}>
+                  <span className="font-mono text-slate-300">{p.key}</span> — {p.label}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-2 text-xs text-slate-500">Sem permissões próprias (acesso de qualquer membro).</p>
+          )}
+          {meta.requires?.length ? (
+            <p className="mt-3 text-xs text-slate-500">
+              Requer: {meta.requires.map((d) => MODULES[d]?.title ?? d).join(", ")}
+            </p>
+          ) : null}
+        </div>
+
+        <div className="rounded-xl border border-slate-800 bg-slate-950 p-4">
+          <h2 className="text-sm font-semibold text-slate-100">Definições</h2>
+          {meta.settings?.length ? (
+            <>
+              <p className="mt-2 text-xs text-slate-400">
+                {meta.settings.length} {meta.settings.length === 1 ? "campo" : "campos"} por empresa.
+              </p>
+              <a
+                href="/adm/core/definicoes"
+                className="mt-3 inline-block rounded-md border border-slate-800 bg-slate-950 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-900"
+              >
+                Abrir Definições
+              </a>
+            </>
+          ) : (
+            <p className="mt-2 text-xs text-slate-500">Este módulo não tem definições.</p>
+          )}
+        </div>
+      </div>
     </div>
   )
 }
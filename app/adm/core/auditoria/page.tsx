@@ -3,9 +3,13 @@
  * Moduz+ | Core - Auditoria
  * Arquivo: app/adm/core/auditoria/page.tsx
  * Módulo: Core
- * Etapa: Read-only List (v1)
+ * Etapa: Read-only List + Filtros/Export + Integridade (v1.3 - shape canónico)
  * Descrição:
  *  - Lista eventos do audit_log por empresa
+ *  - Filtros server-side (ação, actor, entidade, entity_id, datas) + pesquisa livre (payload)
+ *  - Exportação CSV/JSON do intervalo filtrado (/api/admin/core/audit/export)
+ *  - Badge de integridade da cadeia de hashes (/api/admin/core/audit/verify)
+ *  - Empresa = empresa ativa no servidor (sem header; /api/admin/** resolve)
  *  - Paginação simples (Carregar mais)
  *  - Toast global (AdmShell)
  * =============================================
@@ -22,10 +26,8 @@ type AuditItem = {
   actor_user_id: string | null
   actor_profile_id: string | null
   action: string
-  entity_table: string | null
-  entity_id: string | null
   entity: string | null
-  metadata: any
+  entity_id: string | null
   payload: any
   created_at: string
 }
@@ -38,13 +40,34 @@ function classNames(...xs: Array<string | false | null | undefined>) {
   return xs.filter(Boolean).join(" ")
 }
 
-function getEmpresaId(): string | null {
-  try {
-    const v = window.localStorage.getItem("moduz_empresa_id")
-    return v && v.length > 10 ? v : null
-  } catch {
-    return null
-  }
+type VerifyResp = {
+  ok: boolean
+  intact: boolean
+  total: number
+  head_hash: string | null
+  broken: { id: string | null; seq: number | null; reason: string | null } | null
+  checked_at: string
+}
+
+type Filters = {
+  action: string
+  actor: string
+  entity: string
+  entity_id: string
+  from: string
+  to: string
+  q: string
+}
+
+const EMPTY_FILTERS: Filters = { action: "", actor: "", entity: "", entity_id: "", from: "", to: "", q: "" }
+
+function filtersQs(f: Filters) {
+  const p = new URLSearchParams()
+  ;(Object.keys(f) as Array<keyof Filters>).forEach((k) => {
+    const v = f[k].trim()
+    if (v) p.set(k, v)
+  })
+  return p.toString()
 }
 
 function formatDt(v: string) {
@@ -73,18 +96,22 @@ export default function CoreAuditoriaPage() {
   const [items, setItems] = useState<AuditItem[]>([])
   const [nextCursor, setNextCursor] = useState<string | null>(null)
 
-  async function load(first = false) {
-    const eid = getEmpresaId()
-    setEmpresaId(eid)
+  const [integrity, setIntegrity] = useState<VerifyResp | null>(null)
+  const [verifying, setVerifying] = useState(false)
 
-    if (!eid) {
-      setErr("Empresa não definida.")
-      setItems([])
-      setNextCursor(null)
-      setLoading(false)
-      return
-    }
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS)
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS)
+  const appliedQs = useMemo(() => filtersQs(applied), [applied])
 
+  // sugestões de ação a partir do que já foi carregado
+  const knownActions = useMemo(() => Array.from(new Set(items.map((i) => i.action))).sort(), [items])
+
+  function applyFilters(next: Filters) {
+    setApplied(next)
+    load(true, next)
+  }
+
+  async function load(first = false, f: Filters = applied) {
     if (first) {
       setLoading(true)
       setErr(null)
@@ -93,9 +120,9 @@ export default function CoreAuditoriaPage() {
     }
 
     try {
-      const r = await fetch(`/api/admin/core/audit/list?limit=50`, {
+      const qs = filtersQs(f)
+      const r = await fetch(`/api/admin/core/audit/list?limit=50${qs ? `&${qs}` : ""}`, {
         method: "GET",
-        headers: { "x-empresa-id": eid },
         credentials: "include",
       })
 
@@ -110,6 +137,7 @@ export default function CoreAuditoriaPage() {
         return
       }
 
+      setEmpresaId(j.empresa_id ?? null)
       setItems(j.items ?? [])
       setNextCursor(j.next_cursor ?? null)
     } catch (e: any) {
@@ -121,13 +149,26 @@ export default function CoreAuditoriaPage() {
     }
   }
 
+  async function loadIntegrity() {
+    setVerifying(true)
+    try {
+      const r = await fetch(`/api/admin/core/audit/verify`, { method: "GET", credentials: "include" })
+      const j = (await r.json().catch(() => null)) as any
+      setIntegrity(r.ok && j?.ok === true ? (j as VerifyResp) : null)
+    } catch {
+      setIntegrity(null)
+    } finally {
+      setVerifying(false)
+    }
+  }
+
   async function loadMore() {
     if (!empresaId || !nextCursor) return
     setBusyMore(true)
     try {
-      const r = await fetch(`/api/admin/core/audit/list?limit=50&cursor=${encodeURIComponent(nextCursor)}`, {
+      const qs = appliedQs ? `&${appliedQs}` : ""
+      const r = await fetch(`/api/admin/core/audit/list?limit=50&cursor=${encodeURIComponent(nextCursor)}${qs}`, {
         method: "GET",
-        headers: { "x-empresa-id": empresaId },
         credentials: "include",
       })
 
@@ -137,6 +178,12 @@ export default function CoreAuditoriaPage() {
         return
       }
 
+      // empresa trocada noutra tab: o cursor já não se aplica
+      if (j.empresa_id !== empresaId) {
+        load(true)
+        return
+      }
+
       setItems((prev) => [...prev, ...(j.items ?? [])])
       setNextCursor(j.next_cursor ?? null)
     } catch (e: any) {
@@ -148,6 +195,7 @@ export default function CoreAuditoriaPage() {
 
   useEffect(() => {
     load(true)
+    loadIntegrity()
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
@@ -158,6 +206,7 @@ export default function CoreAuditoriaPage() {
       const eid = detail?.empresa_id ?? null
       if (!eid) return
       load(true)
+      loadIntegrity()
     }
     window.addEventListener("moduz:empresa-changed", onEmpresaChanged as any)
     return () => window.removeEventListener("moduz:empresa-changed", onEmpresaChanged as any)
@@ -174,10 +223,40 @@ export default function CoreAuditoriaPage() {
           <p className="mt-2 text-sm text-slate-400">
             Log de eventos por empresa (read-only). Serve como trilha de auditoria e base para automações.
           </p>
+          <div className="mt-2">
+            {verifying ? (
+              <span className="rounded-full border border-slate-800 bg-slate-900 px-2 py-0.5 text-xs text-slate-400">
+                A verificar integridade…
+              </span>
+            ) : integrity ? (
+              integrity.intact ? (
+                <span
+                  className="rounded-full border border-emerald-900/60 bg-emerald-950/40 px-2 py-0.5 text-xs text-emerald-300"
+                  title={integrity.head_hash ? `Cabeça: ${integrity.head_hash}` : undefined}
+                >
+                  Cadeia íntegra · {integrity.total} eventos
+                </span>
+              ) : (
+                <span
+                  className="rounded-full border border-red-900/60 bg-red-950/40 px-2 py-0.5 text-xs text-red-300"
+                  title={integrity.broken?.id ?? undefined}
+                >
+                  Cadeia quebrada em #{integrity.broken?.seq ?? "?"} ({integrity.broken?.reason ?? "?"})
+                </span>
+              )
+            ) : (
+              <span className="rounded-full border border-slate-800 bg-slate-900 px-2 py-0.5 text-xs text-slate-500">
+                Integridade indisponível
+              </span>
+            )}
+          </div>
         </div>
 
         <button
-          onClick={() => load(true)}
+          onClick={() => {
+            load(true)
+            loadIntegrity()
+          }}
           className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100 hover:bg-slate-900"
           title="Recarregar"
         >
@@ -185,13 +264,107 @@ export default function CoreAuditoriaPage() {
         </button>
       </div>
 
+      <form
+        className="mt-6 grid grid-cols-12 gap-2 rounded-xl border border-slate-800 bg-slate-950 p-4"
+        onSubmit={(e) => {
+          e.preventDefault()
+          applyFilters(draft)
+        }}
+      >
+        <input
+          className="col-span-12 md:col-span-4 rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100"
+          placeholder="Pesquisar (payload…)"
+          value={draft.q}
+          onChange={(e) => setDraft((d) => ({ ...d, q: e.target.value }))}
+        />
+        <input
+          className="col-span-6 md:col-span-3 rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 font-mono"
+          placeholder="Ação (ex.: MODULE_TOGGLED)"
+          list="audit-actions"
+          value={draft.action}
+          onChange={(e) => setDraft((d) => ({ ...d, action: e.target.value }))}
+        />
+        <datalist id="audit-actions">
+          {knownActions.map((a) => (
+            <option key={a} value={a} />
+          ))}
+        </datalist>
+        <input
+          className="col-span-6 md:col-span-2 rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 font-mono"
+          placeholder="Entidade"
+          value={draft.entity}
+          onChange={(e) => setDraft((d) => ({ ...d, entity: e.target.value }))}
+        />
+        <input
+          className="col-span-12 md:col-span-3 rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 font-mono"
+          placeholder="Entity ID (uuid)"
+          value={draft.entity_id}
+          onChange={(e) => setDraft((d) => ({ ...d, entity_id: e.target.value }))}
+        />
+        <input
+          className="col-span-12 md:col-span-4 rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 font-mono"
+          placeholder="Actor (user_id ou profile_id)"
+          value={draft.actor}
+          onChange={(e) => setDraft((d) => ({ ...d, actor: e.target.value }))}
+        />
+        <label className="col-span-6 md:col-span-2 flex items-center gap-2 text-xs text-slate-400">
+          De
+          <input
+            type="date"
+            className="w-full rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100"
+            value={draft.from}
+            onChange={(e) => setDraft((d) => ({ ...d, from: e.target.value }))}
+          />
+        </label>
+        <label className="col-span-6 md:col-span-2 flex items-center gap-2 text-xs text-slate-400">
+          Até
+          <input
+            type="date"
+            className="w-full rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100"
+            value={draft.to}
+            onChange={(e) => setDraft((d) => ({ ...d, to: e.target.value }))}
+          />
+        </label>
+        <div className="col-span-12 md:col-span-4 flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(EMPTY_FILTERS)
+              applyFilters(EMPTY_FILTERS)
+            }}
+            className="rounded-md border border-slate-800 bg-slate-950 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-900"
+          >
+            Limpar
+          </button>
+          <button type="submit" className="rounded-md bg-slate-100 px-3 py-1.5 text-xs text-slate-900">
+            Aplicar
+          </button>
+        </div>
+      </form>
+
+      <div className="mt-3 flex items-center justify-end gap-2 text-xs">
+        <span className="text-slate-500">Exportar filtro atual:</span>
+        <a
+          href={`/api/admin/core/audit/export?format=csv${appliedQs ? `&${appliedQs}` : ""}`}
+          className="rounded-md border border-slate-800 bg-slate-950 px-3 py-1.5 text-slate-200 hover:bg-slate-900"
+        >
+          CSV
+        </a>
+        <a
+          href={`/api/admin/core/audit/export?format=json${appliedQs ? `&${appliedQs}` : ""}`}
+          className="rounded-md border border-slate-800 bg-slate-950 px-3 py-1.5 text-slate-200 hover:bg-slate-900"
+        >
+          JSON
+        </a>
+      </div>
+
       {err ? (
         <div className="mt-4 rounded-lg border border-red-900/60 bg-red-950/30 p-3">
           <p className="text-sm text-red-200">{err}</p>
         </div>
       ) : null}
 
-      <div className="mt-6 overflow-hidden rounded-xl border border-slate-800 bg-slate-950">
+      <div className="mt-4 overflow-hidden rounded-xl border border-slate-800 bg-slate-950">
         <div className="grid grid-cols-12 gap-0 border-b border-slate-800 bg-slate-950/60 px-4 py-3 text-xs text-slate-400">
           <div className="col-span-3">Data</div>
           <div className="col-span-3">Ação</div>
@@ -214,13 +387,11 @@ export default function CoreAuditoriaPage() {
 
                 <div className="col-span-3">
                   <div className="text-sm text-slate-100 font-semibold">{it.action}</div>
-                  <div className="text-[11px] text-slate-500 font-mono">
-                    {it.entity_table ?? it.entity ?? "—"}
-                  </div>
+                  <div className="text-[11px] text-slate-500 font-mono">{it.entity ?? "—"}</div>
                 </div>
 
                 <div className="col-span-3">
-                  <div className="text-sm text-slate-300">{it.entity_table ?? it.entity ?? "—"}</div>
+                  <div className="text-sm text-slate-300">{it.entity ?? "—"}</div>
                   <div className="text-[11px] text-slate-500 font-mono">{shortId(it.entity_id)}</div>
                 </div>
 
@@ -229,12 +400,12 @@ export default function CoreAuditoriaPage() {
                   <div className="text-[11px] text-slate-500 font-mono">{shortId(it.actor_profile_id)}</div>
                 </div>
 
-                {(it.payload || it.metadata) ? (
+                {it.payload && Object.keys(it.payload).length > 0 ? (
                   <div className="col-span-12 mt-3">
                     <details className="rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2">
                       <summary className="cursor-pointer text-xs text-slate-400">Detalhes</summary>
                       <pre className="mt-2 overflow-auto text-xs text-slate-300">
-{JSON.stringify({ payload: it.payload ?? null, metadata: it.metadata ?? null }, null, 2)}
+{JSON.stringify(it.payload, null, 2)}
                       </pre>
                     </details>
                   </div>
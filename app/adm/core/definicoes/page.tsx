@@ -0,0 +1,603 @@
+/**
+ * =============================================
+ * Moduz+ | Definições por Módulo
+ * Arquivo: app/adm/core/definicoes/page.tsx
+ * Módulo: Core
+ * Etapa: UI Editor + Histórico (v1.3 - tipos sem any)
+ * Descrição:
+ *  - Lista módulos com definições (schema em components/adm/module-registry.ts)
+ *  - Formulário gerado a partir do schema: text / number / boolean / select
+ *  - Validação no cliente com o mesmo código da API (components/adm/module-settings)
+ *      erros por campo; erros do servidor (INVALID_SETTINGS "campo:CÓDIGO") mapeados para os campos
+ *  - Guardar por módulo (audit MODULE_SETTINGS_UPDATED) + repor predefinições no formulário
+ *  - Histórico de versões (settings_versions) com diff campo a campo; "Reverter" desfaz uma versão
+ *      criando nova versão (envia expected_version = head; 409 se entretanto mudou)
+ *  - Auto-sync: recarrega quando trocar empresa ("moduz:empresa-changed")
+ *  - Realtime ("moduz:realtime-sync"): definições/módulos alterados noutra sessão recarregam em silêncio;
+ *    formulários com alterações por guardar não são substituídos
+ *  - Toast Global (via AdmShell) — não empurra layout
+ * =============================================
+ */
+
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { MODULES, type ModuleKey, type SettingField } from "../../../../components/adm/module-registry"
+import {
+  moduleSettingsSchema,
+  settingErrorLabel,
+  settingsDefaults,
+  validateModuleSettings,
+  type ModuleSettingsValues,
+  type SettingErrors,
+} from "../../../../components/adm/module-settings"
+import type { RealtimeSyncDetail } from "../../../../components/adm/realtime-sync"
+import { useToast } from "../../../../components/ui/toast-context"
+
+type ModuleSettingsRow = {
+  module_key: ModuleKey
+  enabled: boolean
+  values: ModuleSettingsValues
+}
+
+type ListResponse = {
+  ok: true
+  empresa_id: string
+  modules: ModuleSettingsRow[]
+}
+
+type SettingsChange = { path: string; before: unknown; after: unknown }
+
+type VersionRow = {
+  id: string
+  version: number
+  source: "update" | "module_update" | "revert"
+  module_key: string | null
+  reverted_version: number | null
+  actor_user_id: string | null
+  actor_profile_id: string | null
+  created_at: string
+  changes: SettingsChange[]
+}
+
+type VersionsResponse = {
+  ok: true
+  empresa_id: string
+  head: number
+  items: VersionRow[]
+  next_cursor: number | null
+}
+
+type RevertResponse =
+  | { ok: true; version: number; reverted_version: number; audit?: string }
+  | { ok: false; error: string; details?: string | null }
+
+type UpdateResponse =
+  | { ok: true; module_key: ModuleKey; values: ModuleSettingsValues; audit?: string }
+  | { ok: false; error: string; details?: string | null }
+
+/** Valores do formulário: números ficam em texto até validar. */
+type Draft = Record<string, string | boolean>
+
+function errMsg(j: unknown, fallback: string) {
+  const r = j as { error?: string; details?: string | null } | null
+  return r?.error ? `${r.error}${r.details ? `: ${r.details}` : ""}` : fallback
+}
+
+function toDraft(values: ModuleSettingsValues): Draft {
+  const out: Draft = {}
+  for (const [k, v] of Object.entries(values)) out[k] = typeof v === "boolean" ? v : String(v)
+  return out
+}
+
+/** "campo:CÓDIGO, …" -> { campo: CÓDIGO } */
+function parseServerErrors(details: string | null | undefined): SettingErrors {
+  const out: SettingErrors = {}
+  for (const part of String(details ?? "").split(",")) {
+    const [k, c] = part.trim().split(":")
+    if (k && c) out[k] = c
+  }
+  return out
+}
+
+/** "extras.modules.docs.max_upload_mb" -> "Docs · Tamanho máximo…" (labels do schema quando existem). */
+function pathLabel(path: string) {
+  const parts = path.split(".")
+  const [moduleKey, fieldKey] =
+    parts[0] === "extras" && parts[1] === "modules" ? [parts[2], parts[3]] : parts.length === 1 ? ["core", parts[0]] : [null, null]
+  const meta = moduleKey ? MODULES[moduleKey as ModuleKey] : undefined
+  const field = meta?.settings?.find((f) => f.key === fieldKey)
+  return meta && field && parts.length <= 4 ? `${meta.title} · ${field.label}` : path
+}
+
+function formatValue(v: unknown) {
+  if (v === null || v === undefined) return "—"
+  if (typeof v === "boolean") return v ? "Sim" : "Não"
+  if (typeof v === "object") return JSON.stringify(v)
+  return String(v)
+}
+
+function formatDt(v: string | null) {
+  if (!v) return "—"
+  try {
+    return new Date(v).toLocaleString("pt-PT")
+  } catch {
+    return v
+  }
+}
+
+function shortId(v: string | null) {
+  if (!v) return "—"
+  if (v.length <= 12) return v
+  return `${v.slice(0, 8)}…${v.slice(-4)}`
+}
+
+function sourceLabel(v: VersionRow) {
+  if (v.source === "revert") return `reverteu v${v.reverted_version ?? "?"}`
+  if (v.source === "module_update") return MODULES[v.module_key as ModuleKey]?.title ?? v.module_key ?? "módulo"
+  return "geral"
+}
+
+function sameValues(a: Draft, b: Draft) {
+  return Object.keys({ ...a, ...b }).every((k) => a[k] === b[k])
+}
+
+function FieldInput({
+  field,
+  value,
+  disabled,
+  onChange,
+}: {
+  field: SettingField
+  value: string | boolean | undefined
+  disabled: boolean
+  onChange: (v: string | boolean) => void
+}) {
+  const inputCls =
+    "w-full rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-slate-600 disabled:opacity-60"
+
+  switch (field.type) {
+    case "boolean":
+      return (
+        <label className="inline-flex items-center gap-2 text-sm text-slate-200">
+          <input
+            type="checkbox"
+            checked={value === true}
+            disabled={disabled}
+            onChange={(e) => onChange(e.target.checked)}
+            className="h-4 w-4 rounded border-slate-700 bg-slate-950"
+          />
+          {value === true ? "Sim" : "Não"}
+        </label>
+      )
+
+    case "select":
+      return (
+        <select
+          value={String(value ?? "")}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputCls}
+        >
+          {field.options.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+      )
+
+    case "number":
+      return (
+        <input
+          type="number"
+          inputMode={field.integer ? "numeric" : "decimal"}
+          step={field.integer ? 1 : "any"}
+          min={field.min}
+          max={field.max}
+          value={String(value ?? "")}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputCls}
+        />
+      )
+
+    case "text":
+      return (
+        <input
+          type="text"
+          maxLength={field.maxLength}
+          value={String(value ?? "")}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputCls}
+        />
+      )
+  }
+}
+
+export default function DefinicoesPage() {
+  const { showToast } = useToast()
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [rows, setRows] = useState<ModuleSettingsRow[]>([])
+  const rowsRef = useRef<ModuleSettingsRow[]>([])
+  rowsRef.current = rows
+
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({})
+  const [errors, setErrors] = useState<Record<string, SettingErrors>>({})
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+
+  const [versions, setVersions] = useState<VersionRow[]>([])
+  const [head, setHead] = useState(0)
+  const [versionsCursor, setVersionsCursor] = useState<number | null>(null)
+  const [versionsLoading, setVersionsLoading] = useState(false)
+  const [revertingVersion, setRevertingVersion] = useState<number | null>(null)
+
+  async function loadVersions(first: boolean) {
+    setVersionsLoading(true)
+    try {
+      const qs = !first && versionsCursor ? `?cursor=${versionsCursor}` : ""
+      const r = await fetch(`/api/admin/core/settings/versions/list${qs}`, {
+        method: "GET",
+        credentials: "include",
+      })
+      const j = (await r.json().catch(() => null)) as VersionsResponse | null
+
+      if (!r.ok || !j) {
+        showToast({ kind: "err", msg: errMsg(j, "Falha ao carregar histórico.") })
+        return
+      }
+
+      const items = Array.isArray(j.items) ? j.items : []
+      setVersions((prev) => (first ? items : [...prev, ...items]))
+      setHead(j.head ?? 0)
+      setVersionsCursor(j.next_cursor ?? null)
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado ao carregar histórico." })
+    } finally {
+      setVersionsLoading(false)
+    }
+  }
+
+  async function revert(v: VersionRow) {
+    const fields = v.changes.map((c) => pathLabel(c.path)).join(", ")
+    if (!window.confirm(`Reverter a versão ${v.version}? Volta ao valor anterior: ${fields}.`)) return
+
+    setRevertingVersion(v.version)
+    try {
+      const r = await fetch("/api/admin/core/settings/versions/revert", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ version: v.version, expected_version: head }),
+      })
+      const j = (await r.json().catch(() => null)) as RevertResponse | null
+
+      if (!r.ok || !j || j.ok !== true) {
+        if (j?.ok === false && j.error === "SETTINGS_VERSION_CONFLICT") {
+          showToast({ kind: "err", msg: "As definições mudaram entretanto. Histórico atualizado; tente de novo." })
+          await Promise.all([load(), loadVersions(true)])
+          return
+        }
+        showToast({ kind: "err", msg: errMsg(j, "Falha ao reverter.") })
+        return
+      }
+
+      showToast({ kind: "ok", msg: `Versão ${v.version} revertida (nova versão ${j.version}).` })
+      await Promise.all([load(), loadVersions(true)])
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    } finally {
+      setRevertingVersion(null)
+    }
+  }
+
+  /** silent = refresh vindo de outra sessão: sem "A carregar…" e mantém formulários por guardar */
+  async function load(opts: { silent?: boolean } = {}) {
+    if (!opts.silent) setLoading(true)
+    setErr(null)
+
+    try {
+      const r = await fetch("/api/admin/core/settings/modules/list", {
+        method: "GET",
+        credentials: "include",
+      })
+      const j = (await r.json().catch(() => null)) as ListResponse | null
+
+      if (!r.ok || !j) {
+        setErr(errMsg(j, "Falha ao carregar."))
+        setRows([])
+        return
+      }
+
+      const next = Array.isArray(j.modules) ? j.modules : []
+      const saved = new Map(rowsRef.current.map((m) => [m.module_key, toDraft(m.values)]))
+      setRows(next)
+      if (opts.silent) {
+        setDrafts((prev) =>
+          Object.fromEntries(
+            next.map((m) => {
+              const draft = prev[m.module_key]
+              const dirty = draft && !sameValues(draft, saved.get(m.module_key) ?? {})
+              return [m.module_key, dirty ? draft : toDraft(m.values)]
+            })
+          )
+        )
+      } else {
+        setDrafts(Object.fromEntries(next.map((m) => [m.module_key, toDraft(m.values)])))
+        setErrors({})
+      }
+    } catch (e) {
+      setErr((e instanceof Error && e.message) || "Erro inesperado ao carregar.")
+      setRows([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function setField(moduleKey: ModuleKey, fieldKey: string, v: string | boolean) {
+    setDrafts((prev) => ({ ...prev, [moduleKey]: { ...(prev[moduleKey] ?? {}), [fieldKey]: v } }))
+    setErrors((prev) => {
+      if (!prev[moduleKey]?.[fieldKey]) return prev
+      const { [fieldKey]: _, ...rest } = prev[moduleKey]
+      return { ...prev, [moduleKey]: rest }
+    })
+  }
+
+  function resetDefaults(moduleKey: ModuleKey) {
+    setDrafts((prev) => ({ ...prev, [moduleKey]: toDraft(settingsDefaults(moduleKey)) }))
+    setErrors((prev) => ({ ...prev, [moduleKey]: {} }))
+  }
+
+  async function save(moduleKey: ModuleKey) {
+    const draft = drafts[moduleKey] ?? {}
+    const v = validateModuleSettings(moduleKey, draft)
+    if (v.ok === false) {
+      setErrors((prev) => ({ ...prev, [moduleKey]: v.errors }))
+      showToast({ kind: "err", msg: "Corrija os campos assinalados." })
+      return
+    }
+
+    setBusyKey(moduleKey)
+    try {
+      const r = await fetch("/api/admin/core/settings/modules/update", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ module_key: moduleKey, values: v.values }),
+      })
+      const j = (await r.json().catch(() => null)) as UpdateResponse | null
+
+      if (!r.ok || !j || j.ok !== true) {
+        if (j?.ok === false && j.error === "INVALID_SETTINGS") {
+          const details = j.details
+          setErrors((prev) => ({ ...prev, [moduleKey]: parseServerErrors(details) }))
+        }
+        showToast({ kind: "err", msg: errMsg(j, "Falha ao guardar definições.") })
+        return
+      }
+
+      setRows((prev) => prev.map((m) => (m.module_key === moduleKey ? { ...m, values: j.values } : m)))
+      setDrafts((prev) => ({ ...prev, [moduleKey]: toDraft(j.values) }))
+      setErrors((prev) => ({ ...prev, [moduleKey]: {} }))
+      showToast({ kind: "ok", msg: `Definições de ${MODULES[moduleKey].title} guardadas.` })
+      loadVersions(true)
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  useEffect(() => {
+    load()
+    loadVersions(true)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // auto-reload ao trocar empresa no switcher
+  useEffect(() => {
+    const onEmpresaChanged = (ev: Event) => {
+      const detail = (ev as CustomEvent)?.detail as { empresa_id?: string } | undefined
+      if (!detail?.empresa_id) return
+      load()
+      loadVersions(true)
+    }
+
+    window.addEventListener("moduz:empresa-changed", onEmpresaChanged as EventListener)
+    return () => window.removeEventListener("moduz:empresa-changed", onEmpresaChanged as EventListener)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // definições (ou módulos ativos) alteradas noutra sessão/tab
+  useEffect(() => {
+    const onSync = (ev: Event) => {
+      const detail = (ev as CustomEvent<RealtimeSyncDetail>)?.detail
+      if (!detail?.table) return
+      load({ silent: true })
+      if (detail.table === "settings") loadVersions(true)
+    }
+
+    window.addEventListener("moduz:realtime-sync", onSync as EventListener)
+    return () => window.removeEventListener("moduz:realtime-sync", onSync as EventListener)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  return (
+    <div className="p-4 md:p-6 max-w-5xl mx-auto">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-50">Definições</h1>
+          <p className="mt-2 text-sm text-slate-400">
+            Parâmetros da empresa por módulo. Os valores são validados antes de serem guardados e cada alteração fica
+            registada na auditoria.
+          </p>
+        </div>
+
+        <button
+          onClick={() => {
+            load()
+            loadVersions(true)
+          }}
+          className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100 hover:bg-slate-900"
+        >
+          Atualizar
+        </button>
+      </div>
+
+      {err ? (
+        <div className="mt-4 rounded-lg border border-red-900/60 bg-red-950/30 p-3">
+          <p className="text-sm text-red-200">{err}</p>
+        </div>
+      ) : null}
+
+      <div className="mt-6 space-y-4">
+        {loading ? (
+          <div className="rounded-xl border border-slate-800 bg-slate-950 p-4 text-sm text-slate-400">A carregar…</div>
+        ) : rows.length === 0 ? (
+          <div className="rounded-xl border border-slate-800 bg-slate-950 p-4 text-sm text-slate-400">
+            Sem definições para mostrar.
+          </div>
+        ) : (
+          rows.map((m) => {
+            const meta = MODULES[m.module_key]
+            const schema = moduleSettingsSchema(m.module_key)
+            const draft = drafts[m.module_key] ?? {}
+            const fieldErrors = errors[m.module_key] ?? {}
+            const isBusy = busyKey === m.module_key
+            const dirty = !sameValues(draft, toDraft(m.values))
+
+            return (
+              <section key={m.module_key} className="rounded-xl border border-slate-800 bg-slate-950 p-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h2 className="text-sm font-semibold text-slate-100">{meta?.title ?? m.module_key}</h2>
+                  <span className="rounded-md border border-slate-800 bg-slate-900 px-2 py-0.5 text-[11px] text-slate-300 font-mono">
+                    {m.module_key}
+                  </span>
+                  {!m.enabled ? (
+                    <span className="rounded-md border border-slate-800 bg-slate-900 px-2 py-0.5 text-[11px] text-slate-300">
+                      inativo
+                    </span>
+                  ) : null}
+                </div>
+
+                <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+                  {schema.map((f) => {
+                    const fe = fieldErrors[f.key]
+                    return (
+                      <div key={f.key}>
+                        <label className="block text-xs text-slate-400">{f.label}</label>
+                        <div className="mt-1">
+                          <FieldInput
+                            field={f}
+                            value={draft[f.key]}
+                            disabled={isBusy}
+                            onChange={(v) => setField(m.module_key, f.key, v)}
+                          />
+                        </div>
+                        {fe ? (
+                          <p className="mt-1 text-xs text-red-300">{settingErrorLabel(f, fe)}</p>
+                        ) : f.help ? (
+                          <p className="mt-1 text-xs text-slate-500">{f.help}</p>
+                        ) : null}
+                      </div>
+                    )
+                  })}
+                </div>
+
+                <div className="mt-4 flex flex-wrap items-center justify-end gap-2">
+                  <button
+                    onClick={() => resetDefaults(m.module_key)}
+                    disabled={isBusy}
+                    className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-300 hover:bg-slate-900 disabled:opacity-60"
+                  >
+                    Repor predefinições
+                  </button>
+                  <button
+                    onClick={() => save(m.module_key)}
+                    disabled={isBusy || !dirty}
+                    className="rounded-md border border-emerald-800 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200 hover:bg-emerald-500/20 disabled:opacity-60"
+                  >
+                    {isBusy ? "A guardar…" : "Guardar"}
+                  </button>
+                </div>
+              </section>
+            )
+          })
+        )}
+      </div>
+
+      {/* Histórico */}
+      <div className="mt-8">
+        <h2 className="text-lg font-semibold text-slate-50">Histórico</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          Cada alteração cria uma versão. Reverter repõe os campos alterados nessa versão e cria uma nova versão.
+        </p>
+
+        <div className="mt-4 space-y-3">
+          {versions.length === 0 ? (
+            <div className="rounded-xl border border-slate-800 bg-slate-950 p-4 text-sm text-slate-400">
+              {versionsLoading ? "A carregar…" : "Sem alterações registadas."}
+            </div>
+          ) : (
+            versions.map((v) => (
+              <div key={v.id} className="rounded-xl border border-slate-800 bg-slate-950 p-4">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-semibold text-slate-100">v{v.version}</span>
+                      <span className="rounded-md border border-slate-800 bg-slate-900 px-2 py-0.5 text-[11px] text-slate-300">
+                        {sourceLabel(v)}
+                      </span>
+                      {v.version === head ? (
+                        <span className="rounded-md border border-emerald-800 bg-emerald-500/10 px-2 py-0.5 text-[11px] text-emerald-200">
+                          atual
+                        </span>
+                      ) : null}
+                    </div>
+                    <p className="mt-1 text-xs text-slate-500 font-mono">
+                      {formatDt(v.created_at)} · {shortId(v.actor_user_id)}
+                    </p>
+                  </div>
+
+                  <button
+                    onClick={() => revert(v)}
+                    disabled={revertingVersion !== null || !v.changes.length}
+                    className="rounded-md border border-slate-800 bg-slate-950 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-900 disabled:opacity-60"
+                  >
+                    {revertingVersion === v.version ? "A reverter…" : "Reverter"}
+                  </button>
+                </div>
+
+                <ul className="mt-3 space-y-1">
+                  {v.changes.map((c) => (
+                    <li key={c.path} className="text-xs text-slate-300">
+                      <span className="text-slate-400">{pathLabel(c.path)}:</span>{" "}
+                      <span className="font-mono text-red-300 line-through">{formatValue(c.before)}</span>{" "}
+                      <span className="text-slate-500">→</span>{" "}
+                      <span className="font-mono text-emerald-300">{formatValue(c.after)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+
+        {versionsCursor ? (
+          <div className="mt-3 flex justify-center">
+            <button
+              onClick={() => loadVersions(false)}
+              disabled={versionsLoading}
+              className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100 hover:bg-slate-900 disabled:opacity-60"
+            >
+              {versionsLoading ? "A carregar…" : "Carregar mais"}
+            </button>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,450 @@
+/**
+ * =============================================
+ * Moduz+ | Core - Nova Empresa (Onboarding)
+ * Arquivo: app/adm/core/empresas/nova/page.tsx
+ * Módulo: Core
+ * Etapa: Wizard multi-passo (v1.3 - tipos sem any)
+ * Descrição:
+ *  - Passos: Empresa → Regional → Módulos → Utilizadores → Confirmar
+ *  - Módulos: marcar arrasta dependências; desmarcar retira dependentes (registry)
+ *  - Confirmar mostra o plano atribuído (o mais barato que cobre módulos + utilizadores)
+ *  - Submete tudo de uma vez a /api/admin/core/empresas/create (transacional no DB)
+ *  - Só mostra o wizard a quem pode criar (sem empresas ou admin de alguma)
+ *  - No fim a nova empresa fica ativa e recarrega /adm
+ *  - Toast global (AdmShell)
+ * =============================================
+ */
+
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  MODULES,
+  MODULE_ORDER,
+  moduleDependents,
+  moduleRequires,
+  type ModuleKey,
+} from "../../../../../components/adm/module-registry"
+import { PLANS, smallestPlanFor } from "../../../../../components/adm/plans"
+import { useToast } from "../../../../../components/ui/toast-context"
+
+type Role = "admin" | "interno" | "externo"
+
+type ContextResp =
+  | { ok: true; empresas: Array<{ empresa_id: string; role: string | null; ativo: boolean }> }
+  | { ok: false; error: string; details?: string | null }
+
+type CreateResp =
+  | {
+      ok: true
+      empresa_id: string
+      invites: Array<{ email: string; ok: boolean; error?: string; details?: string | null }>
+    }
+  | { ok: false; error: string; details?: string | null }
+
+type FirstUser = { email: string; role: Role; display_name: string }
+
+type Form = {
+  nome: string
+  slug: string
+  display_name: string
+  locale: string
+  currency: string
+  timezone: string
+  modules: ModuleKey[]
+  users: FirstUser[]
+}
+
+const STEPS = ["Empresa", "Regional", "Módulos", "Utilizadores", "Confirmar"] as const
+
+const LOCALES = [
+  { value: "pt-PT", label: "Português (Portugal)" },
+  { value: "pt-BR", label: "Português (Brasil)" },
+  { value: "en-GB", label: "English (UK)" },
+  { value: "es-ES", label: "Español (España)" },
+]
+
+const CURRENCIES = ["EUR", "BRL", "USD", "GBP", "CHF", "AOA", "MZN", "CVE"]
+
+const TIMEZONES = [
+  "Europe/Lisbon",
+  "Atlantic/Azores",
+  "Atlantic/Madeira",
+  "Europe/London",
+  "Europe/Madrid",
+  "America/Sao_Paulo",
+  "Africa/Luanda",
+  "Africa/Maputo",
+  "Atlantic/Cape_Verde",
+]
+
+const ROLE_LABEL: Record<Role, string> = {
+  admin: "Administrador",
+  interno: "Interno",
+  externo: "Externo",
+}
+
+const EMPTY_FORM: Form = {
+  nome: "",
+  slug: "",
+  display_name: "",
+  locale: "pt-PT",
+  currency: "EUR",
+  timezone: "Europe/Lisbon",
+  modules: ["docs"],
+  users: [],
+}
+
+function classNames(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ")
+}
+
+function errMsg(j: unknown, fallback: string) {
+  const r = j as { error?: string; details?: string | null } | null
+  return r?.error ? `${r.error}${r.details ? `: ${r.details}` : ""}` : fallback
+}
+
+function isEmail(v: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v.trim())
+}
+
+const inputCls = "mt-1 w-full rounded-md border border-slate-800 bg-slate-900 px-3 py-2 text-sm text-slate-100"
+
+export default function NovaEmpresaPage() {
+  const { showToast } = useToast()
+
+  const [allowed, setAllowed] = useState<boolean | null>(null)
+  const [step, setStep] = useState(0)
+  const [form, setForm] = useState<Form>(EMPTY_FORM)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    const run = async () => {
+      try {
+        const r = await fetch("/api/admin/core/context", { credentials: "include" })
+        const j = (await r.json().catch(() => null)) as ContextResp | null
+        if (!r.ok || !j || j.ok !== true) {
+          setAllowed(false)
+          return
+        }
+        const empresas = (j.empresas ?? []).filter((e) => e.ativo !== false)
+        setAllowed(empresas.length === 0 || empresas.some((e) => e.role === "admin"))
+      } catch {
+        setAllowed(false)
+      }
+    }
+    run()
+  }, [])
+
+  const stepError = useMemo(() => {
+    if (step === 0 && form.nome.trim().length < 2) return "Indique o nome da empresa."
+    if (step === 3) {
+      const bad = form.users.find((u) => !isEmail(u.email))
+      if (bad) return `Email inválido: ${bad.email || "(vazio)"}`
+    }
+    return null
+  }, [step, form])
+
+  function patch(p: Partial<Form>) {
+    setForm((f) => ({ ...f, ...p }))
+  }
+
+  function toggleModule(k: ModuleKey) {
+    setForm((f) => {
+      if (f.modules.includes(k)) {
+        const drop = new Set<ModuleKey>([k, ...moduleDependents(k)])
+        return { ...f, modules: f.modules.filter((x) => !drop.has(x)) }
+      }
+      const add = [...moduleRequires(k), k].filter((x) => x !== "core" && !f.modules.includes(x))
+      return { ...f, modules: [...f.modules, ...add] }
+    })
+  }
+
+  function patchUser(i: number, p: Partial<FirstUser>) {
+    setForm((f) => ({ ...f, users: f.users.map((u, idx) => (idx === i ? { ...u, ...p } : u)) }))
+  }
+
+  async function submit() {
+    setSubmitting(true)
+    try {
+      const r = await fetch("/api/admin/core/empresas/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          nome: form.nome,
+          slug: form.slug || undefined,
+          display_name: form.display_name || undefined,
+          locale: form.locale,
+          currency: form.currency,
+          timezone: form.timezone,
+          modules: form.modules,
+          users: form.users.map((u) => ({ email: u.email, role: u.role, display_name: u.display_name || undefined })),
+        }),
+      })
+      const j = (await r.json().catch(() => null)) as CreateResp | null
+      if (!r.ok || !j || j.ok !== true) throw new Error(errMsg(j, "Falha ao criar empresa."))
+
+      const failed = (j.invites ?? []).filter((x) => !x.ok)
+      if (failed.length) {
+        showToast({
+          kind: "info",
+          msg: `Empresa criada. ${failed.length} convite(s) por enviar: ${failed.map((x) => x.email).join(", ")}`,
+        })
+      } else {
+        showToast({ kind: "ok", msg: `Empresa "${form.nome}" criada.` })
+      }
+
+      // recarrega o AdmShell (lista de empresas + empresa ativa nova)
+      setTimeout(() => window.location.assign("/adm"), 900)
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+      setSubmitting(false)
+    }
+  }
+
+  if (allowed === null) {
+    return <div className="p-4 md:p-6 max-w-3xl mx-auto text-sm text-slate-400">A carregar…</div>
+  }
+
+  if (!allowed) {
+    return (
+      <div className="p-4 md:p-6 max-w-3xl mx-auto">
+        <h1 className="text-2xl font-semibold text-slate-50">Nova empresa</h1>
+        <div className="mt-4 rounded-lg border border-red-900/60 bg-red-950/30 p-3">
+          <p className="text-sm text-red-200">Apenas administradores podem criar novas empresas.</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 md:p-6 max-w-3xl mx-auto">
+      <h1 className="text-2xl font-semibold text-slate-50">Nova empresa</h1>
+      <p className="mt-2 text-sm text-slate-400">
+        Configure a empresa em poucos passos. Fica como administrador e a empresa passa a ser a empresa ativa.
+      </p>
+
+      {/* Passos */}
+      <ol className="mt-6 flex flex-wrap gap-2">
+        {STEPS.map((label, i) => (
+          <li
+            key={label}
+            className={classNames(
+              "rounded-full border px-3 py-1 text-xs",
+              i === step
+                ? "border-slate-600 bg-slate-900 text-slate-50"
+                : i < step
+                  ? "border-emerald-800 text-emerald-200"
+                  : "border-slate-800 text-slate-500"
+            )}
+          >
+            {i + 1}. {label}
+          </li>
+        ))}
+      </ol>
+
+      <div className="mt-4 rounded-xl border border-slate-800 bg-slate-950 p-4 space-y-4">
+        {step === 0 ? (
+          <>
+            <label className="block">
+              <span className="text-sm text-slate-300">Nome da empresa</span>
+              <input className={inputCls} value={form.nome} onChange={(e) => patch({ nome: e.target.value })} />
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-300">Identificador (opcional)</span>
+              <input
+                className={inputCls}
+                value={form.slug}
+                placeholder="gerado a partir do nome"
+                onChange={(e) => patch({ slug: e.target.value })}
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-300">O seu nome nesta empresa (opcional)</span>
+              <input
+                className={inputCls}
+                value={form.display_name}
+                onChange={(e) => patch({ display_name: e.target.value })}
+              />
+            </label>
+          </>
+        ) : null}
+
+        {step === 1 ? (
+          <>
+            <label className="block">
+              <span className="text-sm text-slate-300">Idioma / formato</span>
+              <select className={inputCls} value={form.locale} onChange={(e) => patch({ locale: e.target.value })}>
+                {LOCALES.map((l) => (
+                  <option key={l.value} value={l.value}>
+                    {l.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-300">Moeda</span>
+              <select className={inputCls} value={form.currency} onChange={(e) => patch({ currency: e.target.value })}>
+                {CURRENCIES.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-300">Fuso horário</span>
+              <select className={inputCls} value={form.timezone} onChange={(e) => patch({ timezone: e.target.value })}>
+                {TIMEZONES.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        ) : null}
+
+        {step === 2 ? (
+          <ul className="space-y-2">
+            {MODULE_ORDER.map((k) => {
+              const meta = MODULES[k]
+              const locked = Boolean(meta?.locked)
+              const implemented = Boolean(meta?.implemented)
+              const checked = locked || form.modules.includes(k)
+              return (
+                <li key={k} className="flex items-center justify-between gap-3">
+                  <label className={classNames("flex items-center gap-2 text-sm", implemented ? "text-slate-100" : "text-slate-500")}>
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      disabled={locked || !implemented}
+                      onChange={() => toggleModule(k)}
+                    />
+                    {meta?.title ?? k}
+                    {meta?.requires?.length ? (
+                      <span className="text-[11px] text-slate-500">
+                        (requer {meta.requires.map((d) => MODULES[d]?.title ?? d).join(", ")})
+                      </span>
+                    ) : null}
+                  </label>
+                  {locked ? (
+                    <span className="text-[11px] text-slate-500">Obrigatório</span>
+                  ) : !implemented ? (
+                    <span className="text-[11px] text-slate-500">Em breve</span>
+                  ) : null}
+                </li>
+              )
+            })}
+          </ul>
+        ) : null}
+
+        {step === 3 ? (
+          <>
+            <p className="text-sm text-slate-400">
+              Convide já os primeiros utilizadores (opcional). Recebem um email para aceder.
+            </p>
+            {form.users.map((u, i) => (
+              <div key={i} className="grid grid-cols-12 gap-2">
+                <input
+                  className="col-span-12 md:col-span-5 rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100"
+                  placeholder="email@exemplo.pt"
+                  type="email"
+                  value={u.email}
+                  onChange={(e) => patchUser(i, { email: e.target.value })}
+                />
+                <input
+                  className="col-span-6 md:col-span-3 rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100"
+                  placeholder="Nome (opcional)"
+                  value={u.display_name}
+                  onChange={(e) => patchUser(i, { display_name: e.target.value })}
+                />
+                <select
+                  className="col-span-4 md:col-span-3 rounded-md border border-slate-800 bg-slate-950 px-2 py-1 text-sm text-slate-100"
+                  value={u.role}
+                  onChange={(e) => patchUser(i, { role: e.target.value as Role })}
+                >
+                  {(Object.keys(ROLE_LABEL) as Role[]).map((r) => (
+                    <option key={r} value={r}>
+                      {ROLE_LABEL[r]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => patch({ users: form.users.filter((_, idx) => idx !== i) })}
+                  className="col-span-2 md:col-span-1 rounded-md border border-slate-800 bg-slate-950 px-2 py-1 text-xs text-slate-200 hover:bg-slate-900"
+                  title="Remover"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => patch({ users: [...form.users, { email: "", role: "interno", display_name: "" }] })}
+              className="rounded-md border border-slate-800 bg-slate-950 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-900"
+            >
+              + Adicionar utilizador
+            </button>
+          </>
+        ) : null}
+
+        {step === 4 ? (
+          <dl className="grid grid-cols-3 gap-y-2 text-sm">
+            <dt className="text-slate-500">Empresa</dt>
+            <dd className="col-span-2 text-slate-100">{form.nome}</dd>
+            <dt className="text-slate-500">Regional</dt>
+            <dd className="col-span-2 text-slate-100">
+              {form.locale} • {form.currency} • {form.timezone}
+            </dd>
+            <dt className="text-slate-500">Módulos</dt>
+            <dd className="col-span-2 text-slate-100">
+              {["core", ...form.modules].map((k) => MODULES[k as ModuleKey]?.title ?? k).join(", ")}
+            </dd>
+            <dt className="text-slate-500">Plano</dt>
+            <dd className="col-span-2 text-slate-100">
+              {(() => {
+                const plan = smallestPlanFor(form.modules, 1 + form.users.length)
+                return plan ? `${PLANS[plan].title} (${PLANS[plan].price_month} €/mês)` : "Nenhum plano cobre esta escolha"
+              })()}
+            </dd>
+            <dt className="text-slate-500">Convites</dt>
+            <dd className="col-span-2 text-slate-100">
+              {form.users.length ? form.users.map((u) => `${u.email} (${ROLE_LABEL[u.role]})`).join(", ") : "—"}
+            </dd>
+          </dl>
+        ) : null}
+      </div>
+
+      {stepError ? <p className="mt-3 text-xs text-amber-300">{stepError}</p> : null}
+
+      <div className="mt-4 flex items-center justify-between">
+        <button
+          onClick={() => setStep((s) => Math.max(0, s - 1))}
+          disabled={step === 0 || submitting}
+          className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100 hover:bg-slate-900 disabled:opacity-50"
+        >
+          Anterior
+        </button>
+
+        {step < STEPS.length - 1 ? (
+          <button
+            onClick={() => setStep((s) => s + 1)}
+            disabled={Boolean(stepError)}
+            className="rounded-md bg-slate-100 px-3 py-2 text-sm text-slate-900 disabled:opacity-50"
+          >
+            Seguinte
+          </button>
+        ) : (
+          <button
+            onClick={submit}
+            disabled={submitting}
+            className="rounded-md bg-slate-100 px-3 py-2 text-sm text-slate-900 disabled:opacity-50"
+          >
+            {submitting ? "A criar…" : "Criar empresa"}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
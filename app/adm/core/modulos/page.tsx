@@ -3,15 +3,24 @@
  * Moduz+ | Gestão de Módulos
  * Arquivo: app/adm/core/modulos/page.tsx
  * Módulo: Core
- * Etapa: UI List + Toggle (v3.5)
+ * Etapa: UI List + Toggle (v4.3 - tipos sem any)
  * Descrição:
- *  - Lista módulos por empresa
+ *  - Lista módulos da empresa ativa (resolvida no servidor; sem header)
  *  - Toggle com feedback, loading e tratamento de erro
  *  - Regra Moduz: não permite ativar módulos não implementados (badge "Em breve")
+ *  - Dependências (registry.requires): preview via dry_run; se houver impactados pede confirmação
+ *    e envia cascade=true; árvore de dependências no fim da página
+ *  - Trials: badge com data de fim (ou expirado); agendamentos: ativar/desativar numa data futura
+ *    ou trial de N dias (dependências pedem confirmação como no toggle); pendentes com cancelar
+ *  - Plano (components/adm/plans): módulos fora do plano levam badge e não se ativam em definitivo
+ *    (o trial continua disponível); mudar de plano em /adm/core/plano
+ *  - Módulos de manifest (modules/<key>) aparecem com badge "extensão" e cor do manifest
+ *  - Header/menu recebe o estado efetivo (components/adm/module-state), não só "enabled"
  *  - Responsivo: cards no mobile, tabela no desktop (evita sobreposição)
  *  - Auto-sync:
  *      - recarrega quando trocar empresa ("moduz:empresa-changed")
  *      - emite "moduz:modules-updated" para atualizar header/menu instantaneamente
+ *      - recarrega em silêncio quando outra sessão muda módulos ("moduz:realtime-sync")
  *  - Toast Global (via AdmShell) — não empurra layout
  * =============================================
  */
@@ -19,36 +28,98 @@
 "use client"
 
 import { useEffect, useMemo, useState } from "react"
-import { MODULES, MODULE_ORDER } from "../../../../components/adm/module-registry"
+import {
+  MODULES,
+  isModuleKey,
+  MODULE_ORDER,
+  moduleDependents,
+  type ModuleKey,
+} from "../../../../components/adm/module-registry"
+import { activeModuleKeys, isTrialExpired } from "../../../../components/adm/module-state"
+import { PLANS, isPlanKey } from "../../../../components/adm/plans"
+import type { RealtimeSyncDetail } from "../../../../components/adm/realtime-sync"
 import { useToast } from "../../../../components/ui/toast-context"
 
 type ModuleRow = {
   module_key: string
   enabled: boolean
   enabled_at: string | null
+  trial_ends_at?: string | null
+  active?: boolean
   updated_at: string | null
 }
 
+type ScheduleRow = {
+  id: string
+  module_key: string
+  enabled: boolean
+  cascade_keys: string[]
+  run_at: string
+  status: "pending" | "applied" | "cancelled" | "failed"
+  last_error: string | null
+}
+
 type ListResponse = {
+  ok: true
   empresa_id: string
   modules: ModuleRow[]
+  schedules?: ScheduleRow[]
+  plan_key?: string
+  plan_modules?: string[]
 }
 
+type PlanAction = "enable" | "disable" | "trial"
+
 type ToggleResponse =
-  | { ok: true; module: ModuleRow; audit?: string; audit_details?: string | null }
-  | { error: string; details?: string | null }
+  | { ok: true; module: ModuleRow; modules: ModuleRow[]; cascaded: ModuleKey[]; audit?: string }
+  | { ok: false; error: string; details?: string | null }
 
-function classNames(...xs: Array<string | false | null | undefined>) {
-  return xs.filter(Boolean).join(" ")
+type PreviewResponse =
+  | { ok: true; module_key: ModuleKey; enabled: boolean; impacted: ModuleKey[] }
+  | { ok: false; error: string; details?: string | null }
+
+function errMsg(j: unknown, fallback: string) {
+  const r = j as { error?: string; details?: string | null } | null
+  return r?.error ? `${r.error}${r.details ? `: ${r.details}` : ""}` : fallback
 }
 
-function getEmpresaId(): string | null {
-  try {
-    const v = window.localStorage.getItem("moduz_empresa_id")
-    return v && v.length > 10 ? v : null
-  } catch {
-    return null
-  }
+function titlesOf(keys: string[]) {
+  return keys.map((k) => MODULES[k as ModuleKey]?.title ?? k).join(", ")
+}
+
+/** Raízes = módulos sem dependências; filhos = dependentes diretos. */
+const DEP_ROOTS: ModuleKey[] = MODULE_ORDER.filter((k) => !(MODULES[k].requires ?? []).length)
+
+function directDependents(k: ModuleKey): ModuleKey[] {
+  return MODULE_ORDER.filter((x) => (MODULES[x].requires ?? []).includes(k))
+}
+
+/** datetime-local (hora local) para daqui a 1 dia, arredondado à hora */
+function defaultRunAt() {
+  const d = new Date(Date.now() + 24 * 60 * 60 * 1000)
+  d.setMinutes(0, 0, 0)
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:00`
+}
+
+function TrialBadge({ row }: { row: ModuleRow }) {
+  if (!row.enabled || !row.trial_ends_at) return null
+  const expired = isTrialExpired(row)
+  return (
+    <span
+      className={classNames(
+        "rounded-md border px-2 py-0.5 text-[11px]",
+        expired ? "border-red-900/60 bg-red-950/30 text-red-200" : "border-amber-800 bg-amber-500/10 text-amber-200"
+      )}
+      title={formatDt(row.trial_ends_at)}
+    >
+      {expired ? "trial expirado" : `trial até ${formatDt(row.trial_ends_at)}`}
+    </span>
+  )
+}
+
+function classNames(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ")
 }
 
 function formatDt(v: string | null) {
@@ -77,7 +148,7 @@ const MODULE_COLOR_HEX: Record<string, string> = {
 }
 
 function getModuleDotStyle(moduleKey: string, enabled: boolean): React.CSSProperties {
-  const color = MODULE_COLOR_HEX[moduleKey] ?? "#64748b"
+  const color = MODULE_COLOR_HEX[moduleKey] ?? MODULES[moduleKey as ModuleKey]?.color ?? "#64748b"
   return { backgroundColor: color, opacity: enabled ? 1 : 0.35 }
 }
 
@@ -109,29 +180,33 @@ export default function ModulosPage() {
     return MODULE_ORDER.map((k) => map.get(k)).filter(Boolean) as ModuleRow[]
   }, [rows])
 
+  const [schedules, setSchedules] = useState<ScheduleRow[]>([])
+  const [planKey, setPlanKey] = useState<string>("")
+  const [planAction, setPlanAction] = useState<PlanAction>("enable")
+  const [planRunAt, setPlanRunAt] = useState<string>(defaultRunAt)
+  const [planDays, setPlanDays] = useState<string>("14")
+  const [planBusy, setPlanBusy] = useState(false)
+
+  // plano da assinatura (null = desconhecido -> sem restrição na UI; a API valida sempre)
+  const [subPlanKey, setSubPlanKey] = useState<string | null>(null)
+  const [planModules, setPlanModules] = useState<string[] | null>(null)
+
+  function outsidePlan(key: string) {
+    return Boolean(planModules) && !planModules!.includes(key)
+  }
+
   function syncHeaderFrom(nextRows: ModuleRow[], eid: string) {
-    const enabled = nextRows.filter((m) => m.enabled).map((m) => m.module_key)
-    const keys = Array.from(new Set(["core", ...enabled]))
-    emitModulesUpdated(eid, keys)
+    emitModulesUpdated(eid, activeModuleKeys(nextRows))
   }
 
-  async function load(forceEmpresaId?: string | null) {
-    setLoading(true)
+  /** silent = sem "A carregar…" (refresh vindo de outra sessão) */
+  async function load(opts: { silent?: boolean } = {}) {
+    if (!opts.silent) setLoading(true)
     setErr(null)
 
     try {
-      const eid = forceEmpresaId ?? getEmpresaId()
-      setEmpresaId(eid)
-
-      if (!eid) {
-        setRows([])
-        setErr("Empresa não definida.")
-        return
-      }
-
       const r = await fetch("/api/admin/core/modules/list", {
         method: "GET",
-        headers: { "x-empresa-id": eid },
         credentials: "include",
       })
 
@@ -149,8 +224,12 @@ export default function ModulosPage() {
 
       const data = j as ListResponse
       const next = Array.isArray(data.modules) ? data.modules : []
+      setEmpresaId(data.empresa_id ?? null)
       setRows(next)
-      syncHeaderFrom(next, eid)
+      setSchedules(Array.isArray(data.schedules) ? data.schedules : [])
+      setSubPlanKey(data.plan_key ?? null)
+      setPlanModules(Array.isArray(data.plan_modules) ? data.plan_modules : null)
+      syncHeaderFrom(next, data.empresa_id)
     } catch (e: any) {
       setErr(e?.message || "Erro inesperado ao carregar.")
       setRows([])
@@ -165,7 +244,7 @@ export default function ModulosPage() {
       return
     }
 
-    const meta = MODULES[module_key]
+    const meta = isModuleKey(module_key) ? MODULES[module_key] : null
     const locked = Boolean(meta?.locked)
     const implemented = Boolean(meta?.implemented)
 
@@ -179,11 +258,50 @@ export default function ModulosPage() {
       return
     }
 
+    if (enabled && outsidePlan(module_key)) {
+      showToast({ kind: "info", msg: "Módulo fora do plano atual: mude de plano ou inicie um trial." })
+      return
+    }
+
     setBusyKey(module_key)
 
+    // 1) preview: que módulos arrastam (dependências a ativar / dependentes a desativar)
+    let impacted: ModuleKey[] = []
+    try {
+      const r = await fetch("/api/admin/core/modules/toggle", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ module_key, enabled, dry_run: true }),
+      })
+      const j = (await r.json().catch(() => null)) as PreviewResponse | null
+      if (!r.ok || !j || j.ok !== true) {
+        showToast({ kind: "err", msg: errMsg(j, "Falha ao validar dependências.") })
+        setBusyKey(null)
+        return
+      }
+      impacted = j.impacted ?? []
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+      setBusyKey(null)
+      return
+    }
+
+    if (impacted.length) {
+      const msg = enabled
+        ? `Ativar ${titlesOf([module_key])} também ativa: ${titlesOf(impacted)}. Continuar?`
+        : `Desativar ${titlesOf([module_key])} também desativa: ${titlesOf(impacted)}. Continuar?`
+      if (!window.confirm(msg)) {
+        setBusyKey(null)
+        return
+      }
+    }
+
+    const touched = new Set<string>([module_key, ...impacted])
+
     // otimista + sync header
     setRows((prev) => {
-      const next = prev.map((r) => (r.module_key === module_key ? { ...r, enabled } : r))
+      const next = prev.map((r) => (touched.has(r.module_key) ? { ...r, enabled } : r))
       syncHeaderFrom(next, empresaId)
       return next
     })
@@ -191,36 +309,33 @@ export default function ModulosPage() {
     try {
       const r = await fetch("/api/admin/core/modules/toggle", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-empresa-id": empresaId,
-        },
+        headers: { "Content-Type": "application/json" },
         credentials: "include",
-        body: JSON.stringify({ module_key, enabled }),
+        body: JSON.stringify({ module_key, enabled, cascade: impacted.length > 0 }),
       })
 
       const j = (await r.json().catch(() => null)) as ToggleResponse | null
 
-      if (!r.ok || !j) throw new Error((j as any)?.error || "Falha ao atualizar módulo.")
+      if (!r.ok || !j) throw new Error(errMsg(j, "Falha ao atualizar módulo."))
 
       if ("ok" in j && j.ok === true) {
+        const byKey = new Map((j.modules ?? []).map((m) => [m.module_key, m]))
         setRows((prev) => {
-          const next = prev.map((x) => (x.module_key === module_key ? j.module : x))
+          const next = prev.map((x) => byKey.get(x.module_key) ?? x)
           syncHeaderFrom(next, empresaId)
           return next
         })
 
-        showToast({ kind: "ok", msg: `Módulo "${module_key}" atualizado.` })
+        const extra = j.cascaded?.length ? ` (+ ${titlesOf(j.cascaded)})` : ""
+        showToast({ kind: "ok", msg: `Módulo "${module_key}" atualizado${extra}.` })
         return
       }
 
-      throw new Error((j as any)?.error || "Falha ao atualizar módulo.")
+      throw new Error(errMsg(j, "Falha ao atualizar módulo."))
     } catch (e: any) {
       // rollback + sync header
       setRows((prev) => {
-        const next = prev.map((r) =>
-          r.module_key === module_key ? { ...r, enabled: !enabled } : r
-        )
+        const next = prev.map((r) => (touched.has(r.module_key) ? { ...r, enabled: !enabled } : r))
         syncHeaderFrom(next, empresaId)
         return next
       })
@@ -231,6 +346,90 @@ export default function ModulosPage() {
     }
   }
 
+  async function postPlan(url: string, payload: Record<string, unknown>) {
+    const r = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(payload),
+    })
+    const j = (await r.json().catch(() => null)) as any
+    return { ok: r.ok && j?.ok === true, j }
+  }
+
+  async function submitPlan() {
+    const key = planKey as ModuleKey
+    if (!MODULES[key]) {
+      showToast({ kind: "err", msg: "Escolha um módulo." })
+      return
+    }
+
+    let url: string
+    let payload: Record<string, unknown>
+    if (planAction === "trial") {
+      url = "/api/admin/core/modules/trial/start"
+      payload = { module_key: key, days: Number(planDays) }
+    } else {
+      const runAt = new Date(planRunAt)
+      if (Number.isNaN(runAt.getTime())) {
+        showToast({ kind: "err", msg: "Data inválida." })
+        return
+      }
+      url = "/api/admin/core/modules/schedules/create"
+      payload = { module_key: key, enabled: planAction === "enable", run_at: runAt.toISOString() }
+    }
+
+    setPlanBusy(true)
+    try {
+      let res = await postPlan(url, payload)
+
+      // dependências: confirma e repete com cascade (mesma regra do toggle)
+      if (!res.ok && res.j?.error === "MODULE_DEPENDENCIES") {
+        const impacted = String(res.j?.details ?? "").split(",").filter(Boolean)
+        const msg =
+          planAction === "disable"
+            ? `Desativar ${titlesOf([key])} também desativa: ${titlesOf(impacted)}. Continuar?`
+            : `${titlesOf([key])} requer: ${titlesOf(impacted)} (entram também). Continuar?`
+        if (!window.confirm(msg)) return
+        res = await postPlan(url, { ...payload, cascade: true })
+      }
+
+      if (!res.ok) {
+        showToast({ kind: "err", msg: errMsg(res.j, "Falha ao agendar.") })
+        return
+      }
+
+      showToast({
+        kind: "ok",
+        msg:
+          planAction === "trial"
+            ? `Trial de ${titlesOf([key])} ativo até ${formatDt(res.j.trial_ends_at)}.`
+            : `Agendado para ${formatDt(res.j.schedule?.run_at ?? null)}.`,
+      })
+      await load()
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    } finally {
+      setPlanBusy(false)
+    }
+  }
+
+  async function cancelSchedule(s: ScheduleRow) {
+    if (!window.confirm(`Cancelar agendamento de ${titlesOf([s.module_key])} (${formatDt(s.run_at)})?`)) return
+
+    try {
+      const res = await postPlan("/api/admin/core/modules/schedules/cancel", { schedule_id: s.id })
+      if (!res.ok) {
+        showToast({ kind: "err", msg: errMsg(res.j, "Falha ao cancelar.") })
+        return
+      }
+      setSchedules((prev) => prev.filter((x) => x.id !== s.id))
+      showToast({ kind: "ok", msg: "Agendamento cancelado." })
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    }
+  }
+
   useEffect(() => {
     load()
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -242,7 +441,7 @@ export default function ModulosPage() {
       const detail = (ev as CustomEvent)?.detail as { empresa_id?: string } | undefined
       const eid = detail?.empresa_id ?? null
       if (!eid) return
-      load(eid)
+      load()
     }
 
     window.addEventListener("moduz:empresa-changed", onEmpresaChanged as any)
@@ -250,6 +449,19 @@ export default function ModulosPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  // módulos alterados noutra sessão/tab
+  useEffect(() => {
+    const onSync = (ev: Event) => {
+      const detail = (ev as CustomEvent<RealtimeSyncDetail>)?.detail
+      if (detail?.table !== "modules_enabled") return
+      load({ silent: true })
+    }
+
+    window.addEventListener("moduz:realtime-sync", onSync as EventListener)
+    return () => window.removeEventListener("moduz:realtime-sync", onSync as EventListener)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
   return (
     <div className="p-4 md:p-6 max-w-5xl mx-auto">
       <div className="flex items-start justify-between gap-4">
@@ -258,6 +470,14 @@ export default function ModulosPage() {
           <p className="mt-2 text-sm text-slate-400">
             Ative ou desative módulos por empresa. O Core é obrigatório. Módulos marcados como ‘Em breve’ ainda não estão disponíveis.
           </p>
+          {subPlanKey && isPlanKey(subPlanKey) ? (
+            <p className="mt-1 text-xs text-slate-500">
+              Plano atual: <span className="text-slate-300">{PLANS[subPlanKey].title}</span> ·{" "}
+              <a href="/adm/core/plano" className="underline hover:text-slate-300">
+                mudar de plano
+              </a>
+            </p>
+          ) : null}
         </div>
 
         <button
@@ -286,7 +506,7 @@ export default function ModulosPage() {
           </div>
         ) : (
           sortedRows.map((m) => {
-            const meta = MODULES[m.module_key] ?? {
+            const meta = (isModuleKey(m.module_key) ? MODULES[m.module_key] : null) ?? {
               title: m.module_key,
               desc: "—",
               implemented: false,
@@ -296,7 +516,8 @@ export default function ModulosPage() {
             const locked = Boolean(meta.locked)
             const implemented = Boolean(meta.implemented)
 
-            const disableToggle = locked || isBusy || !implemented
+            const offPlan = outsidePlan(m.module_key)
+            const disableToggle = locked || isBusy || !implemented || (offPlan && !m.enabled)
 
             return (
               <div key={m.module_key} className="rounded-xl border border-slate-800 bg-slate-950 p-4">
@@ -321,10 +542,25 @@ export default function ModulosPage() {
                           em breve
                         </span>
                       ) : null}
+                      {meta.manifest ? (
+                        <span className="rounded-md border border-sky-900/60 bg-sky-950/30 px-2 py-0.5 text-[11px] text-sky-200">
+                          extensão
+                        </span>
+                      ) : null}
+                      <TrialBadge row={m} />
+                      {offPlan ? (
+                        <span className="rounded-md border border-slate-800 bg-slate-900 px-2 py-0.5 text-[11px] text-slate-400">
+                          fora do plano
+                        </span>
+                      ) : null}
                     </div>
 
                     <p className="mt-2 text-sm text-slate-400">{meta.desc}</p>
 
+                    {meta.requires?.length ? (
+                      <p className="mt-1 text-xs text-slate-500">Requer: {titlesOf(meta.requires)}</p>
+                    ) : null}
+
                     <p className="mt-2 text-xs text-slate-500 font-mono">
                       Atualizado: {formatDt(m.updated_at)}
                     </p>
@@ -341,7 +577,15 @@ export default function ModulosPage() {
                       m.enabled ? "bg-emerald-500/20 border-emerald-700" : "bg-slate-900 border-slate-700"
                     )}
                     aria-label={`Toggle ${m.module_key}`}
-                    title={locked ? "Obrigatório" : !implemented ? "Em breve" : "Ativar/desativar"}
+                    title={
+                      locked
+                        ? "Obrigatório"
+                        : !implemented
+                          ? "Em breve"
+                          : offPlan && !m.enabled
+                            ? "Fora do plano (disponível em trial)"
+                            : "Ativar/desativar"
+                    }
                   >
                     <span
                       className={classNames(
@@ -373,7 +617,7 @@ export default function ModulosPage() {
         ) : (
           <ul>
             {sortedRows.map((m) => {
-              const meta = MODULES[m.module_key] ?? {
+              const meta = (isModuleKey(m.module_key) ? MODULES[m.module_key] : null) ?? {
                 title: m.module_key,
                 desc: "—",
                 implemented: false,
@@ -383,7 +627,8 @@ export default function ModulosPage() {
               const locked = Boolean(meta.locked)
               const implemented = Boolean(meta.implemented)
 
-              const disableToggle = locked || isBusy || !implemented
+              const offPlan = outsidePlan(m.module_key)
+              const disableToggle = locked || isBusy || !implemented || (offPlan && !m.enabled)
 
               return (
                 <li
@@ -414,11 +659,35 @@ export default function ModulosPage() {
                         </span>
                       ) : null}
 
+                      {meta.manifest ? (
+                        <span className="rounded-md border border-sky-900/60 bg-sky-950/30 px-2 py-0.5 text-[11px] text-sky-200">
+                          extensão
+                        </span>
+                      ) : null}
+
+                      <TrialBadge row={m} />
+
+                      {offPlan ? (
+                        <span className="rounded-md border border-slate-800 bg-slate-900 px-2 py-0.5 text-[11px] text-slate-400">
+                          fora do plano
+                        </span>
+                      ) : null}
+
                       {isBusy ? <span className="text-[11px] text-slate-400">a atualizar…</span> : null}
                     </div>
                   </div>
 
-                  <div className="col-span-4 text-sm text-slate-400">{meta.desc}</div>
+                  <div className="col-span-4 text-sm text-slate-400">
+                    {meta.desc}
+                    {meta.requires?.length ? (
+                      <div className="mt-1 text-xs text-slate-500">Requer: {titlesOf(meta.requires)}</div>
+                    ) : null}
+                    {moduleDependents(m.module_key as ModuleKey).length ? (
+                      <div className="mt-1 text-xs text-slate-500">
+                        Necessário para: {titlesOf(moduleDependents(m.module_key as ModuleKey))}
+                      </div>
+                    ) : null}
+                  </div>
 
                   <div className="col-span-2 text-xs text-slate-400 font-mono">
                     {formatDt(m.updated_at)}
@@ -434,7 +703,15 @@ export default function ModulosPage() {
                         m.enabled ? "bg-emerald-500/20 border-emerald-700" : "bg-slate-900 border-slate-700"
                       )}
                       aria-label={`Toggle ${m.module_key}`}
-                      title={locked ? "Obrigatório" : !implemented ? "Em breve" : "Ativar/desativar"}
+                      title={
+                        locked
+                          ? "Obrigatório"
+                          : !implemented
+                            ? "Em breve"
+                            : offPlan && !m.enabled
+                              ? "Fora do plano (disponível em trial)"
+                              : "Ativar/desativar"
+                      }
                     >
                       <span
                         className={classNames(
@@ -450,6 +727,139 @@ export default function ModulosPage() {
           </ul>
         )}
       </div>
+
+      {/* Agendamentos + trials */}
+      <div className="mt-6 rounded-xl border border-slate-800 bg-slate-950 p-4">
+        <h2 className="text-sm font-semibold text-slate-100">Agendamentos e trials</h2>
+        <p className="mt-1 text-xs text-slate-500">
+          Ative ou desative um módulo numa data futura, ou conceda um trial que expira sozinho.
+        </p>
+
+        <div className="mt-3 flex flex-wrap items-end gap-2">
+          <label className="text-xs text-slate-400">
+            Módulo
+            <select
+              value={planKey}
+              onChange={(e) => setPlanKey(e.target.value)}
+              className="mt-1 block rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100"
+            >
+              <option value="">—</option>
+              {MODULE_ORDER.filter((k) => MODULES[k].implemented && !MODULES[k].locked).map((k) => (
+                <option key={k} value={k}>
+                  {MODULES[k].title}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="text-xs text-slate-400">
+            Ação
+            <select
+              value={planAction}
+              onChange={(e) => setPlanAction(e.target.value as PlanAction)}
+              className="mt-1 block rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100"
+            >
+              <option value="enable">Ativar em</option>
+              <option value="disable">Desativar em</option>
+              <option value="trial">Trial (dias)</option>
+            </select>
+          </label>
+
+          {planAction === "trial" ? (
+            <label className="text-xs text-slate-400">
+              Dias
+              <input
+                type="number"
+                min={1}
+                max={90}
+                value={planDays}
+                onChange={(e) => setPlanDays(e.target.value)}
+                className="mt-1 block w-24 rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100"
+              />
+            </label>
+          ) : (
+            <label className="text-xs text-slate-400">
+              Data
+              <input
+                type="datetime-local"
+                value={planRunAt}
+                onChange={(e) => setPlanRunAt(e.target.value)}
+                className="mt-1 block rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100"
+              />
+            </label>
+          )}
+
+          <button
+            onClick={() => submitPlan()}
+            disabled={planBusy || !planKey}
+            className="rounded-md border border-slate-800 bg-slate-900 px-3 py-2 text-sm text-slate-100 hover:bg-slate-800 disabled:opacity-60"
+          >
+            {planBusy ? "A guardar…" : planAction === "trial" ? "Iniciar trial" : "Agendar"}
+          </button>
+        </div>
+
+        {schedules.length ? (
+          <ul className="mt-4 divide-y divide-slate-900 text-sm">
+            {schedules.map((s) => (
+              <li key={s.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                <div className="min-w-0">
+                  <span className="text-slate-100">{s.enabled ? "Ativar" : "Desativar"} {titlesOf([s.module_key])}</span>
+                  {s.cascade_keys?.length ? (
+                    <span className="text-xs text-slate-500"> (+ {titlesOf(s.cascade_keys)})</span>
+                  ) : null}
+                  <span className="ml-2 font-mono text-xs text-slate-400">{formatDt(s.run_at)}</span>
+                  {s.status === "failed" ? (
+                    <span className="ml-2 text-xs text-red-300">falhou: {s.last_error ?? "—"}</span>
+                  ) : null}
+                </div>
+                <button
+                  onClick={() => cancelSchedule(s)}
+                  className="rounded-md border border-slate-800 bg-slate-950 px-2 py-1 text-xs text-slate-300 hover:bg-slate-900"
+                >
+                  Cancelar
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-4 text-xs text-slate-500">Sem agendamentos pendentes.</p>
+        )}
+      </div>
+
+      {/* Árvore de dependências (registry) */}
+      <div className="mt-6 rounded-xl border border-slate-800 bg-slate-950 p-4">
+        <h2 className="text-sm font-semibold text-slate-100">Dependências</h2>
+        <p className="mt-1 text-xs text-slate-500">
+          Um módulo só pode estar ativo com as dependências ativas. Desativar uma dependência desativa os dependentes.
+        </p>
+        <ul className="mt-3 space-y-1 text-sm">
+          {DEP_ROOTS.map((k) => (
+            <DepNode key={k} k={k} rows={rows} depth={0} />
+          ))}
+        </ul>
+      </div>
     </div>
   )
 }
+
+function DepNode({ k, rows, depth }: { k: ModuleKey; rows: ModuleRow[]; depth: number }) {
+  const enabled = Boolean(rows.find((r) => r.module_key === k)?.enabled)
+  const children = directDependents(k)
+  return (
+    <li>
+      <div className="flex items-center gap-2" style={{ paddingLeft: depth * 20 }}>
+        {depth > 0 ? <span className="text-slate-600">└</span> : null}
+        <div className="h-2 w-2 rounded-full" style={getModuleDotStyle(k, enabled)} />
+        <span className={enabled ? "text-slate-100" : "text-slate-500"}>{MODULES[k].title}</span>
+        <span className="font-mono text-[11px] text-slate-600">{k}</span>
+      </div>
+      {children.length ? (
+        <ul className="mt-1 space-y-1">
+          {children.map((c) => (
+            <DepNode key={c} k={c} rows={rows} depth={depth + 1} />
+          ))}
+        </ul>
+      ) : null}
+    </li>
+  )
+}
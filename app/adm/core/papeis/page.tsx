@@ -0,0 +1,443 @@
+/**
+ * =============================================
+ * Moduz+ | Core - Papéis e Permissões
+ * Arquivo: app/adm/core/papeis/page.tsx
+ * Módulo: Core
+ * Etapa: UI Roles + Atribuições (v1.1 - tipos sem any)
+ * Descrição:
+ *  - Lista/cria/edita/remove roles da empresa (permissões por módulo)
+ *  - Atribui roles a cada profile (interno/externo; admin tem tudo)
+ *  - Empresa ativa resolvida no servidor (sem header); recarrega ao trocar ("moduz:empresa-changed")
+ *  - Toast global (AdmShell)
+ * =============================================
+ */
+
+"use client"
+
+import { useEffect, useState } from "react"
+import { useToast } from "../../../../components/ui/toast-context"
+
+type PermissionDef = { key: string; label: string }
+
+type RoleRow = {
+  id: string
+  key: string
+  nome: string
+  descricao: string | null
+  permissions: string[]
+  created_at: string
+  updated_at: string
+}
+
+type ProfileRow = {
+  id: string
+  user_id: string
+  display_name: string | null
+  role: string
+  ativo: boolean
+  role_ids: string[]
+}
+
+type CatalogEntry = { module_key: string; title: string; permissions: PermissionDef[] }
+
+type ListResp =
+  | { ok: true; empresa_id: string; roles: RoleRow[]; profiles: ProfileRow[]; catalog: CatalogEntry[] }
+  | { ok: false; error: string; details?: string | null }
+
+type Draft = {
+  id: string | null
+  key: string
+  nome: string
+  descricao: string
+  permissions: string[]
+}
+
+const EMPTY_DRAFT: Draft = { id: null, key: "", nome: "", descricao: "", permissions: [] }
+
+function classNames(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ")
+}
+
+function shortId(v: string | null) {
+  if (!v) return "—"
+  if (v.length <= 12) return v
+  return `${v.slice(0, 8)}…${v.slice(-4)}`
+}
+
+function errMsg(j: unknown, fallback: string) {
+  const r = j as { error?: string; details?: string | null } | null
+  return r?.error ? `${r.error}${r.details ? `: ${r.details}` : ""}` : fallback
+}
+
+export default function CorePapeisPage() {
+  const { showToast } = useToast()
+
+  const [empresaId, setEmpresaId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+
+  const [roles, setRoles] = useState<RoleRow[]>([])
+  const [profiles, setProfiles] = useState<ProfileRow[]>([])
+  const [catalog, setCatalog] = useState<CatalogEntry[]>([])
+
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT)
+  const [saving, setSaving] = useState(false)
+  const [busyProfileId, setBusyProfileId] = useState<string | null>(null)
+
+  async function load() {
+    setLoading(true)
+    setErr(null)
+
+    try {
+      const r = await fetch("/api/admin/core/roles/list", {
+        method: "GET",
+        credentials: "include",
+      })
+      const j = (await r.json().catch(() => null)) as ListResp | null
+      if (!r.ok || !j || j.ok !== true) {
+        setErr(errMsg(j, "Falha ao carregar papéis."))
+        setRoles([])
+        setProfiles([])
+        return
+      }
+
+      setEmpresaId(j.empresa_id ?? null)
+      setRoles(j.roles ?? [])
+      setProfiles(j.profiles ?? [])
+      setCatalog(j.catalog ?? [])
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Erro inesperado ao carregar papéis.")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function togglePermission(key: string) {
+    setDraft((d) => ({
+      ...d,
+      permissions: d.permissions.includes(key) ? d.permissions.filter((p) => p !== key) : [...d.permissions, key],
+    }))
+  }
+
+  async function saveRole() {
+    if (!empresaId) return
+    setSaving(true)
+    try {
+      const r = await fetch("/api/admin/core/roles/upsert", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          id: draft.id,
+          key: draft.key,
+          nome: draft.nome,
+          descricao: draft.descricao || null,
+          permissions: draft.permissions,
+        }),
+      })
+      const j = await r.json().catch(() => null)
+      if (!r.ok || !j || j.ok !== true) throw new Error(errMsg(j, "Falha ao guardar papel."))
+
+      showToast({ kind: "ok", msg: `Papel "${draft.nome}" guardado.` })
+      setDraft(EMPTY_DRAFT)
+      await load()
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function deleteRole(role: RoleRow) {
+    if (!empresaId) return
+    if (!window.confirm(`Remover o papel "${role.nome}"? As atribuições serão removidas.`)) return
+
+    try {
+      const r = await fetch("/api/admin/core/roles/delete", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ role_id: role.id }),
+      })
+      const j = await r.json().catch(() => null)
+      if (!r.ok || !j || j.ok !== true) throw new Error(errMsg(j, "Falha ao remover papel."))
+
+      showToast({ kind: "ok", msg: `Papel "${role.nome}" removido.` })
+      if (draft.id === role.id) setDraft(EMPTY_DRAFT)
+      await load()
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    }
+  }
+
+  async function assign(profile: ProfileRow, roleId: string) {
+    if (!empresaId) return
+    const next = profile.role_ids.includes(roleId)
+      ? profile.role_ids.filter((x) => x !== roleId)
+      : [...profile.role_ids, roleId]
+
+    setBusyProfileId(profile.id)
+    try {
+      const r = await fetch("/api/admin/core/roles/assign", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ profile_id: profile.id, role_ids: next }),
+      })
+      const j = await r.json().catch(() => null)
+      if (!r.ok || !j || j.ok !== true) throw new Error(errMsg(j, "Falha ao atribuir papéis."))
+
+      setProfiles((prev) => prev.map((p) => (p.id === profile.id ? { ...p, role_ids: next } : p)))
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    } finally {
+      setBusyProfileId(null)
+    }
+  }
+
+  useEffect(() => {
+    load()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  useEffect(() => {
+    const onEmpresaChanged = () => {
+      setDraft(EMPTY_DRAFT)
+      load()
+    }
+    window.addEventListener("moduz:empresa-changed", onEmpresaChanged as EventListener)
+    return () => window.removeEventListener("moduz:empresa-changed", onEmpresaChanged as EventListener)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  return (
+    <div className="p-4 md:p-6 max-w-6xl mx-auto">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-50">Papéis e Permissões</h1>
+          <p className="mt-2 text-sm text-slate-400">
+            Defina conjuntos de permissões por módulo e atribua-os aos utilizadores da empresa. Administradores têm
+            todas as permissões. Sem papéis atribuídos, aplicam-se as permissões base (ver e enviar documentos).
+          </p>
+        </div>
+
+        <button
+          onClick={() => load()}
+          className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100 hover:bg-slate-900"
+        >
+          Atualizar
+        </button>
+      </div>
+
+      {err ? (
+        <div className="mt-4 rounded-lg border border-red-900/60 bg-red-950/30 p-3">
+          <p className="text-sm text-red-200">{err}</p>
+        </div>
+      ) : null}
+
+      <div className="mt-6 grid gap-4 md:grid-cols-2">
+        {/* Lista de papéis */}
+        <div className="rounded-xl border border-slate-800 bg-slate-950 p-4">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-sm font-semibold text-slate-100">Papéis</h2>
+            <button
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="rounded-md border border-slate-800 bg-slate-950 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-900"
+            >
+              Novo papel
+            </button>
+          </div>
+
+          {loading ? (
+            <p className="mt-3 text-sm text-slate-400">A carregar…</p>
+          ) : roles.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-400">Ainda não existem papéis nesta empresa.</p>
+          ) : (
+            <ul className="mt-3 space-y-2">
+              {roles.map((r) => (
+                <li
+                  key={r.id}
+                  className={classNames(
+                    "rounded-lg border p-3",
+                    draft.id === r.id ? "border-slate-700 bg-slate-900" : "border-slate-800 bg-slate-950/60"
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-slate-100">{r.nome}</span>
+                        <span className="rounded-md border border-slate-800 bg-slate-900 px-2 py-0.5 text-[11px] text-slate-300 font-mono">
+                          {r.key}
+                        </span>
+                      </div>
+                      {r.descricao ? <p className="mt-1 text-xs text-slate-400">{r.descricao}</p> : null}
+                      <p className="mt-1 text-[11px] text-slate-500 font-mono">
+                        {r.permissions.length ? r.permissions.join(", ") : "sem permissões"}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button
+                        onClick={() =>
+                          setDraft({
+                            id: r.id,
+                            key: r.key,
+                            nome: r.nome,
+                            descricao: r.descricao ?? "",
+                            permissions: [...r.permissions],
+                          })
+                        }
+                        className="rounded-md border border-slate-800 bg-slate-950 px-2 py-1 text-xs text-slate-200 hover:bg-slate-900"
+                      >
+                        Editar
+                      </button>
+                      <button
+                        onClick={() => deleteRole(r)}
+                        className="rounded-md border border-red-900/60 bg-red-950/30 px-2 py-1 text-xs text-red-200 hover:bg-red-950/50"
+                      >
+                        Remover
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Editor */}
+        <div className="rounded-xl border border-slate-800 bg-slate-950 p-4">
+          <h2 className="text-sm font-semibold text-slate-100">{draft.id ? "Editar papel" : "Novo papel"}</h2>
+
+          <div className="mt-3 grid gap-3 sm:grid-cols-2">
+            <label className="block">
+              <span className="text-xs text-slate-400">Chave</span>
+              <input
+                className="mt-1 w-full rounded-md border border-slate-800 bg-slate-900 px-3 py-2 text-sm text-slate-100 font-mono"
+                value={draft.key}
+                onChange={(e) => setDraft((d) => ({ ...d, key: e.target.value }))}
+                placeholder="financeiro"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-xs text-slate-400">Nome</span>
+              <input
+                className="mt-1 w-full rounded-md border border-slate-800 bg-slate-900 px-3 py-2 text-sm text-slate-100"
+                value={draft.nome}
+                onChange={(e) => setDraft((d) => ({ ...d, nome: e.target.value }))}
+                placeholder="Financeiro"
+              />
+            </label>
+          </div>
+
+          <label className="mt-3 block">
+            <span className="text-xs text-slate-400">Descrição</span>
+            <input
+              className="mt-1 w-full rounded-md border border-slate-800 bg-slate-900 px-3 py-2 text-sm text-slate-100"
+              value={draft.descricao}
+              onChange={(e) => setDraft((d) => ({ ...d, descricao: e.target.value }))}
+            />
+          </label>
+
+          <div className="mt-4 space-y-3">
+            {catalog.map((m) => (
+              <div key={m.module_key}>
+                <div className="text-xs font-semibold text-slate-300">{m.title}</div>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {m.permissions.map((p) => {
+                    const on = draft.permissions.includes(p.key)
+                    return (
+                      <label
+                        key={p.key}
+                        className={classNames(
+                          "inline-flex items-center gap-2 rounded-md border px-2 py-1 text-xs cursor-pointer",
+                          on ? "border-emerald-800 bg-emerald-950/30 text-emerald-200" : "border-slate-800 text-slate-300"
+                        )}
+                        title={p.key}
+                      >
+                        <input type="checkbox" checked={on} onChange={() => togglePermission(p.key)} />
+                        {p.label}
+                      </label>
+                    )
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-4 flex justify-end">
+            <button
+              onClick={saveRole}
+              disabled={saving || !draft.key || !draft.nome}
+              className="rounded-md bg-slate-100 px-3 py-2 text-sm text-slate-900 disabled:opacity-50"
+            >
+              {saving ? "A guardar…" : "Guardar papel"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Atribuições */}
+      <div className="mt-6 overflow-hidden rounded-xl border border-slate-800 bg-slate-950">
+        <div className="border-b border-slate-800 px-4 py-3 text-xs text-slate-400">Atribuições por utilizador</div>
+
+        {loading ? (
+          <div className="p-4 text-sm text-slate-400">A carregar…</div>
+        ) : profiles.length === 0 ? (
+          <div className="p-4 text-sm text-slate-400">Sem utilizadores para mostrar.</div>
+        ) : (
+          <ul>
+            {profiles.map((p) => {
+              const isAdmin = p.role === "admin"
+              const isBusy = busyProfileId === p.id
+              return (
+                <li key={p.id} className="px-4 py-3 border-b border-slate-900 last:border-b-0">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="text-sm text-slate-100">{p.display_name ?? shortId(p.user_id)}</div>
+                      <div className="text-[11px] text-slate-500 font-mono">
+                        {p.role}
+                        {p.ativo ? "" : " • inativo"}
+                      </div>
+                    </div>
+
+                    {isAdmin ? (
+                      <span className="text-xs text-slate-500">Administrador: todas as permissões</span>
+                    ) : roles.length === 0 ? (
+                      <span className="text-xs text-slate-500">Crie um papel para atribuir.</span>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {roles.map((r) => (
+                          <label
+                            key={r.id}
+                            className={classNames(
+                              "inline-flex items-center gap-2 rounded-md border border-slate-800 px-2 py-1 text-xs text-slate-300",
+                              isBusy ? "opacity-60 cursor-not-allowed" : "cursor-pointer"
+                            )}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={p.role_ids.includes(r.id)}
+                              disabled={isBusy}
+                              onChange={() => assign(p, r.id)}
+                            />
+                            {r.nome}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-4 text-xs text-slate-500">
+        Empresa: <span className="font-mono">{empresaId ?? "—"}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,313 @@
+/**
+ * =============================================
+ * Moduz+ | Plano
+ * Arquivo: app/adm/core/plano/page.tsx
+ * Módulo: Core (Plano / Entitlements)
+ * Etapa: UI Plano + Utilização (v1.2 - tipos sem any)
+ * Descrição:
+ *  - Plano atual da empresa ativa (GET /api/admin/core/billing/get) + estado da assinatura
+ *  - Utilização: lugares (ativos + convites pendentes) e storage face aos limites do plano
+ *  - Catálogo (components/adm/plans) com "Mudar para" (confirmação); downgrade recusado pela API
+ *      se o uso atual não couber (PLAN_DOWNGRADE_MODULES / SEATS / STORAGE); ativações agendadas
+ *      fora do plano novo são canceladas pela API e listadas no toast
+ *  - Auto-sync: recarrega quando trocar empresa ("moduz:empresa-changed")
+ *  - Toast Global (via AdmShell) — não empurra layout
+ * =============================================
+ */
+
+"use client"
+
+import { useEffect, useState } from "react"
+import { MODULES } from "../../../../components/adm/module-registry"
+import { PLANS, PLAN_KEYS, type PlanKey } from "../../../../components/adm/plans"
+import { useToast } from "../../../../components/ui/toast-context"
+
+type SubscriptionRow = {
+  id: string
+  plan_key: string
+  status: "active" | "trialing" | "past_due" | "canceled"
+  provider: string
+  current_period_end: string | null
+}
+
+type BillingResponse = {
+  ok: true
+  empresa_id: string
+  provider: string
+  plan_key: PlanKey
+  subscription: SubscriptionRow | null
+  usage: { seats_active: number; invites_pending: number; storage_bytes: number; seats_used: number }
+}
+
+type ChangePlanResponse =
+  | {
+      ok: true
+      plan_key: PlanKey
+      subscription: SubscriptionRow
+      cancelled_schedules?: Array<{ module_key: string }>
+      audit?: string
+    }
+  | { ok: false; error: string; details?: string | null }
+
+const STATUS_LABEL: Record<SubscriptionRow["status"], string> = {
+  active: "ativa",
+  trialing: "em período experimental",
+  past_due: "pagamento em atraso",
+  canceled: "cancelada",
+}
+
+function errMsg(j: unknown, fallback: string) {
+  const r = j as { error?: string; details?: string | null } | null
+  return r?.error ? `${r.error}${r.details ? `: ${r.details}` : ""}` : fallback
+}
+
+function classNames(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ")
+}
+
+function formatDt(v: string | null) {
+  if (!v) return "—"
+  try {
+    return new Date(v).toLocaleDateString("pt-PT")
+  } catch {
+    return v
+  }
+}
+
+function formatMb(mb: number) {
+  return mb >= 1024 ? `${(mb / 1024).toLocaleString("pt-PT", { maximumFractionDigits: 1 })} GB` : `${mb} MB`
+}
+
+function formatBytes(bytes: number) {
+  return formatMb(Math.round((bytes / (1024 * 1024)) * 10) / 10)
+}
+
+function UsageBar({ label, used, limit, text }: { label: string; used: number; limit: number | null; text: string }) {
+  const pct = limit ? Math.min(100, Math.round((used / limit) * 100)) : 0
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 text-xs">
+        <span className="text-slate-300">{label}</span>
+        <span className="text-slate-400 font-mono">{text}</span>
+      </div>
+      <div className="mt-1.5 h-2 overflow-hidden rounded-full bg-slate-900">
+        {limit ? (
+          <div
+            className={classNames("h-full rounded-full", pct >= 90 ? "bg-red-500/70" : "bg-emerald-500/60")}
+            style={{ width: `${pct}%` }}
+          />
+        ) : null}
+      </div>
+    </div>
+  )
+}
+
+export default function PlanoPage() {
+  const { showToast } = useToast()
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [data, setData] = useState<BillingResponse | null>(null)
+  const [busyPlan, setBusyPlan] = useState<PlanKey | null>(null)
+
+  async function load() {
+    setLoading(true)
+    setErr(null)
+    try {
+      const r = await fetch("/api/admin/core/billing/get", { method: "GET", credentials: "include" })
+      const j = (await r.json().catch(() => null)) as BillingResponse | null
+
+      if (!r.ok || !j) {
+        setErr(errMsg(j, "Falha ao carregar plano."))
+        setData(null)
+        return
+      }
+      setData(j)
+    } catch (e) {
+      setErr((e instanceof Error && e.message) || "Erro inesperado ao carregar.")
+      setData(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function changePlan(planKey: PlanKey) {
+    if (!window.confirm(`Mudar para o plano ${PLANS[planKey].title} (${PLANS[planKey].price_month} €/mês)?`)) return
+
+    setBusyPlan(planKey)
+    try {
+      const r = await fetch("/api/admin/core/billing/change-plan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ plan_key: planKey }),
+      })
+      const j = (await r.json().catch(() => null)) as ChangePlanResponse | null
+
+      if (!r.ok || !j || j.ok !== true) {
+        const fail = j?.ok === false ? j : null
+        const code = fail?.error
+        const details = String(fail?.details ?? "")
+        const msg =
+          code === "PLAN_DOWNGRADE_MODULES"
+            ? `Desative primeiro: ${details
+                .split(",")
+                .map((k) => MODULES[k as keyof typeof MODULES]?.title ?? k)
+                .join(", ")}.`
+            : code === "PLAN_DOWNGRADE_SEATS"
+              ? `Utilizadores acima do limite do plano (${details}).`
+              : code === "PLAN_DOWNGRADE_STORAGE"
+                ? "Armazenamento acima da quota do plano."
+                : errMsg(j, "Falha ao mudar de plano.")
+        showToast({ kind: "err", msg })
+        return
+      }
+
+      const cancelled = (j.cancelled_schedules ?? []).map(
+        (s) => MODULES[s.module_key as keyof typeof MODULES]?.title ?? s.module_key
+      )
+      showToast({
+        kind: "ok",
+        msg: cancelled.length
+          ? `Plano alterado para ${PLANS[j.plan_key].title}. Agendamentos cancelados (fora do plano): ${cancelled.join(", ")}.`
+          : `Plano alterado para ${PLANS[j.plan_key].title}.`,
+      })
+      load()
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    } finally {
+      setBusyPlan(null)
+    }
+  }
+
+  useEffect(() => {
+    load()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // auto-reload ao trocar empresa no switcher
+  useEffect(() => {
+    const onEmpresaChanged = (ev: Event) => {
+      const detail = (ev as CustomEvent)?.detail as { empresa_id?: string } | undefined
+      if (!detail?.empresa_id) return
+      load()
+    }
+
+    window.addEventListener("moduz:empresa-changed", onEmpresaChanged as EventListener)
+    return () => window.removeEventListener("moduz:empresa-changed", onEmpresaChanged as EventListener)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const current = data ? PLANS[data.plan_key] : null
+  const storageLimit = current?.storage_mb ?? null
+
+  return (
+    <div className="p-4 md:p-6 max-w-5xl mx-auto">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-50">Plano</h1>
+          <p className="mt-2 text-sm text-slate-400">
+            O plano define os módulos disponíveis, o número de utilizadores e o espaço para documentos. Módulos fora do
+            plano podem ser experimentados em trial.
+          </p>
+        </div>
+
+        <button
+          onClick={() => load()}
+          className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100 hover:bg-slate-900"
+        >
+          Atualizar
+        </button>
+      </div>
+
+      {err ? (
+        <div className="mt-4 rounded-lg border border-red-900/60 bg-red-950/30 p-3">
+          <p className="text-sm text-red-200">{err}</p>
+        </div>
+      ) : null}
+
+      {loading && !data ? (
+        <div className="mt-6 rounded-xl border border-slate-800 bg-slate-950 p-4 text-sm text-slate-400">A carregar…</div>
+      ) : data && current ? (
+        <>
+          <div className="mt-6 grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="rounded-xl border border-slate-800 bg-slate-950 p-4">
+              <h2 className="text-sm font-semibold text-slate-100">Plano atual</h2>
+              <p className="mt-2 text-lg text-slate-50">{current.title}</p>
+              <p className="mt-1 text-xs text-slate-500">
+                {data.subscription
+                  ? `Assinatura ${STATUS_LABEL[data.subscription.status] ?? data.subscription.status} · renova a ${formatDt(
+                      data.subscription.current_period_end
+                    )}`
+                  : "Sem assinatura (plano base)"}
+              </p>
+              <p className="mt-1 text-xs text-slate-500 font-mono">provider: {data.provider}</p>
+            </div>
+
+            <div className="rounded-xl border border-slate-800 bg-slate-950 p-4 space-y-4">
+              <h2 className="text-sm font-semibold text-slate-100">Utilização</h2>
+              <UsageBar
+                label="Utilizadores"
+                used={data.usage.seats_used}
+                limit={current.seats}
+                text={`${data.usage.seats_used} / ${current.seats ?? "∞"}${
+                  data.usage.invites_pending ? ` (${data.usage.invites_pending} convites)` : ""
+                }`}
+              />
+              <UsageBar
+                label="Documentos"
+                used={data.usage.storage_bytes}
+                limit={storageLimit === null ? null : storageLimit * 1024 * 1024}
+                text={`${formatBytes(data.usage.storage_bytes)} / ${storageLimit === null ? "∞" : formatMb(storageLimit)}`}
+              />
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-1 gap-4 md:grid-cols-3">
+            {PLAN_KEYS.map((k) => {
+              const p = PLANS[k]
+              const isCurrent = k === data.plan_key
+              return (
+                <div
+                  key={k}
+                  className={classNames(
+                    "flex flex-col rounded-xl border bg-slate-950 p-4",
+                    isCurrent ? "border-emerald-700" : "border-slate-800"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="text-sm font-semibold text-slate-100">{p.title}</h3>
+                    <span className="text-sm text-slate-300">{p.price_month} €/mês</span>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-400">{p.desc}</p>
+
+                  <ul className="mt-3 space-y-1 text-xs text-slate-400">
+                    <li>Utilizadores: {p.seats ?? "sem limite"}</li>
+                    <li>Documentos: {p.storage_mb === null ? "sem limite" : formatMb(p.storage_mb)}</li>
+                    <li>Módulos: {["Core", ...p.modules.map((m) => MODULES[m].title)].join(", ")}</li>
+                  </ul>
+
+                  <div className="mt-auto pt-4">
+                    {isCurrent ? (
+                      <span className="inline-block rounded-md border border-emerald-800 bg-emerald-500/10 px-3 py-1.5 text-xs text-emerald-200">
+                        plano atual
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => changePlan(k)}
+                        disabled={busyPlan !== null}
+                        className="rounded-md border border-slate-800 bg-slate-950 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-900 disabled:opacity-60"
+                      >
+                        {busyPlan === k ? "A mudar…" : `Mudar para ${p.title}`}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,496 @@
+/**
+ * =============================================
+ * Moduz+ | Core - Utilizadores
+ * Arquivo: app/adm/core/utilizadores/page.tsx
+ * Módulo: Core
+ * Etapa: UI List + Edit + Convites (v1.2 - tipos sem any)
+ * Descrição:
+ *  - Lista membros (profiles) da empresa ativa
+ *  - Edita display_name e role; ativa/desativa acesso
+ *  - Convites por email: criar (role + validade), listar e revogar
+ *  - Cada alteração é auditada no backend (PROFILE_*)
+ *  - Empresa ativa resolvida no servidor (sem header); recarrega ao trocar ("moduz:empresa-changed")
+ *  - Toast global (AdmShell)
+ * =============================================
+ */
+
+"use client"
+
+import { useEffect, useState } from "react"
+import { useToast } from "../../../../components/ui/toast-context"
+
+type UserRow = {
+  id: string
+  empresa_id: string
+  user_id: string
+  role: "admin" | "interno" | "externo"
+  ativo: boolean
+  display_name: string | null
+  email: string | null
+  created_at: string
+  updated_at: string
+}
+
+type ListResp =
+  | { ok: true; empresa_id: string; me_profile_id: string; users: UserRow[] }
+  | { ok: false; error: string; details?: string | null }
+
+type MutateResp =
+  | { ok: true; user: Omit<UserRow, "email">; audit?: string; audit_details?: string | null }
+  | { ok: false; error: string; details?: string | null }
+
+type InviteRow = {
+  id: string
+  email: string
+  role: UserRow["role"]
+  display_name: string | null
+  status: "pending" | "accepted" | "revoked" | "expired"
+  expires_at: string
+  accepted_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+type InvitesListResp =
+  | { ok: true; empresa_id: string; invites: InviteRow[] }
+  | { ok: false; error: string; details?: string | null }
+
+type InviteMutateResp =
+  | { ok: true; invite: Omit<InviteRow, "status"> & { status: string }; channel?: string; audit?: string }
+  | { ok: false; error: string; details?: string | null }
+
+const INVITE_STATUS_LABEL: Record<InviteRow["status"], string> = {
+  pending: "Pendente",
+  accepted: "Aceite",
+  revoked: "Revogado",
+  expired: "Expirado",
+}
+
+const ROLE_LABEL: Record<UserRow["role"], string> = {
+  admin: "Administrador",
+  interno: "Interno",
+  externo: "Externo",
+}
+
+function classNames(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ")
+}
+
+function formatDt(v: string | null) {
+  if (!v) return "—"
+  try {
+    return new Date(v).toLocaleString("pt-PT")
+  } catch {
+    return v
+  }
+}
+
+function errMsg(j: unknown, fallback: string) {
+  const r = j as { error?: string; details?: string | null } | null
+  return r?.error ? `${r.error}${r.details ? `: ${r.details}` : ""}` : fallback
+}
+
+export default function CoreUtilizadoresPage() {
+  const { showToast } = useToast()
+
+  const [empresaId, setEmpresaId] = useState<string | null>(null)
+  const [meProfileId, setMeProfileId] = useState<string | null>(null)
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [users, setUsers] = useState<UserRow[]>([])
+
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ id: string; display_name: string } | null>(null)
+
+  const [invites, setInvites] = useState<InviteRow[]>([])
+  const [inviteForm, setInviteForm] = useState<{ email: string; role: UserRow["role"]; display_name: string; days: number }>(
+    { email: "", role: "interno", display_name: "", days: 7 }
+  )
+  const [inviting, setInviting] = useState(false)
+  const [busyInviteId, setBusyInviteId] = useState<string | null>(null)
+
+  async function load() {
+    setLoading(true)
+    setErr(null)
+
+    try {
+      const r = await fetch("/api/admin/core/users/list", {
+        method: "GET",
+        credentials: "include",
+      })
+      const j = (await r.json().catch(() => null)) as ListResp | null
+      if (!r.ok || !j || j.ok !== true) {
+        setErr(errMsg(j, "Falha ao carregar utilizadores."))
+        setUsers([])
+        return
+      }
+
+      setEmpresaId(j.empresa_id ?? null)
+      setUsers(j.users ?? [])
+      setMeProfileId(j.me_profile_id ?? null)
+      await loadInvites()
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Erro inesperado ao carregar utilizadores.")
+      setUsers([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function loadInvites() {
+    try {
+      const r = await fetch("/api/admin/core/invites/list", {
+        method: "GET",
+        credentials: "include",
+      })
+      const j = (await r.json().catch(() => null)) as InvitesListResp | null
+      if (!r.ok || !j || j.ok !== true) {
+        showToast({ kind: "err", msg: errMsg(j, "Falha ao carregar convites.") })
+        setInvites([])
+        return
+      }
+      setInvites(j.invites ?? [])
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado ao carregar convites." })
+      setInvites([])
+    }
+  }
+
+  async function createInvite() {
+    if (!empresaId || inviting) return
+    setInviting(true)
+    try {
+      const r = await fetch("/api/admin/core/invites/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          email: inviteForm.email,
+          role: inviteForm.role,
+          display_name: inviteForm.display_name || undefined,
+          expires_in_days: inviteForm.days,
+        }),
+      })
+      const j = (await r.json().catch(() => null)) as InviteMutateResp | null
+      if (!r.ok || !j || j.ok !== true) throw new Error(errMsg(j, "Falha ao enviar convite."))
+
+      setInviteForm((f) => ({ ...f, email: "", display_name: "" }))
+      showToast({ kind: "ok", msg: `Convite enviado para ${j.invite.email}.` })
+      await loadInvites()
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  async function revokeInvite(inviteId: string) {
+    if (!empresaId) return
+    setBusyInviteId(inviteId)
+    try {
+      const r = await fetch("/api/admin/core/invites/revoke", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ invite_id: inviteId }),
+      })
+      const j = (await r.json().catch(() => null)) as InviteMutateResp | null
+      if (!r.ok || !j || j.ok !== true) throw new Error(errMsg(j, "Falha ao revogar convite."))
+
+      setInvites((prev) => prev.map((i) => (i.id === inviteId ? { ...i, status: "revoked", revoked_at: j.invite.revoked_at } : i)))
+      showToast({ kind: "ok", msg: "Convite revogado." })
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    } finally {
+      setBusyInviteId(null)
+    }
+  }
+
+  async function mutate(path: string, profileId: string, body: Record<string, unknown>, okMsg: string) {
+    if (!empresaId) return
+    setBusyId(profileId)
+    try {
+      const r = await fetch(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ profile_id: profileId, ...body }),
+      })
+      const j = (await r.json().catch(() => null)) as MutateResp | null
+      if (!r.ok || !j || j.ok !== true) throw new Error(errMsg(j, "Falha ao atualizar utilizador."))
+
+      setUsers((prev) => prev.map((u) => (u.id === profileId ? { ...u, ...j.user } : u)))
+      showToast({ kind: "ok", msg: okMsg })
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  async function saveDisplayName() {
+    if (!editing) return
+    const { id, display_name } = editing
+    setEditing(null)
+    await mutate("/api/admin/core/users/update", id, { display_name }, "Nome atualizado.")
+  }
+
+  useEffect(() => {
+    load()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  useEffect(() => {
+    const onEmpresaChanged = () => load()
+    window.addEventListener("moduz:empresa-changed", onEmpresaChanged as EventListener)
+    return () => window.removeEventListener("moduz:empresa-changed", onEmpresaChanged as EventListener)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  return (
+    <div className="p-4 md:p-6 max-w-6xl mx-auto">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-50">Utilizadores</h1>
+          <p className="mt-2 text-sm text-slate-400">
+            Membros da empresa ativa. Altere o papel base, o nome apresentado ou o acesso. Todas as alterações ficam
+            registadas na auditoria.
+          </p>
+        </div>
+
+        <button
+          onClick={() => load()}
+          className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100 hover:bg-slate-900"
+        >
+          Atualizar
+        </button>
+      </div>
+
+      {err ? (
+        <div className="mt-4 rounded-lg border border-red-900/60 bg-red-950/30 p-3">
+          <p className="text-sm text-red-200">{err}</p>
+        </div>
+      ) : null}
+
+      <div className="mt-6 overflow-hidden rounded-xl border border-slate-800 bg-slate-950">
+        <div className="hidden md:grid grid-cols-12 gap-0 border-b border-slate-800 bg-slate-950/60 px-4 py-3 text-xs text-slate-400">
+          <div className="col-span-5">Utilizador</div>
+          <div className="col-span-3">Papel</div>
+          <div className="col-span-2">Desde</div>
+          <div className="col-span-2 text-right">Ativo</div>
+        </div>
+
+        {loading ? (
+          <div className="p-4 text-sm text-slate-400">A carregar…</div>
+        ) : users.length === 0 ? (
+          <div className="p-4 text-sm text-slate-400">Sem utilizadores para mostrar.</div>
+        ) : (
+          <ul>
+            {users.map((u) => {
+              const isMe = u.id === meProfileId
+              const isBusy = busyId === u.id
+              const isEditing = editing?.id === u.id
+
+              return (
+                <li
+                  key={u.id}
+                  className={classNames(
+                    "grid grid-cols-12 gap-3 md:gap-0 px-4 py-4 border-b border-slate-900 last:border-b-0",
+                    !u.ativo && "opacity-60"
+                  )}
+                >
+                  <div className="col-span-12 md:col-span-5 min-w-0">
+                    {isEditing ? (
+                      <div className="flex items-center gap-2">
+                        <input
+                          autoFocus
+                          className="w-full rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100"
+                          value={editing.display_name}
+                          onChange={(e) => setEditing({ id: u.id, display_name: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") saveDisplayName()
+                            if (e.key === "Escape") setEditing(null)
+                          }}
+                        />
+                        <button
+                          onClick={saveDisplayName}
+                          className="rounded-md border border-slate-800 bg-slate-950 px-2 py-1 text-xs text-slate-200 hover:bg-slate-900"
+                        >
+                          Guardar
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        className="text-left text-sm text-slate-100 hover:underline"
+                        onClick={() => setEditing({ id: u.id, display_name: u.display_name ?? "" })}
+                        title="Editar nome"
+                      >
+                        {u.display_name ?? "(sem nome)"}
+                        {isMe ? <span className="ml-2 text-[11px] text-slate-500">(você)</span> : null}
+                      </button>
+                    )}
+                    <div className="text-[11px] text-slate-500 truncate">{u.email ?? u.user_id}</div>
+                  </div>
+
+                  <div className="col-span-6 md:col-span-3">
+                    <select
+                      className="rounded-md border border-slate-800 bg-slate-950 px-2 py-1 text-sm text-slate-100 disabled:opacity-60"
+                      value={u.role}
+                      disabled={isBusy || isMe}
+                      title={isMe ? "Não pode alterar o seu próprio papel" : "Papel base"}
+                      onChange={(e) =>
+                        mutate("/api/admin/core/users/update", u.id, { role: e.target.value }, "Papel atualizado.")
+                      }
+                    >
+                      {(Object.keys(ROLE_LABEL) as UserRow["role"][]).map((r) => (
+                        <option key={r} value={r}>
+                          {ROLE_LABEL[r]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="col-span-4 md:col-span-2 text-xs text-slate-400 font-mono">{formatDt(u.created_at)}</div>
+
+                  <div className="col-span-2 flex justify-end">
+                    <button
+                      onClick={() =>
+                        mutate(
+                          "/api/admin/core/users/set-active",
+                          u.id,
+                          { ativo: !u.ativo },
+                          u.ativo ? "Acesso desativado." : "Acesso reativado."
+                        )
+                      }
+                      disabled={isBusy || isMe}
+                      className={classNames(
+                        "relative inline-flex h-6 w-11 items-center rounded-full border transition",
+                        isBusy || isMe ? "opacity-60 cursor-not-allowed" : "cursor-pointer",
+                        u.ativo ? "bg-emerald-500/20 border-emerald-700" : "bg-slate-900 border-slate-700"
+                      )}
+                      aria-label={`Ativar/desativar ${u.display_name ?? u.user_id}`}
+                      title={isMe ? "Não pode desativar o seu próprio acesso" : "Ativar/desativar"}
+                    >
+                      <span
+                        className={classNames(
+                          "inline-block h-5 w-5 transform rounded-full bg-slate-100 transition",
+                          u.ativo ? "translate-x-5" : "translate-x-1"
+                        )}
+                      />
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-8">
+        <h2 className="text-lg font-semibold text-slate-50">Convites</h2>
+        <p className="mt-1 text-sm text-slate-400">
+          O convidado recebe um link por email. Ao aceitar, fica membro da empresa com o papel indicado (utilizadores
+          novos definem a própria palavra-passe).
+        </p>
+
+        <div className="mt-4 grid grid-cols-12 gap-2 rounded-xl border border-slate-800 bg-slate-950 p-4">
+          <input
+            className="col-span-12 md:col-span-4 rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100"
+            placeholder="email@exemplo.pt"
+            type="email"
+            value={inviteForm.email}
+            onChange={(e) => setInviteForm((f) => ({ ...f, email: e.target.value }))}
+          />
+          <input
+            className="col-span-12 md:col-span-3 rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100"
+            placeholder="Nome (opcional)"
+            value={inviteForm.display_name}
+            onChange={(e) => setInviteForm((f) => ({ ...f, display_name: e.target.value }))}
+          />
+          <select
+            className="col-span-5 md:col-span-2 rounded-md border border-slate-800 bg-slate-950 px-2 py-1 text-sm text-slate-100"
+            value={inviteForm.role}
+            onChange={(e) => setInviteForm((f) => ({ ...f, role: e.target.value as UserRow["role"] }))}
+          >
+            {(Object.keys(ROLE_LABEL) as UserRow["role"][]).map((r) => (
+              <option key={r} value={r}>
+                {ROLE_LABEL[r]}
+              </option>
+            ))}
+          </select>
+          <select
+            className="col-span-4 md:col-span-1 rounded-md border border-slate-800 bg-slate-950 px-2 py-1 text-sm text-slate-100"
+            value={inviteForm.days}
+            onChange={(e) => setInviteForm((f) => ({ ...f, days: Number(e.target.value) }))}
+            title="Validade"
+          >
+            {[1, 3, 7, 14, 30].map((d) => (
+              <option key={d} value={d}>
+                {d}d
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={createInvite}
+            disabled={inviting || !empresaId || !inviteForm.email.trim()}
+            className="col-span-3 md:col-span-2 rounded-md border border-slate-800 bg-slate-100 px-3 py-1 text-sm text-slate-900 disabled:opacity-50"
+          >
+            {inviting ? "A enviar…" : "Convidar"}
+          </button>
+        </div>
+
+        <div className="mt-4 overflow-hidden rounded-xl border border-slate-800 bg-slate-950">
+          {invites.length === 0 ? (
+            <div className="p-4 text-sm text-slate-400">Sem convites.</div>
+          ) : (
+            <ul>
+              {invites.map((i) => (
+                <li
+                  key={i.id}
+                  className="grid grid-cols-12 gap-3 md:gap-0 px-4 py-3 border-b border-slate-900 last:border-b-0 items-center"
+                >
+                  <div className="col-span-12 md:col-span-5 min-w-0">
+                    <div className="text-sm text-slate-100 truncate">{i.email}</div>
+                    {i.display_name ? <div className="text-[11px] text-slate-500 truncate">{i.display_name}</div> : null}
+                  </div>
+                  <div className="col-span-4 md:col-span-2 text-sm text-slate-300">{ROLE_LABEL[i.role]}</div>
+                  <div className="col-span-4 md:col-span-2">
+                    <span
+                      className={classNames(
+                        "rounded-full border px-2 py-0.5 text-[11px]",
+                        i.status === "pending" && "border-amber-800 text-amber-200",
+                        i.status === "accepted" && "border-emerald-800 text-emerald-200",
+                        (i.status === "revoked" || i.status === "expired") && "border-slate-700 text-slate-400"
+                      )}
+                    >
+                      {INVITE_STATUS_LABEL[i.status]}
+                    </span>
+                  </div>
+                  <div className="col-span-4 md:col-span-2 text-xs text-slate-400 font-mono" title="Expira em">
+                    {formatDt(i.expires_at)}
+                  </div>
+                  <div className="col-span-12 md:col-span-1 flex justify-end">
+                    {i.status === "pending" ? (
+                      <button
+                        onClick={() => revokeInvite(i.id)}
+                        disabled={busyInviteId === i.id}
+                        className="rounded-md border border-slate-800 bg-slate-950 px-2 py-1 text-xs text-slate-200 hover:bg-slate-900 disabled:opacity-60"
+                      >
+                        Revogar
+                      </button>
+                    ) : null}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4 text-xs text-slate-500">
+        Empresa: <span className="font-mono">{empresaId ?? "—"}</span>
+      </div>
+    </div>
+  )
+}
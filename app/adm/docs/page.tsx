@@ -3,7 +3,7 @@
  * Moduz+ | Docs
  * Arquivo: app/adm/docs/page.tsx
  * Módulo: Docs
- * Etapa: MVP Upload (v1.0.3+)
+ * Etapa: MVP Upload (v1.6 - tipos sem any)
  * Descrição:
  *  - Upload via Signed Upload URL (server-side) -> não depende de policies no bucket
  *  - Cria registo em public.docs + finaliza metadados + audit_log
@@ -12,6 +12,21 @@
  *      - create envia module_key="docs" (vínculo semântico: ref_table="module:docs")
  *      - cache local (30s) por empresa para histórico (melhor UX)
  *      - reage a troca de empresa (evento moduz:empresa-changed)
+ *      - empresa ativa resolvida no servidor (sem header); cache usa o espelho do AdmShell
+ *      - API recusa com MODULE_DISABLED se o módulo estiver desativado -> reportModuleDisabled (guard)
+ *  - Versões: "Nova versão" por doc (versions/create -> upload -> complete { version }),
+ *      histórico por doc (versions/list) com download de qualquer versão (signed-url?version=n)
+ *      e "Tornar atual" (versions/set-current); cada passo auditado no servidor
+ *  - Organização: navegação por pasta/etiqueta (filtros do docs/list; catálogo em docs/catalog/get),
+ *      edição inline de pasta/etiquetas/metadados por doc (docs/update); upload vai para a pasta aberta
+ *      pastas/etiquetas/campos geridos aqui com docs:organize (permissions/me)
+ *  - Pesquisa: caixa com debounce -> docs/search (full-text PT em nome/etiquetas/metadados/conteúdo),
+ *      respeita a pasta/etiqueta abertas; snippet com os termos realçados (marcadores ⟦ ⟧ da API)
+ *      "Indexar conteúdo" (docs:organize) extrai o texto de docs antigos em lotes (docs/search/reindex)
+ *  - Integridade: SHA-256 calculado no browser e enviado no complete; o servidor confere tamanho + hash
+ *      do objeto no Storage (falha -> estado "Falhou"); uploads abandonados são limpos pelo servidor
+ *  - Política de upload (Definições -> Docs: tipos, tamanho, extensões) aplicada no servidor;
+ *      rejeições mostradas com mensagem pt-PT (uploadErrMsg)
  *  - UX Moduz:
  *      - "Estado" não depende só da sessão (usa histórico quando existe)
  *      - Mostra resumo e status por linha (quando disponível)
@@ -25,6 +40,9 @@
 import { useEffect, useMemo, useRef, useState } from "react"
 import { createClient } from "@supabase/supabase-js"
 import { useToast } from "../../../components/ui/toast-context"
+import { getActiveEmpresaId } from "../../../components/adm/empresa-switcher"
+import { reportModuleDisabled } from "../../../components/adm/module-guard"
+import { hasPermission } from "../../../components/adm/permissions"
 
 type CreateResp =
   | {
@@ -41,9 +59,57 @@ type CreateResp =
   | { ok: false; error: string; details?: string | null }
 
 type CompleteResp =
-  | { ok: true; doc_id: string; audit?: string; audit_details?: string | null }
+  | { ok: true; doc_id: string; version?: number; audit?: string; audit_details?: string | null }
   | { ok: false; error: string; details?: string | null }
 
+type VersionCreateResp =
+  | {
+      ok: true
+      version: {
+        doc_id: string
+        version: number
+        storage_bucket: string
+        storage_path: string
+        filename: string
+        created_at: string
+      }
+      upload: { signed_url: string; token: string }
+    }
+  | { ok: false; error: string; details?: string | null }
+
+type VersionRow = {
+  version: number
+  filename: string | null
+  mime_type: string | null
+  size_bytes: number | null
+  status: "pending" | "uploaded" | "failed"
+  sha256?: string | null
+  failure_reason?: string | null
+  created_by: string | null
+  created_at: string
+  uploaded_at: string | null
+  current: boolean
+}
+
+type VersionsResp =
+  | { ok: true; doc_id: string; current_version: number; versions: VersionRow[] }
+  | { ok: false; error: string; details?: string | null }
+
+type FolderRow = { id: string; parent_id: string | null; name: string }
+
+type TagRow = { id: string; name: string; color: string | null }
+
+type MetaField = { id: string; key: string; label: string; type: "text" | "date" | "number"; position: number }
+
+type CatalogResp =
+  | { ok: true; empresa_id: string; folders: FolderRow[]; tags: TagRow[]; fields: MetaField[] }
+  | { ok: false; error: string; details?: string | null }
+
+/** "all" = sem filtro; "root" = só docs sem pasta; senão id da pasta */
+type FolderFilter = "all" | "root" | string
+
+type MetaDraft = { folder_id: string | null; tag_ids: string[]; metadata: Record<string, string> }
+
 type DocRow = {
   id: string
   empresa_id: string
@@ -54,6 +120,18 @@ type DocRow = {
   size_bytes: number | null
   created_by: string | null
   created_at: string
+  current_version?: number
+  folder_id?: string | null
+  tag_ids?: string[]
+  metadata?: Record<string, unknown>
+  content_status?: string | null
+
+  /** Só em resultados de pesquisa (docs/search): excerto com os termos entre ⟦ ⟧ */
+  snippet?: string | null
+
+  /** Estado do upload (docs.status, desde 20260128); uploaded_ok mantém-se por compatibilidade */
+  status?: "pending" | "uploaded" | "failed"
+  sha256?: string | null
 
   /**
    * Opcional (padrão Moduz+):
@@ -67,15 +145,6 @@ type ListResp =
   | { ok: true; empresa_id: string; docs: DocRow[] }
   | { ok: false; error: string; details?: string | null }
 
-function getEmpresaId(): string | null {
-  try {
-    const v = window.localStorage.getItem("moduz_empresa_id")
-    return v && v.length > 10 ? v : null
-  } catch {
-    return null
-  }
-}
-
 function formatBytes(n: number) {
   if (!Number.isFinite(n) || n <= 0) return "—"
   const units = ["B", "KB", "MB", "GB"]
@@ -100,7 +169,63 @@ function cls(...xs: Array<string | false | null | undefined>) {
   return xs.filter(Boolean).join(" ")
 }
 
-function statusLabel(v: boolean | null | undefined) {
+function errMsg(j: unknown, fallback: string) {
+  const r = j as { error?: string; details?: string | null } | null
+  return r?.error ? `${r.error}${r.details ? `: ${r.details}` : ""}` : fallback
+}
+
+const UPLOAD_ERRORS: Record<string, string> = {
+  UPLOAD_TOO_LARGE: "Ficheiro acima do tamanho máximo permitido.",
+  UPLOAD_EXTENSION_BLOCKED: "Esta extensão de ficheiro está bloqueada.",
+  UPLOAD_TYPE_NOT_ALLOWED: "Este tipo de ficheiro não é permitido.",
+  UPLOAD_MIME_MISMATCH: "O conteúdo do ficheiro não corresponde ao tipo indicado.",
+}
+
+/** Rejeições da política de upload (Definições -> Docs) com texto pt-PT; resto como errMsg */
+function uploadErrMsg(j: unknown, fallback: string) {
+  const r = j as { error?: string; details?: string | null } | null
+  const label = r?.error ? UPLOAD_ERRORS[r.error] : undefined
+  return label ? `${label}${r?.details ? ` (${r.details})` : ""}` : errMsg(j, fallback)
+}
+
+/** "Data de validade" -> "data_de_validade" (key do campo de metadados) */
+function fieldKeyFromLabel(label: string) {
+  const k = label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40)
+  return /^[a-z]/.test(k) ? k : `campo_${k}`
+}
+
+/** "… ⟦contrato⟧ de …" -> texto com <mark> nos termos encontrados */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/⟦|⟧/)
+  return (
+    <>
+      {parts.map((p, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="rounded bg-amber-400/20 px-0.5 text-amber-100">
+            {p}
+          </mark>
+        ) : (
+          <span key={i}>{p}</span>
+        )
+      )}
+    </>
+  )
+}
+
+/** SHA-256 (hex) do ficheiro, conferido pelo docs/complete contra o objeto no Storage */
+async function fileSha256(file: File) {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+function statusLabel(v: boolean | null | undefined, status?: string) {
+  if (status === "failed") return "Falhou"
   if (v === true) return "OK"
   if (v === false) return "Pendente"
   return "—"
@@ -150,6 +275,8 @@ function writeCache(empresaId: string, docs: DocRow[]) {
 export default function DocsHomePage() {
   const { showToast } = useToast()
   const inputRef = useRef<HTMLInputElement | null>(null)
+  const versionInputRef = useRef<HTMLInputElement | null>(null)
+  const versionDocRef = useRef<string | null>(null)
 
   const [busy, setBusy] = useState(false)
   const [last, setLast] = useState<{
@@ -165,6 +292,51 @@ export default function DocsHomePage() {
   const [listErr, setListErr] = useState<string | null>(null)
   const [docs, setDocs] = useState<DocRow[]>([])
 
+  // versões: histórico aberto (1 doc de cada vez) + ação em curso por doc
+  const [openDocId, setOpenDocId] = useState<string | null>(null)
+  const [versions, setVersions] = useState<VersionRow[]>([])
+  const [versionsLoading, setVersionsLoading] = useState(false)
+  const [busyDocId, setBusyDocId] = useState<string | null>(null)
+
+  // organização: catálogo da empresa + filtro atual + edição inline (1 doc de cada vez)
+  const [folders, setFolders] = useState<FolderRow[]>([])
+  const [tags, setTags] = useState<TagRow[]>([])
+  const [fields, setFields] = useState<MetaField[]>([])
+  const [folderFilter, setFolderFilter] = useState<FolderFilter>("all")
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+  const filterRef = useRef<{ folder: FolderFilter; tag: string | null }>({ folder: "all", tag: null })
+  const [query, setQuery] = useState("")
+  const searchRef = useRef("")
+  const [reindexing, setReindexing] = useState(false)
+  const [perms, setPerms] = useState<string[] | null>(null)
+  const [editDocId, setEditDocId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<MetaDraft | null>(null)
+  const [savingMeta, setSavingMeta] = useState(false)
+  const [newField, setNewField] = useState<{ label: string; type: MetaField["type"] }>({ label: "", type: "text" })
+
+  const canOrganize = perms ? hasPermission(perms, "docs:organize") : false
+  const canEdit = perms ? hasPermission(perms, "docs:upload") : false
+
+  const folderById = useMemo(() => new Map(folders.map((f) => [f.id, f])), [folders])
+  const tagById = useMemo(() => new Map(tags.map((t) => [t.id, t])), [tags])
+
+  const childrenOf = useMemo(() => {
+    const m = new Map<string | null, FolderRow[]>()
+    for (const f of folders) m.set(f.parent_id, [...(m.get(f.parent_id) ?? []), f])
+    return m
+  }, [folders])
+
+  /** "Clientes / 2025" */
+  function folderPath(id: string | null | undefined) {
+    const parts: string[] = []
+    let cur = id ? folderById.get(id) : undefined
+    while (cur && parts.length < 20) {
+      parts.unshift(cur.name)
+      cur = cur.parent_id ? folderById.get(cur.parent_id) : undefined
+    }
+    return parts.join(" / ")
+  }
+
   // ENV pública (não pode "throwar" no client)
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
   const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
@@ -185,15 +357,13 @@ export default function DocsHomePage() {
   }
 
   async function loadList(opts?: { preferCache?: boolean }) {
-    const empresaId = getEmpresaId()
-    if (!empresaId) {
-      setDocs([])
-      setListErr("Empresa não definida.")
-      return
-    }
+    const empresaId = getActiveEmpresaId()
+    const { folder, tag } = filterRef.current
+    const search = searchRef.current
+    const filtered = folder !== "all" || !!tag || !!search
 
-    // ✅ UX Moduz+: se houver cache válida, mostra já (sem “piscar”)
-    if (opts?.preferCache) {
+    // ✅ UX Moduz+: se houver cache válida, mostra já (sem “piscar”) — cache só da vista sem filtros
+    if (opts?.preferCache && empresaId && !filtered) {
       const cached = readCache(empresaId)
       if (cached && cached.length) {
         setDocs(cached)
@@ -205,14 +375,19 @@ export default function DocsHomePage() {
     setListErr(null)
 
     try {
-      const r = await fetch("/api/admin/docs/list", {
+      const qs = new URLSearchParams()
+      if (search) qs.set("q", search)
+      if (folder !== "all") qs.set("folder_id", folder)
+      if (tag) qs.set("tag_id", tag)
+
+      const r = await fetch(`/api/admin/docs/${search ? "search" : "list"}${qs.toString() ? `?${qs}` : ""}`, {
         method: "GET",
-        headers: { "x-empresa-id": empresaId },
         credentials: "include",
       })
 
       const j = (await r.json().catch(() => null)) as ListResp | null
       if (!r.ok || !j || j.ok !== true) {
+        reportModuleDisabled(j)
         setDocs([])
         setListErr((j as any)?.error ? String((j as any).error) : "Falha ao carregar histórico.")
         return
@@ -220,7 +395,7 @@ export default function DocsHomePage() {
 
       const arr = Array.isArray(j.docs) ? j.docs : []
       setDocs(arr)
-      writeCache(empresaId, arr)
+      if (!filtered) writeCache(j.empresa_id, arr)
     } catch (e: any) {
       setDocs([])
       setListErr(e?.message || "Erro inesperado ao carregar histórico.")
@@ -229,6 +404,198 @@ export default function DocsHomePage() {
     }
   }
 
+  function applyFilter(next: { folder?: FolderFilter; tag?: string | null }) {
+    const f = { ...filterRef.current, ...next }
+    filterRef.current = f
+    setFolderFilter(f.folder)
+    setTagFilter(f.tag)
+    setEditDocId(null)
+    loadList()
+  }
+
+  async function reindexContent() {
+    setReindexing(true)
+    try {
+      const r = await fetch("/api/admin/docs/search/reindex", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({}),
+      })
+      const j = await r.json().catch(() => null)
+      if (!r.ok || !j || j.ok !== true) {
+        reportModuleDisabled(j)
+        showToast({ kind: "err", msg: errMsg(j, "Falha ao indexar conteúdo.") })
+        return
+      }
+      const done = Array.isArray(j.results) ? j.results.length : 0
+      const remaining = Number(j.remaining ?? 0)
+      showToast({
+        kind: "ok",
+        msg: done
+          ? `${done} documento(s) indexado(s)${remaining ? ` · faltam ${remaining}` : ""}.`
+          : "Todos os documentos já estão indexados.",
+      })
+      if (done) loadList()
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado ao indexar." })
+    } finally {
+      setReindexing(false)
+    }
+  }
+
+  async function loadCatalog() {
+    try {
+      const [r1, r2] = await Promise.all([
+        fetch("/api/admin/docs/catalog/get", { method: "GET", credentials: "include" }),
+        fetch("/api/admin/core/permissions/me", { method: "GET", credentials: "include" }),
+      ])
+      const j1 = (await r1.json().catch(() => null)) as CatalogResp | null
+      const j2 = (await r2.json().catch(() => null)) as { ok: true; permissions: string[] } | null
+
+      setPerms(r2.ok && j2?.ok === true && Array.isArray(j2.permissions) ? j2.permissions : [])
+
+      if (!r1.ok || !j1 || j1.ok !== true) {
+        reportModuleDisabled(j1)
+        return
+      }
+      setFolders(Array.isArray(j1.folders) ? j1.folders : [])
+      setTags(Array.isArray(j1.tags) ? j1.tags : [])
+      setFields(Array.isArray(j1.fields) ? j1.fields : [])
+    } catch {
+      setPerms([])
+    }
+  }
+
+  /** POST JSON das rotas de organização; devolve o body em sucesso (toast + null em erro). */
+  async function postJson(url: string, body: unknown, fallback: string): Promise<{ ok: true } | null> {
+    try {
+      const r = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(body),
+      })
+      const j = await r.json().catch(() => null)
+      if (!r.ok || !j || j.ok !== true) {
+        reportModuleDisabled(j)
+        showToast({ kind: "err", msg: errMsg(j, fallback) })
+        return null
+      }
+      return j
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || fallback })
+      return null
+    }
+  }
+
+  async function createFolder(parentId: string | null) {
+    const name = window.prompt(parentId ? `Nova subpasta em "${folderPath(parentId)}":` : "Nome da nova pasta:")
+    if (!name?.trim()) return
+    const j = await postJson("/api/admin/docs/folders/upsert", { name, parent_id: parentId }, "Falha ao criar pasta.")
+    if (!j) return
+    showToast({ kind: "ok", msg: "Pasta criada." })
+    loadCatalog()
+  }
+
+  async function renameFolder(f: FolderRow) {
+    const name = window.prompt("Novo nome da pasta:", f.name)
+    if (!name?.trim() || name.trim() === f.name) return
+    const j = await postJson(
+      "/api/admin/docs/folders/upsert",
+      { id: f.id, name, parent_id: f.parent_id },
+      "Falha ao renomear pasta."
+    )
+    if (!j) return
+    showToast({ kind: "ok", msg: "Pasta renomeada." })
+    loadCatalog()
+  }
+
+  async function deleteFolder(f: FolderRow) {
+    if (!window.confirm(`Apagar a pasta "${f.name}"? Os documentos passam para a raiz.`)) return
+    const j = await postJson("/api/admin/docs/folders/delete", { folder_id: f.id }, "Falha ao apagar pasta.")
+    if (!j) return
+    showToast({ kind: "ok", msg: "Pasta apagada." })
+    if (folderFilter === f.id) applyFilter({ folder: "all" })
+    else loadList()
+    loadCatalog()
+  }
+
+  async function createTag() {
+    const name = window.prompt("Nome da nova etiqueta:")
+    if (!name?.trim()) return
+    const j = await postJson("/api/admin/docs/tags/upsert", { name }, "Falha ao criar etiqueta.")
+    if (!j) return
+    showToast({ kind: "ok", msg: "Etiqueta criada." })
+    loadCatalog()
+  }
+
+  async function deleteTag(t: TagRow) {
+    if (!window.confirm(`Apagar a etiqueta "${t.name}"? Sai de todos os documentos.`)) return
+    const j = await postJson("/api/admin/docs/tags/delete", { tag_id: t.id }, "Falha ao apagar etiqueta.")
+    if (!j) return
+    showToast({ kind: "ok", msg: "Etiqueta apagada." })
+    if (tagFilter === t.id) applyFilter({ tag: null })
+    else loadList()
+    loadCatalog()
+  }
+
+  async function addField() {
+    const label = newField.label.trim()
+    if (!label) return
+    const key = fieldKeyFromLabel(label)
+    if (fields.some((f) => f.key === key)) {
+      showToast({ kind: "err", msg: `Já existe um campo "${key}".` })
+      return
+    }
+    const j = await postJson(
+      "/api/admin/docs/fields/upsert",
+      { key, label, type: newField.type, position: fields.length },
+      "Falha ao criar campo."
+    )
+    if (!j) return
+    setNewField({ label: "", type: "text" })
+    showToast({ kind: "ok", msg: "Campo criado." })
+    loadCatalog()
+  }
+
+  async function deleteField(f: MetaField) {
+    if (!window.confirm(`Apagar o campo "${f.label}"? Os valores deixam de ser mostrados.`)) return
+    const j = await postJson("/api/admin/docs/fields/delete", { field_id: f.id }, "Falha ao apagar campo.")
+    if (!j) return
+    showToast({ kind: "ok", msg: "Campo apagado." })
+    loadCatalog()
+  }
+
+  function startEdit(d: DocRow) {
+    if (editDocId === d.id) {
+      setEditDocId(null)
+      return
+    }
+    const metadata: Record<string, string> = {}
+    for (const f of fields) {
+      const v = d.metadata?.[f.key]
+      if (v !== undefined && v !== null) metadata[f.key] = String(v)
+    }
+    setDraft({ folder_id: d.folder_id ?? null, tag_ids: d.tag_ids ?? [], metadata })
+    setEditDocId(d.id)
+  }
+
+  async function saveEdit(docId: string) {
+    if (!draft) return
+    setSavingMeta(true)
+    const j = await postJson(
+      "/api/admin/docs/update",
+      { doc_id: docId, folder_id: draft.folder_id, tag_ids: draft.tag_ids, metadata: draft.metadata },
+      "Falha ao guardar metadados."
+    )
+    setSavingMeta(false)
+    if (!j) return
+    showToast({ kind: "ok", msg: "Metadados guardados." })
+    setEditDocId(null)
+    loadList()
+  }
+
   async function onSelectedFile(file: File | null) {
     if (!file) return
 
@@ -237,21 +604,14 @@ export default function DocsHomePage() {
       return
     }
 
-    const empresaId = getEmpresaId()
-    if (!empresaId) {
-      showToast({ kind: "err", msg: "Empresa não definida." })
-      return
-    }
-
     setBusy(true)
     try {
+      const sha256 = await fileSha256(file)
+
       // 1) create: cria registo e devolve signed upload url + token
       const r1 = await fetch("/api/admin/docs/create", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-empresa-id": empresaId,
-        },
+        headers: { "Content-Type": "application/json" },
         credentials: "include",
         body: JSON.stringify({
           filename: file.name,
@@ -260,12 +620,16 @@ export default function DocsHomePage() {
 
           // ✅ Bónus Moduz+: vincula ao módulo (ref_table="module:docs" no backend)
           module_key: "docs",
+
+          // pasta aberta na navegação (raiz/todas -> sem pasta)
+          folder_id: folderFilter !== "all" && folderFilter !== "root" ? folderFilter : null,
         }),
       })
 
       const j1 = (await r1.json().catch(() => null)) as CreateResp | null
       if (!r1.ok || !j1 || j1.ok !== true) {
-        throw new Error((j1 as any)?.error || "Falha ao iniciar upload.")
+        reportModuleDisabled(j1)
+        throw new Error(uploadErrMsg(j1, "Falha ao iniciar upload."))
       }
 
       // 2) upload ao signed url (não precisa policies)
@@ -280,25 +644,25 @@ export default function DocsHomePage() {
         throw new Error(`UPLOAD_FAILED: ${up.error.message}`)
       }
 
-      // 3) complete: finaliza metadados + audit_log
+      // 3) complete: servidor confere tamanho + sha256 no Storage, finaliza metadados + audit_log
       const r2 = await fetch("/api/admin/docs/complete", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-empresa-id": empresaId,
-        },
+        headers: { "Content-Type": "application/json" },
         credentials: "include",
         body: JSON.stringify({
           doc_id: j1.doc.id,
           filename: file.name,
           mime_type: file.type || null,
           size_bytes: file.size || null,
+          sha256,
         }),
       })
 
       const j2 = (await r2.json().catch(() => null)) as CompleteResp | null
       if (!r2.ok || !j2 || j2.ok !== true) {
-        throw new Error((j2 as any)?.error || "Falha ao finalizar upload.")
+        reportModuleDisabled(j2)
+        loadList()
+        throw new Error(uploadErrMsg(j2, "Falha ao finalizar upload."))
       }
 
       setLast({
@@ -322,20 +686,202 @@ export default function DocsHomePage() {
     }
   }
 
+  async function loadVersions(docId: string) {
+    setVersionsLoading(true)
+    try {
+      const r = await fetch(`/api/admin/docs/versions/list?doc_id=${encodeURIComponent(docId)}`, {
+        method: "GET",
+        credentials: "include",
+      })
+      const j = (await r.json().catch(() => null)) as VersionsResp | null
+      if (!r.ok || !j || j.ok !== true) {
+        reportModuleDisabled(j)
+        setVersions([])
+        showToast({ kind: "err", msg: errMsg(j, "Falha ao carregar versões.") })
+        return
+      }
+      setVersions(Array.isArray(j.versions) ? j.versions : [])
+    } catch (e) {
+      setVersions([])
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado ao carregar versões." })
+    } finally {
+      setVersionsLoading(false)
+    }
+  }
+
+  function toggleVersions(docId: string) {
+    if (openDocId === docId) {
+      setOpenDocId(null)
+      return
+    }
+    setOpenDocId(docId)
+    setVersions([])
+    loadVersions(docId)
+  }
+
+  function onPickVersionFile(docId: string) {
+    versionDocRef.current = docId
+    versionInputRef.current?.click()
+  }
+
+  async function onSelectedVersionFile(file: File | null) {
+    const docId = versionDocRef.current
+    versionDocRef.current = null
+    if (!file || !docId) return
+
+    if (!supabase) {
+      showToast({ kind: "err", msg: "Configuração Supabase (pública) ausente. Verifique envs na Vercel." })
+      return
+    }
+
+    setBusyDocId(docId)
+    try {
+      const sha256 = await fileSha256(file)
+
+      // 1) reserva a versão seguinte + signed upload url
+      const r1 = await fetch("/api/admin/docs/versions/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          doc_id: docId,
+          filename: file.name,
+          mime_type: file.type || null,
+          size_bytes: file.size || null,
+        }),
+      })
+
+      const j1 = (await r1.json().catch(() => null)) as VersionCreateResp | null
+      if (!r1.ok || !j1 || j1.ok !== true) {
+        reportModuleDisabled(j1)
+        throw new Error(uploadErrMsg(j1, "Falha ao iniciar nova versão."))
+      }
+
+      // 2) upload ao signed url
+      const up = await supabase.storage
+        .from(j1.version.storage_bucket)
+        .uploadToSignedUrl(j1.version.storage_path, j1.upload.token, file, { upsert: true })
+
+      if (up.error) {
+        throw new Error(`UPLOAD_FAILED: ${up.error.message}`)
+      }
+
+      // 3) complete: servidor confere tamanho + sha256; versão passa a atual + audit DOC_VERSION_UPLOADED
+      const r2 = await fetch("/api/admin/docs/complete", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          doc_id: docId,
+          version: j1.version.version,
+          filename: file.name,
+          mime_type: file.type || null,
+          size_bytes: file.size || null,
+          sha256,
+        }),
+      })
+
+      const j2 = (await r2.json().catch(() => null)) as CompleteResp | null
+      if (!r2.ok || !j2 || j2.ok !== true) {
+        reportModuleDisabled(j2)
+        if (openDocId === docId) loadVersions(docId)
+        throw new Error(uploadErrMsg(j2, "Falha ao finalizar nova versão."))
+      }
+
+      showToast({ kind: "ok", msg: `Versão ${j1.version.version} enviada.` })
+      loadList()
+      if (openDocId === docId) loadVersions(docId)
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado no upload." })
+    } finally {
+      setBusyDocId(null)
+      if (versionInputRef.current) versionInputRef.current.value = ""
+    }
+  }
+
+  async function downloadVersion(docId: string, version: number) {
+    try {
+      const r = await fetch(
+        `/api/admin/docs/signed-url?doc_id=${encodeURIComponent(docId)}&version=${encodeURIComponent(String(version))}`,
+        { method: "GET", credentials: "include" }
+      )
+      const j = (await r.json().catch(() => null)) as { ok: true; signed_url: string } | null
+      if (!r.ok || !j || j.ok !== true) {
+        reportModuleDisabled(j)
+        showToast({ kind: "err", msg: errMsg(j, "Falha ao gerar link de download.") })
+        return
+      }
+      window.open(j.signed_url, "_blank", "noopener,noreferrer")
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado no download." })
+    }
+  }
+
+  async function setCurrentVersion(docId: string, version: number) {
+    if (!window.confirm(`Tornar a versão ${version} a versão atual?`)) return
+
+    setBusyDocId(docId)
+    try {
+      const r = await fetch("/api/admin/docs/versions/set-current", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ doc_id: docId, version }),
+      })
+      const j = (await r.json().catch(() => null)) as { ok: true; current_version: number } | null
+      if (!r.ok || !j || j.ok !== true) {
+        reportModuleDisabled(j)
+        showToast({ kind: "err", msg: errMsg(j, "Falha ao alterar versão atual.") })
+        return
+      }
+      showToast({ kind: "ok", msg: `Versão ${j.current_version} é agora a atual.` })
+      loadList()
+      loadVersions(docId)
+    } catch (e) {
+      showToast({ kind: "err", msg: (e instanceof Error && e.message) || "Erro inesperado." })
+    } finally {
+      setBusyDocId(null)
+    }
+  }
+
   useEffect(() => {
     // primeira carga: tenta cache e depois valida via API
     loadList({ preferCache: true })
+    loadCatalog()
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
   useEffect(() => {
     // ✅ Moduz+: quando muda a empresa, recarrega docs (cache primeiro)
-    const onEmpresaChanged = () => loadList({ preferCache: true })
+    const onEmpresaChanged = () => {
+      setOpenDocId(null)
+      filterRef.current = { folder: "all", tag: null }
+      searchRef.current = ""
+      setQuery("")
+      setFolderFilter("all")
+      setTagFilter(null)
+      setEditDocId(null)
+      loadList({ preferCache: true })
+      loadCatalog()
+    }
     window.addEventListener("moduz:empresa-changed", onEmpresaChanged as any)
     return () => window.removeEventListener("moduz:empresa-changed", onEmpresaChanged as any)
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  useEffect(() => {
+    // pesquisa com debounce (menos de 2 caracteres = volta ao histórico)
+    const next = query.trim().length >= 2 ? query.trim() : ""
+    if (next === searchRef.current) return
+    const t = window.setTimeout(() => {
+      searchRef.current = next
+      setEditDocId(null)
+      loadList()
+    }, 300)
+    return () => window.clearTimeout(t)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query])
+
   // “Estado” (padrão Moduz): prioriza a sessão, mas cai para o histórico quando existe.
   const estado = useMemo(() => {
     if (last) {
@@ -348,6 +894,7 @@ export default function DocsHomePage() {
         storage_bucket: last.storage_bucket,
         storage_path: last.storage_path,
         uploaded_ok: true as boolean | null,
+        status: "uploaded" as string | undefined,
       }
     }
 
@@ -362,6 +909,7 @@ export default function DocsHomePage() {
         storage_bucket: first.storage_bucket,
         storage_path: first.storage_path,
         uploaded_ok: first.uploaded_ok ?? null,
+        status: first.status as string | undefined,
       }
     }
 
@@ -382,6 +930,64 @@ export default function DocsHomePage() {
     return { total, ok, pendente }
   }, [docs])
 
+  const inputCls =
+    "w-full rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-slate-600 disabled:opacity-60"
+
+  const folderOptions = useMemo(
+    () => folders.map((f) => ({ id: f.id, path: folderPath(f.id) })).sort((a, b) => a.path.localeCompare(b.path, "pt")),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [folders, folderById]
+  )
+
+  const filterLabel = useMemo(() => {
+    const parts: string[] = []
+    if (folderFilter === "root") parts.push("Sem pasta")
+    else if (folderFilter !== "all") parts.push(folderPath(folderFilter) || "Pasta")
+    if (tagFilter) parts.push(`#${tagById.get(tagFilter)?.name ?? "etiqueta"}`)
+    return parts.join(" · ")
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [folderFilter, tagFilter, folderById, tagById])
+
+  function metaValue(f: MetaField, v: unknown) {
+    if (f.type === "date" && typeof v === "string") {
+      const d = new Date(v)
+      return Number.isNaN(d.getTime()) ? v : d.toLocaleDateString("pt-PT")
+    }
+    if (f.type === "number" && typeof v === "number") return v.toLocaleString("pt-PT")
+    return String(v)
+  }
+
+  function renderFolders(parentId: string | null, depth: number): JSX.Element[] {
+    return (childrenOf.get(parentId) ?? []).flatMap((f) => [
+      <li key={f.id} className="group flex items-center gap-1" style={{ paddingLeft: depth * 12 }}>
+        <button
+          onClick={() => applyFilter({ folder: f.id })}
+          className={cls(
+            "min-w-0 flex-1 truncate rounded-md px-2 py-1 text-left",
+            folderFilter === f.id ? "bg-slate-900 text-slate-50" : "text-slate-400 hover:bg-slate-900/60 hover:text-slate-200"
+          )}
+          title={folderPath(f.id)}
+        >
+          {f.name}
+        </button>
+        {canOrganize ? (
+          <span className="hidden shrink-0 items-center gap-1.5 pr-1 text-[11px] text-slate-500 group-hover:flex">
+            <button onClick={() => createFolder(f.id)} className="hover:text-slate-200" title="Nova subpasta">
+              +
+            </button>
+            <button onClick={() => renameFolder(f)} className="hover:text-slate-200" title="Renomear">
+              ✎
+            </button>
+            <button onClick={() => deleteFolder(f)} className="hover:text-red-300" title="Apagar">
+              ×
+            </button>
+          </span>
+        ) : null}
+      </li>,
+      ...renderFolders(f.id, depth + 1),
+    ])
+  }
+
   return (
     <div className="max-w-5xl mx-auto p-4 md:p-6">
       <div className="flex items-start justify-between gap-4">
@@ -420,6 +1026,13 @@ export default function DocsHomePage() {
           className="hidden"
           onChange={(e) => onSelectedFile(e.target.files?.[0] ?? null)}
         />
+
+        <input
+          ref={versionInputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => onSelectedVersionFile(e.target.files?.[0] ?? null)}
+        />
       </div>
 
       {envMissing ? (
@@ -465,13 +1078,17 @@ export default function DocsHomePage() {
                 <span
                   className={cls(
                     "ml-2 inline-flex items-center rounded-full border px-2 py-0.5 text-[11px]",
-                    estado.uploaded_ok === true && "border-emerald-900/60 bg-emerald-950/30 text-emerald-200",
-                    estado.uploaded_ok === false && "border-amber-900/60 bg-amber-950/30 text-amber-200",
-                    estado.uploaded_ok == null && "border-slate-800 bg-slate-950 text-slate-400"
+                    estado.status === "failed"
+                      ? "border-rose-900/60 bg-rose-950/30 text-rose-200"
+                      : estado.uploaded_ok === true
+                        ? "border-emerald-900/60 bg-emerald-950/30 text-emerald-200"
+                        : estado.uploaded_ok === false
+                          ? "border-amber-900/60 bg-amber-950/30 text-amber-200"
+                          : "border-slate-800 bg-slate-950 text-slate-400"
                   )}
                   title="Estado do upload (quando disponível)"
                 >
-                  {statusLabel(estado.uploaded_ok)}
+                  {statusLabel(estado.uploaded_ok, estado.status)}
                 </span>
               </div>
 
@@ -498,73 +1115,451 @@ export default function DocsHomePage() {
         )}
       </div>
 
-      {/* Histórico */}
-      <div className="mt-6 rounded-xl border border-slate-800 bg-slate-950 p-4">
-        <div className="flex items-center justify-between gap-4">
-          <p className="text-sm text-slate-300">Histórico (últimos 50)</p>
-          {listLoading ? <span className="text-xs text-slate-500">a carregar…</span> : null}
-        </div>
+      <div className="mt-6 grid grid-cols-1 gap-4 md:grid-cols-[14rem_1fr]">
+        {/* Organização (pastas / etiquetas / campos) */}
+        <aside className="space-y-4">
+          <div className="rounded-xl border border-slate-800 bg-slate-950 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-slate-300">Pastas</p>
+              {canOrganize ? (
+                <button onClick={() => createFolder(null)} className="text-xs text-slate-400 hover:text-slate-100">
+                  + nova
+                </button>
+              ) : null}
+            </div>
 
-        {listErr ? (
-          <div className="mt-3 rounded-lg border border-red-900/60 bg-red-950/30 p-3">
-            <p className="text-sm text-red-200">{listErr}</p>
+            <ul className="mt-2 space-y-0.5 text-sm">
+              <li>
+                <button
+                  onClick={() => applyFilter({ folder: "all" })}
+                  className={cls(
+                    "w-full rounded-md px-2 py-1 text-left",
+                    folderFilter === "all" ? "bg-slate-900 text-slate-50" : "text-slate-400 hover:bg-slate-900/60 hover:text-slate-200"
+                  )}
+                >
+                  Todos
+                </button>
+              </li>
+              <li>
+                <button
+                  onClick={() => applyFilter({ folder: "root" })}
+                  className={cls(
+                    "w-full rounded-md px-2 py-1 text-left",
+                    folderFilter === "root" ? "bg-slate-900 text-slate-50" : "text-slate-400 hover:bg-slate-900/60 hover:text-slate-200"
+                  )}
+                >
+                  Sem pasta
+                </button>
+              </li>
+              {renderFolders(null, 0)}
+            </ul>
           </div>
-        ) : null}
 
-        {!listErr && !listLoading && docs.length === 0 ? (
-          <p className="mt-2 text-sm text-slate-400">Ainda não existem documentos para mostrar.</p>
-        ) : null}
+          <div className="rounded-xl border border-slate-800 bg-slate-950 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-slate-300">Etiquetas</p>
+              {canOrganize ? (
+                <button onClick={createTag} className="text-xs text-slate-400 hover:text-slate-100">
+                  + nova
+                </button>
+              ) : null}
+            </div>
 
-        {!listErr && docs.length > 0 ? (
-          <ul className="mt-3 space-y-2">
-            {docs.map((d) => {
-              const label = d.filename ?? "sem nome"
-              const st = typeof d.uploaded_ok === "boolean" ? d.uploaded_ok : null
-
-              return (
-                <li key={d.id} className="rounded-lg border border-slate-800 bg-slate-950/60 p-3">
-                  <div className="flex items-start justify-between gap-3">
-                    <div className="min-w-0">
-                      <div className="flex items-center gap-2 min-w-0">
-                        <div className="text-sm text-slate-100 truncate">{label}</div>
-
-                        <span
-                          className={cls(
-                            "inline-flex items-center rounded-full border px-2 py-0.5 text-[11px]",
-                            st === true && "border-emerald-900/60 bg-emerald-950/30 text-emerald-200",
-                            st === false && "border-amber-900/60 bg-amber-950/30 text-amber-200",
-                            st == null && "border-slate-800 bg-slate-950 text-slate-400"
-                          )}
-                          title="Estado do upload (quando disponível)"
-                        >
-                          {statusLabel(st)}
-                        </span>
+            {tags.length ? (
+              <div className="mt-2 flex flex-wrap gap-1.5">
+                {tags.map((t) => (
+                  <span
+                    key={t.id}
+                    className={cls(
+                      "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[11px]",
+                      tagFilter === t.id ? "border-slate-500 bg-slate-800 text-slate-50" : "border-slate-800 text-slate-300"
+                    )}
+                  >
+                    <button onClick={() => applyFilter({ tag: tagFilter === t.id ? null : t.id })} className="inline-flex items-center gap-1">
+                      <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: t.color ?? "#64748b" }} />
+                      {t.name}
+                    </button>
+                    {canOrganize ? (
+                      <button onClick={() => deleteTag(t)} className="text-slate-500 hover:text-red-300" title="Apagar etiqueta">
+                        ×
+                      </button>
+                    ) : null}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="mt-2 text-xs text-slate-500">Sem etiquetas.</p>
+            )}
+          </div>
+
+          {canOrganize ? (
+            <details className="rounded-xl border border-slate-800 bg-slate-950 p-3">
+              <summary className="cursor-pointer text-sm text-slate-300">Campos de metadados</summary>
+
+              {fields.length ? (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {fields.map((f) => (
+                    <li key={f.id} className="flex items-center justify-between gap-2">
+                      <span className="min-w-0 truncate text-slate-300">
+                        {f.label} <span className="font-mono text-slate-500">({f.type})</span>
+                      </span>
+                      <button onClick={() => deleteField(f)} className="text-slate-500 hover:text-red-300" title="Apagar campo">
+                        ×
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-2 text-xs text-slate-500">Ex.: data de validade, contraparte.</p>
+              )}
+
+              <div className="mt-3 space-y-2">
+                <input
+                  value={newField.label}
+                  onChange={(e) => setNewField((x) => ({ ...x, label: e.target.value }))}
+                  placeholder="Nome do campo"
+                  className={inputCls}
+                />
+                <div className="flex gap-2">
+                  <select
+                    value={newField.type}
+                    onChange={(e) => setNewField((x) => ({ ...x, type: e.target.value as MetaField["type"] }))}
+                    className={inputCls}
+                  >
+                    <option value="text">Texto</option>
+                    <option value="date">Data</option>
+                    <option value="number">Número</option>
+                  </select>
+                  <button
+                    onClick={addField}
+                    disabled={!newField.label.trim()}
+                    className="shrink-0 rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-xs text-slate-200 hover:bg-slate-900 disabled:opacity-60"
+                  >
+                    Adicionar
+                  </button>
+                </div>
+              </div>
+            </details>
+          ) : null}
+        </aside>
+
+        {/* Histórico */}
+        <div className="min-w-0 rounded-xl border border-slate-800 bg-slate-950 p-4">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-slate-300">
+              {searchRef.current ? `Resultados para “${searchRef.current}”` : "Histórico (últimos 50)"}
+              {filterLabel ? <span className="text-slate-500"> · {filterLabel}</span> : null}
+            </p>
+            {listLoading ? <span className="text-xs text-slate-500">a carregar…</span> : null}
+          </div>
+
+          <div className="mt-3 flex items-center gap-2">
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Pesquisar por nome, etiqueta, metadados ou conteúdo…"
+              className={inputCls}
+            />
+            {canOrganize ? (
+              <button
+                onClick={reindexContent}
+                disabled={reindexing}
+                className="shrink-0 rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-xs text-slate-300 hover:bg-slate-900 disabled:opacity-60"
+                title="Extrair texto dos documentos ainda não indexados (PDF, DOCX, TXT)"
+              >
+                {reindexing ? "A indexar…" : "Indexar conteúdo"}
+              </button>
+            ) : null}
+          </div>
+
+          {listErr ? (
+            <div className="mt-3 rounded-lg border border-red-900/60 bg-red-950/30 p-3">
+              <p className="text-sm text-red-200">{listErr}</p>
+            </div>
+          ) : null}
+
+          {!listErr && !listLoading && docs.length === 0 ? (
+            <p className="mt-2 text-sm text-slate-400">
+              {searchRef.current ? "Sem resultados." : "Ainda não existem documentos para mostrar."}
+            </p>
+          ) : null}
+
+          {!listErr && docs.length > 0 ? (
+            <ul className="mt-3 space-y-2">
+              {docs.map((d) => {
+                const label = d.filename ?? "sem nome"
+                const st = typeof d.uploaded_ok === "boolean" ? d.uploaded_ok : null
+                const currentVersion = d.current_version ?? 1
+                const isOpen = openDocId === d.id
+                const rowBusy = busyDocId === d.id
+                const isEditing = editDocId === d.id && draft !== null
+                const docTags = (d.tag_ids ?? []).map((id) => tagById.get(id)).filter((t): t is TagRow => !!t)
+                const docMeta = fields.filter((f) => d.metadata?.[f.key] !== undefined && d.metadata?.[f.key] !== null)
+
+                return (
+                  <li key={d.id} className="rounded-lg border border-slate-800 bg-slate-950/60 p-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <div className="text-sm text-slate-100 truncate">{label}</div>
+
+                          <span
+                            className={cls(
+                              "inline-flex items-center rounded-full border px-2 py-0.5 text-[11px]",
+                              d.status === "failed"
+                                ? "border-rose-900/60 bg-rose-950/30 text-rose-200"
+                                : st === true
+                                  ? "border-emerald-900/60 bg-emerald-950/30 text-emerald-200"
+                                  : st === false
+                                    ? "border-amber-900/60 bg-amber-950/30 text-amber-200"
+                                    : "border-slate-800 bg-slate-950 text-slate-400"
+                            )}
+                            title={
+                              d.status === "failed"
+                                ? "O ficheiro no Storage não confere com o enviado (é removido automaticamente)"
+                                : "Estado do upload (quando disponível)"
+                            }
+                          >
+                            {statusLabel(st, d.status)}
+                          </span>
+
+                          {currentVersion > 1 ? (
+                            <span className="inline-flex items-center rounded-full border border-slate-800 bg-slate-900 px-2 py-0.5 text-[11px] text-slate-300">
+                              v{currentVersion}
+                            </span>
+                          ) : null}
+                        </div>
+
+                        <div className="mt-1 text-xs text-slate-500">
+                          {formatDt(d.created_at)} <span className="text-slate-600">•</span>{" "}
+                          {d.size_bytes ? formatBytes(d.size_bytes) : "—"} <span className="text-slate-600">•</span>{" "}
+                          {d.mime_type ?? "—"}
+                        </div>
+
+                        {d.folder_id || docTags.length || docMeta.length ? (
+                          <div className="mt-1.5 flex flex-wrap items-center gap-1.5 text-[11px]">
+                            {d.folder_id ? (
+                              <button
+                                onClick={() => applyFilter({ folder: d.folder_id as string })}
+                                className="rounded-md border border-slate-800 px-1.5 py-0.5 text-slate-400 hover:text-slate-200"
+                                title="Abrir pasta"
+                              >
+                                {folderPath(d.folder_id) || "pasta"}
+                              </button>
+                            ) : null}
+                            {docTags.map((t) => (
+                              <span
+                                key={t.id}
+                                className="inline-flex items-center gap-1 rounded-full border border-slate-800 px-2 py-0.5 text-slate-300"
+                              >
+                                <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: t.color ?? "#64748b" }} />
+                                {t.name}
+                              </span>
+                            ))}
+                            {docMeta.map((f) => (
+                              <span key={f.key} className="text-slate-500">
+                                {f.label}: <span className="text-slate-300">{metaValue(f, d.metadata?.[f.key])}</span>
+                              </span>
+                            ))}
+                          </div>
+                        ) : null}
+
+                        {d.snippet ? (
+                          <p className="mt-1.5 text-xs leading-relaxed text-slate-400">
+                            <Snippet text={d.snippet} />
+                          </p>
+                        ) : null}
+
+                        <details className="mt-2">
+                          <summary className="cursor-pointer text-xs text-slate-400 hover:text-slate-200">
+                            Detalhes
+                          </summary>
+                          <div className="mt-2 space-y-1">
+                            <div className="font-mono text-xs text-slate-500">doc_id: {d.id}</div>
+                            <div className="font-mono text-xs text-slate-500">
+                              {d.storage_bucket}:{d.storage_path}
+                            </div>
+                            {d.sha256 ? (
+                              <div className="font-mono text-xs text-slate-500 break-all">sha256: {d.sha256}</div>
+                            ) : null}
+                          </div>
+                        </details>
                       </div>
 
-                      <div className="mt-1 text-xs text-slate-500">
-                        {formatDt(d.created_at)} <span className="text-slate-600">•</span>{" "}
-                        {d.size_bytes ? formatBytes(d.size_bytes) : "—"} <span className="text-slate-600">•</span>{" "}
-                        {d.mime_type ?? "—"}
+                      <div className="flex shrink-0 items-center gap-2">
+                        {canEdit ? (
+                          <button
+                            onClick={() => startEdit(d)}
+                            className="rounded-md border border-slate-800 bg-slate-950 px-2.5 py-1 text-xs text-slate-200 hover:bg-slate-900"
+                          >
+                            {editDocId === d.id ? "Fechar" : "Editar"}
+                          </button>
+                        ) : null}
+                        <button
+                          onClick={() => toggleVersions(d.id)}
+                          className="rounded-md border border-slate-800 bg-slate-950 px-2.5 py-1 text-xs text-slate-200 hover:bg-slate-900"
+                        >
+                          {isOpen ? "Fechar versões" : "Versões"}
+                        </button>
+                        <button
+                          onClick={() => onPickVersionFile(d.id)}
+                          disabled={busyDocId !== null || envMissing || st === false}
+                          className="rounded-md border border-slate-800 bg-slate-950 px-2.5 py-1 text-xs text-slate-200 hover:bg-slate-900 disabled:opacity-60 disabled:cursor-not-allowed"
+                          title={st === false ? "Upload inicial por concluir" : "Enviar nova versão deste documento"}
+                        >
+                          {rowBusy ? "A enviar…" : "Nova versão"}
+                        </button>
                       </div>
+                    </div>
 
-                      <details className="mt-2">
-                        <summary className="cursor-pointer text-xs text-slate-400 hover:text-slate-200">
-                          Detalhes
-                        </summary>
-                        <div className="mt-2 space-y-1">
-                          <div className="font-mono text-xs text-slate-500">doc_id: {d.id}</div>
-                          <div className="font-mono text-xs text-slate-500">
-                            {d.storage_bucket}:{d.storage_path}
+                    {isEditing && draft ? (
+                      <div className="mt-3 space-y-3 border-t border-slate-800 pt-3">
+                        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                          <label className="block text-xs text-slate-400">
+                            Pasta
+                            <select
+                              value={draft.folder_id ?? ""}
+                              onChange={(e) => setDraft({ ...draft, folder_id: e.target.value || null })}
+                              className={cls(inputCls, "mt-1")}
+                            >
+                              <option value="">(sem pasta)</option>
+                              {folderOptions.map((o) => (
+                                <option key={o.id} value={o.id}>
+                                  {o.path}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+
+                          {fields.map((f) => (
+                            <label key={f.key} className="block text-xs text-slate-400">
+                              {f.label}
+                              <input
+                                type={f.type === "date" ? "date" : f.type === "number" ? "number" : "text"}
+                                value={draft.metadata[f.key] ?? ""}
+                                onChange={(e) =>
+                                  setDraft({ ...draft, metadata: { ...draft.metadata, [f.key]: e.target.value } })
+                                }
+                                className={cls(inputCls, "mt-1")}
+                              />
+                            </label>
+                          ))}
+                        </div>
+
+                        {tags.length ? (
+                          <div>
+                            <p className="text-xs text-slate-400">Etiquetas</p>
+                            <div className="mt-1 flex flex-wrap gap-1.5">
+                              {tags.map((t) => {
+                                const on = draft.tag_ids.includes(t.id)
+                                return (
+                                  <button
+                                    key={t.id}
+                                    onClick={() =>
+                                      setDraft({
+                                        ...draft,
+                                        tag_ids: on ? draft.tag_ids.filter((x) => x !== t.id) : [...draft.tag_ids, t.id],
+                                      })
+                                    }
+                                    className={cls(
+                                      "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[11px]",
+                                      on ? "border-slate-500 bg-slate-800 text-slate-50" : "border-slate-800 text-slate-400"
+                                    )}
+                                  >
+                                    <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: t.color ?? "#64748b" }} />
+                                    {t.name}
+                                  </button>
+                                )
+                              })}
+                            </div>
                           </div>
+                        ) : null}
+
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => setEditDocId(null)}
+                            className="rounded-md border border-slate-800 bg-slate-950 px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-900"
+                          >
+                            Cancelar
+                          </button>
+                          <button
+                            onClick={() => saveEdit(d.id)}
+                            disabled={savingMeta}
+                            className="rounded-md border border-emerald-800 bg-emerald-500/10 px-3 py-1.5 text-xs text-emerald-200 hover:bg-emerald-500/20 disabled:opacity-60"
+                          >
+                            {savingMeta ? "A guardar…" : "Guardar"}
+                          </button>
                         </div>
-                      </details>
-                    </div>
-                  </div>
-                </li>
-              )
-            })}
-          </ul>
-        ) : null}
+                      </div>
+                    ) : null}
+
+                    {isOpen ? (
+                      <div className="mt-3 border-t border-slate-800 pt-3">
+                        {versionsLoading && versions.length === 0 ? (
+                          <p className="text-xs text-slate-500">a carregar versões…</p>
+                        ) : versions.length === 0 ? (
+                          <p className="text-xs text-slate-500">Sem versões registadas.</p>
+                        ) : (
+                          <ul className="space-y-1.5">
+                            {versions.map((v) => (
+                              <li key={v.version} className="flex items-center justify-between gap-3 text-xs">
+                                <div className="flex min-w-0 items-center gap-2">
+                                  <span className="font-mono text-slate-300">v{v.version}</span>
+                                  <span className="truncate text-slate-400">{v.filename ?? "sem nome"}</span>
+                                  <span className="text-slate-600">•</span>
+                                  <span className="text-slate-500">{v.size_bytes ? formatBytes(v.size_bytes) : "—"}</span>
+                                  <span className="text-slate-600">•</span>
+                                  <span className="text-slate-500">{formatDt(v.uploaded_at ?? v.created_at)}</span>
+                                  {v.current ? (
+                                    <span className="rounded-full border border-emerald-900/60 bg-emerald-950/30 px-2 py-0.5 text-[11px] text-emerald-200">
+                                      atual
+                                    </span>
+                                  ) : v.status === "pending" ? (
+                                    <span className="rounded-full border border-amber-900/60 bg-amber-950/30 px-2 py-0.5 text-[11px] text-amber-200">
+                                      pendente
+                                    </span>
+                                  ) : v.status === "failed" ? (
+                                    <span
+                                      className="rounded-full border border-rose-900/60 bg-rose-950/30 px-2 py-0.5 text-[11px] text-rose-200"
+                                      title={v.failure_reason ?? undefined}
+                                    >
+                                      falhou
+                                    </span>
+                                  ) : null}
+                                </div>
+
+                                <div className="flex shrink-0 items-center gap-2">
+                                  {v.status === "uploaded" ? (
+                                    <button
+                                      onClick={() => downloadVersion(d.id, v.version)}
+                                      className="text-slate-300 hover:text-slate-100 underline-offset-2 hover:underline"
+                                    >
+                                      Descarregar
+                                    </button>
+                                  ) : null}
+                                  {v.status === "uploaded" && !v.current ? (
+                                    <button
+                                      onClick={() => setCurrentVersion(d.id, v.version)}
+                                      disabled={busyDocId !== null}
+                                      className="text-slate-300 hover:text-slate-100 underline-offset-2 hover:underline disabled:opacity-60"
+                                    >
+                                      Tornar atual
+                                    </button>
+                                  ) : null}
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ) : null}
+                  </li>
+                )
+              })}
+            </ul>
+          ) : null}
+        </div>
       </div>
     </div>
   )
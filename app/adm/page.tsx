@@ -3,11 +3,13 @@
  * Moduz+ | Admin Home (Core)
  * Arquivo: app/adm/page.tsx
  * Módulo: Core
- * Etapa: Contexto + Cards (v2.1)
+ * Etapa: Contexto + Cards (v2.2 - empresa ativa server-side)
  * Descrição:
  *  - Exige sessão via cookies (SSR auth)
  *  - Carrega contexto do Core em /api/admin/core/context
  *  - Carrega módulos habilitados da empresa ativa (/api/admin/core/modules/list)
+ *  - Empresa ativa vem do servidor (context.active_empresa_id)
+ *  - Atalho "Nova empresa" (onboarding) para quem pode criar
  *  - Auto-sync: ao trocar empresa no switcher ("moduz:empresa-changed"), recarrega tudo
  *  - Botão "Atualizar" fica como fallback premium
  * =============================================
@@ -35,6 +37,7 @@ type CoreContextResponse =
         role: string | null
         ativo: boolean
       }>
+      active_empresa_id: string | null
       default_empresa_id: string | null
     }
   | { ok: false; error: string; details?: string | null }
@@ -47,22 +50,13 @@ type ModuleRow = {
 }
 
 type ModulesListResponse =
-  | { empresa_id: string; modules: ModuleRow[] }
-  | { error: string; details?: string | null }
+  | { ok: true; empresa_id: string; modules: ModuleRow[] }
+  | { ok: false; error: string; details?: string | null }
 
 function safeJson<T>(x: any): T | null {
   return x && typeof x === "object" ? (x as T) : null
 }
 
-function getEmpresaIdFromStorage(): string | null {
-  try {
-    const v = window.localStorage.getItem("moduz_empresa_id")
-    return v && v.length > 10 ? v : null
-  } catch {
-    return null
-  }
-}
-
 function formatDt(v: string | null) {
   if (!v) return "—"
   try {
@@ -86,11 +80,18 @@ export default function AdmHomePage() {
     return context.empresas?.find((e) => e.empresa_id === empresaId)?.nome ?? null
   }, [context, empresaId])
 
+  // onboarding: sem empresas (1º acesso) ou admin de alguma empresa
+  const canCreateEmpresa = useMemo(() => {
+    if (!context) return false
+    const empresas = (context.empresas ?? []).filter((e) => e.ativo !== false)
+    return empresas.length === 0 || empresas.some((e) => e.role === "admin")
+  }, [context])
+
   const enabledKeys = useMemo(() => {
     return (modules ?? []).filter((m) => m.enabled).map((m) => m.module_key)
   }, [modules])
 
-  async function loadAll(forceEmpresaId?: string | null) {
+  async function loadAll() {
     setErr(null)
     setLoading(true)
 
@@ -110,16 +111,8 @@ export default function AdmHomePage() {
       const data = j1 as Extract<CoreContextResponse, { ok: true }>
       setContext(data)
 
-      // 2) empresa ativa: prioridade → force → localStorage → default → primeira
-      const stored = getEmpresaIdFromStorage()
-      const allowedStored = Boolean(stored && (data.empresas ?? []).some((e) => e.empresa_id === stored))
-
-      const eid =
-        forceEmpresaId ??
-        (allowedStored ? stored : null) ??
-        data.default_empresa_id ??
-        data.empresas?.[0]?.empresa_id ??
-        null
+      // 2) empresa ativa (servidor: user_preferences validada)
+      const eid = data.active_empresa_id ?? data.default_empresa_id ?? null
 
       setEmpresaId(eid)
 
@@ -131,7 +124,6 @@ export default function AdmHomePage() {
 
       const r2 = await fetch("/api/admin/core/modules/list", {
         method: "GET",
-        headers: { "x-empresa-id": eid },
         credentials: "include",
       })
 
@@ -173,7 +165,7 @@ export default function AdmHomePage() {
       const detail = (ev as CustomEvent)?.detail as { empresa_id?: string } | undefined
       const eid = detail?.empresa_id ?? null
       if (!eid) return
-      loadAll(eid)
+      loadAll()
     }
 
     window.addEventListener("moduz:empresa-changed", onEmpresaChanged as any)
@@ -224,7 +216,18 @@ export default function AdmHomePage() {
           </div>
 
           <div className="rounded-xl border border-slate-800 bg-slate-950 p-4">
-            <h2 className="text-sm font-semibold text-slate-100">Empresa ativa</h2>
+            <div className="flex items-center justify-between gap-3">
+              <h2 className="text-sm font-semibold text-slate-100">Empresa ativa</h2>
+              {canCreateEmpresa ? (
+                <a
+                  href="/adm/core/empresas/nova"
+                  className="rounded-md border border-slate-800 bg-slate-950 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-900"
+                  title="Criar nova empresa"
+                >
+                  Nova empresa
+                </a>
+              ) : null}
+            </div>
             <p className="mt-2 text-sm text-slate-300">{empresaNome ?? "—"}</p>
             <p className="mt-1 text-xs text-slate-500 font-mono">{empresaId ?? "—"}</p>
           </div>
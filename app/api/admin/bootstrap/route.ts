@@ -6,6 +6,7 @@
  * Etapa: Segurança (pós-bootstrap)
  * Descrição: Endpoint de bootstrap DESATIVADO após setup inicial.
  * Motivo: reduzir superfície de ataque e manter repo limpo.
+ * Substituto: POST /api/admin/core/empresas/create (onboarding guardado, transacional).
  * =============================================
  */
 
@@ -17,7 +18,7 @@ export async function POST() {
       ok: false,
       error: "bootstrap_disabled",
       message:
-        "Bootstrap já foi concluído neste projeto. Endpoint desativado permanentemente.",
+        "Bootstrap já foi concluído neste projeto. Endpoint desativado permanentemente. Use /api/admin/core/empresas/create.",
     },
     { status: 410 }
   )
@@ -29,7 +30,7 @@ export async function GET() {
       ok: false,
       error: "bootstrap_disabled",
       message:
-        "Bootstrap já foi concluído neste projeto. Endpoint desativado permanentemente.",
+        "Bootstrap já foi concluído neste projeto. Endpoint desativado permanentemente. Use /api/admin/core/empresas/create.",
     },
     { status: 410 }
   )
@@ -0,0 +1,111 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/audit/export/route.ts
+ * Módulo: Core (Auditoria)
+ * Etapa: Export (v1.4 - tipos sem any)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Exporta o audit_log filtrado (mesmos filtros do list) em CSV ou JSON
+ *  - Lê em lotes (limite PostgREST) até EXPORT_MAX_ROWS; truncagem sinalizada no header
+ *  - Download direto (Content-Disposition); a empresa vem da sessão (sem header)
+ *  - Audit_log via recordAudit: AUDIT_EXPORTED (formato, filtros, nº de linhas); sem audit não há ficheiro
+ * =============================================
+ */
+
+import { ApiError, adminRoute } from "../../../../../../lib/admin/route-handler"
+import {
+  AUDIT_COLUMNS,
+  applyAuditFilters,
+  describeAuditFilters,
+  parseAuditFilters,
+  recordAudit,
+  type AuditLogRow,
+} from "../../../../../../lib/admin/audit"
+
+const EXPORT_MAX_ROWS = 20_000
+const BATCH = 1000
+
+const CSV_COLUMNS = [
+  "created_at",
+  "action",
+  "actor_user_id",
+  "actor_profile_id",
+  "entity",
+  "entity_id",
+  "payload",
+  "id",
+  "chain_seq",
+  "prev_hash",
+  "hash",
+] as const
+
+function csvCell(v: unknown) {
+  if (v === null || v === undefined) return ""
+  const s = typeof v === "object" ? JSON.stringify(v) : String(v)
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export const GET = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const url = new URL(req.url)
+  const format = (url.searchParams.get("format") ?? "csv").toLowerCase()
+  if (format !== "csv" && format !== "json") throw new ApiError(400, "INVALID_FORMAT", format)
+
+  const filters = parseAuditFilters(url)
+
+  const rows: AuditLogRow[] = []
+  let truncated = false
+
+  for (let offset = 0; ; offset += BATCH) {
+    let q = admin
+      .from("audit_log")
+      .select(AUDIT_COLUMNS)
+      .eq("empresa_id", empresaId)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(offset, offset + BATCH - 1)
+
+    q = applyAuditFilters(q, filters)
+
+    const { data, error } = await q
+    if (error) throw new ApiError(500, "DB_ERROR", error.message)
+
+    const batch = (data ?? []) as AuditLogRow[]
+    rows.push(...batch)
+
+    if (rows.length >= EXPORT_MAX_ROWS) {
+      truncated = rows.length > EXPORT_MAX_ROWS || batch.length === BATCH
+      rows.length = Math.min(rows.length, EXPORT_MAX_ROWS)
+      break
+    }
+    if (batch.length < BATCH) break
+  }
+
+  await recordAudit(admin, {
+    empresa_id: empresaId,
+    actor_user_id: user.id,
+    actor_profile_id: profile.id,
+    action: "AUDIT_EXPORTED",
+    entity: "audit_log",
+    payload: { format, filters: describeAuditFilters(filters), rows: rows.length, truncated },
+  })
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+  const filename = `auditoria-${empresaId.slice(0, 8)}-${stamp}.${format}`
+
+  const body =
+    format === "json"
+      ? JSON.stringify({ empresa_id: empresaId, filters: describeAuditFilters(filters), truncated, items: rows }, null, 2)
+      : [CSV_COLUMNS.join(","), ...rows.map((r) => CSV_COLUMNS.map((c) => csvCell(r[c])).join(","))].join("\r\n")
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": format === "json" ? "application/json; charset=utf-8" : "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+      "X-Moduz-Export-Rows": String(rows.length),
+      "X-Moduz-Export-Truncated": truncated ? "1" : "0",
+    },
+  })
+})
@@ -0,0 +1,21 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/audit/flush/route.ts
+ * Módulo: Core (Auditoria)
+ * Etapa: Flush do outbox (v1.1 - só a empresa da sessão)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Entrega eventos pendentes do audit_outbox da empresa ativa (RPC moduz_audit_outbox_flush)
+ *  - Outras empresas ficam para o pg_cron (sem filtro)
+ *  - Para instalações sem pg_cron ou para forçar a entrega antes de consultar a auditoria
+ * =============================================
+ */
+
+import { adminRoute, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { flushAuditOutbox } from "../../../../../../lib/admin/audit"
+
+export const POST = adminRoute({ access: "admin" }, async ({ empresaId, admin }) => {
+  const delivered = await flushAuditOutbox(admin, empresaId, 500)
+  return jsonOk({ delivered })
+})
@@ -0,0 +1,41 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/audit/verify/route.ts
+ * Módulo: Core (Auditoria)
+ * Etapa: Verify chain (v1.1 - tipos sem any)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Recalcula a cadeia de hashes do audit_log da empresa (RPC moduz_audit_verify_chain)
+ *  - Devolve total verificado, hash da cabeça e o 1º elo quebrado (se existir)
+ *  - Read-only (não gera evento de auditoria)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+
+export const GET = adminRoute({ access: "admin" }, async ({ empresaId, admin }) => {
+  const { data, error } = await admin.rpc("moduz_audit_verify_chain", { p_empresa_id: empresaId })
+  if (error) return jsonError(500, "VERIFY_FAILED", error.message)
+
+  const r = (Array.isArray(data) ? data[0] : data) as {
+    ok: boolean
+    total: number | null
+    head_seq: number | null
+    head_hash: string | null
+    broken_id: string | null
+    broken_seq: number | null
+    reason: string | null
+  } | null
+  if (!r) return jsonError(500, "VERIFY_FAILED", "empty result")
+
+  return jsonOk({
+    empresa_id: empresaId,
+    intact: !!r.ok,
+    total: Number(r.total ?? 0),
+    head_seq: r.head_seq ?? null,
+    head_hash: r.head_hash ?? null,
+    broken: r.ok ? null : { id: r.broken_id ?? null, seq: r.broken_seq ?? null, reason: r.reason ?? null },
+    checked_at: new Date().toISOString(),
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/billing/change-plan/route.ts
+ * Módulo: Core (Plano / Entitlements)
+ * Etapa: Mudar plano (v1.2 - numa só transação)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Body: { plan_key } (catálogo em components/adm/plans)
+ *  - Downgrade só se o uso atual couber no plano novo (409 com details):
+ *      PLAN_DOWNGRADE_MODULES (módulos ativos em definitivo fora do plano; trials não contam)
+ *      PLAN_DOWNGRADE_SEATS / PLAN_DOWNGRADE_STORAGE (uso/limite)
+ *  - Mudança feita pelo provider de billing (lib/billing -> moduz_core_change_plan): assinatura,
+ *    cancelamento das ativações agendadas (pending) com módulos fora do plano novo e audits
+ *    (MODULE_SCHEDULE_CANCELLED com reason PLAN_CHANGED, PLAN_CHANGED) na mesma transação;
+ *    agendamentos cancelados devolvidos em cancelled_schedules
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { loadEntitlements, seatsUsed } from "../../../../../../lib/admin/entitlements"
+import { loadModuleRows } from "../../../../../../lib/admin/modules"
+import { billingProvider } from "../../../../../../lib/billing/provider"
+import { PLANS, isPlanKey, modulesOutsidePlan } from "../../../../../../components/adm/plans"
+import { isModuleKey, type ModuleKey } from "../../../../../../components/adm/module-registry"
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const planKey = String(body?.plan_key ?? "").trim().toLowerCase()
+  if (!isPlanKey(planKey)) return jsonError(400, "INVALID_PLAN_KEY", planKey)
+
+  const ent = await loadEntitlements(admin, empresaId)
+  if (ent.plan_key === planKey && ent.subscription) return jsonError(409, "PLAN_UNCHANGED", planKey)
+
+  const plan = PLANS[planKey]
+
+  const permanent = (await loadModuleRows(admin, empresaId))
+    .filter((m) => m.enabled && !m.trial_ends_at && isModuleKey(m.module_key))
+    .map((m) => m.module_key as ModuleKey)
+  const outside = modulesOutsidePlan(planKey, permanent)
+  if (outside.length) return jsonError(409, "PLAN_DOWNGRADE_MODULES", outside.join(","))
+
+  const used = seatsUsed(ent)
+  if (plan.seats !== null && used > plan.seats) return jsonError(409, "PLAN_DOWNGRADE_SEATS", `${used}/${plan.seats}`)
+
+  const quota = plan.storage_mb === null ? null : plan.storage_mb * 1024 * 1024
+  if (quota !== null && ent.usage.storage_bytes > quota) {
+    return jsonError(409, "PLAN_DOWNGRADE_STORAGE", `${ent.usage.storage_bytes}/${quota}`)
+  }
+
+  const provider = billingProvider()
+  const { subscription, cancelled_schedules } = await provider.changePlan(admin, empresaId, planKey, {
+    user_id: user.id,
+    profile_id: profile.id,
+    from_plan: ent.plan_key,
+  })
+
+  return jsonOk({ plan_key: planKey, subscription, cancelled_schedules, audit: "OK" })
+})
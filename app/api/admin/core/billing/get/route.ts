@@ -0,0 +1,28 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/billing/get/route.ts
+ * Módulo: Core (Plano / Entitlements)
+ * Etapa: Get (v1)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Plano atual + assinatura + uso (lugares, storage) via lib/admin/entitlements
+ *  - provider = provider de billing configurado (BILLING_PROVIDER; default "local")
+ * =============================================
+ */
+
+import { adminRoute, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { loadEntitlements, seatsUsed } from "../../../../../../lib/admin/entitlements"
+import { billingProvider } from "../../../../../../lib/billing/provider"
+
+export const GET = adminRoute({ access: "admin" }, async ({ empresaId, admin }) => {
+  const ent = await loadEntitlements(admin, empresaId)
+
+  return jsonOk({
+    empresa_id: empresaId,
+    provider: billingProvider().key,
+    plan_key: ent.plan_key,
+    subscription: ent.subscription,
+    usage: { ...ent.usage, seats_used: seatsUsed(ent) },
+  })
+})
@@ -0,0 +1,50 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/context/active/route.ts
+ * Módulo: Core (Contexto)
+ * Etapa: Empresa ativa server-side (v1.1 - tipos sem any)
+ * Descrição:
+ *  - Troca a empresa ativa do utilizador (user_preferences.active_empresa_id)
+ *  - Valida membership: só empresas com profile ativo
+ *  - Rota user-level (não tenant-scoped): não usa adminRoute
+ *  - Próximos pedidos a /api/admin/** passam a usar esta empresa (middleware)
+ * =============================================
+ */
+
+import { createSupabaseServerClient } from "../../../../../../lib/supabase/server"
+import { supabaseAdmin } from "../../../../../../lib/supabase/admin"
+import { jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { saveActiveEmpresaId } from "../../../../../../lib/admin/active-empresa"
+
+export async function POST(req: Request) {
+  try {
+    const supabase = createSupabaseServerClient()
+    const { data: userRes, error: userErr } = await supabase.auth.getUser()
+    const user = userRes?.user
+    if (userErr || !user) return jsonError(401, "MISSING_SESSION")
+
+    const body = await req.json().catch(() => null)
+    const empresa_id = String(body?.empresa_id ?? "").trim()
+    if (!empresa_id || empresa_id.length < 20) return jsonError(400, "MISSING_EMPRESA_ID")
+
+    const admin = supabaseAdmin()
+
+    const { data: profile, error: pErr } = await admin
+      .from("profiles")
+      .select("id, ativo")
+      .eq("user_id", user.id)
+      .eq("empresa_id", empresa_id)
+      .maybeSingle()
+
+    if (pErr) return jsonError(500, "PROFILE_LOOKUP_FAILED", pErr.message)
+    if (!profile || profile.ativo === false) return jsonError(403, "NO_PROFILE")
+
+    const { error } = await saveActiveEmpresaId(admin, user.id, empresa_id)
+    if (error) return jsonError(500, "DB_ERROR", error.message)
+
+    return jsonOk({ active_empresa_id: empresa_id })
+  } catch (e) {
+    return jsonError(500, "UNEXPECTED", e instanceof Error ? e.message : String(e))
+  }
+}
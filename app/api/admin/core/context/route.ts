@@ -3,18 +3,21 @@
  * Moduz+ | API Admin
  * Arquivo: app/api/admin/core/context/route.ts
  * Módulo: Core (Contexto)
- * Etapa: Contexto do utilizador (v2 - contrato estável)
+ * Etapa: Contexto do utilizador (v2.1 - empresa ativa server-side)
  * Descrição:
  *  - Autentica via Supabase SSR (cookies)
  *  - Lista empresas acessíveis via public.profiles (user_id)
  *  - Enriquecer nomes via public.empresas (id->nome)
- *  - Retorna user(email), profile(display_name/role), empresas(nome), default_empresa_id
+ *  - Retorna user(email), profile(display_name/role), empresas(nome), active_empresa_id
+ *  - active_empresa_id: user_preferences validada (RPC moduz_active_empresa_id)
+ *  - default_empresa_id mantido por compatibilidade (= active_empresa_id)
  * =============================================
  */
 
 import { NextResponse } from "next/server"
 import { createClient } from "@supabase/supabase-js"
 import { createSupabaseServerClient } from "../../../../../lib/supabase/server"
+import { resolveActiveEmpresaId } from "../../../../../lib/admin/active-empresa"
 
 function env(name: string): string {
   const v = process.env[name]
@@ -88,13 +91,13 @@ export async function GET() {
       ativo: Boolean((p as any)?.ativo ?? true),
     }))
 
-    const defaultEmpresaId =
+    const activeEmpresaId =
+      (await resolveActiveEmpresaId(supabase)) ??
       empresasOut.find((x) => x.ativo)?.empresa_id ??
-      empresasOut[0]?.empresa_id ??
       null
 
-    // Profile "principal" (primeira ativa)
-    const primary = activeProfiles[0] ?? null
+    // Profile "principal" (o da empresa ativa)
+    const primary = activeProfiles.find((p) => p.empresa_id === activeEmpresaId) ?? activeProfiles[0] ?? null
 
     return NextResponse.json(
       {
@@ -112,7 +115,8 @@ export async function GET() {
             }
           : null,
         empresas: empresasOut,
-        default_empresa_id: defaultEmpresaId,
+        active_empresa_id: activeEmpresaId,
+        default_empresa_id: activeEmpresaId,
       },
       { status: 200 }
     )
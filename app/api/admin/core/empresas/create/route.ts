@@ -0,0 +1,204 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/empresas/create/route.ts
+ * Módulo: Core (Empresas)
+ * Etapa: Onboarding (v1.6 - tipos sem any)
+ * Descrição:
+ *  - Cria empresa via RPC moduz_core_create_empresa (1 transação):
+ *      empresa + modules_enabled + settings + 1º admin + empresa ativa + audit EMPRESA_CREATED
+ *  - Guard: user sem nenhum profile ativo (1º onboarding) OU admin de outra empresa
+ *  - Rota user-level (ainda não há empresa): não usa adminRoute
+ *  - Primeiros utilizadores: convites (createInvite) após a transação; falhas não anulam a empresa
+ *  - Audit INVITE_CREATED (source onboarding) gravado com cada convite (createInvite)
+ *  - Módulos escolhidos arrastam as dependências do registry (moduleRequires)
+ *  - Plano: plan_key do body ou o mais barato que cobre módulos + lugares (smallestPlanFor)
+ *      fora do plano -> 402 PLAN_MODULE_NOT_INCLUDED / PLAN_SEAT_LIMIT (antes de criar a empresa)
+ *      assinatura criada pelo provider de billing (lib/billing) logo após a transação (best-effort)
+ * =============================================
+ */
+
+import { createSupabaseServerClient } from "../../../../../../lib/supabase/server"
+import { supabaseAdmin } from "../../../../../../lib/supabase/admin"
+import { ApiError, jsonError, jsonOk, type ProfileRole } from "../../../../../../lib/admin/route-handler"
+import { isProfileRole } from "../../../../../../lib/admin/profiles"
+import { INVITE_DEFAULT_DAYS, createInvite, normEmail } from "../../../../../../lib/admin/invites"
+import { MODULES, isModuleKey, moduleRequires, type ModuleKey } from "../../../../../../components/adm/module-registry"
+import { PLANS, isPlanKey, modulesOutsidePlan, smallestPlanFor, type PlanKey } from "../../../../../../components/adm/plans"
+import { billingProvider } from "../../../../../../lib/billing/provider"
+
+const MAX_FIRST_USERS = 20
+
+function normText(v: unknown, max: number): string | null {
+  const s = String(v ?? "").trim()
+  return s ? s.slice(0, max) : null
+}
+
+function slugify(v: string) {
+  return v
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+}
+
+function isValidTimezone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("pt-PT", { timeZone: tz })
+    return true
+  } catch {
+    return false
+  }
+}
+
+type FirstUserResult = { email: string; ok: boolean; error?: string; details?: string | null }
+
+export async function POST(req: Request) {
+  try {
+    const supabase = createSupabaseServerClient()
+    const { data: userRes, error: userErr } = await supabase.auth.getUser()
+    const user = userRes?.user
+    if (userErr || !user) return jsonError(401, "MISSING_SESSION")
+
+    const admin = supabaseAdmin()
+
+    // guard
+    const { data: profiles, error: pErr } = await admin
+      .from("profiles")
+      .select("role, ativo")
+      .eq("user_id", user.id)
+
+    if (pErr) return jsonError(500, "PROFILE_LOOKUP_FAILED", pErr.message)
+    const active = (profiles ?? []).filter((p) => p.ativo !== false)
+    if (active.length > 0 && !active.some((p) => p.role === "admin")) {
+      return jsonError(403, "ONBOARDING_NOT_ALLOWED")
+    }
+
+    // validação
+    const body = await req.json().catch(() => null)
+
+    const nome = normText(body?.nome, 120)
+    if (!nome || nome.length < 2) return jsonError(400, "INVALID_NOME")
+    const slug = slugify(normText(body?.slug, 60) ?? nome) || null
+
+    const timezone = normText(body?.timezone, 64) ?? "Europe/Lisbon"
+    if (!isValidTimezone(timezone)) return jsonError(400, "INVALID_TIMEZONE", timezone)
+
+    const locale = normText(body?.locale, 16) ?? "pt-PT"
+    if (!/^[a-z]{2}(-[A-Z]{2})?$/.test(locale)) return jsonError(400, "INVALID_LOCALE", locale)
+
+    const currency = (normText(body?.currency, 3) ?? "EUR").toUpperCase()
+    if (!/^[A-Z]{3}$/.test(currency)) return jsonError(400, "INVALID_CURRENCY", currency)
+
+    const modulesRaw: unknown[] = Array.isArray(body?.modules) ? body.modules : []
+    const modules: ModuleKey[] = []
+    for (const m of modulesRaw) {
+      const raw = String(m ?? "").trim().toLowerCase()
+      if (!isModuleKey(raw)) return jsonError(400, "INVALID_MODULE_KEY", raw)
+      const k: ModuleKey = raw
+      if (!MODULES[k].implemented) return jsonError(400, "MODULE_NOT_IMPLEMENTED", k)
+      const chain: ModuleKey[] = [...moduleRequires(k), k]
+      for (const d of chain) {
+        if (!MODULES[d].implemented) return jsonError(400, "MODULE_DEPENDENCY_UNAVAILABLE", `${k} -> ${d}`)
+        if (d !== "core" && !modules.includes(d)) modules.push(d)
+      }
+    }
+
+    const usersRaw: Array<{ email?: unknown; role?: unknown; display_name?: unknown } | null> = Array.isArray(body?.users)
+      ? body.users
+      : []
+    if (usersRaw.length > MAX_FIRST_USERS) return jsonError(400, "TOO_MANY_USERS", `max ${MAX_FIRST_USERS}`)
+
+    const firstUsers: Array<{ email: string; role: ProfileRole; display_name: string | null }> = []
+    for (const u of usersRaw) {
+      const email = normEmail(u?.email)
+      if (!email) return jsonError(400, "INVALID_EMAIL", String(u?.email ?? ""))
+      const role = u?.role === undefined ? "interno" : u.role
+      if (!isProfileRole(role)) return jsonError(400, "INVALID_ROLE", String(role))
+      if (email === (user.email ?? "").toLowerCase()) continue
+      if (firstUsers.some((x) => x.email === email)) continue
+      firstUsers.push({ email, role, display_name: normText(u?.display_name, 120) })
+    }
+
+    // plano (1 lugar do criador + primeiros utilizadores)
+    const seats = 1 + firstUsers.length
+    if (body?.plan_key !== undefined && !isPlanKey(body.plan_key)) {
+      return jsonError(400, "INVALID_PLAN_KEY", String(body.plan_key))
+    }
+    const planRaw: unknown = body?.plan_key
+    const plan: PlanKey | null = isPlanKey(planRaw) ? planRaw : smallestPlanFor(modules, seats)
+    if (!plan) return jsonError(402, "PLAN_MODULE_NOT_INCLUDED", modules.join(","))
+
+    const outside = modulesOutsidePlan(plan, modules)
+    if (outside.length) return jsonError(402, "PLAN_MODULE_NOT_INCLUDED", outside.join(","))
+    const planSeats = PLANS[plan].seats
+    if (planSeats !== null && seats > planSeats) return jsonError(402, "PLAN_SEAT_LIMIT", `${seats}/${planSeats}`)
+
+    // transação (empresa + módulos + settings + admin + audit)
+    const { data: empresaId, error: rpcErr } = await admin.rpc("moduz_core_create_empresa", {
+      p_user_id: user.id,
+      p_nome: nome,
+      p_slug: slug,
+      p_timezone: timezone,
+      p_locale: locale,
+      p_currency: currency,
+      p_modules: modules,
+      p_display_name: normText(body?.display_name, 120),
+    })
+
+    if (rpcErr || !empresaId) return jsonError(500, "ONBOARDING_FAILED", rpcErr?.message ?? null)
+
+    const eid = String(empresaId)
+
+    // assinatura (best-effort: a empresa já existe; sem assinatura cai no plano por omissão)
+    let billing: { plan_key: string | null; error?: string; details?: string | null }
+    try {
+      const subscription = await billingProvider().ensureSubscription(admin, eid, plan)
+      billing = { plan_key: subscription.plan_key }
+    } catch (e) {
+      billing =
+        e instanceof ApiError
+          ? { plan_key: null, error: e.code, details: e.details }
+          : { plan_key: null, error: "UNEXPECTED", details: e instanceof Error ? e.message : String(e) }
+    }
+
+    const { data: me } = await admin
+      .from("profiles")
+      .select("id")
+      .eq("empresa_id", eid)
+      .eq("user_id", user.id)
+      .maybeSingle()
+
+    // primeiros utilizadores (best-effort)
+    const origin = new URL(req.url).origin
+    const results: FirstUserResult[] = []
+
+    for (const u of firstUsers) {
+      try {
+        await createInvite(admin, {
+          empresaId: eid,
+          email: u.email,
+          role: u.role,
+          displayName: u.display_name,
+          days: INVITE_DEFAULT_DAYS,
+          invitedBy: user.id,
+          actorProfileId: me?.id ?? null,
+          origin,
+          source: "onboarding",
+        })
+
+        results.push({ email: u.email, ok: true })
+      } catch (e) {
+        if (e instanceof ApiError) results.push({ email: u.email, ok: false, error: e.code, details: e.details })
+        else results.push({ email: u.email, ok: false, error: "UNEXPECTED", details: e instanceof Error ? e.message : String(e) })
+      }
+    }
+
+    return jsonOk({ empresa_id: eid, billing, invites: results })
+  } catch (e) {
+    if (e instanceof ApiError) return jsonError(e.status, e.code, e.details)
+    return jsonError(500, "UNEXPECTED", e instanceof Error ? e.message : String(e))
+  }
+}
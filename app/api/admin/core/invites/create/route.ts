@@ -0,0 +1,66 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/invites/create/route.ts
+ * Módulo: Core (Convites)
+ * Etapa: Create + Send (v1.4 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Cria convite pendente (email, role, validade) e envia o link por email
+ *  - Link: /auth/confirm?invite=<token> (token em claro só no email; DB guarda hash)
+ *  - Lógica partilhada com o onboarding: createInvite (lib/admin/invites)
+ *  - Convite pendente ocupa lugar do plano: sem lugar -> 402 PLAN_SEAT_LIMIT (lib/admin/entitlements)
+ *  - Audit INVITE_CREATED gravado com o convite (createInvite -> moduz_core_create_invite)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { isProfileRole } from "../../../../../../lib/admin/profiles"
+import { assertSeatAvailable, loadEntitlements } from "../../../../../../lib/admin/entitlements"
+import {
+  INVITE_DEFAULT_DAYS,
+  INVITE_MAX_DAYS,
+  createInvite,
+  normEmail,
+} from "../../../../../../lib/admin/invites"
+
+function normText(v: unknown, max: number): string | null {
+  const s = String(v ?? "").trim()
+  return s ? s.slice(0, max) : null
+}
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+
+  const email = normEmail(body?.email)
+  if (!email) return jsonError(400, "INVALID_EMAIL")
+
+  const role = body?.role === undefined ? "interno" : body.role
+  if (!isProfileRole(role)) return jsonError(400, "INVALID_ROLE")
+
+  const display_name = normText(body?.display_name, 120)
+
+  const daysRaw = body?.expires_in_days === undefined ? INVITE_DEFAULT_DAYS : Number(body.expires_in_days)
+  if (!Number.isFinite(daysRaw) || daysRaw < 1 || daysRaw > INVITE_MAX_DAYS) {
+    return jsonError(400, "INVALID_EXPIRY", `1..${INVITE_MAX_DAYS} dias`)
+  }
+
+  assertSeatAvailable(await loadEntitlements(admin, empresaId))
+
+  const { invite, channel } = await createInvite(admin, {
+    empresaId,
+    email,
+    role,
+    displayName: display_name,
+    days: daysRaw,
+    invitedBy: user.id,
+    actorProfileId: profile.id,
+    origin: new URL(req.url).origin,
+  })
+
+  return jsonOk({
+    invite,
+    channel,
+    audit: "OK",
+  })
+})
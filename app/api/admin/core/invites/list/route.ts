@@ -0,0 +1,31 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/invites/list/route.ts
+ * Módulo: Core (Convites)
+ * Etapa: List (v1)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Lista convites da empresa (mais recentes primeiro)
+ *  - status efetivo: pending expirado -> "expired"
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { INVITE_COLUMNS, effectiveStatus, type InviteRow } from "../../../../../../lib/admin/invites"
+
+export const GET = adminRoute({ access: "admin" }, async ({ empresaId, admin }) => {
+  const { data, error } = await admin
+    .from("invites")
+    .select(INVITE_COLUMNS)
+    .eq("empresa_id", empresaId)
+    .order("created_at", { ascending: false })
+    .limit(200)
+
+  if (error) return jsonError(500, "DB_ERROR", error.message)
+
+  const now = Date.now()
+  const invites = ((data ?? []) as InviteRow[]).map((r) => ({ ...r, status: effectiveStatus(r, now) }))
+
+  return jsonOk({ empresa_id: empresaId, invites })
+})
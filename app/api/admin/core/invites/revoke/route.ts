@@ -0,0 +1,35 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/invites/revoke/route.ts
+ * Módulo: Core (Convites)
+ * Etapa: Revoke (v1.2 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Revoga convite pendente (o link deixa de funcionar)
+ *  - Revogação + audit INVITE_REVOKED numa só transação (moduz_core_revoke_invite)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import type { InviteRow } from "../../../../../../lib/admin/invites"
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const invite_id = String(body?.invite_id ?? "").trim()
+  if (!invite_id || invite_id.length < 20) return jsonError(400, "MISSING_INVITE_ID")
+
+  const { data: invite, error } = await admin.rpc("moduz_core_revoke_invite", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_invite_id: invite_id,
+  })
+
+  if (error) {
+    if (error.message === "INVITE_NOT_PENDING") return jsonError(409, "INVITE_NOT_PENDING")
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ invite: invite as InviteRow, audit: "OK" })
+})
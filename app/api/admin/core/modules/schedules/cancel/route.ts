@@ -0,0 +1,35 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/modules/schedules/cancel/route.ts
+ * Módulo: Core (Gestão de Módulos)
+ * Etapa: Cancelar agendamento (v1.1 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Cancela agendamento pendente ou falhado (aplicados ficam no histórico)
+ *  - Cancelamento + audit MODULE_SCHEDULE_CANCELLED numa só transação (moduz_core_cancel_module_schedule)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../../lib/admin/route-handler"
+import type { ModuleScheduleRow } from "../../../../../../../lib/admin/modules"
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const schedule_id = String(body?.schedule_id ?? "").trim()
+  if (!schedule_id || schedule_id.length < 20) return jsonError(400, "MISSING_SCHEDULE_ID")
+
+  const { data: schedule, error } = await admin.rpc("moduz_core_cancel_module_schedule", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_schedule_id: schedule_id,
+  })
+
+  if (error) {
+    if (error.message === "SCHEDULE_NOT_PENDING") return jsonError(409, "SCHEDULE_NOT_PENDING")
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ schedule: schedule as ModuleScheduleRow, audit: "OK" })
+})
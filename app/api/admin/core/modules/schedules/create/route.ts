@@ -0,0 +1,65 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/modules/schedules/create/route.ts
+ * Módulo: Core (Gestão de Módulos)
+ * Etapa: Agendar toggle (v1.2 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Body: { module_key, enabled, run_at (ISO), cascade? }
+ *  - Mesmas regras do toggle: core não desativa, não ativa módulos "Em breve",
+ *    dependências (estado efetivo atual) -> 409 MODULE_DEPENDENCIES sem cascade=true
+ *  - Ativar exige o módulo (e cascata) no plano atual -> 402 PLAN_MODULE_NOT_INCLUDED
+ *      e volta a ser confirmado ao aplicar (plano entretanto mudado -> failed com last_error)
+ *  - Cascata fica gravada no agendamento; aplicada por moduz_core_apply_module_schedules
+ *  - Agendamento + audit MODULE_SCHEDULED numa só transação (moduz_core_create_module_schedule)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../../lib/admin/route-handler"
+import { loadActiveModuleKeys, type ModuleScheduleRow } from "../../../../../../../lib/admin/modules"
+import { assertModulesInPlan, loadEntitlements } from "../../../../../../../lib/admin/entitlements"
+import { MODULES, isModuleKey, planModuleToggle } from "../../../../../../../components/adm/module-registry"
+
+const MAX_AHEAD_MS = 365 * 24 * 60 * 60 * 1000
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const moduleKey = String(body?.module_key ?? "").trim().toLowerCase()
+  const enabled = body?.enabled === true
+  const cascade = body?.cascade === true
+
+  if (!isModuleKey(moduleKey)) return jsonError(400, "INVALID_MODULE_KEY")
+  if (moduleKey === "core" && !enabled) return jsonError(400, "CORE_CANNOT_BE_DISABLED")
+  if (enabled && !MODULES[moduleKey].implemented) return jsonError(400, "MODULE_NOT_IMPLEMENTED", moduleKey)
+
+  const runAt = new Date(String(body?.run_at ?? ""))
+  const now = Date.now()
+  if (Number.isNaN(runAt.getTime()) || runAt.getTime() <= now || runAt.getTime() > now + MAX_AHEAD_MS) {
+    return jsonError(400, "INVALID_RUN_AT")
+  }
+
+  const impacted = planModuleToggle(moduleKey, enabled, await loadActiveModuleKeys(admin, empresaId))
+
+  if (enabled) {
+    const unavailable = impacted.filter((k) => !MODULES[k].implemented)
+    if (unavailable.length) return jsonError(409, "MODULE_DEPENDENCY_UNAVAILABLE", unavailable.join(","))
+
+    assertModulesInPlan(await loadEntitlements(admin, empresaId), [moduleKey, ...impacted])
+  }
+  if (impacted.length && !cascade) return jsonError(409, "MODULE_DEPENDENCIES", impacted.join(","))
+
+  const { data: schedule, error } = await admin.rpc("moduz_core_create_module_schedule", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_module_key: moduleKey,
+    p_enabled: enabled,
+    p_cascade_keys: impacted,
+    p_run_at: runAt.toISOString(),
+  })
+
+  if (error) return jsonError(500, "DB_ERROR", error.message)
+
+  return jsonOk({ schedule: schedule as ModuleScheduleRow, audit: "OK" })
+})
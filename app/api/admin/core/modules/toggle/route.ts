@@ -3,129 +3,76 @@
  * Moduz+ | API Admin
  * Arquivo: app/api/admin/core/modules/toggle/route.ts
  * Módulo: Core (Gestão de Módulos)
- * Etapa: Toggle módulo (v1)
+ * Etapa: Toggle módulo (v1.7 - tipos sem any)
  * Descrição:
- *  - Autentica via Supabase SSR (cookies)
- *  - Verifica perfil admin em public.profiles por empresa_id + user_id
- *  - Seed idempotente antes de alterar
- *  - Atualiza modules_enabled (enabled + enabled_at quando true)
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - module_key validado contra MODULE_KEYS (registry; mesma lista do check constraint no DB)
+ *  - Dependências do registry (requires): ativar exige dependências; desativar afeta dependentes
+ *      dry_run=true -> só devolve os módulos impactados (preview)
+ *      impactados sem cascade=true -> 409 MODULE_DEPENDENCIES (details = lista)
+ *  - RPC moduz_core_toggle_modules: seed idempotente + update modules_enabled (pedido + cascata)
+ *    + audit MODULE_TOGGLED por módulo, na mesma transação
+ *  - Dependências avaliadas sobre o estado efetivo (trial expirado conta como inativo);
+ *    ativar um módulo em trial torna-o definitivo (trial_ends_at = null na RPC)
+ *  - Plano (lib/admin/entitlements): ativar exige o módulo e a cascata no plano
+ *      -> 402 PLAN_MODULE_NOT_INCLUDED (também no dry_run)
  * =============================================
  */
 
-import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-import { createSupabaseServerClient } from "../../../../../../lib/supabase/server";
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler";
+import { MODULES, isModuleKey, planModuleToggle } from "../../../../../../components/adm/module-registry";
+import { loadActiveModuleKeys, type ModuleRow } from "../../../../../../lib/admin/modules";
+import { assertModulesInPlan, loadEntitlements } from "../../../../../../lib/admin/entitlements";
 
-function env(name: string): string {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing env: ${name}`);
-  return v;
-}
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null);
+  const moduleKey = String(body?.module_key ?? "").trim().toLowerCase();
+  const enabled = Boolean(body?.enabled);
+  const cascade = body?.cascade === true;
+  const dryRun = body?.dry_run === true;
 
-function supabaseAdmin() {
-  return createClient(env("NEXT_PUBLIC_SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
-    auth: { persistSession: false, autoRefreshToken: false },
-  });
-}
-
-function getEmpresaId(req: Request): string | null {
-  return req.headers.get("x-empresa-id") || req.headers.get("X-Empresa-Id");
-}
+  if (!isModuleKey(moduleKey)) {
+    return jsonError(400, "INVALID_MODULE_KEY");
+  }
+  if (moduleKey === "core" && enabled === false) {
+    return jsonError(400, "CORE_CANNOT_BE_DISABLED");
+  }
 
-async function assertAdmin(userId: string, empresaId: string) {
-  const admin = supabaseAdmin();
+  const enabledKeys = await loadActiveModuleKeys(admin, empresaId);
+  const impacted = planModuleToggle(moduleKey, enabled, enabledKeys);
 
-  const { data: profile, error: profErr } = await admin
-    .from("profiles")
-    .select("id, role, ativo")
-    .eq("user_id", userId)
-    .eq("empresa_id", empresaId)
-    .maybeSingle();
+  if (enabled) {
+    const unavailable = impacted.filter((k) => !MODULES[k].implemented);
+    if (unavailable.length) return jsonError(409, "MODULE_DEPENDENCY_UNAVAILABLE", unavailable.join(","));
 
-  if (profErr) {
-    return { ok: false as const, status: 500, error: "PROFILE_LOOKUP_FAILED" as const, details: profErr.message };
+    assertModulesInPlan(await loadEntitlements(admin, empresaId), [moduleKey, ...impacted]);
   }
 
-  if (!profile || profile.ativo === false) {
-    return { ok: false as const, status: 403, error: "NO_PROFILE" as const };
+  if (dryRun) {
+    return jsonOk({ module_key: moduleKey, enabled, impacted });
   }
 
-  if (profile.role !== "admin") {
-    return { ok: false as const, status: 403, error: "NOT_ADMIN" as const };
+  if (impacted.length && !cascade) {
+    return jsonError(409, "MODULE_DEPENDENCIES", impacted.join(","));
   }
 
-  return { ok: true as const, profileId: profile.id };
-}
-
-const VALID_MODULES = ["core", "docs", "people", "track", "finance", "bizz", "stock", "assets", "flow"];
-
-export async function POST(req: Request) {
-  try {
-    const empresaId = getEmpresaId(req);
-    if (!empresaId) return NextResponse.json({ error: "MISSING_EMPRESA_ID" }, { status: 400 });
-
-    const supabase = createSupabaseServerClient();
-    const { data: userRes, error: userErr } = await supabase.auth.getUser();
-    const user = userRes?.user;
-
-    if (userErr || !user) return NextResponse.json({ error: "MISSING_SESSION" }, { status: 401 });
-
-    const adminCheck = await assertAdmin(user.id, empresaId);
-    if (!adminCheck.ok) {
-      return NextResponse.json(
-        { error: adminCheck.error, details: (adminCheck as any).details ?? null },
-        { status: adminCheck.status }
-      );
-    }
-
-    const body = await req.json().catch(() => null);
-    const moduleKey = String(body?.module_key ?? "").trim().toLowerCase();
-    const enabled = Boolean(body?.enabled);
-
-    if (VALID_MODULES.indexOf(moduleKey) === -1) {
-      return NextResponse.json({ error: "INVALID_MODULE_KEY" }, { status: 400 });
-    }
-    if (moduleKey === "core" && enabled === false) {
-      return NextResponse.json({ error: "CORE_CANNOT_BE_DISABLED" }, { status: 400 });
-    }
-
-    const admin = supabaseAdmin();
-
-    const { error: seedErr } = await admin.rpc("moduz_core_seed_modules", { p_empresa_id: empresaId });
-    if (seedErr) return NextResponse.json({ error: "SEED_FAILED", details: seedErr.message }, { status: 500 });
-
-    const patch: Record<string, any> = {
-      empresa_id: empresaId,
-      module_key: moduleKey,
-      enabled,
-    };
-
-    // enabled_at é NOT NULL no teu schema -> ao habilitar setamos agora; ao desabilitar mantemos
-    if (enabled) patch.enabled_at = new Date().toISOString();
-
-    const { data, error } = await admin
-      .from("modules_enabled")
-      .upsert(patch, { onConflict: "empresa_id,module_key" })
-      .select("module_key, enabled, enabled_at, updated_at")
-      .single();
+  // enabled_at é NOT NULL no teu schema -> ao habilitar setamos agora; ao desabilitar mantemos (na RPC)
+  const { data, error } = await admin.rpc("moduz_core_toggle_modules", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_module_key: moduleKey,
+    p_enabled: enabled,
+    p_cascade: impacted,
+  });
 
-    if (error) return NextResponse.json({ error: "DB_ERROR", details: error.message }, { status: 500 });
+  if (error) {
+    if (error.message === "MODULE_NOT_FOUND") return jsonError(404, "MODULE_NOT_FOUND");
+    return jsonError(500, "TOGGLE_FAILED", error.message);
+  }
 
-    // audit_log (se existir): não bloqueia se falhar
-    const { error: auditErr } = await admin.from("audit_log").insert({
-      empresa_id: empresaId,
-      actor_user_id: user.id,
-      actor_profile_id: adminCheck.profileId,
-      action: "MODULE_TOGGLED",
-      entity: "modules_enabled",
-      payload: { module_key: moduleKey, enabled },
-    });
+  const modules = (data ?? []) as ModuleRow[];
+  const mod = modules.find((m) => m.module_key === moduleKey) ?? null;
 
-    return NextResponse.json(
-      { ok: true, module: data, audit: auditErr ? "FAILED" : "OK", audit_details: auditErr?.message ?? null },
-      { status: 200 }
-    );
-  } catch (e: any) {
-    return NextResponse.json({ error: "UNEXPECTED", details: e?.message ?? String(e) }, { status: 500 });
-  }
-}
+  return jsonOk({ module: mod, modules, cascaded: impacted, audit: "OK" });
+});
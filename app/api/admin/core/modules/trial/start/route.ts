@@ -0,0 +1,62 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/modules/trial/start/route.ts
+ * Módulo: Core (Gestão de Módulos)
+ * Etapa: Trial (v1)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Body: { module_key, days (1..90), cascade? }
+ *  - Ativa o módulo até trial_ends_at; dependências inativas entram no mesmo trial
+ *      (sem cascade=true -> 409 MODULE_DEPENDENCIES); já ativo em definitivo -> 409
+ *  - Repetir num módulo em trial redefine a data de fim
+ *  - Não exige o módulo no plano (trial serve para experimentar módulos fora dele)
+ *  - RPC moduz_core_start_module_trial: update + audit MODULE_TRIAL_STARTED na mesma transação
+ *  - Expiração: moduz_core_apply_module_schedules (cron / modules/list) + estado efetivo na API/UI
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../../lib/admin/route-handler"
+import { loadActiveModuleKeys } from "../../../../../../../lib/admin/modules"
+import { MODULES, isModuleKey, planModuleToggle } from "../../../../../../../components/adm/module-registry"
+
+const MAX_TRIAL_DAYS = 90
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const moduleKey = String(body?.module_key ?? "").trim().toLowerCase()
+  const days = Number(body?.days)
+  const cascade = body?.cascade === true
+
+  if (!isModuleKey(moduleKey)) return jsonError(400, "INVALID_MODULE_KEY")
+  if (moduleKey === "core") return jsonError(400, "CORE_CANNOT_BE_TRIAL")
+  if (!MODULES[moduleKey].implemented) return jsonError(400, "MODULE_NOT_IMPLEMENTED", moduleKey)
+  if (!Number.isInteger(days) || days < 1 || days > MAX_TRIAL_DAYS) {
+    return jsonError(400, "INVALID_TRIAL_DAYS", `1-${MAX_TRIAL_DAYS}`)
+  }
+
+  const impacted = planModuleToggle(moduleKey, true, await loadActiveModuleKeys(admin, empresaId))
+  const unavailable = impacted.filter((k) => !MODULES[k].implemented)
+  if (unavailable.length) return jsonError(409, "MODULE_DEPENDENCY_UNAVAILABLE", unavailable.join(","))
+  if (impacted.length && !cascade) return jsonError(409, "MODULE_DEPENDENCIES", impacted.join(","))
+
+  const trialEndsAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+
+  const { data, error } = await admin.rpc("moduz_core_start_module_trial", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_module_key: moduleKey,
+    p_cascade: impacted,
+    p_trial_ends_at: trialEndsAt,
+  })
+
+  if (error) {
+    if (error.message === "MODULE_ALREADY_ENABLED") return jsonError(409, "MODULE_ALREADY_ENABLED", moduleKey)
+    return jsonError(500, "TRIAL_FAILED", error.message)
+  }
+
+  const modules = Array.isArray(data) ? data : []
+
+  return jsonOk({ module_key: moduleKey, trial_ends_at: trialEndsAt, modules, cascaded: impacted, audit: "OK" })
+})
@@ -0,0 +1,18 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/permissions/me/route.ts
+ * Módulo: Core (Papéis e Permissões)
+ * Etapa: Permissões do utilizador (v1)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo via adminRoute (lib/admin/route-handler)
+ *  - Devolve papel base + permissões efetivas na empresa ativa
+ *  - Usado pelo AdmShell (menu) e ModuleGuard
+ * =============================================
+ */
+
+import { adminRoute, jsonOk } from "../../../../../../lib/admin/route-handler"
+
+export const GET = adminRoute({ access: "member" }, async ({ empresaId, profile, permissions }) => {
+  return jsonOk({ empresa_id: empresaId, role: profile.role, permissions })
+})
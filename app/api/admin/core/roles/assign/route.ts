@@ -0,0 +1,46 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/roles/assign/route.ts
+ * Módulo: Core (Papéis e Permissões)
+ * Etapa: Assign (v1.2 - transação única)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Define o conjunto de roles de um profile (substitui o anterior)
+ *  - RPC moduz_core_assign_profile_roles: valida profile e roles da empresa, apaga + insere
+ *    profile_roles e grava PROFILE_ROLES_ASSIGNED na mesma transação
+ *    (404 PROFILE_NOT_FOUND / 400 INVALID_ROLE_ID; falha a meio não deixa o profile sem roles)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const profile_id = String(body?.profile_id ?? "").trim()
+  const rawIds: unknown[] = Array.isArray(body?.role_ids) ? body.role_ids : []
+  const role_ids = Array.from(new Set(rawIds.map((x) => String(x ?? "").trim()).filter(Boolean)))
+
+  if (!profile_id || profile_id.length < 20) return jsonError(400, "MISSING_PROFILE_ID")
+  if (!UUID_RE.test(profile_id)) return jsonError(404, "PROFILE_NOT_FOUND")
+  const invalid = role_ids.find((id) => !UUID_RE.test(id))
+  if (invalid) return jsonError(400, "INVALID_ROLE_ID", invalid)
+
+  const { error } = await admin.rpc("moduz_core_assign_profile_roles", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_target_profile_id: profile_id,
+    p_role_ids: role_ids,
+  })
+
+  if (error) {
+    if (error.message === "PROFILE_NOT_FOUND") return jsonError(404, "PROFILE_NOT_FOUND")
+    if (error.message === "INVALID_ROLE_ID") return jsonError(400, "INVALID_ROLE_ID")
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ profile_id, role_ids, audit: "OK" })
+})
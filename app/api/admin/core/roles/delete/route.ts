@@ -0,0 +1,34 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/roles/delete/route.ts
+ * Módulo: Core (Papéis e Permissões)
+ * Etapa: Delete (v1.2 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Remove role da empresa (atribuições caem por cascade)
+ *  - Delete + audit ROLE_DELETED numa só transação (moduz_core_delete_role)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const role_id = String(body?.role_id ?? "").trim()
+  if (!role_id || role_id.length < 20) return jsonError(400, "MISSING_ROLE_ID")
+
+  const { error } = await admin.rpc("moduz_core_delete_role", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_role_id: role_id,
+  })
+
+  if (error) {
+    if (error.message === "ROLE_NOT_FOUND") return jsonError(404, "ROLE_NOT_FOUND")
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ role_id, audit: "OK" })
+})
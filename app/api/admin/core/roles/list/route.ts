@@ -0,0 +1,60 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/roles/list/route.ts
+ * Módulo: Core (Papéis e Permissões)
+ * Etapa: List (v1)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Lista roles da empresa + catálogo de permissões (module-registry)
+ *  - Lista profiles da empresa com role_ids atribuídos (public.profile_roles)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { MODULES, MODULE_ORDER } from "../../../../../../components/adm/module-registry"
+
+export const GET = adminRoute({ access: "admin" }, async ({ empresaId, admin }) => {
+  const { data: roles, error: rErr } = await admin
+    .from("roles")
+    .select("id, key, nome, descricao, permissions, created_at, updated_at")
+    .eq("empresa_id", empresaId)
+    .order("nome", { ascending: true })
+
+  if (rErr) return jsonError(500, "DB_ERROR", rErr.message)
+
+  const { data: profiles, error: pErr } = await admin
+    .from("profiles")
+    .select("id, user_id, display_name, role, ativo, created_at")
+    .eq("empresa_id", empresaId)
+    .order("created_at", { ascending: true })
+
+  if (pErr) return jsonError(500, "DB_ERROR", pErr.message)
+
+  const { data: links, error: lErr } = await admin
+    .from("profile_roles")
+    .select("profile_id, role_id")
+    .eq("empresa_id", empresaId)
+
+  if (lErr) return jsonError(500, "DB_ERROR", lErr.message)
+
+  const roleIdsByProfile = new Map<string, string[]>()
+  for (const l of links ?? []) {
+    const arr = roleIdsByProfile.get(l.profile_id) ?? []
+    arr.push(l.role_id)
+    roleIdsByProfile.set(l.profile_id, arr)
+  }
+
+  const catalog = MODULE_ORDER.filter((k) => (MODULES[k].permissions ?? []).length > 0).map((k) => ({
+    module_key: k,
+    title: MODULES[k].title,
+    permissions: MODULES[k].permissions ?? [],
+  }))
+
+  return jsonOk({
+    empresa_id: empresaId,
+    roles: roles ?? [],
+    profiles: (profiles ?? []).map((p) => ({ ...p, role_ids: roleIdsByProfile.get(p.id) ?? [] })),
+    catalog,
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/roles/upsert/route.ts
+ * Módulo: Core (Papéis e Permissões)
+ * Etapa: Upsert (v1.4 - tipos sem any)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Cria (sem id) ou atualiza (com id) uma role da empresa
+ *  - Permissões validadas contra o catálogo do module-registry; aceita "<modulo>:*" (mesma regra
+ *    do hasPermission — components/adm/permissions.isGrantablePermission)
+ *  - Gravação + audit ROLE_UPSERTED numa só transação (moduz_core_upsert_role)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { isGrantablePermission } from "../../../../../../components/adm/permissions"
+
+function normText(v: unknown, max: number): string | null {
+  if (v === null || v === undefined) return null
+  const s = String(v).trim()
+  if (!s) return null
+  return s.slice(0, max)
+}
+
+function normKey(v: unknown): string | null {
+  const s = String(v ?? "").trim().toLowerCase()
+  return /^[a-z0-9_-]{2,40}$/.test(s) ? s : null
+}
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+
+  const id = normText(body?.id, 64)
+  const key = normKey(body?.key)
+  const nome = normText(body?.nome, 80)
+  const descricao = normText(body?.descricao, 280)
+  const permsRaw: unknown[] = Array.isArray(body?.permissions) ? body.permissions : []
+
+  if (!key) return jsonError(400, "INVALID_ROLE_KEY")
+  if (!nome) return jsonError(400, "MISSING_ROLE_NAME")
+
+  const permissions = Array.from(new Set(permsRaw.map((p) => String(p ?? "").trim()).filter(Boolean)))
+  const unknown = permissions.filter((p) => !isGrantablePermission(p))
+  if (unknown.length) return jsonError(400, "UNKNOWN_PERMISSION", unknown.join(", "))
+
+  const { data: saved, error } = await admin.rpc("moduz_core_upsert_role", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_role_id: id,
+    p_key: key,
+    p_nome: nome,
+    p_descricao: descricao,
+    p_permissions: permissions,
+  })
+
+  if (error) {
+    if (error.message === "ROLE_NOT_FOUND") return jsonError(404, "ROLE_NOT_FOUND")
+    if (error.code === "23505") return jsonError(409, "ROLE_KEY_TAKEN", error.message)
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ role: saved, audit: "OK" })
+})
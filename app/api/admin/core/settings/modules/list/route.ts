@@ -0,0 +1,43 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/settings/modules/list/route.ts
+ * Módulo: Core (Definições)
+ * Etapa: List (v1.1 - tipos sem any)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Devolve, por módulo com schema de definições, os valores atuais (guardados + defaults)
+ *      core -> colunas de settings; restantes -> settings.extras.modules.<module_key>
+ *  - Inclui enabled (modules_enabled) para a UI distinguir módulos inativos
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../../lib/admin/route-handler"
+import { MODULES_WITH_SETTINGS, withDefaults } from "../../../../../../../components/adm/module-settings"
+
+export const GET = adminRoute({ access: "admin" }, async ({ empresaId, admin }) => {
+  const [{ data: settings, error: sErr }, { data: enabledRows, error: mErr }] = await Promise.all([
+    admin.from("settings").select("id, timezone, locale, currency, extras").eq("empresa_id", empresaId).maybeSingle(),
+    admin.from("modules_enabled").select("module_key, enabled").eq("empresa_id", empresaId),
+  ])
+
+  if (sErr) return jsonError(500, "DB_ERROR", sErr.message)
+  if (mErr) return jsonError(500, "DB_ERROR", mErr.message)
+
+  const rows = (enabledRows ?? []) as Array<{ module_key: string; enabled: boolean }>
+  const enabled = new Set(rows.filter((m) => m.enabled).map((m) => m.module_key))
+  const extrasModules = (settings?.extras as { modules?: Record<string, unknown> } | null)?.modules ?? {}
+
+  const modules = MODULES_WITH_SETTINGS.map((k) => ({
+    module_key: k,
+    enabled: k === "core" || enabled.has(k),
+    values: withDefaults(
+      k,
+      k === "core"
+        ? { timezone: settings?.timezone, locale: settings?.locale, currency: settings?.currency }
+        : extrasModules[k]
+    ),
+  }))
+
+  return jsonOk({ empresa_id: empresaId, modules })
+})
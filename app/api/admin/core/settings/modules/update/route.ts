@@ -0,0 +1,47 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/settings/modules/update/route.ts
+ * Módulo: Core (Definições)
+ * Etapa: Update (v1)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Body: { module_key, values } — só campos do schema do módulo (module-registry)
+ *  - Validação partilhada com a UI (components/adm/module-settings)
+ *      erro -> 400 INVALID_SETTINGS, details "campo:CÓDIGO, …"
+ *  - RPC moduz_core_update_module_settings: merge + audit MODULE_SETTINGS_UPDATED (atómico)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../../lib/admin/route-handler"
+import { isModuleKey } from "../../../../../../../components/adm/module-registry"
+import {
+  formatSettingErrors,
+  moduleSettingsSchema,
+  validateModuleSettings,
+  withDefaults,
+} from "../../../../../../../components/adm/module-settings"
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const moduleKey = String(body?.module_key ?? "").trim().toLowerCase()
+
+  if (!isModuleKey(moduleKey)) return jsonError(400, "INVALID_MODULE_KEY", moduleKey)
+  if (!moduleSettingsSchema(moduleKey).length) return jsonError(400, "MODULE_HAS_NO_SETTINGS", moduleKey)
+
+  const v = validateModuleSettings(moduleKey, body?.values)
+  if (v.ok === false) return jsonError(400, "INVALID_SETTINGS", formatSettingErrors(v.errors))
+  if (!Object.keys(v.values).length) return jsonError(400, "NO_CHANGES")
+
+  const { data, error } = await admin.rpc("moduz_core_update_module_settings", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_module_key: moduleKey,
+    p_values: v.values,
+  })
+
+  if (error) return jsonError(500, "DB_ERROR", error.message)
+
+  return jsonOk({ module_key: moduleKey, values: withDefaults(moduleKey, data), audit: "OK" })
+})
@@ -0,0 +1,58 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/settings/versions/list/route.ts
+ * Módulo: Core (Definições)
+ * Etapa: Versions List (v1.1 - tipos sem any)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Histórico de settings_versions (mais recente primeiro) com diff campo a campo
+ *      (lib/admin/settings-versions.diffSettings)
+ *  - Paginação por cursor (version) + head (versão atual; usada no revert)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../../lib/admin/route-handler"
+import { SETTINGS_VERSION_COLUMNS, diffSettings, type SettingsVersionRow } from "../../../../../../../lib/admin/settings-versions"
+
+function clampInt(v: string | null, min: number, max: number, def: number) {
+  const n = v ? Number(v) : NaN
+  if (!Number.isFinite(n)) return def
+  return Math.max(min, Math.min(max, Math.trunc(n)))
+}
+
+export const GET = adminRoute({ access: "admin" }, async ({ req, empresaId, admin }) => {
+  const url = new URL(req.url)
+  const limit = clampInt(url.searchParams.get("limit"), 1, 100, 20)
+  const cursor = clampInt(url.searchParams.get("cursor"), 0, Number.MAX_SAFE_INTEGER, 0) // version (opcional)
+
+  let q = admin
+    .from("settings_versions")
+    .select(SETTINGS_VERSION_COLUMNS)
+    .eq("empresa_id", empresaId)
+    .order("version", { ascending: false })
+    .limit(limit)
+
+  if (cursor) q = q.lt("version", cursor)
+
+  const [{ data, error }, { data: headRow, error: headErr }] = await Promise.all([
+    q,
+    admin
+      .from("settings_versions")
+      .select("version")
+      .eq("empresa_id", empresaId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ])
+
+  if (error) return jsonError(500, "DB_ERROR", error.message)
+  if (headErr) return jsonError(500, "DB_ERROR", headErr.message)
+
+  const rows = (data ?? []) as SettingsVersionRow[]
+  const items = rows.map(({ before, after, ...v }) => ({ ...v, changes: diffSettings(before, after) }))
+  const nextCursor = rows.length === limit ? rows[rows.length - 1].version : null
+  const head = (headRow as { version: number } | null)?.version ?? 0
+
+  return jsonOk({ empresa_id: empresaId, head, items, next_cursor: nextCursor })
+})
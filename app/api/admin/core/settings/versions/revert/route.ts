@@ -0,0 +1,84 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/settings/versions/revert/route.ts
+ * Módulo: Core (Definições)
+ * Etapa: Versions Revert (v1.1 - tipos sem any)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Body: { version, expected_version? } — desfaz a alteração da versão indicada
+ *      campos alterados nessa versão voltam ao valor anterior; restantes mantêm-se
+ *  - Cria nova versão (source "revert") + audit SETTINGS_REVERTED (RPC moduz_core_restore_settings)
+ *  - expected_version (head visto pela UI; default = head atual) -> 409 SETTINGS_VERSION_CONFLICT
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../../lib/admin/route-handler"
+import { revertSnapshot, type SettingsSnapshot, type SettingsVersionRow } from "../../../../../../../lib/admin/settings-versions"
+
+function asVersion(v: unknown): number | null {
+  const n = typeof v === "number" ? v : Number(v)
+  return Number.isInteger(n) && n > 0 ? n : null
+}
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const version = asVersion(body?.version)
+  if (!version) return jsonError(400, "INVALID_VERSION")
+
+  const [{ data: target, error: tErr }, { data: current, error: cErr }, { data: headRow, error: hErr }] =
+    await Promise.all([
+      admin
+        .from("settings_versions")
+        .select("version, before, after")
+        .eq("empresa_id", empresaId)
+        .eq("version", version)
+        .maybeSingle(),
+      admin.from("settings").select("timezone, locale, currency, extras").eq("empresa_id", empresaId).maybeSingle(),
+      admin
+        .from("settings_versions")
+        .select("version")
+        .eq("empresa_id", empresaId)
+        .order("version", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ])
+
+  if (tErr || cErr || hErr) return jsonError(500, "DB_ERROR", (tErr ?? cErr ?? hErr)?.message ?? null)
+  if (!target) return jsonError(404, "VERSION_NOT_FOUND", String(version))
+  if (!current) return jsonError(404, "SETTINGS_NOT_FOUND")
+
+  const head = (headRow as { version: number } | null)?.version ?? 0
+  const expected = body?.expected_version === undefined ? head : asVersion(body.expected_version)
+  if (expected !== head) return jsonError(409, "SETTINGS_VERSION_CONFLICT", String(head))
+
+  const snapshot = revertSnapshot(
+    { ...current, extras: current.extras ?? {} },
+    target as Pick<SettingsVersionRow, "before" | "after">
+  )
+
+  const { data, error } = await admin.rpc("moduz_core_restore_settings", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_snapshot: snapshot,
+    p_reverted_version: version,
+    p_expected_version: head,
+  })
+
+  if (error) {
+    if (error.message === "SETTINGS_VERSION_CONFLICT") return jsonError(409, "SETTINGS_VERSION_CONFLICT")
+    if (error.message === "NOTHING_TO_REVERT") return jsonError(409, "NOTHING_TO_REVERT", String(version))
+    if (error.message === "SETTINGS_NOT_FOUND") return jsonError(404, "SETTINGS_NOT_FOUND")
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  const restored = data as { version?: number; settings?: SettingsSnapshot } | null
+
+  return jsonOk({
+    version: restored?.version ?? null,
+    reverted_version: version,
+    settings: restored?.settings ?? null,
+    audit: "OK",
+  })
+})
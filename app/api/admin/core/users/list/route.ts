@@ -0,0 +1,41 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/users/list/route.ts
+ * Módulo: Core (Utilizadores)
+ * Etapa: List (v1)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Lista profiles da empresa ativa (inclui inativos)
+ *  - Enriquece com email via auth admin (service role)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { PROFILE_COLUMNS, type ProfileRow } from "../../../../../../lib/admin/profiles"
+
+export const GET = adminRoute({ access: "admin" }, async ({ empresaId, profile, admin }) => {
+  const { data, error } = await admin
+    .from("profiles")
+    .select(PROFILE_COLUMNS)
+    .eq("empresa_id", empresaId)
+    .order("created_at", { ascending: true })
+
+  if (error) return jsonError(500, "DB_ERROR", error.message)
+
+  const rows = (data ?? []) as ProfileRow[]
+
+  // email (auth.users) — best-effort: falha individual não derruba a lista
+  const emails = await Promise.all(
+    rows.map(async (p) => {
+      const { data: u } = await admin.auth.admin.getUserById(p.user_id)
+      return u?.user?.email ?? null
+    })
+  )
+
+  return jsonOk({
+    empresa_id: empresaId,
+    me_profile_id: profile.id,
+    users: rows.map((p, i) => ({ ...p, email: emails[i] })),
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/users/set-active/route.ts
+ * Módulo: Core (Utilizadores)
+ * Etapa: Ativar/Desativar (v1.3 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Liga/desliga profiles.ativo (acesso à empresa; não apaga o user)
+ *  - Guardrails: não desativa o próprio profile; empresa mantém ≥ 1 admin ativo
+ *  - Ativar ocupa lugar do plano: sem lugar -> 402 PLAN_SEAT_LIMIT (lib/admin/entitlements)
+ *  - Update + audit PROFILE_ACTIVATED | PROFILE_DEACTIVATED numa só transação (moduz_core_set_profile_active)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { assertNotLastAdmin, getProfileOrThrow, type ProfileRow } from "../../../../../../lib/admin/profiles"
+import { assertSeatAvailable, loadEntitlements } from "../../../../../../lib/admin/entitlements"
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const profile_id = String(body?.profile_id ?? "").trim()
+  if (!profile_id || profile_id.length < 20) return jsonError(400, "MISSING_PROFILE_ID")
+  if (typeof body?.ativo !== "boolean") return jsonError(400, "MISSING_ATIVO")
+
+  const ativo: boolean = body.ativo
+  const target = await getProfileOrThrow(admin, empresaId, profile_id)
+
+  // idempotente: nada a alterar, nada a auditar
+  if (target.ativo === ativo) return jsonOk({ user: target })
+
+  if (!ativo) {
+    if (target.id === profile.id) return jsonError(409, "CANNOT_DEACTIVATE_SELF")
+    if (target.role === "admin") await assertNotLastAdmin(admin, empresaId, target)
+  } else {
+    assertSeatAvailable(await loadEntitlements(admin, empresaId))
+  }
+
+  const { data: updated, error } = await admin.rpc("moduz_core_set_profile_active", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_target_profile_id: target.id,
+    p_ativo: ativo,
+  })
+
+  if (error) {
+    if (error.message === "PROFILE_NOT_FOUND") return jsonError(404, "PROFILE_NOT_FOUND")
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ user: updated as ProfileRow, audit: "OK" })
+})
@@ -0,0 +1,62 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/core/users/update/route.ts
+ * Módulo: Core (Utilizadores)
+ * Etapa: Update (v1.2 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Altera role e/ou display_name de um profile da empresa
+ *  - Guardrails: não altera o próprio role; empresa mantém ≥ 1 admin ativo
+ *  - Update + audit PROFILE_UPDATED (before/after) numa só transação (moduz_core_update_profile)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk, type ProfileRole } from "../../../../../../lib/admin/route-handler"
+import {
+  assertNotLastAdmin,
+  getProfileOrThrow,
+  isProfileRole,
+  type ProfileRow,
+} from "../../../../../../lib/admin/profiles"
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const profile_id = String(body?.profile_id ?? "").trim()
+  if (!profile_id || profile_id.length < 20) return jsonError(400, "MISSING_PROFILE_ID")
+
+  const patch: { role?: ProfileRole; display_name?: string | null } = {}
+
+  if (body?.role !== undefined) {
+    if (!isProfileRole(body.role)) return jsonError(400, "INVALID_ROLE")
+    patch.role = body.role
+  }
+  if (body?.display_name !== undefined) {
+    const s = body.display_name === null ? "" : String(body.display_name).trim()
+    patch.display_name = s ? s.slice(0, 120) : null
+  }
+
+  if (Object.keys(patch).length === 0) return jsonError(400, "NO_CHANGES")
+
+  const target = await getProfileOrThrow(admin, empresaId, profile_id)
+
+  if (patch.role !== undefined && patch.role !== target.role) {
+    if (target.id === profile.id) return jsonError(409, "CANNOT_CHANGE_OWN_ROLE")
+    if (target.role === "admin" && target.ativo) await assertNotLastAdmin(admin, empresaId, target)
+  }
+
+  const { data: updated, error } = await admin.rpc("moduz_core_update_profile", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_target_profile_id: target.id,
+    p_patch: patch,
+  })
+
+  if (error) {
+    if (error.message === "PROFILE_NOT_FOUND") return jsonError(404, "PROFILE_NOT_FOUND")
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ user: updated as ProfileRow, audit: "OK" })
+})
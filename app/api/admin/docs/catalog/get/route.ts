@@ -0,0 +1,42 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/catalog/get/route.ts
+ * Módulo: Docs
+ * Etapa: Catalog Get (v1)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:read via adminRoute (lib/admin/route-handler)
+ *  - Pastas (lista plana com parent_id), etiquetas e campos de metadados da empresa
+ *  - Base da navegação por pasta/etiqueta e da edição de metadados em /adm/docs
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import {
+  DOC_FOLDER_COLUMNS,
+  DOC_META_FIELD_COLUMNS,
+  DOC_TAG_COLUMNS,
+} from "../../../../../../lib/admin/doc-catalog"
+
+export const GET = adminRoute({ access: "member", permission: "docs:read" }, async ({ empresaId, admin }) => {
+  const [folders, tags, fields] = await Promise.all([
+    admin.from("doc_folders").select(DOC_FOLDER_COLUMNS).eq("empresa_id", empresaId).order("name"),
+    admin.from("doc_tags").select(DOC_TAG_COLUMNS).eq("empresa_id", empresaId).order("name"),
+    admin
+      .from("doc_meta_fields")
+      .select(DOC_META_FIELD_COLUMNS)
+      .eq("empresa_id", empresaId)
+      .order("position")
+      .order("created_at"),
+  ])
+
+  const err = folders.error ?? tags.error ?? fields.error
+  if (err) return jsonError(500, "DB_ERROR", err.message)
+
+  return jsonOk({
+    empresa_id: empresaId,
+    folders: folders.data ?? [],
+    tags: tags.data ?? [],
+    fields: fields.data ?? [],
+  })
+})
@@ -3,119 +3,169 @@
  * Moduz+ | API Admin
  * Arquivo: app/api/admin/docs/complete/route.ts
  * Módulo: Docs
- * Etapa: Complete (v1)
+ * Etapa: Complete (v1.11 - tipos sem any)
  * Descrição:
- *  - Autentica via Supabase SSR (cookies)
- *  - Valida membro ativo via public.profiles
- *  - Atualiza metadados em public.docs (filename/mime/size)
- *  - Registra audit_log: DOC_UPLOADED
+ *  - Sessão/empresa/membro ativo + permissão docs:upload via adminRoute (lib/admin/route-handler)
+ *  - RPC moduz_docs_complete_version: metadados da versão (filename/mime/size) + versão passa a atual
+ *    + audit na mesma transação (v1 -> DOC_UPLOADED; v2+ -> DOC_VERSION_UPLOADED)
+ *  - version opcional (omisso = v1, upload inicial); novas versões vêm de docs/versions/create
+ *  - Só versões pending|failed: já uploaded -> 409 VERSION_ALREADY_UPLOADED (não reverifica, não
+ *    apaga o ficheiro de uma versão válida nem repõe uma versão antiga como atual)
+ *  - Antes de marcar uploaded: objeto tem de existir no Storage com o tamanho declarado e, se enviado,
+ *    o mesmo sha256 (lib/admin/doc-integrity). Falha -> versão (e doc, se v1) fica failed + audit
+ *    DOC_UPLOAD_FAILED; 409 UPLOAD_NOT_FOUND / 422 UPLOAD_SIZE_MISMATCH | UPLOAD_CHECKSUM_MISMATCH
+ *  - Tamanho lido dos metadados do objeto e comparado com o max_bytes da política antes de descarregar:
+ *    acima -> 413 UPLOAD_TOO_LARGE pelo mesmo caminho das violações abaixo (sem detected_mime)
+ *  - Política de upload re-verificada com o tamanho real e o tipo detetado pelos magic bytes
+ *    (lib/admin/upload-policy): 413/415 + ficheiro removido do Storage + versão failed
+ *    + audit DOC_UPLOAD_REJECTED (moduz_docs_fail_version com detected_mime)
+ *  - Quota de storage do plano com o tamanho medido (o create só viu o declarado): excedida ->
+ *    402 PLAN_STORAGE_QUOTA + ficheiro removido + versão failed (audit DOC_UPLOAD_FAILED)
+ *  - moduz_docs_fail_version falhou -> 500 DB_ERROR (a versão não ficou failed nem auditada)
+ *  - size_bytes/sha256/mime_type gravados são os medidos no servidor
+ *  - Depois do commit: extrai o texto da versão atual p/ pesquisa (lib/admin/doc-text; falha não invalida o upload)
  * =============================================
  */
 
-import { NextResponse } from "next/server"
-import { createClient } from "@supabase/supabase-js"
-import { createSupabaseServerClient } from "../../../../../lib/supabase/server"
+import { ApiError, adminRoute, jsonError, jsonOk } from "../../../../../lib/admin/route-handler"
+import { indexDocContent } from "../../../../../lib/admin/doc-text"
+import { normSha256, verifyUpload } from "../../../../../lib/admin/doc-integrity"
+import { assertStorageAvailable, loadEntitlements } from "../../../../../lib/admin/entitlements"
+import { checkUploadPolicy, loadUploadPolicy, resolveMime, sniffMime, type UploadViolation } from "../../../../../lib/admin/upload-policy"
 
-function env(name: string): string {
-  const v = process.env[name]
-  if (!v) throw new Error(`Missing env: ${name}`)
-  return v
-}
+export const POST = adminRoute({ access: "member", permission: "docs:upload" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const doc_id = String(body?.doc_id ?? "").trim()
+  if (!doc_id || doc_id.length < 20) return jsonError(400, "MISSING_DOC_ID")
 
-function supabaseAdmin() {
-  return createClient(env("NEXT_PUBLIC_SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
-    auth: { persistSession: false, autoRefreshToken: false },
-  })
-}
-
-function getEmpresaId(req: Request): string | null {
-  return req.headers.get("x-empresa-id") || req.headers.get("X-Empresa-Id")
-}
-
-async function assertMember(userId: string, empresaId: string) {
-  const admin = supabaseAdmin()
-  const { data: profile, error } = await admin
-    .from("profiles")
-    .select("id, role, ativo")
-    .eq("user_id", userId)
+  const version = body?.version != null ? Number(body.version) : 1
+  if (!Number.isInteger(version) || version < 1) return jsonError(400, "INVALID_VERSION")
+
+  const patch: { filename?: string; mime_type?: string; size_bytes?: number; sha256?: string } = {}
+  if (body?.filename != null) patch.filename = String(body.filename)
+  if (body?.mime_type != null) patch.mime_type = String(body.mime_type)
+  if (body?.size_bytes != null) patch.size_bytes = Number(body.size_bytes)
+
+  const sha256 = body?.sha256 != null ? normSha256(body.sha256) : null
+  if (body?.sha256 != null && !sha256) return jsonError(400, "INVALID_SHA256")
+
+  // 1) objeto no Storage confere com o declarado?
+  const { data: ver, error: vErr } = await admin
+    .from("doc_versions")
+    .select("storage_bucket, storage_path, filename, mime_type, size_bytes, status")
     .eq("empresa_id", empresaId)
+    .eq("doc_id", doc_id)
+    .eq("version", version)
     .maybeSingle()
 
-  if (error) return { ok: false as const, status: 500, error: "PROFILE_LOOKUP_FAILED", details: error.message }
-  if (!profile || profile.ativo === false) return { ok: false as const, status: 403, error: "NO_PROFILE" }
-  return { ok: true as const, profileId: profile.id }
-}
-
-export async function POST(req: Request) {
-  try {
-    const empresaId = getEmpresaId(req)
-    if (!empresaId) return NextResponse.json({ ok: false, error: "MISSING_EMPRESA_ID" }, { status: 400 })
-
-    const supabase = createSupabaseServerClient()
-    const { data: userRes, error: userErr } = await supabase.auth.getUser()
-    const user = userRes?.user
-    if (userErr || !user) return NextResponse.json({ ok: false, error: "MISSING_SESSION" }, { status: 401 })
-
-    const member = await assertMember(user.id, empresaId)
-    if (!member.ok) {
-      return NextResponse.json(
-        { ok: false, error: member.error, details: (member as any).details ?? null },
-        { status: member.status }
-      )
-    }
-
-    const body = await req.json().catch(() => null)
-    const doc_id = String(body?.doc_id ?? "").trim()
-    if (!doc_id || doc_id.length < 20) {
-      return NextResponse.json({ ok: false, error: "MISSING_DOC_ID" }, { status: 400 })
-    }
+  if (vErr) return jsonError(500, "DOC_NOT_FOUND_OR_DB_ERROR", vErr.message)
+  if (!ver) return version === 1 ? jsonError(404, "DOC_NOT_FOUND_OR_DB_ERROR") : jsonError(404, "VERSION_NOT_FOUND", String(version))
+  if (ver.status === "uploaded") return jsonError(409, "VERSION_ALREADY_UPLOADED", String(version))
 
-    const patch: Record<string, any> = {
-      created_by: user.id,
-    }
-    if (body?.filename != null) patch.filename = String(body.filename)
-    if (body?.mime_type != null) patch.mime_type = String(body.mime_type)
-    if (body?.size_bytes != null) patch.size_bytes = Number(body.size_bytes)
-
-    const admin = supabaseAdmin()
-
-    // Garantir que o doc pertence à empresa
-    const { data: updated, error: upErr } = await admin
-      .from("docs")
-      .update(patch)
-      .eq("id", doc_id)
-      .eq("empresa_id", empresaId)
-      .select("id")
-      .maybeSingle()
-
-    if (upErr || !updated) {
-      return NextResponse.json(
-        { ok: false, error: "DOC_NOT_FOUND_OR_DB_ERROR", details: upErr?.message ?? null },
-        { status: 404 }
-      )
-    }
+  const policy = await loadUploadPolicy(admin, empresaId)
+  const declared = Number.isFinite(patch.size_bytes) ? Number(patch.size_bytes) : ver.size_bytes != null ? Number(ver.size_bytes) : null
+  const check = await verifyUpload(admin, ver.storage_bucket, ver.storage_path, {
+    size_bytes: declared,
+    sha256,
+    max_bytes: policy.max_bytes,
+  })
 
-    const { error: auditErr } = await admin.from("audit_log").insert({
-      empresa_id: empresaId,
-      actor_user_id: user.id,
-      actor_profile_id: member.profileId,
-      action: "DOC_UPLOADED",
-      entity: "docs",
-      entity_table: "docs",
-      entity_id: doc_id,
-      payload: {
-        doc_id,
-        filename: patch.filename ?? null,
-        mime_type: patch.mime_type ?? null,
-        size_bytes: patch.size_bytes ?? null,
+  const filename: string | null = patch.filename ?? ver.filename ?? null
+  const declaredMime: string | null = patch.mime_type ?? ver.mime_type ?? null
+
+  const reject = async (violation: UploadViolation | ApiError, size_bytes: number, detected_mime: string | null) => {
+    await admin.storage.from(ver.storage_bucket).remove([ver.storage_path])
+    const { error: fErr } = await admin.rpc("moduz_docs_fail_version", {
+      p_empresa_id: empresaId,
+      p_user_id: user.id,
+      p_profile_id: profile.id,
+      p_doc_id: doc_id,
+      p_version: version,
+      p_reason: violation.code,
+      p_details: {
+        stage: "complete",
+        details: violation.details,
+        filename,
+        mime_type: declaredMime,
+        size_bytes,
+        detected_mime,
       },
     })
+    if (fErr) return jsonError(500, "DB_ERROR", fErr.message)
+    return jsonError(violation.status, violation.code, violation.details)
+  }
+
+  if (check.ok === false && check.reason === "UPLOAD_TOO_LARGE") {
+    return reject({ status: 413, code: check.reason, details: check.details }, check.size_bytes, null)
+  }
+
+  if (check.ok === false) {
+    const { error: fErr } = await admin.rpc("moduz_docs_fail_version", {
+      p_empresa_id: empresaId,
+      p_user_id: user.id,
+      p_profile_id: profile.id,
+      p_doc_id: doc_id,
+      p_version: version,
+      p_reason: check.reason,
+    })
+    if (fErr) return jsonError(500, "DB_ERROR", fErr.message)
+    return jsonError(check.reason === "UPLOAD_NOT_FOUND" ? 409 : 422, check.reason, check.details)
+  }
+
+  // 2) política da empresa com o que foi realmente guardado
+  const detected_mime = sniffMime(check.buf, filename)
+  const resolved = resolveMime(detected_mime, declaredMime, filename)
+
+  let violation: UploadViolation | ApiError | null = resolved.mismatch
+    ? { status: 415, code: "UPLOAD_MIME_MISMATCH", details: `${declaredMime} != ${detected_mime}` }
+    : checkUploadPolicy(policy, {
+        filename,
+        mime_type: resolved.mime,
+        size_bytes: check.size_bytes,
+      })
+
+  // 3) quota do plano: o uso já inclui o size_bytes declarado desta versão, conta só a diferença
+  if (!violation) {
+    try {
+      assertStorageAvailable(await loadEntitlements(admin, empresaId), check.size_bytes - Number(ver.size_bytes ?? 0))
+    } catch (e) {
+      if (!(e instanceof ApiError) || e.code !== "PLAN_STORAGE_QUOTA") throw e
+      violation = e
+    }
+  }
+
+  if (violation) return reject(violation, check.size_bytes, detected_mime)
+
+  patch.size_bytes = check.size_bytes
+  patch.sha256 = check.sha256
+  patch.mime_type = resolved.mime
+
+  // 4) versão passa a atual + audit
+  // Garantir que o doc pertence à empresa (filtro empresa_id dentro da RPC)
+  const { data, error: upErr } = await admin.rpc("moduz_docs_complete_version", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_doc_id: doc_id,
+    p_version: version,
+    p_patch: patch,
+  })
 
-    return NextResponse.json(
-      { ok: true, doc_id, audit: auditErr ? "FAILED" : "OK", audit_details: auditErr?.message ?? null },
-      { status: 200 }
-    )
-  } catch (e: any) {
-    return NextResponse.json({ ok: false, error: "UNEXPECTED", details: e?.message ?? String(e) }, { status: 500 })
+  if (upErr) {
+    if (upErr.message === "DOC_NOT_FOUND") return jsonError(404, "DOC_NOT_FOUND_OR_DB_ERROR")
+    if (upErr.message === "VERSION_NOT_FOUND") return jsonError(404, "VERSION_NOT_FOUND", String(version))
+    return jsonError(500, "DOC_NOT_FOUND_OR_DB_ERROR", upErr.message)
   }
-}
+
+  const content_status = await indexDocContent(admin, empresaId, doc_id, check.buf)
+  const completed = data as { version?: number } | null
+
+  return jsonOk({
+    doc_id,
+    version: Number(completed?.version ?? version),
+    size_bytes: check.size_bytes,
+    sha256: check.sha256,
+    content_status,
+    audit: "OK",
+  })
+})
@@ -0,0 +1,35 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/fields/delete/route.ts
+ * Módulo: Docs
+ * Etapa: Fields Delete (v1.1 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:organize via adminRoute (lib/admin/route-handler)
+ *  - Remove o campo de metadados; valores já guardados em docs.metadata ficam (deixam de ser mostrados
+ *    e são descartados na próxima edição do doc)
+ *  - Delete + audit DOC_FIELD_DELETED numa só transação (moduz_docs_delete_field)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+
+export const POST = adminRoute({ access: "member", permission: "docs:organize" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const field_id = String(body?.field_id ?? "").trim()
+  if (!field_id || field_id.length < 20) return jsonError(400, "MISSING_FIELD_ID")
+
+  const { error } = await admin.rpc("moduz_docs_delete_field", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_field_id: field_id,
+  })
+
+  if (error) {
+    if (error.message === "FIELD_NOT_FOUND") return jsonError(404, "FIELD_NOT_FOUND")
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ field_id, audit: "OK" })
+})
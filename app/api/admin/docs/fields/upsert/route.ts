@@ -0,0 +1,48 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/fields/upsert/route.ts
+ * Módulo: Docs
+ * Etapa: Fields Upsert (v1.1 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:organize via adminRoute (lib/admin/route-handler)
+ *  - Cria ou atualiza um campo de metadados por key: { key, label, type (text|date|number), position? }
+ *  - Mudar o type de um campo existente é recusado (409 FIELD_TYPE_LOCKED): valores já guardados
+ *    em docs.metadata foram validados com o tipo antigo
+ *  - Gravação (type confirmado com o campo bloqueado) + audit DOC_FIELD_UPSERTED numa só transação
+ *    (moduz_docs_upsert_field)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { isDocMetaFieldType, normFieldKey, normName } from "../../../../../../lib/admin/doc-catalog"
+
+export const POST = adminRoute({ access: "member", permission: "docs:organize" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+
+  const key = normFieldKey(body?.key)
+  const label = normName(body?.label, 60)
+  const type = body?.type
+  const position = Number.isInteger(body?.position) ? Number(body.position) : 0
+
+  if (!key) return jsonError(400, "INVALID_FIELD_KEY")
+  if (!label) return jsonError(400, "MISSING_FIELD_LABEL")
+  if (!isDocMetaFieldType(type)) return jsonError(400, "INVALID_FIELD_TYPE")
+
+  const { data: saved, error } = await admin.rpc("moduz_docs_upsert_field", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_key: key,
+    p_label: label,
+    p_type: type,
+    p_position: position,
+  })
+
+  if (error) {
+    if (error.message === "FIELD_TYPE_LOCKED") return jsonError(409, "FIELD_TYPE_LOCKED", error.details)
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ field: saved, audit: "OK" })
+})
@@ -0,0 +1,37 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/folders/delete/route.ts
+ * Módulo: Docs
+ * Etapa: Folders Delete (v1.1 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:organize via adminRoute (lib/admin/route-handler)
+ *  - Remove pasta sem subpastas (409 FOLDER_HAS_CHILDREN); os docs dela passam para a raiz (folder_id null)
+ *  - Delete + audit DOC_FOLDER_DELETED numa só transação (moduz_docs_delete_folder)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+
+export const POST = adminRoute({ access: "member", permission: "docs:organize" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const folder_id = String(body?.folder_id ?? "").trim()
+  if (!folder_id || folder_id.length < 20) return jsonError(400, "MISSING_FOLDER_ID")
+
+  const { error } = await admin.rpc("moduz_docs_delete_folder", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_folder_id: folder_id,
+  })
+
+  if (error) {
+    if (error.message === "FOLDER_NOT_FOUND") return jsonError(404, "FOLDER_NOT_FOUND")
+    if (error.message === "FOLDER_HAS_CHILDREN") return jsonError(409, "FOLDER_HAS_CHILDREN", error.details)
+    // subpasta criada entre a contagem e o delete (fk on delete restrict)
+    if (error.code === "23503") return jsonError(409, "FOLDER_HAS_CHILDREN", error.message)
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ folder_id, audit: "OK" })
+})
@@ -0,0 +1,61 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/folders/upsert/route.ts
+ * Módulo: Docs
+ * Etapa: Folders Upsert (v1.1 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:organize via adminRoute (lib/admin/route-handler)
+ *  - Cria (sem id) ou renomeia/move (com id) uma pasta: { id?, name, parent_id? }
+ *  - parent_id tem de ser da empresa e não pode ser a própria pasta nem uma descendente (FOLDER_CYCLE)
+ *  - Nome único dentro da pasta-mãe -> 409 FOLDER_NAME_TAKEN
+ *  - Gravação + audit DOC_FOLDER_UPSERTED numa só transação (moduz_docs_upsert_folder)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { normName } from "../../../../../../lib/admin/doc-catalog"
+
+export const POST = adminRoute({ access: "member", permission: "docs:organize" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+
+  const id = body?.id ? String(body.id).trim() : null
+  const name = normName(body?.name)
+  const parent_id = body?.parent_id ? String(body.parent_id).trim() : null
+
+  if (!name) return jsonError(400, "INVALID_FOLDER_NAME")
+
+  if (parent_id) {
+    const { data: all, error: fErr } = await admin.from("doc_folders").select("id, parent_id").eq("empresa_id", empresaId)
+    if (fErr) return jsonError(500, "DB_ERROR", fErr.message)
+
+    const parentOf = new Map<string, string | null>(
+      ((all ?? []) as Array<{ id: string; parent_id: string | null }>).map((f) => [f.id, f.parent_id])
+    )
+    if (!parentOf.has(parent_id)) return jsonError(404, "FOLDER_NOT_FOUND", parent_id)
+
+    // sobe a partir da nova mãe: se passar pela própria pasta, seria um ciclo
+    let cur: string | null = parent_id
+    for (let n = 0; cur && n <= parentOf.size; n++) {
+      if (cur === id) return jsonError(409, "FOLDER_CYCLE")
+      cur = parentOf.get(cur) ?? null
+    }
+  }
+
+  const { data: saved, error } = await admin.rpc("moduz_docs_upsert_folder", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_folder_id: id,
+    p_name: name,
+    p_parent_id: parent_id,
+  })
+
+  if (error) {
+    if (error.message === "FOLDER_NOT_FOUND") return jsonError(404, "FOLDER_NOT_FOUND")
+    if (error.code === "23505") return jsonError(409, "FOLDER_NAME_TAKEN", error.message)
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ folder: saved, audit: "OK" })
+})
@@ -0,0 +1,34 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/purge/route.ts
+ * Módulo: Docs
+ * Etapa: Purge (v1.1 - falhas devolvem erro)
+ * Descrição:
+ *  - Sessão/empresa/perfil admin via adminRoute (lib/admin/route-handler)
+ *  - Limpa uploads abandonados da empresa (lib/admin/doc-integrity.purgeStaleDocs):
+ *      docs/versões pending|failed antigos (audit DOC_PURGED / DOC_VERSION_PURGED na RPC)
+ *      + ficheiros do bucket sem versão associada (o pg_cron só trata das linhas, não do Storage)
+ *  - ?limit (1..500, default 200) por passagem; devolve contagens
+ *  - Falha das RPCs -> 500 DB_ERROR, do Storage -> 502 STORAGE_ERROR
+ *  - Todas as empresas de uma vez: POST /api/cron/docs-purge (agendador)
+ * =============================================
+ */
+
+import { adminRoute, jsonOk } from "../../../../../lib/admin/route-handler"
+import { purgeStaleDocs } from "../../../../../lib/admin/doc-integrity"
+
+function clampInt(v: string | null, min: number, max: number, def: number) {
+  const n = v ? Number(v) : NaN
+  if (!Number.isFinite(n)) return def
+  return Math.max(min, Math.min(max, Math.trunc(n)))
+}
+
+export const POST = adminRoute({ access: "admin" }, async ({ req, empresaId, admin }) => {
+  const url = new URL(req.url)
+  const limit = clampInt(url.searchParams.get("limit"), 1, 500, 200)
+
+  const purged = await purgeStaleDocs(admin, empresaId, limit)
+
+  return jsonOk({ empresa_id: empresaId, ...purged })
+})
@@ -0,0 +1,60 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/search/reindex/route.ts
+ * Módulo: Docs
+ * Etapa: Search Reindex (v1)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:organize via adminRoute (lib/admin/route-handler)
+ *  - Body: { doc_id? } — reextrai o texto de um doc; sem doc_id processa um lote de docs por indexar
+ *      (content_status null, ex.: anteriores a 20260127), até ?limit (1..20, default 10)
+ *  - Extração local por doc (lib/admin/doc-text.indexDocContent); devolve o estado de cada um e quantos faltam
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { indexDocContent } from "../../../../../../lib/admin/doc-text"
+
+function clampInt(v: string | null, min: number, max: number, def: number) {
+  const n = v ? Number(v) : NaN
+  if (!Number.isFinite(n)) return def
+  return Math.max(min, Math.min(max, Math.trunc(n)))
+}
+
+export const POST = adminRoute({ access: "member", permission: "docs:organize" }, async ({ req, empresaId, admin }) => {
+  const url = new URL(req.url)
+  const body = await req.json().catch(() => null)
+  const doc_id = body?.doc_id ? String(body.doc_id).trim() : null
+
+  if (doc_id) {
+    const status = await indexDocContent(admin, empresaId, doc_id)
+    if (!status) return jsonError(404, "DOC_NOT_FOUND")
+    return jsonOk({ results: [{ doc_id, content_status: status }], remaining: null })
+  }
+
+  const limit = clampInt(url.searchParams.get("limit"), 1, 20, 10)
+
+  const { data: pending, error } = await admin
+    .from("docs")
+    .select("id")
+    .eq("empresa_id", empresaId)
+    .is("content_status", null)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) return jsonError(500, "DB_ERROR", error.message)
+
+  // um de cada vez: extração é CPU/memória da própria função
+  const results: Array<{ doc_id: string; content_status: string | null }> = []
+  for (const d of pending ?? []) {
+    results.push({ doc_id: d.id, content_status: await indexDocContent(admin, empresaId, d.id) })
+  }
+
+  const { count } = await admin
+    .from("docs")
+    .select("id", { count: "exact", head: true })
+    .eq("empresa_id", empresaId)
+    .is("content_status", null)
+
+  return jsonOk({ results, remaining: count ?? null })
+})
@@ -0,0 +1,73 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/search/route.ts
+ * Módulo: Docs
+ * Etapa: Search (v1.1 - tipos sem any)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:read via adminRoute (lib/admin/route-handler)
+ *  - ?q= (mín. 2 caracteres) — full-text em português sobre nome, etiquetas, metadados e texto extraído
+ *      (RPC moduz_docs_search: ranking + snippet com marcadores ⟦ ⟧ à volta dos termos encontrados)
+ *  - Filtros opcionais iguais ao docs/list: ?folder_id=<uuid>|root e ?tag_id=<uuid>; ?limit (1..100, default 50)
+ *  - Linhas com o shape do docs/list (lib/admin/doc-catalog.hydrateDocs) + rank + snippet
+ *  - Texto extraído no complete/set-current (lib/admin/doc-text); docs antigos via docs/search/reindex
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../lib/admin/route-handler"
+import { DOC_LIST_COLUMNS, hydrateDocs, type DocRow } from "../../../../../lib/admin/doc-catalog"
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function clampInt(v: string | null, min: number, max: number, def: number) {
+  const n = v ? Number(v) : NaN
+  if (!Number.isFinite(n)) return def
+  return Math.max(min, Math.min(max, Math.trunc(n)))
+}
+
+export const GET = adminRoute({ access: "member", permission: "docs:read" }, async ({ req, empresaId, admin }) => {
+  const url = new URL(req.url)
+  const q = (url.searchParams.get("q") ?? "").trim().slice(0, 200)
+  const folderId = (url.searchParams.get("folder_id") ?? "").trim()
+  const tagId = (url.searchParams.get("tag_id") ?? "").trim()
+  const limit = clampInt(url.searchParams.get("limit"), 1, 100, 50)
+
+  if (q.length < 2) return jsonError(400, "QUERY_TOO_SHORT")
+  if (folderId && folderId !== "root" && !UUID_RE.test(folderId)) return jsonError(400, "INVALID_FOLDER_ID")
+  if (tagId && !UUID_RE.test(tagId)) return jsonError(400, "INVALID_TAG_ID")
+
+  const { data: hits, error } = await admin.rpc("moduz_docs_search", {
+    p_empresa_id: empresaId,
+    p_query: q,
+    p_folder_id: folderId && folderId !== "root" ? folderId : null,
+    p_root_only: folderId === "root",
+    p_tag_id: tagId || null,
+    p_limit: limit,
+  })
+
+  if (error) return jsonError(500, "DB_ERROR", error.message)
+
+  const list = (Array.isArray(hits) ? hits : []) as Array<{ doc_id: string; rank: number; snippet: string | null }>
+  if (!list.length) return jsonOk({ empresa_id: empresaId, q, docs: [] })
+
+  const { data: rows, error: dErr } = await admin
+    .from("docs")
+    .select(DOC_LIST_COLUMNS)
+    .eq("empresa_id", empresaId)
+    .in("id", list.map((h) => h.doc_id))
+
+  if (dErr) return jsonError(500, "DB_ERROR", dErr.message)
+
+  // mantém a ordem do ranking
+  const byId = new Map(((rows ?? []) as DocRow[]).map((r) => [r.id, r]))
+  const ordered = list.map((h) => byId.get(h.doc_id)).filter((d): d is DocRow => !!d)
+  const hitById = new Map(list.map((h) => [String(h.doc_id), h]))
+
+  const docs = (await hydrateDocs(admin, empresaId, ordered)).map((d) => ({
+    ...d,
+    rank: Number(hitById.get(d.id)?.rank ?? 0),
+    snippet: hitById.get(d.id)?.snippet ?? null,
+  }))
+
+  return jsonOk({ empresa_id: empresaId, q, docs })
+})
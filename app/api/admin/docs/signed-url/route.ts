@@ -3,94 +3,56 @@
  * Moduz+ | API Admin
  * Arquivo: app/api/admin/docs/signed-url/route.ts
  * Módulo: Docs
- * Etapa: Download signed URL (opcional v1)
+ * Etapa: Download signed URL (v1.2 - versões)
  * Descrição:
  *  - Retorna signed URL temporária para download
- *  - Valida sessão + membro ativo + doc pertence à empresa
+ *  - Sessão/empresa/membro ativo + permissão docs:read via adminRoute + doc pertence à empresa
+ *  - ?version=n (opcional): ficheiro dessa versão (public.doc_versions); omisso = versão atual
  * =============================================
  */
 
-import { NextResponse } from "next/server"
-import { createClient } from "@supabase/supabase-js"
-import { createSupabaseServerClient } from "../../../../../lib/supabase/server"
+import { adminRoute, jsonError, jsonOk } from "../../../../../lib/admin/route-handler"
 
-function env(name: string): string {
-  const v = process.env[name]
-  if (!v) throw new Error(`Missing env: ${name}`)
-  return v
-}
+export const GET = adminRoute({ access: "member", permission: "docs:read" }, async ({ req, empresaId, admin }) => {
+  const url = new URL(req.url)
+  const doc_id = (url.searchParams.get("doc_id") ?? "").trim()
+  if (!doc_id || doc_id.length < 20) return jsonError(400, "MISSING_DOC_ID")
 
-function supabaseAdmin() {
-  return createClient(env("NEXT_PUBLIC_SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
-    auth: { persistSession: false, autoRefreshToken: false },
-  })
-}
+  const versionRaw = url.searchParams.get("version")
+  const version = versionRaw ? Number(versionRaw) : null
+  if (version !== null && (!Number.isInteger(version) || version < 1)) return jsonError(400, "INVALID_VERSION")
 
-function getEmpresaId(req: Request): string | null {
-  return req.headers.get("x-empresa-id") || req.headers.get("X-Empresa-Id")
-}
-
-async function assertMember(userId: string, empresaId: string) {
-  const admin = supabaseAdmin()
-  const { data: profile, error } = await admin
-    .from("profiles")
-    .select("id, ativo")
-    .eq("user_id", userId)
+  const { data: doc, error: dErr } = await admin
+    .from("docs")
+    .select("id, storage_bucket, storage_path")
+    .eq("id", doc_id)
     .eq("empresa_id", empresaId)
     .maybeSingle()
 
-  if (error) return { ok: false as const, status: 500, error: "PROFILE_LOOKUP_FAILED", details: error.message }
-  if (!profile || profile.ativo === false) return { ok: false as const, status: 403, error: "NO_PROFILE" }
-  return { ok: true as const }
-}
-
-export async function GET(req: Request) {
-  try {
-    const empresaId = getEmpresaId(req)
-    if (!empresaId) return NextResponse.json({ ok: false, error: "MISSING_EMPRESA_ID" }, { status: 400 })
-
-    const supabase = createSupabaseServerClient()
-    const { data: userRes, error: userErr } = await supabase.auth.getUser()
-    const user = userRes?.user
-    if (userErr || !user) return NextResponse.json({ ok: false, error: "MISSING_SESSION" }, { status: 401 })
-
-    const member = await assertMember(user.id, empresaId)
-    if (!member.ok) {
-      return NextResponse.json(
-        { ok: false, error: member.error, details: (member as any).details ?? null },
-        { status: member.status }
-      )
-    }
+  if (dErr || !doc) return jsonError(404, "DOC_NOT_FOUND", dErr?.message ?? null)
 
-    const url = new URL(req.url)
-    const doc_id = (url.searchParams.get("doc_id") ?? "").trim()
-    if (!doc_id || doc_id.length < 20) {
-      return NextResponse.json({ ok: false, error: "MISSING_DOC_ID" }, { status: 400 })
-    }
+  let file = { storage_bucket: doc.storage_bucket as string, storage_path: doc.storage_path as string }
 
-    const admin = supabaseAdmin()
-
-    const { data: doc, error: dErr } = await admin
-      .from("docs")
-      .select("id, storage_bucket, storage_path")
-      .eq("id", doc_id)
+  if (version !== null) {
+    const { data: ver, error: vErr } = await admin
+      .from("doc_versions")
+      .select("storage_bucket, storage_path, status")
+      .eq("doc_id", doc_id)
       .eq("empresa_id", empresaId)
+      .eq("version", version)
       .maybeSingle()
 
-    if (dErr || !doc) {
-      return NextResponse.json({ ok: false, error: "DOC_NOT_FOUND", details: dErr?.message ?? null }, { status: 404 })
-    }
+    if (vErr) return jsonError(500, "DB_ERROR", vErr.message)
+    if (!ver) return jsonError(404, "VERSION_NOT_FOUND", String(version))
+    if (ver.status !== "uploaded") return jsonError(409, "VERSION_NOT_UPLOADED", String(version))
+    file = { storage_bucket: ver.storage_bucket, storage_path: ver.storage_path }
+  }
 
-    const { data: signed, error: sErr } = await admin.storage
-      .from(doc.storage_bucket)
-      .createSignedUrl(doc.storage_path, 60)
+  const { data: signed, error: sErr } = await admin.storage
+    .from(file.storage_bucket)
+    .createSignedUrl(file.storage_path, 60)
 
-    if (sErr || !signed?.signedUrl) {
-      return NextResponse.json({ ok: false, error: "SIGNED_URL_FAILED", details: sErr?.message ?? null }, { status: 500 })
-    }
+  if (sErr || !signed?.signedUrl) return jsonError(500, "SIGNED_URL_FAILED", sErr?.message ?? null)
 
-    return NextResponse.json({ ok: true, signed_url: signed.signedUrl }, { status: 200 })
-  } catch (e: any) {
-    return NextResponse.json({ ok: false, error: "UNEXPECTED", details: e?.message ?? String(e) }, { status: 500 })
-  }
-}
+  return jsonOk({ signed_url: signed.signedUrl, version })
+})
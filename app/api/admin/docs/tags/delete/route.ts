@@ -0,0 +1,34 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/tags/delete/route.ts
+ * Módulo: Docs
+ * Etapa: Tags Delete (v1.1 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:organize via adminRoute (lib/admin/route-handler)
+ *  - Remove etiqueta da empresa (ligações aos docs caem por cascade)
+ *  - Delete + audit DOC_TAG_DELETED numa só transação (moduz_docs_delete_tag)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+
+export const POST = adminRoute({ access: "member", permission: "docs:organize" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const tag_id = String(body?.tag_id ?? "").trim()
+  if (!tag_id || tag_id.length < 20) return jsonError(400, "MISSING_TAG_ID")
+
+  const { error } = await admin.rpc("moduz_docs_delete_tag", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_tag_id: tag_id,
+  })
+
+  if (error) {
+    if (error.message === "TAG_NOT_FOUND") return jsonError(404, "TAG_NOT_FOUND")
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ tag_id, audit: "OK" })
+})
@@ -0,0 +1,43 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/tags/upsert/route.ts
+ * Módulo: Docs
+ * Etapa: Tags Upsert (v1.1 - audit na mesma transação)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:organize via adminRoute (lib/admin/route-handler)
+ *  - Cria (sem id) ou atualiza (com id) uma etiqueta: { id?, name, color? (#rrggbb) }
+ *  - Nome único por empresa (sem distinguir maiúsculas) -> 409 TAG_NAME_TAKEN
+ *  - Gravação + audit DOC_TAG_UPSERTED numa só transação (moduz_docs_upsert_tag)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { normColor, normName } from "../../../../../../lib/admin/doc-catalog"
+
+export const POST = adminRoute({ access: "member", permission: "docs:organize" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+
+  const id = body?.id ? String(body.id).trim() : null
+  const name = normName(body?.name, 40)
+  const color = normColor(body?.color)
+
+  if (!name) return jsonError(400, "INVALID_TAG_NAME")
+
+  const { data: saved, error } = await admin.rpc("moduz_docs_upsert_tag", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_tag_id: id,
+    p_name: name,
+    p_color: color,
+  })
+
+  if (error) {
+    if (error.message === "TAG_NOT_FOUND") return jsonError(404, "TAG_NOT_FOUND")
+    if (error.code === "23505") return jsonError(409, "TAG_NAME_TAKEN", error.message)
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ tag: saved, audit: "OK" })
+})
@@ -0,0 +1,63 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/update/route.ts
+ * Módulo: Docs
+ * Etapa: Update metadados (v1.1 - tipos sem any)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:upload via adminRoute (lib/admin/route-handler)
+ *  - Body: { doc_id, folder_id?, tag_ids?, metadata? } — chaves ausentes não mudam
+ *      folder_id null = raiz; tag_ids substitui as etiquetas; metadata substitui o objeto inteiro
+ *  - metadata validado contra os campos da empresa (lib/admin/doc-catalog.sanitizeMetadata)
+ *  - RPC moduz_docs_update_meta: alteração + audit DOC_METADATA_UPDATED (before/after) na mesma transação
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../lib/admin/route-handler"
+import { DOC_META_FIELD_COLUMNS, sanitizeMetadata, type DocMetaField } from "../../../../../lib/admin/doc-catalog"
+
+export const POST = adminRoute({ access: "member", permission: "docs:upload" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const doc_id = String(body?.doc_id ?? "").trim()
+  if (!doc_id || doc_id.length < 20) return jsonError(400, "MISSING_DOC_ID")
+
+  const patch: { folder_id?: string | null; tag_ids?: string[]; metadata?: Record<string, string | number> } = {}
+
+  if (body && "folder_id" in body) patch.folder_id = body.folder_id ? String(body.folder_id).trim() : null
+
+  if (body && "tag_ids" in body) {
+    if (!Array.isArray(body.tag_ids)) return jsonError(400, "INVALID_TAG_IDS")
+    patch.tag_ids = Array.from(new Set(body.tag_ids.map((t: unknown) => String(t ?? "").trim()).filter(Boolean)))
+  }
+
+  if (body && "metadata" in body) {
+    const { data: fields, error: fErr } = await admin
+      .from("doc_meta_fields")
+      .select(DOC_META_FIELD_COLUMNS)
+      .eq("empresa_id", empresaId)
+
+    if (fErr) return jsonError(500, "DB_ERROR", fErr.message)
+    patch.metadata = sanitizeMetadata((fields ?? []) as DocMetaField[], body.metadata)
+  }
+
+  if (!Object.keys(patch).length) return jsonError(400, "NOTHING_TO_UPDATE")
+
+  const { data, error } = await admin.rpc("moduz_docs_update_meta", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_doc_id: doc_id,
+    p_patch: patch,
+  })
+
+  if (error) {
+    if (error.message === "DOC_NOT_FOUND") return jsonError(404, "DOC_NOT_FOUND")
+    if (error.message === "FOLDER_NOT_FOUND") return jsonError(404, "FOLDER_NOT_FOUND")
+    if (error.message === "TAG_NOT_FOUND") return jsonError(404, "TAG_NOT_FOUND")
+    // uuid mal formado em folder_id/tag_ids
+    if (error.code === "22P02") return jsonError(400, "INVALID_ID", error.message)
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  return jsonOk({ doc_id, ...(data as Record<string, unknown>), audit: "OK" })
+})
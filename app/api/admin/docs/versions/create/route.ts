@@ -0,0 +1,86 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/versions/create/route.ts
+ * Módulo: Docs
+ * Etapa: Versions Create (v1.1 - política de upload)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:upload via adminRoute (lib/admin/route-handler)
+ *  - Body: { doc_id, filename, mime_type?, size_bytes? } — reserva a versão seguinte (RPC moduz_docs_create_version)
+ *      storage_path = <pasta do doc>/v<n>/<filename>; versão fica pending até docs/complete { doc_id, version }
+ *  - Quota de storage do plano conta todas as versões -> 402 PLAN_STORAGE_QUOTA (lib/admin/entitlements)
+ *  - Política de upload da empresa, como no docs/create (413/415 + audit DOC_UPLOAD_REJECTED stage "version")
+ *  - Gera Signed Upload URL (storage)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { assertStorageAvailable, loadEntitlements } from "../../../../../../lib/admin/entitlements"
+import { auditUploadRejected, checkUploadPolicy, loadUploadPolicy } from "../../../../../../lib/admin/upload-policy"
+
+function safeFileName(name: string) {
+  const base = (name || "documento").trim()
+  const just = base.split("/").pop()?.split("\\").pop() ?? "documento"
+  return just.replace(/\s+/g, " ").slice(0, 180)
+}
+
+export const POST = adminRoute({ access: "member", permission: "docs:upload" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const doc_id = String(body?.doc_id ?? "").trim()
+  if (!doc_id || doc_id.length < 20) return jsonError(400, "MISSING_DOC_ID")
+
+  const filename = safeFileName(String(body?.filename ?? "documento"))
+  const mime_type = body?.mime_type ? String(body.mime_type) : null
+  const size_bytes = body?.size_bytes ? Number(body.size_bytes) : null
+
+  const violation = checkUploadPolicy(await loadUploadPolicy(admin, empresaId), { filename, mime_type, size_bytes })
+  if (violation) {
+    await auditUploadRejected(admin, {
+      empresa_id: empresaId,
+      actor_user_id: user.id,
+      actor_profile_id: profile.id,
+      stage: "version",
+      doc_id,
+      file: { filename, mime_type, size_bytes },
+      violation,
+    })
+    return jsonError(violation.status, violation.code, violation.details)
+  }
+
+  assertStorageAvailable(await loadEntitlements(admin, empresaId), size_bytes ?? 0)
+
+  const { data, error } = await admin.rpc("moduz_docs_create_version", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_doc_id: doc_id,
+    p_filename: filename,
+    p_mime_type: mime_type,
+    p_size_bytes: size_bytes,
+  })
+
+  if (error) {
+    if (error.message === "DOC_NOT_FOUND") return jsonError(404, "DOC_NOT_FOUND")
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  const version = data as {
+    doc_id: string
+    version: number
+    storage_bucket: string
+    storage_path: string
+    filename: string
+    created_at: string
+  }
+
+  const { data: up, error: upErr } = await admin.storage
+    .from(version.storage_bucket)
+    .createSignedUploadUrl(version.storage_path)
+  if (upErr || !up?.signedUrl || !up?.token) {
+    return jsonError(500, "SIGNED_UPLOAD_FAILED", upErr?.message ?? null)
+  }
+
+  return jsonOk({
+    version,
+    upload: { signed_url: up.signedUrl, token: up.token },
+  })
+})
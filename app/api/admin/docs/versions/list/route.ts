@@ -0,0 +1,46 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/versions/list/route.ts
+ * Módulo: Docs
+ * Etapa: Versions List (v1.2 - tipos sem any)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:read via adminRoute (lib/admin/route-handler)
+ *  - ?doc_id — histórico de versões do doc (mais recente primeiro) + current_version
+ *  - status pending | uploaded | failed (+ failure_reason da verificação no docs/complete) e sha256
+ *  - Download de uma versão: docs/signed-url?doc_id=...&version=n
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+
+export const GET = adminRoute({ access: "member", permission: "docs:read" }, async ({ req, empresaId, admin }) => {
+  const url = new URL(req.url)
+  const doc_id = (url.searchParams.get("doc_id") ?? "").trim()
+  if (!doc_id || doc_id.length < 20) return jsonError(400, "MISSING_DOC_ID")
+
+  const { data: doc, error: dErr } = await admin
+    .from("docs")
+    .select("id, current_version")
+    .eq("id", doc_id)
+    .eq("empresa_id", empresaId)
+    .maybeSingle()
+
+  if (dErr) return jsonError(500, "DB_ERROR", dErr.message)
+  if (!doc) return jsonError(404, "DOC_NOT_FOUND")
+
+  const { data, error } = await admin
+    .from("doc_versions")
+    .select("version, filename, mime_type, size_bytes, status, sha256, failure_reason, created_by, created_at, uploaded_at")
+    .eq("doc_id", doc_id)
+    .eq("empresa_id", empresaId)
+    .order("version", { ascending: false })
+
+  if (error) return jsonError(500, "DB_ERROR", error.message)
+
+  return jsonOk({
+    doc_id,
+    current_version: doc.current_version,
+    versions: ((data ?? []) as Array<{ version: number }>).map((v) => ({ ...v, current: v.version === doc.current_version })),
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * =============================================
+ * Moduz+ | API Admin
+ * Arquivo: app/api/admin/docs/versions/set-current/route.ts
+ * Módulo: Docs
+ * Etapa: Versions Set Current (v1.2 - tipos sem any)
+ * Descrição:
+ *  - Sessão/empresa/membro ativo + permissão docs:upload via adminRoute (lib/admin/route-handler)
+ *  - Body: { doc_id, version } — torna atual uma versão já enviada (ex.: voltar à anterior)
+ *  - RPC moduz_docs_set_current_version: docs espelha a versão + audit DOC_VERSION_CURRENT_SET (mesma transação)
+ *  - 404 DOC_NOT_FOUND / VERSION_NOT_FOUND; 409 VERSION_NOT_UPLOADED / VERSION_ALREADY_CURRENT
+ *  - Reextrai o texto (pesquisa) da nova versão atual (lib/admin/doc-text)
+ * =============================================
+ */
+
+import { adminRoute, jsonError, jsonOk } from "../../../../../../lib/admin/route-handler"
+import { indexDocContent } from "../../../../../../lib/admin/doc-text"
+
+function asVersion(v: unknown): number | null {
+  const n = typeof v === "number" ? v : Number(v)
+  return Number.isInteger(n) && n > 0 ? n : null
+}
+
+export const POST = adminRoute({ access: "member", permission: "docs:upload" }, async ({ req, user, empresaId, profile, admin }) => {
+  const body = await req.json().catch(() => null)
+  const doc_id = String(body?.doc_id ?? "").trim()
+  if (!doc_id || doc_id.length < 20) return jsonError(400, "MISSING_DOC_ID")
+
+  const version = asVersion(body?.version)
+  if (!version) return jsonError(400, "INVALID_VERSION")
+
+  const { data, error } = await admin.rpc("moduz_docs_set_current_version", {
+    p_empresa_id: empresaId,
+    p_user_id: user.id,
+    p_profile_id: profile.id,
+    p_doc_id: doc_id,
+    p_version: version,
+  })
+
+  if (error) {
+    if (error.message === "DOC_NOT_FOUND") return jsonError(404, "DOC_NOT_FOUND")
+    if (error.message === "VERSION_NOT_FOUND") return jsonError(404, "VERSION_NOT_FOUND", String(version))
+    if (error.message === "VERSION_NOT_UPLOADED") return jsonError(409, "VERSION_NOT_UPLOADED", String(version))
+    if (error.message === "VERSION_ALREADY_CURRENT") return jsonError(409, "VERSION_ALREADY_CURRENT", String(version))
+    return jsonError(500, "DB_ERROR", error.message)
+  }
+
+  const content_status = await indexDocContent(admin, empresaId, doc_id)
+
+  const result = data as { current_version?: number; previous_version?: number | null } | null
+
+  return jsonOk({
+    doc_id,
+    current_version: result?.current_version ?? version,
+    previous_version: result?.previous_version ?? null,
+    content_status,
+    audit: "OK",
+  })
+})
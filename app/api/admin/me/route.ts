@@ -6,11 +6,13 @@
  * Etapa: MVP Técnico – Core Runtime
  * Descrição: Retorna contexto do utilizador (empresas, profile, módulos e settings).
  * Fonte de verdade: DB (profiles, modules_enabled, settings)
+ * Módulos: estado efetivo (trials expirados excluídos — components/adm/module-state)
  * =============================================
  */
 
 import { NextResponse } from "next/server"
 import { createClient } from "@supabase/supabase-js"
+import { activeModuleKeys } from "../../../../components/adm/module-state"
 
 function mustEnv(name: string): string {
   const v = process.env[name]
@@ -106,12 +108,12 @@ export async function GET(req: Request) {
     if (active_empresa_id) {
       const { data: mods, error: modsErr } = await admin
         .from("modules_enabled")
-        .select("module_key, enabled")
+        .select("module_key, enabled, trial_ends_at")
         .eq("empresa_id", active_empresa_id)
         .eq("enabled", true)
 
       if (modsErr) throw modsErr
-      modules_enabled = (mods ?? []).map((m) => m.module_key)
+      modules_enabled = activeModuleKeys(mods ?? [])
 
       const { data: st, error: stErr } = await admin
         .from("settings")
@@ -0,0 +1,115 @@
+/**
+ * =============================================
+ * Moduz+ | Auth API
+ * Arquivo: app/api/auth/invite/accept/route.ts
+ * Módulo: Core (Convites)
+ * Etapa: Accept (v1.4 - tipos sem any)
+ * Descrição:
+ *  - Chamado por /auth/confirm após o exchange de sessão (cookies SSR)
+ *  - Valida token (hash), estado, validade e email do user autenticado
+ *  - RPC moduz_core_accept_invite (convite bloqueado com for update): revê estado/validade/email,
+ *    cria (ou reativa) o profile com a role do convite, marca aceite e grava INVITE_ACCEPTED na
+ *    mesma transação — um revoke concorrente ou ganha antes (nada concedido) ou já não o encontra pendente
+ *  - O convite já ocupa lugar; só falha se o uso exceder o plano (ex.: downgrade) -> 402 PLAN_SEAT_LIMIT
+ *  - Empresa do convite passa a ser a empresa ativa do user (user_preferences)
+ *  - Idempotente para o mesmo user (convite já aceite por ele -> ok)
+ * =============================================
+ */
+
+import { createSupabaseServerClient } from "../../../../../lib/supabase/server"
+import { supabaseAdmin } from "../../../../../lib/supabase/admin"
+import { ApiError, jsonError, jsonOk } from "../../../../../lib/admin/route-handler"
+import { INVITE_COLUMNS, effectiveStatus, hashInviteToken, type InviteRow } from "../../../../../lib/admin/invites"
+import { saveActiveEmpresaId } from "../../../../../lib/admin/active-empresa"
+import { assertSeatAvailable, loadEntitlements } from "../../../../../lib/admin/entitlements"
+
+type AcceptResult = { empresa_id: string; profile_id: string | null; already: boolean }
+
+const ACCEPT_ERRORS: Record<string, number> = {
+  INVITE_NOT_FOUND: 404,
+  INVITE_ALREADY_USED: 409,
+  INVITE_NOT_PENDING: 409,
+  INVITE_REVOKED: 410,
+  INVITE_EXPIRED: 410,
+  INVITE_EMAIL_MISMATCH: 403,
+}
+
+export async function POST(req: Request) {
+  try {
+    const supabase = createSupabaseServerClient()
+    const { data: userRes, error: userErr } = await supabase.auth.getUser()
+    const user = userRes?.user
+    if (userErr || !user) return jsonError(401, "MISSING_SESSION")
+
+    const body = await req.json().catch(() => null)
+    const token = String(body?.token ?? "").trim()
+    if (!token || token.length < 20) return jsonError(400, "MISSING_TOKEN")
+
+    const admin = supabaseAdmin()
+
+    const { data, error } = await admin
+      .from("invites")
+      .select(INVITE_COLUMNS)
+      .eq("token_hash", hashInviteToken(token))
+      .maybeSingle()
+
+    if (error) return jsonError(500, "DB_ERROR", error.message)
+    if (!data) return jsonError(404, "INVITE_NOT_FOUND")
+
+    const invite = data as InviteRow
+    const status = effectiveStatus(invite)
+
+    if (status === "accepted") {
+      if (invite.accepted_by !== user.id) return jsonError(409, "INVITE_ALREADY_USED")
+      await saveActiveEmpresaId(admin, user.id, invite.empresa_id)
+      return jsonOk({ empresa_id: invite.empresa_id, already: true })
+    }
+    if (status === "revoked") return jsonError(410, "INVITE_REVOKED")
+    if (status === "expired") return jsonError(410, "INVITE_EXPIRED")
+
+    if ((user.email ?? "").toLowerCase() !== invite.email.toLowerCase()) {
+      return jsonError(403, "INVITE_EMAIL_MISMATCH")
+    }
+
+    // perfil já ativo não ocupa lugar novo; o convite pendente já está contado no uso
+    const { data: existing, error: exErr } = await admin
+      .from("profiles")
+      .select("id, ativo")
+      .eq("empresa_id", invite.empresa_id)
+      .eq("user_id", user.id)
+      .maybeSingle()
+
+    if (exErr) return jsonError(500, "PROFILE_LOOKUP_FAILED", exErr.message)
+    if (!existing || existing.ativo === false) {
+      assertSeatAvailable(await loadEntitlements(admin, invite.empresa_id), 0)
+    }
+
+    // estado revisto com o convite bloqueado; profile + aceite + audit na mesma transação
+    const { data: res, error: accErr } = await admin.rpc("moduz_core_accept_invite", {
+      p_invite_id: invite.id,
+      p_user_id: user.id,
+      p_email: user.email ?? "",
+    })
+
+    if (accErr) {
+      const code = ACCEPT_ERRORS[accErr.message]
+      return code ? jsonError(code, accErr.message) : jsonError(500, "DB_ERROR", accErr.message)
+    }
+
+    const accepted = res as AcceptResult
+
+    // best-effort: sem preferência, o contexto cai para a 1ª empresa ativa
+    await saveActiveEmpresaId(admin, user.id, invite.empresa_id)
+
+    if (accepted.already) return jsonOk({ empresa_id: invite.empresa_id, already: true })
+
+    return jsonOk({
+      empresa_id: invite.empresa_id,
+      profile_id: accepted.profile_id,
+      audit: "OK",
+    })
+  } catch (e) {
+    if (e instanceof ApiError) return jsonError(e.status, e.code, e.details)
+    return jsonError(500, "UNEXPECTED", e instanceof Error ? e.message : String(e))
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * =============================================
+ * Moduz+ | API Cron
+ * Arquivo: app/api/cron/docs-purge/route.ts
+ * Módulo: Docs
+ * Etapa: Purge agendado (v1)
+ * Descrição:
+ *  - Chamado pelo agendador (Vercel Cron, pg_net, ...) com Authorization: Bearer <CRON_SECRET>
+ *      CRON_SECRET em falta -> 503 CRON_NOT_CONFIGURED; segredo errado -> 401 UNAUTHORIZED
+ *  - Sem sessão: não usa adminRoute; cliente service role (lib/supabase/admin)
+ *  - Limpa uploads abandonados de TODAS as empresas (lib/admin/doc-integrity.purgeStaleDocs com
+ *    empresa_id null): linhas pending|failed antigas + ficheiros órfãos do bucket (o pg_cron só
+ *    consegue apagar as linhas; o Storage tem de ser limpo pela API)
+ *  - ?limit (1..500, default 200) por passagem; devolve contagens
+ * =============================================
+ */
+
+import { timingSafeEqual } from "crypto"
+import { supabaseAdmin } from "../../../../lib/supabase/admin"
+import { ApiError, jsonError, jsonOk } from "../../../../lib/admin/route-handler"
+import { purgeStaleDocs } from "../../../../lib/admin/doc-integrity"
+
+function clampInt(v: string | null, min: number, max: number, def: number) {
+  const n = v ? Number(v) : NaN
+  if (!Number.isFinite(n)) return def
+  return Math.max(min, Math.min(max, Math.trunc(n)))
+}
+
+function authorized(header: string | null, secret: string) {
+  const got = Buffer.from(header ?? "")
+  const want = Buffer.from(`Bearer ${secret}`)
+  return got.length === want.length && timingSafeEqual(got, want)
+}
+
+export async function POST(req: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return jsonError(503, "CRON_NOT_CONFIGURED")
+  if (!authorized(req.headers.get("authorization"), secret)) return jsonError(401, "UNAUTHORIZED")
+
+  const url = new URL(req.url)
+  const limit = clampInt(url.searchParams.get("limit"), 1, 500, 200)
+
+  try {
+    const purged = await purgeStaleDocs(supabaseAdmin(), null, limit)
+    return jsonOk({ empresa_id: null, ...purged })
+  } catch (e) {
+    if (e instanceof ApiError) return jsonError(e.status, e.code, e.details)
+    return jsonError(500, "UNEXPECTED", e instanceof Error ? e.message : String(e))
+  }
+}
@@ -3,13 +3,120 @@
  * Moduz+ | UI App
  * Arquivo: app/auth/confirm/page.tsx
  * Módulo: Core (Auth)
- * Etapa: MVP Técnico – Bootstrap Auth UI
+ * Etapa: Confirmação + Convites (v1.1 - tipos sem any)
  * Descrição: Endpoint de retorno do Supabase (magic link/PKCE/OTP).
- * Nota: lógica real será implementada na etapa de Auth do Core.
+ *  - Estabelece sessão (cookies SSR) a partir de:
+ *      - hash (#access_token&refresh_token&type)
+ *      - ?token_hash&type (verifyOtp)
+ *      - ?code (PKCE)
+ *  - ?invite=<token>: aceita o convite (/api/auth/invite/accept; a empresa do convite passa a ativa)
+ *  - Convite para user novo (type=invite): segue para /auth/reset para definir a senha
  * =============================================
  */
 
+"use client"
+
+import { useEffect, useState } from "react"
+import type { EmailOtpType } from "@supabase/supabase-js"
+import { createSupabaseBrowserClient } from "../../../lib/supabase/client"
+
+type AcceptResp =
+  | { ok: true; empresa_id: string; profile_id?: string; already?: boolean }
+  | { ok: false; error: string; details?: string | null }
+
+const INVITE_ERROR_LABEL: Record<string, string> = {
+  INVITE_NOT_FOUND: "Convite inválido.",
+  INVITE_REVOKED: "Este convite foi revogado.",
+  INVITE_EXPIRED: "Este convite expirou. Peça um novo convite ao administrador.",
+  INVITE_ALREADY_USED: "Este convite já foi utilizado.",
+  INVITE_EMAIL_MISMATCH: "Este convite foi enviado para outro email.",
+}
+
+function parseHashParams(hash: string): Record<string, string> {
+  const h = hash.startsWith("#") ? hash.slice(1) : hash
+  const params = new URLSearchParams(h)
+  const obj: Record<string, string> = {}
+  params.forEach((value, key) => {
+    obj[key] = value
+  })
+  return obj
+}
+
 export default function AuthConfirmPage() {
+  const [error, setError] = useState<string | null>(null)
+  const [step, setStep] = useState<"session" | "invite" | "done">("session")
+
+  useEffect(() => {
+    const run = async () => {
+      try {
+        const supabase = createSupabaseBrowserClient()
+        const url = new URL(window.location.href)
+        const hp = parseHashParams(window.location.hash || "")
+        const type = hp["type"] || url.searchParams.get("type") || ""
+
+        // 1) sessão
+        if (hp["access_token"] && hp["refresh_token"]) {
+          const { error: setErr } = await supabase.auth.setSession({
+            access_token: hp["access_token"],
+            refresh_token: hp["refresh_token"],
+          })
+          if (setErr) throw setErr
+        } else if (url.searchParams.get("token_hash")) {
+          const { error: otpErr } = await supabase.auth.verifyOtp({
+            token_hash: url.searchParams.get("token_hash")!,
+            type: (type || "magiclink") as EmailOtpType,
+          })
+          if (otpErr) throw otpErr
+        } else if (url.searchParams.get("code")) {
+          const { error: exErr } = await supabase.auth.exchangeCodeForSession(url.searchParams.get("code")!)
+          if (exErr) throw exErr
+        } else if (hp["error_description"]) {
+          throw new Error(hp["error_description"])
+        }
+
+        const { data } = await supabase.auth.getSession()
+        const session = data.session
+        if (!session) throw new Error("Link inválido ou expirado. Peça um novo link.")
+
+        // 2) convite
+        const invite = url.searchParams.get("invite")
+        if (invite) {
+          setStep("invite")
+          const r = await fetch("/api/auth/invite/accept", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            credentials: "include",
+            body: JSON.stringify({ token: invite }),
+          })
+          const j = (await r.json().catch(() => null)) as AcceptResp | null
+          if (!r.ok || !j || j.ok !== true) {
+            const code = j?.ok === false ? j.error : undefined
+            throw new Error((code && INVITE_ERROR_LABEL[code]) || code || "Falha ao aceitar o convite.")
+          }
+        }
+
+        setStep("done")
+
+        // 3) user novo (convite): definir senha em /auth/reset (sessão passa por hash)
+        if (type === "invite") {
+          const h = new URLSearchParams({
+            access_token: session.access_token,
+            refresh_token: session.refresh_token,
+            type: "invite",
+          })
+          window.location.replace(`/auth/reset#${h.toString()}`)
+          return
+        }
+
+        window.location.replace("/adm")
+      } catch (e) {
+        setError((e instanceof Error && e.message) || "Falha ao validar o acesso.")
+      }
+    }
+
+    run()
+  }, [])
+
   return (
     <main className="min-h-screen flex items-center justify-center p-6">
       <div className="w-full max-w-md rounded-xl border border-slate-800 bg-slate-950 p-6">
@@ -19,12 +126,20 @@ export default function AuthConfirmPage() {
           segundos, volte e tente novamente.
         </p>
 
-        <div className="mt-6 rounded-lg border border-slate-800 bg-slate-900/40 p-4">
-          <p className="text-sm text-slate-300">
-            Bootstrap inicial. A lógica de exchange de sessão será adicionada quando
-            iniciarmos o Core/Auth.
-          </p>
-        </div>
+        {error ? (
+          <div className="mt-6 rounded-lg border border-red-900/60 bg-red-950/30 p-4">
+            <p className="text-sm text-red-200">{error}</p>
+            <a href="/login" className="mt-3 inline-block text-sm text-slate-200 underline">
+              Ir para o login
+            </a>
+          </div>
+        ) : (
+          <div className="mt-6 rounded-lg border border-slate-800 bg-slate-900/40 p-4">
+            <p className="text-sm text-slate-300">
+              {step === "session" ? "A validar link…" : step === "invite" ? "A aceitar convite…" : "A redirecionar…"}
+            </p>
+          </div>
+        )}
       </div>
     </main>
   )
@@ -3,11 +3,24 @@
  * Moduz+ | Admin Shell
  * Arquivo: components/adm/adm-shell.tsx
  * Módulo: Core (Admin)
- * Etapa: Layout + Menu Dinâmico (v6.3.2)
+ * Etapa: Layout + Menu Dinâmico (v7.3 - tipos sem any)
  * Descrição:
  *  - Mantém lógica existente (sem mudanças transversais)
  *  - Ajuste pontual: header mobile em 2 linhas
  *  - Ajuste pontual adicional (padrão Moduz): bolinha com cor por módulo no menu (nav)
+ *  - Permissões: carrega /api/admin/core/permissions/me por empresa;
+ *    menu esconde módulos sem "<modulo>:read" e o ModuleGuard bloqueia por URL
+ *  - Empresa ativa vem do servidor (context.active_empresa_id); troca via POST;
+ *    ao voltar à tab (focus/visibility) re-sincroniza (outras tabs/dispositivos)
+ *  - Atalhos no header: Módulos + Definições (por módulo) + Plano
+ *  - Módulos ativos = estado efetivo (components/adm/module-state): trial expirado sai do menu
+ *    no instante de expiração (timer) e o ModuleGuard bloqueia com reason "trial_expired"
+ *  - "moduz:module-disabled" (API recusou com MODULE_DISABLED): relê módulos e substitui o cache local
+ *  - Realtime (components/adm/realtime-sync): módulos alterados noutra sessão/tab atualizam menu, guard
+ *    e cache local; páginas abertas recebem "moduz:realtime-sync"
+ *  - Módulos de manifest (modules/<key>) entram no menu pelo registry; cor da bolinha via meta.color
+ *  - Nav secundária do módulo atual (registry.sections): breadcrumb "Módulo › Secção" + separadores;
+ *    secções não implementadas / sem permissão / só admin ficam de fora (canAccessSection)
  * =============================================
  */
 
@@ -17,16 +30,19 @@ import * as React from "react"
 import {
   EmpresaSwitcher,
   type EmpresaItem,
-  getEmpresaIdFromStorage,
-  setEmpresaIdToStorage,
+  setActiveEmpresaMirror,
+  switchActiveEmpresa,
 } from "./empresa-switcher"
-import { MODULES, ROUTES_BY_MODULE, type ModuleKey } from "./module-registry"
+import { MODULES, ROUTES_BY_MODULE, sectionForPath, type ModuleKey } from "./module-registry"
+import { canAccessModule, canAccessSection } from "./permissions"
+import { activeModuleKeys, nextTrialEnd, type ModuleStateRow } from "./module-state"
 import { usePathname } from "next/navigation"
 import Link from "next/link"
 
 import { ToastProvider } from "../ui/toast-context"
 import { ToastHost } from "../ui/toast-host"
-import { ModuleGuard } from "./module-guard"
+import { ModuleGuard, resolveModuleFromPath } from "./module-guard"
+import { useEmpresaRealtime } from "./realtime-sync"
 
 type CoreContextResponse =
   | {
@@ -46,6 +62,7 @@ type CoreContextResponse =
         role: string | null
         ativo: boolean
       }>
+      active_empresa_id: string | null
       default_empresa_id: string | null
     }
   | { ok: false; error: string; details?: string | null }
@@ -54,12 +71,17 @@ type ModuleRow = {
   module_key: string
   enabled: boolean
   enabled_at: string | null
+  trial_ends_at?: string | null
   updated_at: string | null
 }
 
 type ModulesListResponse =
-  | { empresa_id: string; modules: ModuleRow[] }
-  | { error: string; details?: string | null }
+  | { ok: true; empresa_id: string; modules: ModuleRow[] }
+  | { ok: false; error: string; details?: string | null }
+
+type PermissionsMeResponse =
+  | { ok: true; empresa_id: string; role: string; permissions: string[] }
+  | { ok: false; error: string; details?: string | null }
 
 type NavItem = { href: string; label: string }
 
@@ -76,6 +98,8 @@ function isModuleKey(x: string): x is ModuleKey {
 }
 
 const CORE_ONLY: ModuleKey[] = ["core"]
+/** setTimeout aceita no máximo ~24,8 dias */
+const MAX_TIMER_MS = 2 ** 31 - 1
 const LS_ENABLED_PREFIX = "moduz_enabled_modules::"
 
 function getEnabledModulesCache(empresaId: string): ModuleKey[] | null {
@@ -100,11 +124,15 @@ function setEnabledModulesCache(empresaId: string, keys: ModuleKey[]) {
   }
 }
 
-function buildMenu(keys: ModuleKey[]): NavItem[] {
+/**
+ * permissions = null -> ainda não carregadas (não filtra; o guard não bloqueia durante loading)
+ */
+function buildMenu(keys: ModuleKey[], permissions: string[] | null): NavItem[] {
   const allowedKeys = keys.filter((k) => {
     if (k === "core") return true
     if (!MODULES[k]?.implemented) return false
     if (!ROUTES_BY_MODULE[k]) return false
+    if (permissions && !canAccessModule(permissions, k)) return false
     return true
   })
 
@@ -146,7 +174,7 @@ const MODULE_COLOR_HEX: Record<string, string> = {
 }
 
 function getDotStyle(moduleKey: ModuleKey): React.CSSProperties {
-  return { backgroundColor: MODULE_COLOR_HEX[moduleKey] ?? "#64748b" }
+  return { backgroundColor: MODULE_COLOR_HEX[moduleKey] ?? MODULES[moduleKey]?.color ?? "#64748b" }
 }
 
 export function AdmShell(props: { children: React.ReactNode }) {
@@ -158,11 +186,24 @@ export function AdmShell(props: { children: React.ReactNode }) {
 
   const [empresas, setEmpresas] = React.useState<EmpresaItem[]>([])
   const [empresaId, setEmpresaId] = React.useState<string | null>(null)
+  const empresaIdRef = React.useRef<string | null>(null)
+  empresaIdRef.current = empresaId
 
   const [modulesLoading, setModulesLoading] = React.useState(false)
   const [enabledKeys, setEnabledKeys] = React.useState<ModuleKey[]>(CORE_ONLY)
+  const [moduleRows, setModuleRows] = React.useState<ModuleStateRow[]>([])
+  const [trialTick, setTrialTick] = React.useState(0)
+
+  const trialEndsAt = React.useMemo(() => {
+    const out: Partial<Record<ModuleKey, string>> = {}
+    for (const r of moduleRows) if (r.trial_ends_at) out[r.module_key as ModuleKey] = r.trial_ends_at
+    return out
+  }, [moduleRows])
 
-  const [menuItems, setMenuItems] = React.useState<NavItem[]>([{ href: "/adm", label: "Core" }])
+  const [permissions, setPermissions] = React.useState<string[] | null>(null)
+  const [permissionsLoading, setPermissionsLoading] = React.useState(false)
+
+  const menuItems = React.useMemo(() => buildMenu(enabledKeys, permissions), [enabledKeys, permissions])
 
   const [logoOk, setLogoOk] = React.useState(true)
 
@@ -179,7 +220,6 @@ export function AdmShell(props: { children: React.ReactNode }) {
         setEmpresas([])
         setEmpresaId(null)
         setEnabledKeys(CORE_ONLY)
-        setMenuItems([{ href: "/adm", label: "Core" }])
         return
       }
 
@@ -194,49 +234,61 @@ export function AdmShell(props: { children: React.ReactNode }) {
 
       setEmpresas(empresasNormalized)
 
-      const stored = getEmpresaIdFromStorage()
-      const allowed = Boolean(stored && empresasNormalized.some((e) => e.empresa_id === stored))
-
-      const nextEmpresa =
-        (allowed ? stored : null) ??
-        data.default_empresa_id ??
-        empresasNormalized?.[0]?.empresa_id ??
-        null
+      const nextEmpresa = data.active_empresa_id ?? data.default_empresa_id ?? null
 
       if (nextEmpresa) {
-        setEmpresaId(nextEmpresa)
-        setEmpresaIdToStorage(nextEmpresa)
-
-        const cached = getEnabledModulesCache(nextEmpresa)
-        const keys: ModuleKey[] = cached?.length
-          ? Array.from(new Set<ModuleKey>(["core", ...cached]))
-          : CORE_ONLY
-
-        setEnabledKeys(keys)
-        setMenuItems(buildMenu(keys))
+        applyEmpresa(nextEmpresa)
       } else {
         setEmpresaId(null)
+        setActiveEmpresaMirror(null)
         setEnabledKeys(CORE_ONLY)
-        setMenuItems([{ href: "/adm", label: "Core" }])
       }
     } catch (e: any) {
       setErr(e?.message ?? "Erro inesperado ao carregar contexto.")
       setEmpresas([])
       setEmpresaId(null)
       setEnabledKeys(CORE_ONLY)
-      setMenuItems([{ href: "/adm", label: "Core" }])
     } finally {
       setLoading(false)
     }
   }
 
+  function applyEmpresa(next: string) {
+    setEmpresaId(next)
+    setActiveEmpresaMirror(next)
+
+    const cached = getEnabledModulesCache(next)
+    const keys: ModuleKey[] = cached?.length
+      ? Array.from(new Set<ModuleKey>(["core", ...cached]))
+      : CORE_ONLY
+
+    setEnabledKeys(keys)
+    setModuleRows([])
+  }
+
+  /** Outra tab/dispositivo pode ter trocado a empresa: alinha com o servidor (silencioso). */
+  async function syncActiveEmpresa() {
+    try {
+      const r = await fetch("/api/admin/core/context", { credentials: "include" })
+      const j = safeJson<CoreContextResponse>(await r.json().catch(() => null))
+      if (!r.ok || !j || j.ok !== true) return
+
+      const next = j.active_empresa_id ?? null
+      if (!next || next === empresaIdRef.current) return
+
+      applyEmpresa(next)
+      emitEmpresaChanged(next)
+    } catch {
+      // ignore
+    }
+  }
+
   async function loadEnabledModules(eid: string) {
     setModulesLoading(true)
 
     try {
       const r = await fetch("/api/admin/core/modules/list", {
         method: "GET",
-        headers: { "x-empresa-id": eid },
         credentials: "include",
       })
 
@@ -246,21 +298,43 @@ export function AdmShell(props: { children: React.ReactNode }) {
       // ✅ Moduz: ignora respostas de outra empresa (evita race com request sem header / //api/...)
       if ((j as any).empresa_id && (j as any).empresa_id !== eid) return
 
-      const enabled = (j.modules ?? [])
-        .filter((m) => m.enabled)
-        .map((m) => m.module_key)
-        .filter((k): k is ModuleKey => typeof k === "string" && isModuleKey(k))
-
-      const uniq: ModuleKey[] = Array.from(new Set<ModuleKey>(["core", ...enabled]))
+      const rows = (j.modules ?? []).filter((m) => typeof m.module_key === "string" && isModuleKey(m.module_key))
+      const uniq = activeModuleKeys(rows)
 
+      setModuleRows(rows)
       setEnabledKeys(uniq)
       setEnabledModulesCache(eid, uniq)
-      setMenuItems(buildMenu(uniq))
     } finally {
       setModulesLoading(false)
     }
   }
 
+  async function loadPermissions(eid: string) {
+    setPermissionsLoading(true)
+    setPermissions(null)
+
+    try {
+      const r = await fetch("/api/admin/core/permissions/me", {
+        method: "GET",
+        credentials: "include",
+      })
+
+      const j = safeJson<PermissionsMeResponse>(await r.json().catch(() => null))
+      if (!r.ok || !j || j.ok !== true) {
+        // sem permissões conhecidas: só Core
+        setPermissions([])
+        return
+      }
+
+      if (j.empresa_id && j.empresa_id !== eid) return
+      setPermissions(Array.isArray(j.permissions) ? j.permissions : [])
+    } catch {
+      setPermissions([])
+    } finally {
+      setPermissionsLoading(false)
+    }
+  }
+
   React.useEffect(() => {
     loadContext()
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -269,6 +343,7 @@ export function AdmShell(props: { children: React.ReactNode }) {
   React.useEffect(() => {
     if (!empresaId) return
     loadEnabledModules(empresaId)
+    loadPermissions(empresaId)
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [empresaId])
 
@@ -289,25 +364,73 @@ export function AdmShell(props: { children: React.ReactNode }) {
 
       setEnabledKeys(uniq)
       setEnabledModulesCache(eid, uniq)
-      setMenuItems(buildMenu(uniq))
+
+      // trials podem ter mudado (início/fim): relê as datas
+      loadEnabledModules(eid)
     }
 
     window.addEventListener("moduz:modules-updated", onUpdated as any)
     return () => window.removeEventListener("moduz:modules-updated", onUpdated as any)
   }, [empresaId])
 
-  function onChangeEmpresaId(next: string) {
-    setEmpresaId(next)
-    setEmpresaIdToStorage(next)
+  // alterações de outras sessões (toggle, trial/agendamento aplicado, expiração via cron)
+  useEmpresaRealtime(empresaId, (table) => {
+    if (table === "modules_enabled" && empresaId) loadEnabledModules(empresaId)
+  })
 
-    const cached = getEnabledModulesCache(next)
-    const keys: ModuleKey[] = cached?.length
-      ? Array.from(new Set<ModuleKey>(["core", ...cached]))
-      : CORE_ONLY
+  // o servidor é a fonte de verdade: se recusou um módulo, o cache/menu estão desatualizados
+  React.useEffect(() => {
+    const onDisabled = () => {
+      if (empresaId) loadEnabledModules(empresaId)
+    }
 
-    setEnabledKeys(keys)
-    setMenuItems(buildMenu(keys))
+    window.addEventListener("moduz:module-disabled", onDisabled)
+    return () => window.removeEventListener("moduz:module-disabled", onDisabled)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [empresaId])
+
+  // fim de trial: recalcula módulos ativos nesse instante (menu + guard), sem esperar pelo cron
+  React.useEffect(() => {
+    const next = nextTrialEnd(moduleRows)
+    if (next === null) return
+
+    const t = window.setTimeout(() => {
+      const eid = empresaIdRef.current
+      const uniq = activeModuleKeys(moduleRows)
+      setEnabledKeys(uniq)
+      if (eid) setEnabledModulesCache(eid, uniq)
+      setTrialTick((x) => x + 1)
+    }, Math.min(Math.max(0, next - Date.now()) + 500, MAX_TIMER_MS))
+
+    return () => window.clearTimeout(t)
+  }, [moduleRows, trialTick])
 
+  React.useEffect(() => {
+    const onVisible = () => {
+      if (document.visibilityState === "visible") syncActiveEmpresa()
+    }
+
+    window.addEventListener("focus", onVisible)
+    document.addEventListener("visibilitychange", onVisible)
+    return () => {
+      window.removeEventListener("focus", onVisible)
+      document.removeEventListener("visibilitychange", onVisible)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  async function onChangeEmpresaId(next: string) {
+    if (next === empresaId) return
+
+    try {
+      // servidor primeiro: as páginas recarregam contra /api/admin/** já com a nova empresa
+      await switchActiveEmpresa(next)
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Falha ao trocar de empresa.")
+      return
+    }
+
+    applyEmpresa(next)
     emitEmpresaChanged(next)
   }
 
@@ -340,6 +463,16 @@ export function AdmShell(props: { children: React.ReactNode }) {
     return map
   }, [])
 
+  // nav secundária: secções do módulo em que estamos (permissões ainda por carregar -> só implemented)
+  const currentModule = React.useMemo(() => resolveModuleFromPath(pathname || ""), [pathname])
+  const sectionItems = React.useMemo(() => {
+    if (!currentModule) return []
+    return (MODULES[currentModule]?.sections ?? []).filter((s) =>
+      permissions ? canAccessSection(permissions, s) : s.implemented !== false
+    )
+  }, [currentModule, permissions])
+  const currentSection = currentModule ? sectionForPath(currentModule, pathname || "") : null
+
   return (
     <ToastProvider>
       <div className="min-h-screen bg-black text-slate-100">
@@ -403,6 +536,32 @@ export function AdmShell(props: { children: React.ReactNode }) {
                   Módulos
                 </a>
 
+                <a
+                  href="/adm/core/definicoes"
+                  className={classNames(
+                    "rounded-md border px-3 py-2 text-xs transition",
+                    isActive("/adm/core/definicoes")
+                      ? "border-slate-700 bg-slate-900 text-slate-50"
+                      : "border-slate-800 bg-slate-950 text-slate-200 hover:bg-slate-900"
+                  )}
+                  title="Definições por módulo"
+                >
+                  Definições
+                </a>
+
+                <a
+                  href="/adm/core/plano"
+                  className={classNames(
+                    "rounded-md border px-3 py-2 text-xs transition",
+                    isActive("/adm/core/plano")
+                      ? "border-slate-700 bg-slate-900 text-slate-50"
+                      : "border-slate-800 bg-slate-950 text-slate-200 hover:bg-slate-900"
+                  )}
+                  title="Plano e utilização"
+                >
+                  Plano
+                </a>
+
                 <a
                   href="/auth/logout"
                   className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-xs text-slate-200 hover:bg-slate-900"
@@ -439,13 +598,51 @@ export function AdmShell(props: { children: React.ReactNode }) {
               {modulesLoading ? <span className="ml-2 text-xs text-slate-500">a actualizar…</span> : null}
             </nav>
           </div>
+
+          {/* Secções do módulo atual */}
+          {currentModule && sectionItems.length ? (
+            <div className="mx-auto max-w-6xl px-4 pb-3">
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 border-t border-slate-900 pt-3">
+                <nav aria-label="Breadcrumb" className="flex items-center gap-1.5 text-xs text-slate-500 shrink-0">
+                  <Link href={ROUTES_BY_MODULE[currentModule]?.href ?? "/adm"} className="hover:text-slate-300">
+                    {MODULES[currentModule]?.title ?? currentModule}
+                  </Link>
+                  {currentSection ? (
+                    <>
+                      <span aria-hidden="true">›</span>
+                      <span className="text-slate-300">{currentSection.label}</span>
+                    </>
+                  ) : null}
+                </nav>
+
+                <nav className="flex flex-wrap items-center gap-1">
+                  {sectionItems.map((s) => (
+                    <Link
+                      key={s.key}
+                      href={s.href}
+                      className={classNames(
+                        "rounded-md px-2.5 py-1 text-xs transition",
+                        currentSection?.key === s.key
+                          ? "bg-slate-900 text-slate-50"
+                          : "text-slate-400 hover:bg-slate-900 hover:text-slate-200"
+                      )}
+                    >
+                      {s.label}
+                    </Link>
+                  ))}
+                </nav>
+              </div>
+            </div>
+          ) : null}
         </header>
 
         <main className="mx-auto max-w-6xl px-4 py-6">
           <ModuleGuard
   empresaId={empresaId}
   enabledKeys={enabledKeys}
-  loading={loading || modulesLoading || !empresaId}
+  trialEndsAt={trialEndsAt}
+  permissions={permissions}
+  loading={loading || modulesLoading || permissionsLoading || !empresaId}
 >
   {children}
 </ModuleGuard>
@@ -3,10 +3,12 @@
  * Moduz+ | Empresa Switcher
  * Arquivo: components/adm/empresa-switcher.tsx
  * Módulo: Core (Contexto)
- * Etapa: Switcher UI (v2)
+ * Etapa: Switcher UI (v3 - empresa ativa server-side)
  * Descrição:
  *  - Mostra empresas acessíveis ao utilizador
- *  - Persiste empresa ativa em localStorage (moduz_empresa_id)
+ *  - Empresa ativa persiste no servidor (POST /api/admin/core/context/active)
+ *    e vale para todas as tabs/dispositivos; /api/admin/** usa-a automaticamente
+ *  - Espelho em memória (getActiveEmpresaId) apenas para caches/UI do browser
  *  - Compatível com contratos antigos e novos:
  *      - empresa_nome (v1)
  *      - nome (v2 /api/admin/core/context)
@@ -28,21 +30,28 @@ export type EmpresaItem = {
   nome?: string | null // v2
 }
 
-export function getEmpresaIdFromStorage(): string | null {
-  try {
-    const v = window.localStorage.getItem("moduz_empresa_id")
-    return v && v.length > 10 ? v : null
-  } catch {
-    return null
-  }
+let activeEmpresaMirror: string | null = null
+
+/** Última empresa ativa conhecida pelo AdmShell (null antes do contexto carregar). */
+export function getActiveEmpresaId(): string | null {
+  return activeEmpresaMirror
+}
+
+export function setActiveEmpresaMirror(v: string | null) {
+  activeEmpresaMirror = v
 }
 
-export function setEmpresaIdToStorage(v: string) {
-  try {
-    window.localStorage.setItem("moduz_empresa_id", v)
-  } catch {
-    // ignore
-  }
+/** Grava a empresa ativa no servidor. Lança Error com o código da API em caso de falha. */
+export async function switchActiveEmpresa(empresaId: string): Promise<void> {
+  const r = await fetch("/api/admin/core/context/active", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ empresa_id: empresaId }),
+  })
+  const j = await r.json().catch(() => null)
+  if (!r.ok || !j || j.ok !== true) throw new Error(j?.error ?? "Falha ao trocar de empresa.")
+  activeEmpresaMirror = empresaId
 }
 
 function shortId(id: string) {
@@ -3,16 +3,24 @@
  * Moduz+ | Module Guard
  * Arquivo: components/adm/module-guard.tsx
  * Módulo: Core (Admin)
- * Etapa: Guard por módulo (v1.0.1)
+ * Etapa: Guard por módulo (v1.5 - tipos sem any)
  * Descrição:
  *  - Impede acesso por URL directo a módulos não permitidos
  *  - Regras:
  *      - Core sempre permitido
  *      - Demais: apenas se (enabled no DB) E (implemented no código) E (tem rota no registry)
+ *        E (permissão "<modulo>:read" quando declarada no registry)
+ *  - Secções (registry.sections, incluindo Core): secção não implementada / sem permissão / só admin
+ *    -> not_implemented / no_permission, redirecciona para a raiz do módulo (Core: /adm)
+ *  - Trial expirado (trialEndsAt no passado e módulo fora de enabledKeys) -> reason "trial_expired";
+ *    o AdmShell recalcula enabledKeys no instante de expiração, o guard reage logo
  *  - Emite evento global "moduz:module-denied" com reason (base do popup comercial)
+ *  - reportModuleDisabled: páginas chamam-no com a resposta da API; em 403 MODULE_DISABLED emite
+ *    "moduz:module-disabled" e o AdmShell relê os módulos (cache local desatualizado) -> guard redirecciona
  *  - Redirecciona:
- *      - not_enabled -> /adm/core/modulos
+ *      - not_enabled / trial_expired -> /adm/core/modulos
  *      - not_implemented -> /adm
+ *      - no_permission -> /adm
  *  - Fix Moduz (boot):
  *      - Não redirecciona durante loading inicial (evita refresh cair em /modulos)
  * =============================================
@@ -22,9 +30,10 @@
 
 import * as React from "react"
 import { usePathname, useRouter } from "next/navigation"
-import { MODULES, ROUTES_BY_MODULE, type ModuleKey } from "./module-registry"
+import { MODULES, ROUTES_BY_MODULE, sectionForPath, type ModuleKey } from "./module-registry"
+import { canAccessModule, canAccessSection } from "./permissions"
 
-type DenyReason = "not_enabled" | "not_implemented"
+type DenyReason = "not_enabled" | "trial_expired" | "not_implemented" | "no_permission"
 
 function isModuleKey(x: string): x is ModuleKey {
   return x in MODULES
@@ -52,7 +61,23 @@ function emitModuleDenied(args: {
   }
 }
 
-function resolveModuleFromPath(pathname: string): ModuleKey | null {
+/** true se a API recusou por módulo desativado (o gating real é no servidor: lib/admin/route-handler). */
+export function reportModuleDisabled(j: unknown): boolean {
+  const r = j as { error?: unknown; details?: unknown } | null
+  if (r?.error !== "MODULE_DISABLED") return false
+  try {
+    window.dispatchEvent(
+      new CustomEvent("moduz:module-disabled", {
+        detail: { module_key: typeof r.details === "string" ? r.details : null },
+      })
+    )
+  } catch {
+    // ignore
+  }
+  return true
+}
+
+export function resolveModuleFromPath(pathname: string): ModuleKey | null {
   if (!pathname) return null
 
   // Core (inclui /adm e /adm/core/**)
@@ -77,10 +102,14 @@ function resolveModuleFromPath(pathname: string): ModuleKey | null {
 export function ModuleGuard(props: {
   empresaId: string | null
   enabledKeys: ModuleKey[]
+  /** Fim de trial por módulo (só módulos em trial) */
+  trialEndsAt?: Partial<Record<ModuleKey, string>>
+  /** null = permissões ainda não carregadas */
+  permissions?: string[] | null
   loading?: boolean
   children: React.ReactNode
 }) {
-  const { empresaId, enabledKeys, loading = false, children } = props
+  const { empresaId, enabledKeys, trialEndsAt, permissions = null, loading = false, children } = props
   const pathname = usePathname()
   const router = useRouter()
 
@@ -96,7 +125,22 @@ export function ModuleGuard(props: {
       return
     }
 
-    // Core nunca bloqueia
+    // Secção do módulo (só com permissões carregadas; Core incluído)
+    const section = sectionForPath(moduleKey, pn)
+    if (section && permissions && !canAccessSection(permissions, section)) {
+      const root = ROUTES_BY_MODULE[moduleKey]?.href ?? "/adm"
+      emitModuleDenied({
+        empresa_id: empresaId,
+        module_key: moduleKey,
+        reason: section.implemented === false ? "not_implemented" : "no_permission",
+        pathname: pn,
+      })
+      setAllowed(false)
+      router.replace(root === pn ? "/adm" : root)
+      return
+    }
+
+    // Core nunca bloqueia (além das secções)
     if (moduleKey === "core") {
       setAllowed(true)
       return
@@ -139,10 +183,12 @@ export function ModuleGuard(props: {
     // Enabled no DB (já vem do /api/admin/core/modules/list via AdmShell)
     const enabled = enabledKeys.includes(moduleKey)
     if (!enabled) {
+      const trialEnd = trialEndsAt?.[moduleKey]
+      const trialExpired = Boolean(trialEnd) && new Date(trialEnd as string).getTime() <= Date.now()
       emitModuleDenied({
         empresa_id: empresaId,
         module_key: moduleKey,
-        reason: "not_enabled",
+        reason: trialExpired ? "trial_expired" : "not_enabled",
         pathname: pn,
       })
       setAllowed(false)
@@ -150,8 +196,21 @@ export function ModuleGuard(props: {
       return
     }
 
+    // Permissão de leitura do módulo (roles)
+    if (permissions && !canAccessModule(permissions, moduleKey)) {
+      emitModuleDenied({
+        empresa_id: empresaId,
+        module_key: moduleKey,
+        reason: "no_permission",
+        pathname: pn,
+      })
+      setAllowed(false)
+      router.replace("/adm")
+      return
+    }
+
     setAllowed(true)
-  }, [pathname, router, empresaId, enabledKeys, loading])
+  }, [pathname, router, empresaId, enabledKeys, trialEndsAt, permissions, loading])
 
   if (!allowed) return null
   return <>{children}</>
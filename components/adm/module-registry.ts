@@ -3,100 +3,392 @@
  * Moduz+ | Module Registry
  * Arquivo: components/adm/module-registry.ts
  * Módulo: Core
- * Etapa: Fonte única (v2)
+ * Etapa: Fonte única (v3.5 - política de upload)
  * Descrição:
+ *  - MODULE_KEYS é a ÚNICA lista de módulos: daqui saem o tipo ModuleKey, a validação
+ *    server-side (isModuleKey) e o SQL (check constraint + seed) via scripts/modules-sync.mjs
+ *  - Módulos nativos declarados aqui; módulos extra (internos/de cliente) chegam por manifest
+ *    em modules/<key>/manifest.ts, sem editar o Core (lista gerada em modules/index.ts)
+ *      npm run modules:sync  -> gera migration quando o registry muda
+ *      npm run modules:check -> falha se o SQL gerado divergir (corre no prebuild)
+ *  - Definições por módulo (settings): campos tipados com default/validação/label
+ *      validação + defaults em components/adm/module-settings.ts; UI em /adm/core/definicoes
+ *  - Só imports relativos sem dependências externas (o script transpila-os junto; manifests só "import type")
  *  - Metadados de módulos (título/descrição/implemented/locked)
+ *  - Catálogo de permissões por módulo ("<modulo>:<acção>")
  *  - Rotas de navegação por módulo (somente rotas existentes/previstas)
+ *  - Secções (submódulos) por módulo: nav secundária/breadcrumb no AdmShell, com implemented,
+ *    permissão e "só admin" por secção (verificados em components/adm/permissions + ModuleGuard)
  *  - Ordem canônica (para listagem e UI)
+ *  - Dependências entre módulos (requires) + helpers de grafo:
+ *      ativar X exige as dependências ativas; desativar X afeta quem depende de X
  * =============================================
  */
 
-export type ModuleKey =
-  | "core"
-  | "docs"
-  | "people"
-  | "track"
-  | "finance"
-  | "bizz"
-  | "stock"
-  | "assets"
-  | "flow"
+import { MODULE_MANIFESTS } from "../../modules"
+
+const BUILTIN_MODULE_KEYS = ["core", "docs", "people", "track", "finance", "bizz", "stock", "assets", "flow"] as const
+
+type BuiltinModuleKey = (typeof BUILTIN_MODULE_KEYS)[number]
+
+export type ModuleKey = BuiltinModuleKey | (typeof MODULE_MANIFESTS)[number]["key"]
+
+const MANIFESTS: readonly ModuleManifest[] = MODULE_MANIFESTS
+
+/** Nativos primeiro, depois manifests (ordem de modules/index.ts). */
+export const MODULE_KEYS: readonly ModuleKey[] = [...BUILTIN_MODULE_KEYS, ...MANIFESTS.map((m) => m.key as ModuleKey)]
+
+export function isModuleKey(v: unknown): v is ModuleKey {
+  return typeof v === "string" && (MODULE_KEYS as readonly string[]).includes(v)
+}
+
+export type PermissionDef = {
+  key: string
+  label: string
+}
+
+export type SettingOption = {
+  value: string
+  label: string
+}
+
+type SettingBase = {
+  key: string
+  label: string
+  help?: string
+}
+
+export type SettingField =
+  | (SettingBase & {
+      type: "text"
+      default: string
+      maxLength?: number
+      pattern?: string
+      format?: "timezone"
+      /** Aceita vazio (pattern só se aplica a valores preenchidos) */
+      optional?: boolean
+    })
+  | (SettingBase & { type: "number"; default: number; min?: number; max?: number; integer?: boolean })
+  | (SettingBase & { type: "boolean"; default: boolean })
+  | (SettingBase & { type: "select"; default: string; options: SettingOption[] })
 
 export type ModuleMeta = {
   title: string
   desc: string
   implemented: boolean
   locked?: boolean
+  /**
+   * Permissões atribuíveis via roles (Core → Papéis).
+   * Convenção: "<modulo>:read" controla acesso ao módulo (menu/guard).
+   * Core não declara permissões: é exclusivo de admin.
+   */
+  permissions?: PermissionDef[]
+  /** Dependências diretas: só pode estar ativo se estas também estiverem. */
+  requires?: ModuleKey[]
+  /** Estado inicial no seed de uma empresa nova (moduz_core_seed_modules). */
+  defaultEnabled?: boolean
+  /**
+   * Definições da empresa para este módulo.
+   * Core -> colunas de public.settings; restantes -> settings.extras.modules.<module_key>
+   */
+  settings?: SettingField[]
+  /** Secções do módulo (ordem = ordem na nav secundária) */
+  sections?: NavSection[]
+  /** Cor de identificação (bolinha no menu/lista), HEX */
+  color?: string
+  /** Declarado por manifest (modules/<key>) e não pelo Core */
+  manifest?: boolean
 }
 
-export const MODULE_ORDER: ModuleKey[] = [
-  "core",
-  "docs",
-  "people",
-  "track",
-  "finance",
-  "bizz",
-  "stock",
-  "assets",
-  "flow",
-]
-
-export const MODULES: Record<ModuleKey, ModuleMeta> = {
+export type NavItem = {
+  href: string
+  label: string
+}
+
+export type NavSection = NavItem & {
+  key: string
+  /** false = ainda não disponível (fora da nav; URL bloqueado pelo guard). Default: true */
+  implemented?: boolean
+  /** Permissão exigida ("<modulo>:<acção>", do catálogo do módulo) */
+  permission?: string
+  /** Só admin da empresa (ex.: secções do Core) */
+  admin?: boolean
+}
+
+/**
+ * Manifest de um módulo extra (modules/<key>/manifest.ts, export default).
+ * key: [a-z][a-z0-9_]{1,31}; permissões "<key>:<acção>" ("<key>:read" controla menu/guard);
+ * migrations SQL em modules/<key>/migrations/YYYYMMDD_<key>_<nome>.sql (copiadas pelo modules:sync).
+ */
+export type ModuleManifest<K extends string = string> = Omit<ModuleMeta, "locked" | "manifest"> & {
+  key: K
+  /** Entrada no menu; default { href: "/adm/<key>", label: title } (página genérica em /adm/[module]) */
+  nav?: Partial<NavItem>
+}
+
+export const MODULE_ORDER: ModuleKey[] = [...MODULE_KEYS]
+
+const BUILTIN_MODULES: Record<BuiltinModuleKey, ModuleMeta> = {
   core: {
     title: "Core",
     desc: "Base do sistema: empresas, perfis, definições, módulos e auditoria.",
     implemented: true,
     locked: true,
+    defaultEnabled: true,
+    sections: [
+      { key: "inicio", href: "/adm", label: "Início" },
+      { key: "modulos", href: "/adm/core/modulos", label: "Módulos", admin: true },
+      { key: "definicoes", href: "/adm/core/definicoes", label: "Definições", admin: true },
+      { key: "utilizadores", href: "/adm/core/utilizadores", label: "Utilizadores", admin: true },
+      { key: "papeis", href: "/adm/core/papeis", label: "Papéis", admin: true },
+      { key: "auditoria", href: "/adm/core/auditoria", label: "Auditoria", admin: true },
+      { key: "plano", href: "/adm/core/plano", label: "Plano", admin: true },
+    ],
+    settings: [
+      {
+        key: "timezone",
+        type: "text",
+        label: "Fuso horário",
+        help: "Identificador IANA (ex.: Europe/Lisbon).",
+        default: "Europe/Lisbon",
+        maxLength: 60,
+        format: "timezone",
+      },
+      {
+        key: "locale",
+        type: "select",
+        label: "Idioma/formato",
+        default: "pt-PT",
+        options: [
+          { value: "pt-PT", label: "Português (Portugal)" },
+          { value: "pt-BR", label: "Português (Brasil)" },
+          { value: "en-GB", label: "English (UK)" },
+          { value: "es-ES", label: "Español" },
+        ],
+      },
+      { key: "currency", type: "text", label: "Moeda", help: "Código ISO 4217 (ex.: EUR).", default: "EUR", pattern: "^[A-Z]{3}$" },
+    ],
   },
   docs: {
     title: "Docs",
     desc: "Documentos e anexos da empresa, ligados a registos e processos.",
     implemented: true,
+    defaultEnabled: true,
+    permissions: [
+      { key: "docs:read", label: "Ver documentos" },
+      { key: "docs:upload", label: "Enviar documentos" },
+      { key: "docs:organize", label: "Gerir pastas, etiquetas e campos" },
+    ],
+    settings: [
+      { key: "max_upload_mb", type: "number", label: "Tamanho máximo por ficheiro (MB)", default: 25, min: 1, max: 100, integer: true },
+      {
+        key: "allowed_types",
+        type: "text",
+        label: "Tipos de ficheiro permitidos",
+        help: "Separados por vírgula: pdf, image, office, text, archive, tipos MIME (ex.: video/mp4, audio/*) ou * (todos exceto executáveis).",
+        default: "pdf,image,office,text,archive",
+        maxLength: 300,
+        pattern: "^[a-z0-9.+*/-]+( *, *[a-z0-9.+*/-]+)*$",
+      },
+      {
+        key: "blocked_extensions",
+        type: "text",
+        label: "Extensões bloqueadas",
+        help: "Separadas por vírgula (ex.: exe,bat). Aplicam-se sempre, mesmo que o tipo seja permitido.",
+        default: "exe,msi,bat,cmd,com,scr,ps1,vbs,js,jar,sh,dll,app,apk",
+        maxLength: 300,
+        pattern: "^\\.?[a-z0-9]+( *, *\\.?[a-z0-9]+)*$",
+        optional: true,
+      },
+      {
+        key: "retention_days",
+        type: "number",
+        label: "Retenção de documentos (dias)",
+        help: "0 = sem limite.",
+        default: 0,
+        min: 0,
+        max: 3650,
+        integer: true,
+      },
+    ],
   },
   people: {
     title: "People",
     desc: "Gestão de pessoas: colaboradores, recrutamento (ATS) e ciclo de vida.",
     implemented: false,
+    permissions: [
+      { key: "people:read", label: "Ver pessoas" },
+      { key: "people:write", label: "Gerir pessoas" },
+    ],
+    settings: [
+      { key: "ferias_dias_ano", type: "number", label: "Dias de férias por ano", default: 22, min: 0, max: 60, integer: true },
+      {
+        key: "periodo_experimental_dias",
+        type: "number",
+        label: "Período experimental (dias)",
+        default: 90,
+        min: 0,
+        max: 365,
+        integer: true,
+      },
+    ],
   },
   track: {
     title: "Track",
     desc: "Ponto e registo de tempo: equipas, tarefas e atividades.",
     implemented: false,
+    requires: ["people"],
+    permissions: [
+      { key: "track:read", label: "Ver registos de tempo" },
+      { key: "track:write", label: "Registar tempo" },
+    ],
+    settings: [
+      {
+        key: "arredondamento_min",
+        type: "select",
+        label: "Arredondamento de registos",
+        default: "0",
+        options: [
+          { value: "0", label: "Sem arredondamento" },
+          { value: "5", label: "5 minutos" },
+          { value: "15", label: "15 minutos" },
+        ],
+      },
+      { key: "exige_localizacao", type: "boolean", label: "Exigir localização no registo de ponto", default: false },
+    ],
   },
   finance: {
     title: "Finance",
     desc: "Movimentos, pagamentos e controlo financeiro operacional.",
     implemented: false,
+    permissions: [
+      { key: "finance:read", label: "Ver movimentos" },
+      { key: "finance:write", label: "Lançar movimentos" },
+      { key: "finance:approve", label: "Aprovar pagamentos" },
+    ],
+    settings: [
+      { key: "prazo_pagamento_dias", type: "number", label: "Prazo de pagamento (dias)", default: 30, min: 0, max: 365, integer: true },
+      {
+        key: "iva_taxa_padrao",
+        type: "select",
+        label: "Taxa de IVA por omissão",
+        default: "23",
+        options: [
+          { value: "23", label: "Normal (23%)" },
+          { value: "13", label: "Intermédia (13%)" },
+          { value: "6", label: "Reduzida (6%)" },
+          { value: "0", label: "Isento (0%)" },
+        ],
+      },
+    ],
   },
   bizz: {
     title: "Bizz",
     desc: "Propostas, contratos e ciclo comercial de ponta a ponta.",
     implemented: false,
+    requires: ["finance"],
+    permissions: [
+      { key: "bizz:read", label: "Ver propostas e contratos" },
+      { key: "bizz:write", label: "Gerir propostas e contratos" },
+    ],
+    settings: [
+      { key: "validade_proposta_dias", type: "number", label: "Validade das propostas (dias)", default: 30, min: 1, max: 365, integer: true },
+      { key: "prefixo_proposta", type: "text", label: "Prefixo de numeração", default: "PROP", maxLength: 10, pattern: "^[A-Z0-9-]{1,10}$" },
+    ],
   },
   stock: {
     title: "Stock",
     desc: "Inventário e movimentações: entradas, saídas e controlo de stock.",
     implemented: false,
+    permissions: [
+      { key: "stock:read", label: "Ver inventário" },
+      { key: "stock:write", label: "Movimentar stock" },
+    ],
+    settings: [{ key: "alerta_stock_minimo", type: "boolean", label: "Alertar quando abaixo do stock mínimo", default: true }],
   },
   assets: {
     title: "Assets",
     desc: "Ativos e manutenção: registo, estado e histórico.",
     implemented: false,
+    permissions: [
+      { key: "assets:read", label: "Ver ativos" },
+      { key: "assets:write", label: "Gerir ativos" },
+    ],
+    settings: [
+      {
+        key: "manutencao_intervalo_dias",
+        type: "number",
+        label: "Intervalo de manutenção por omissão (dias)",
+        default: 180,
+        min: 1,
+        max: 3650,
+        integer: true,
+      },
+    ],
   },
   flow: {
     title: "Flow",
     desc: "Projetos e processos: execução, etapas e acompanhamento.",
     implemented: false,
+    permissions: [
+      { key: "flow:read", label: "Ver projetos" },
+      { key: "flow:write", label: "Gerir projetos" },
+    ],
   },
 }
 
-export type NavItem = {
-  href: string
-  label: string
+export const MODULES = {
+  ...BUILTIN_MODULES,
+  ...Object.fromEntries(MANIFESTS.map(({ key, nav, ...meta }) => [key, { ...meta, manifest: true }])),
+} as Record<ModuleKey, ModuleMeta>
+
+/** Dependências (diretas + transitivas) de um módulo, em ordem canónica. */
+export function moduleRequires(key: ModuleKey): ModuleKey[] {
+  const seen = new Set<ModuleKey>()
+  const visit = (k: ModuleKey) => {
+    for (const d of MODULES[k]?.requires ?? []) {
+      if (seen.has(d)) continue
+      seen.add(d)
+      visit(d)
+    }
+  }
+  visit(key)
+  return MODULE_ORDER.filter((k) => seen.has(k))
+}
+
+/** Módulos que dependem (direta ou transitivamente) de um módulo, em ordem canónica. */
+export function moduleDependents(key: ModuleKey): ModuleKey[] {
+  return MODULE_ORDER.filter((k) => k !== key && moduleRequires(k).includes(key))
+}
+
+/**
+ * Módulos afetados por ativar/desativar `key` (além do próprio), dado o estado atual:
+ *  - ativar: dependências ainda inativas (têm de ser ativadas junto)
+ *  - desativar: dependentes ainda ativos (têm de ser desativados junto)
+ */
+export function planModuleToggle(key: ModuleKey, enabled: boolean, enabledKeys: ModuleKey[]): ModuleKey[] {
+  const on = new Set(enabledKeys)
+  return enabled ? moduleRequires(key).filter((k) => !on.has(k)) : moduleDependents(key).filter((k) => on.has(k))
+}
+
+/** Secção do módulo que corresponde ao pathname (href mais específico; a raiz só conta exata ou com "/"). */
+export function sectionForPath(key: ModuleKey, pathname: string): NavSection | null {
+  let best: NavSection | null = null
+  for (const s of MODULES[key]?.sections ?? []) {
+    if (pathname !== s.href && !pathname.startsWith(`${s.href}/`)) continue
+    if (!best || s.href.length > best.href.length) best = s
+  }
+  return best
 }
 
 export const ROUTES_BY_MODULE: Partial<Record<ModuleKey, NavItem>> = {
   core: { href: "/adm", label: "Core" },
   docs: { href: "/adm/docs", label: "Docs" },
   // os demais entram quando existirem rotas reais + implemented=true
+  ...Object.fromEntries(
+    MANIFESTS.filter((m) => m.implemented).map((m) => [
+      m.key,
+      { href: m.nav?.href ?? `/adm/${m.key}`, label: m.nav?.label ?? m.title },
+    ])
+  ),
 }
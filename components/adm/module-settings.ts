@@ -0,0 +1,154 @@
+/**
+ * =============================================
+ * Moduz+ | Module Settings
+ * Arquivo: components/adm/module-settings.ts
+ * Módulo: Core (Definições)
+ * Etapa: Schema -> defaults/validação (v1.2 - tipos sem any)
+ * Descrição:
+ *  - Lê o schema de definições de cada módulo (MODULES[k].settings)
+ *  - Defaults, merge com valores guardados e validação (partilhado por API e UI)
+ *  - Erros por campo com códigos estáveis (REQUIRED, MIN, MAX, PATTERN, …) + labels pt-PT
+ *  - Texto com optional: vazio é um valor válido ("")
+ * =============================================
+ */
+
+import { MODULES, MODULE_ORDER, type ModuleKey, type SettingField } from "./module-registry"
+
+export type SettingValue = string | number | boolean
+export type ModuleSettingsValues = Record<string, SettingValue>
+export type SettingErrors = Record<string, string>
+
+export type SettingsValidation =
+  | { ok: true; values: ModuleSettingsValues }
+  | { ok: false; errors: SettingErrors }
+
+export function moduleSettingsSchema(key: ModuleKey): SettingField[] {
+  return MODULES[key]?.settings ?? []
+}
+
+/** Módulos com definições, em ordem canónica. */
+export const MODULES_WITH_SETTINGS: ModuleKey[] = MODULE_ORDER.filter((k) => moduleSettingsSchema(k).length > 0)
+
+export function settingsDefaults(key: ModuleKey): ModuleSettingsValues {
+  const out: ModuleSettingsValues = {}
+  for (const f of moduleSettingsSchema(key)) out[f.key] = f.default
+  return out
+}
+
+function isValidTimezone(v: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: v })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Normaliza + valida 1 campo. Devolve [valor, null] ou [null, código]. */
+function checkField(f: SettingField, raw: unknown): [SettingValue | null, string | null] {
+  switch (f.type) {
+    case "boolean":
+      if (typeof raw === "boolean") return [raw, null]
+      if (raw === "true" || raw === "false") return [raw === "true", null]
+      return [null, "NOT_BOOLEAN"]
+
+    case "number": {
+      if (raw === null || raw === undefined || raw === "") return [null, "REQUIRED"]
+      const n = typeof raw === "number" ? raw : Number(raw)
+      if (!Number.isFinite(n)) return [null, "NOT_A_NUMBER"]
+      if (f.integer && !Number.isInteger(n)) return [null, "NOT_INTEGER"]
+      if (f.min !== undefined && n < f.min) return [null, "MIN"]
+      if (f.max !== undefined && n > f.max) return [null, "MAX"]
+      return [n, null]
+    }
+
+    case "select": {
+      const v = String(raw ?? "")
+      if (!f.options.some((o) => o.value === v)) return [null, "INVALID_OPTION"]
+      return [v, null]
+    }
+
+    case "text": {
+      const v = String(raw ?? "").trim()
+      if (!v) return f.optional ? ["", null] : [null, "REQUIRED"]
+      if (f.maxLength !== undefined && v.length > f.maxLength) return [null, "TOO_LONG"]
+      if (f.pattern && !new RegExp(f.pattern).test(v)) return [null, "PATTERN"]
+      if (f.format === "timezone" && !isValidTimezone(v)) return [null, "INVALID_TIMEZONE"]
+      return [v, null]
+    }
+  }
+}
+
+/**
+ * Valida um patch de definições (só os campos enviados; campos desconhecidos são erro).
+ * O merge com o que já está guardado é feito no servidor.
+ */
+export function validateModuleSettings(key: ModuleKey, input: unknown): SettingsValidation {
+  const schema = moduleSettingsSchema(key)
+  const errors: SettingErrors = {}
+  const values: ModuleSettingsValues = {}
+
+  if (!input || typeof input !== "object" || Array.isArray(input)) return { ok: false, errors: { _: "NOT_AN_OBJECT" } }
+
+  for (const k of Object.keys(input)) {
+    if (!schema.some((f) => f.key === k)) errors[k] = "UNKNOWN_FIELD"
+  }
+  const obj = input as Record<string, unknown>
+  for (const f of schema) {
+    if (!(f.key in obj)) continue
+    const [v, err] = checkField(f, obj[f.key])
+    if (err) errors[f.key] = err
+    else values[f.key] = v as SettingValue
+  }
+
+  return Object.keys(errors).length ? { ok: false, errors } : { ok: true, values }
+}
+
+/** Valores guardados + defaults (valores inválidos/obsoletos caem para o default). */
+export function withDefaults(key: ModuleKey, stored: unknown): ModuleSettingsValues {
+  const out = settingsDefaults(key)
+  if (!stored || typeof stored !== "object") return out
+  const obj = stored as Record<string, unknown>
+  for (const f of moduleSettingsSchema(key)) {
+    if (!(f.key in obj)) continue
+    const [v, err] = checkField(f, obj[f.key])
+    if (!err) out[f.key] = v as SettingValue
+  }
+  return out
+}
+
+/** "campo:CÓDIGO, …" (details de INVALID_SETTINGS). */
+export function formatSettingErrors(errors: SettingErrors) {
+  return Object.entries(errors)
+    .map(([k, c]) => `${k}:${c}`)
+    .join(", ")
+}
+
+export function settingErrorLabel(f: SettingField | undefined, code: string): string {
+  switch (code) {
+    case "REQUIRED":
+      return "Obrigatório."
+    case "NOT_A_NUMBER":
+      return "Tem de ser um número."
+    case "NOT_INTEGER":
+      return "Tem de ser um número inteiro."
+    case "MIN":
+      return f?.type === "number" && f.min !== undefined ? `Mínimo: ${f.min}.` : "Valor demasiado baixo."
+    case "MAX":
+      return f?.type === "number" && f.max !== undefined ? `Máximo: ${f.max}.` : "Valor demasiado alto."
+    case "TOO_LONG":
+      return f?.type === "text" && f.maxLength !== undefined ? `Máximo ${f.maxLength} caracteres.` : "Demasiado longo."
+    case "PATTERN":
+      return "Formato inválido."
+    case "INVALID_TIMEZONE":
+      return "Fuso horário desconhecido."
+    case "INVALID_OPTION":
+      return "Opção inválida."
+    case "NOT_BOOLEAN":
+      return "Tem de ser sim/não."
+    case "UNKNOWN_FIELD":
+      return "Campo desconhecido."
+    default:
+      return code
+  }
+}
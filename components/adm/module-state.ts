@@ -0,0 +1,47 @@
+/**
+ * =============================================
+ * Moduz+ | Module State
+ * Arquivo: components/adm/module-state.ts
+ * Módulo: Core (Gestão de Módulos)
+ * Etapa: Estado efetivo (v1 - trials)
+ * Descrição:
+ *  - Estado efetivo de um módulo a partir da linha de modules_enabled (partilhado por API e UI)
+ *      ativo = enabled E (sem trial OU trial por expirar) E dependências (requires) ativas
+ *  - Não depende do cron (moduz_core_apply_module_schedules): trial expirado conta logo como inativo
+ *  - Core está sempre ativo
+ * =============================================
+ */
+
+import { isModuleKey, moduleRequires, type ModuleKey } from "./module-registry"
+
+export type ModuleStateRow = {
+  module_key: string
+  enabled: boolean
+  trial_ends_at?: string | null
+}
+
+export function isTrialExpired(row: ModuleStateRow, now: number = Date.now()) {
+  if (!row.trial_ends_at) return false
+  const t = new Date(row.trial_ends_at).getTime()
+  return Number.isFinite(t) && t <= now
+}
+
+/** Módulos ativos (ordem do input, sem duplicados, core sempre incluído). */
+export function activeModuleKeys(rows: ModuleStateRow[], now: number = Date.now()): ModuleKey[] {
+  const on = new Set<ModuleKey>(["core"])
+  for (const r of rows) {
+    if (r.enabled && isModuleKey(r.module_key) && !isTrialExpired(r, now)) on.add(r.module_key)
+  }
+  return Array.from(on).filter((k) => moduleRequires(k).every((d) => on.has(d)))
+}
+
+/** Fim de trial mais próximo ainda no futuro (para re-avaliar o estado nesse instante). */
+export function nextTrialEnd(rows: ModuleStateRow[], now: number = Date.now()): number | null {
+  let best: number | null = null
+  for (const r of rows) {
+    if (!r.enabled || !r.trial_ends_at) continue
+    const t = new Date(r.trial_ends_at).getTime()
+    if (Number.isFinite(t) && t > now && (best === null || t < best)) best = t
+  }
+  return best
+}
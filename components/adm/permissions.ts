@@ -0,0 +1,74 @@
+/**
+ * =============================================
+ * Moduz+ | Permissions
+ * Arquivo: components/adm/permissions.ts
+ * Módulo: Core
+ * Etapa: Permissões granulares (v1.2 - curingas atribuíveis)
+ * Descrição:
+ *  - Helpers puros (client + server) sobre o catálogo do module-registry
+ *  - Papel base (moduz_role):
+ *      - admin: "*" (todas as permissões)
+ *      - interno/externo: união das roles atribuídas; sem roles -> defaults abaixo
+ *  - Curingas suportados: "*" e "<modulo>:*" (roles podem atribuir "<modulo>:*" de módulos com
+ *      permissões no catálogo — isGrantablePermission; "*" fica reservado ao admin)
+ *  - Secções de módulo (registry.sections): implemented + permissão + "só admin" ("*")
+ * =============================================
+ */
+
+import { MODULES, MODULE_ORDER, type ModuleKey, type NavSection } from "./module-registry"
+
+export type BaseRole = "admin" | "interno" | "externo"
+
+export const ALL_PERMISSIONS = "*"
+
+/**
+ * Defaults quando o profile não tem roles atribuídas.
+ * Mantém o comportamento anterior: qualquer membro ativo lê e envia documentos.
+ */
+export const DEFAULT_PERMISSIONS_BY_ROLE: Record<BaseRole, string[]> = {
+  admin: [ALL_PERMISSIONS],
+  interno: ["docs:read", "docs:upload"],
+  externo: ["docs:read", "docs:upload"],
+}
+
+/** Todas as chaves de permissão declaradas no registry (ordem canónica). */
+export function listPermissionKeys(): string[] {
+  return MODULE_ORDER.flatMap((k) => (MODULES[k].permissions ?? []).map((p) => p.key))
+}
+
+export function isKnownPermission(key: string): boolean {
+  return listPermissionKeys().includes(key)
+}
+
+/** O que uma role pode conceder: chave do catálogo ou "<modulo>:*" de um módulo com permissões. */
+export function isGrantablePermission(key: string): boolean {
+  if (isKnownPermission(key)) return true
+  const m = /^([a-z][a-z0-9_]*):\*$/.exec(key)
+  return Boolean(m && listPermissionKeys().some((p) => p.startsWith(`${m[1]}:`)))
+}
+
+export function hasPermission(granted: readonly string[], key: string): boolean {
+  if (granted.includes(ALL_PERMISSIONS)) return true
+  if (granted.includes(key)) return true
+  const moduleKey = key.split(":")[0]
+  return granted.includes(`${moduleKey}:*`)
+}
+
+/**
+ * Acesso ao módulo (menu/guard): exige "<modulo>:read" quando o módulo o declara.
+ * Módulos sem permissão de leitura no catálogo não são restringidos aqui.
+ */
+export function canAccessModule(granted: readonly string[], moduleKey: ModuleKey): boolean {
+  if (moduleKey === "core") return true
+  const readKey = `${moduleKey}:read`
+  const declared = (MODULES[moduleKey].permissions ?? []).some((p) => p.key === readKey)
+  if (!declared) return true
+  return hasPermission(granted, readKey)
+}
+
+/** Secção visível/acessível: implementada, admin quando exigido (só admin tem "*"), permissão declarada. */
+export function canAccessSection(granted: readonly string[], section: NavSection): boolean {
+  if (section.implemented === false) return false
+  if (section.admin && !granted.includes(ALL_PERMISSIONS)) return false
+  return !section.permission || hasPermission(granted, section.permission)
+}
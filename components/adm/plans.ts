@@ -0,0 +1,83 @@
+/**
+ * =============================================
+ * Moduz+ | Plans
+ * Arquivo: components/adm/plans.ts
+ * Módulo: Core (Plano / Entitlements)
+ * Etapa: Catálogo de planos (v1)
+ * Descrição:
+ *  - Fonte de verdade dos planos (partilhado por API e UI): módulos incluídos, lugares, quota de storage
+ *  - Core está sempre incluído; trials (modules/trial/start) permitem experimentar módulos fora do plano
+ *  - A assinatura de cada empresa vive em public.subscriptions (provider de billing em lib/billing)
+ *  - null em seats/storage_mb = sem limite
+ * =============================================
+ */
+
+import { MODULE_ORDER, type ModuleKey } from "./module-registry"
+
+export const PLAN_KEYS = ["essencial", "profissional", "empresarial"] as const
+
+export type PlanKey = (typeof PLAN_KEYS)[number]
+
+export function isPlanKey(v: unknown): v is PlanKey {
+  return typeof v === "string" && (PLAN_KEYS as readonly string[]).includes(v)
+}
+
+export type PlanMeta = {
+  title: string
+  desc: string
+  /** Módulos incluídos (além do core) */
+  modules: ModuleKey[]
+  /** Utilizadores ativos + convites pendentes */
+  seats: number | null
+  storage_mb: number | null
+  /** Preço indicativo (EUR/mês, sem IVA) — cobrança fica no provider */
+  price_month: number
+}
+
+export const PLANS: Record<PlanKey, PlanMeta> = {
+  essencial: {
+    title: "Essencial",
+    desc: "Core e documentos para equipas pequenas.",
+    modules: ["docs"],
+    seats: 3,
+    storage_mb: 1024,
+    price_month: 19,
+  },
+  profissional: {
+    title: "Profissional",
+    desc: "Pessoas, assiduidade e finanças.",
+    modules: ["docs", "people", "track", "finance"],
+    seats: 15,
+    storage_mb: 10 * 1024,
+    price_month: 59,
+  },
+  empresarial: {
+    title: "Empresarial",
+    desc: "Todos os módulos, sem limite de utilizadores.",
+    modules: MODULE_ORDER.filter((k) => k !== "core"),
+    seats: null,
+    storage_mb: 50 * 1024,
+    price_month: 149,
+  },
+}
+
+/** Plano das empresas novas sem escolha explícita (e fallback sem assinatura válida). */
+export const DEFAULT_PLAN: PlanKey = "essencial"
+
+export function planIncludesModule(plan: PlanKey, key: ModuleKey) {
+  return key === "core" || PLANS[plan].modules.includes(key)
+}
+
+/** Módulos fora do plano (ordem do input). */
+export function modulesOutsidePlan(plan: PlanKey, keys: ModuleKey[]): ModuleKey[] {
+  return keys.filter((k) => !planIncludesModule(plan, k))
+}
+
+/** Plano mais barato que inclui todos os módulos e lugares pedidos (null se nenhum). */
+export function smallestPlanFor(keys: ModuleKey[], seats = 1): PlanKey | null {
+  return (
+    [...PLAN_KEYS]
+      .sort((a, b) => PLANS[a].price_month - PLANS[b].price_month)
+      .find((p) => !modulesOutsidePlan(p, keys).length && (PLANS[p].seats === null || PLANS[p].seats >= seats)) ?? null
+  )
+}
@@ -0,0 +1,84 @@
+/**
+ * =============================================
+ * Moduz+ | Realtime Sync
+ * Arquivo: components/adm/realtime-sync.ts
+ * Módulo: Core (Admin)
+ * Etapa: Sync entre sessões (v1.1 - tipos do subscribe)
+ * Descrição:
+ *  - useEmpresaRealtime: subscreve (Supabase Realtime) alterações a modules_enabled/settings da empresa
+ *      RLS garante que só membros ativos recebem; publicação em 20260124_core_realtime_sync.sql
+ *  - O payload não é usado: é só um sinal para reler pela API (estado efetivo, defaults, plano)
+ *  - Debounce por tabela (toggle com cascata = várias linhas) e re-sync ao reconectar (eventos perdidos)
+ *  - Re-emite "moduz:realtime-sync" { empresa_id, table } para as páginas abertas
+ *  - Montado uma vez no AdmShell (um canal por tab); sem ENV/realtime não faz nada
+ * =============================================
+ */
+
+"use client"
+
+import * as React from "react"
+import type { REALTIME_SUBSCRIBE_STATES } from "@supabase/supabase-js"
+import { supabaseBrowser } from "../../lib/supabase/browser"
+
+export type SyncTable = "modules_enabled" | "settings"
+
+export type RealtimeSyncDetail = { empresa_id: string; table: SyncTable }
+
+const SYNC_TABLES: SyncTable[] = ["modules_enabled", "settings"]
+const DEBOUNCE_MS = 400
+
+function emitRealtimeSync(detail: RealtimeSyncDetail) {
+  try {
+    window.dispatchEvent(new CustomEvent("moduz:realtime-sync", { detail }))
+  } catch {
+    // ignore
+  }
+}
+
+export function useEmpresaRealtime(empresaId: string | null, onChange: (table: SyncTable) => void) {
+  const onChangeRef = React.useRef(onChange)
+  onChangeRef.current = onChange
+
+  React.useEffect(() => {
+    if (!empresaId) return
+
+    let supabase: ReturnType<typeof supabaseBrowser>
+    try {
+      supabase = supabaseBrowser()
+    } catch {
+      // Hard rule Moduz: ENV ausente não rebenta a UI (fica sem sync em tempo real)
+      return
+    }
+
+    const timers: Partial<Record<SyncTable, number>> = {}
+    const fire = (table: SyncTable) => {
+      window.clearTimeout(timers[table])
+      timers[table] = window.setTimeout(() => {
+        onChangeRef.current(table)
+        emitRealtimeSync({ empresa_id: empresaId, table })
+      }, DEBOUNCE_MS)
+    }
+
+    let channel = supabase.channel(`moduz:empresa:${empresaId}`)
+    for (const table of SYNC_TABLES) {
+      channel = channel.on(
+        "postgres_changes",
+        { event: "*", schema: "public", table, filter: `empresa_id=eq.${empresaId}` },
+        () => fire(table)
+      )
+    }
+
+    let subscribedOnce = false
+    channel.subscribe((status: `${REALTIME_SUBSCRIBE_STATES}`) => {
+      if (status !== "SUBSCRIBED") return
+      // reconexão: pode ter havido alterações enquanto o canal esteve em baixo
+      if (subscribedOnce) SYNC_TABLES.forEach(fire)
+      subscribedOnce = true
+    })
+
+    return () => {
+      Object.values(timers).forEach((t) => window.clearTimeout(t))
+      supabase.removeChannel(channel)
+    }
+  }, [empresaId])
+}
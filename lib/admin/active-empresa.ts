@@ -0,0 +1,32 @@
+/**
+ * =============================================
+ * Moduz+ | Empresa Ativa (server-side)
+ * Arquivo: lib/admin/active-empresa.ts
+ * Módulo: Core (Contexto)
+ * Etapa: Fonte de verdade no DB (v1)
+ * Descrição:
+ *  - Empresa ativa por user em public.user_preferences (consistente entre tabs/dispositivos)
+ *  - Resolução validada via RPC moduz_active_empresa_id() (cliente com JWT do user)
+ *  - middleware.ts injeta o resultado em ACTIVE_EMPRESA_HEADER nas rotas /api/admin/**
+ *    (o header vindo do browser é sempre descartado)
+ *  - Sem dependências Node: usado também no runtime edge (middleware)
+ * =============================================
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export const ACTIVE_EMPRESA_HEADER = "x-moduz-empresa-id"
+
+/** Empresa ativa validada do user autenticado no `supabase` (null se não tiver nenhuma). */
+export async function resolveActiveEmpresaId(supabase: SupabaseClient): Promise<string | null> {
+  const { data, error } = await supabase.rpc("moduz_active_empresa_id")
+  if (error || !data) return null
+  return String(data)
+}
+
+/** Grava a preferência (service role). Chamar só depois de validar a membership. */
+export async function saveActiveEmpresaId(admin: SupabaseClient, userId: string, empresaId: string) {
+  return admin
+    .from("user_preferences")
+    .upsert({ user_id: userId, active_empresa_id: empresaId }, { onConflict: "user_id" })
+}
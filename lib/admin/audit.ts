@@ -0,0 +1,390 @@
+/**
+ * =============================================
+ * Moduz+ | Admin Audit
+ * Arquivo: lib/admin/audit.ts
+ * Módulo: Core (Auditoria)
+ * Etapa: Filtros partilhados + escrita garantida + eventos tipados (v1.9 - tipos sem any)
+ * Descrição:
+ *  - Lê filtros da query string (list/export usam o mesmo contrato)
+ *      action (1+ separados por vírgula), actor (user_id ou profile_id),
+ *      entity, entity_id, from/to (data ou ISO), q (texto livre)
+ *  - Aplica filtros a uma query do audit_log (q via coluna computada audit_search_text)
+ *  - Valores validados antes de entrarem em filtros .or() do PostgREST
+ *  - Mutações gravam o audit na mesma transação (RPCs moduz_core_* / moduz_docs_*, 20260116+)
+ *  - recordAudit: só para eventos sem mutação antes (export, rejeição de upload); insert direto,
+ *      se falhar enfileira em audit_outbox (moduz_audit_outbox_flush); se também o outbox falhar
+ *      lança 500 AUDIT_WRITE_FAILED — o pedido falha, nunca devolve um evento perdido
+ *  - AuditEvent: lista fechada de ações + payload de cada uma (inclui as escritas em SQL)
+ *  - Shape canónico do audit_log: entity/payload (entity_table/metadata removidos em 20260117)
+ * =============================================
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ApiError, type ProfileRole } from "./route-handler"
+
+export const AUDIT_COLUMNS =
+  "id, empresa_id, actor_user_id, actor_profile_id, action, entity, entity_id, payload, created_at, chain_seq, prev_hash, hash"
+
+export type AuditLogRow = {
+  id: string
+  empresa_id: string
+  actor_user_id: string | null
+  actor_profile_id: string | null
+  action: string
+  entity: string | null
+  entity_id: string | null
+  payload: Record<string, unknown> | null
+  created_at: string
+  chain_seq: number | null
+  prev_hash: string | null
+  hash: string | null
+}
+
+export type AuditFilters = {
+  actions: string[]
+  actor: string | null
+  entity: string | null
+  entity_id: string | null
+  from: string | null
+  to: string | null
+  q: string | null
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const ACTION_RE = /^[A-Z0-9_]{2,64}$/
+const ENTITY_RE = /^[a-z0-9_:.-]{1,64}$/
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/
+
+function param(url: URL, name: string): string | null {
+  const v = (url.searchParams.get(name) ?? "").trim()
+  return v ? v : null
+}
+
+/** Data-only em `to` é inclusiva (até ao fim do dia, UTC). */
+function parseDate(v: string | null, name: "from" | "to"): string | null {
+  if (!v) return null
+  const d = new Date(v)
+  if (Number.isNaN(d.getTime())) throw new ApiError(400, "INVALID_DATE", name)
+  if (name === "to" && DATE_ONLY_RE.test(v)) d.setUTCDate(d.getUTCDate() + 1)
+  return d.toISOString()
+}
+
+export function parseAuditFilters(url: URL): AuditFilters {
+  const actions = (param(url, "action") ?? "")
+    .split(",")
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean)
+  for (const a of actions) if (!ACTION_RE.test(a)) throw new ApiError(400, "INVALID_ACTION", a)
+
+  const actor = param(url, "actor")
+  if (actor && !UUID_RE.test(actor)) throw new ApiError(400, "INVALID_ACTOR", actor)
+
+  const entity = param(url, "entity")?.toLowerCase() ?? null
+  if (entity && !ENTITY_RE.test(entity)) throw new ApiError(400, "INVALID_ENTITY", entity)
+
+  const entity_id = param(url, "entity_id")
+  if (entity_id && !UUID_RE.test(entity_id)) throw new ApiError(400, "INVALID_ENTITY_ID", entity_id)
+
+  const from = parseDate(param(url, "from"), "from")
+  const to = parseDate(param(url, "to"), "to")
+  if (from && to && from >= to) throw new ApiError(400, "INVALID_DATE_RANGE")
+
+  const q = param(url, "q")?.slice(0, 200).toLowerCase() ?? null
+
+  return { actions, actor, entity, entity_id, from, to, q }
+}
+
+/** Escapa curingas do ilike (% _ \) para pesquisa literal. */
+function ilikeLiteral(v: string) {
+  return v.replace(/[\\%_]/g, (m) => `\\${m}`)
+}
+
+/** Só os filtros do PostgREST que applyAuditFilters usa (cada um devolve o próprio builder). */
+type AuditFilterable<Q> = {
+  eq(column: string, value: string): Q
+  in(column: string, values: string[]): Q
+  or(filters: string): Q
+  gte(column: string, value: string): Q
+  lt(column: string, value: string): Q
+  ilike(column: string, pattern: string): Q
+}
+
+export function applyAuditFilters<Q extends AuditFilterable<Q>>(q: Q, f: AuditFilters): Q {
+  let out = q
+  if (f.actions.length === 1) out = out.eq("action", f.actions[0])
+  else if (f.actions.length > 1) out = out.in("action", f.actions)
+  if (f.actor) out = out.or(`actor_user_id.eq.${f.actor},actor_profile_id.eq.${f.actor}`)
+  if (f.entity) out = out.eq("entity", f.entity)
+  if (f.entity_id) out = out.eq("entity_id", f.entity_id)
+  if (f.from) out = out.gte("created_at", f.from)
+  if (f.to) out = out.lt("created_at", f.to)
+  if (f.q) out = out.ilike("audit_search_text", `%${ilikeLiteral(f.q)}%`)
+  return out
+}
+
+/** Filtros ativos (para auditar exportações sem campos vazios). */
+export function describeAuditFilters(f: AuditFilters): Record<string, unknown> {
+  const out: Record<string, unknown> = {}
+  if (f.actions.length) out.action = f.actions
+  if (f.actor) out.actor = f.actor
+  if (f.entity) out.entity = f.entity
+  if (f.entity_id) out.entity_id = f.entity_id
+  if (f.from) out.from = f.from
+  if (f.to) out.to = f.to
+  if (f.q) out.q = f.q
+  return out
+}
+
+/**
+ * Eventos conhecidos. As RPCs atómicas (20260116+) escrevem
+ * MODULE_TOGGLED, MODULE_TRIAL_STARTED/EXPIRED, SETTINGS_UPDATED, MODULE_SETTINGS_UPDATED,
+ * SETTINGS_REVERTED, DOC_UPLOADED, DOC_VERSION_UPLOADED, DOC_VERSION_CURRENT_SET, DOC_METADATA_UPDATED,
+ * DOC_UPLOAD_FAILED, DOC_UPLOAD_REJECTED (complete), DOC_PURGED/DOC_VERSION_PURGED e EMPRESA_CREATED
+ * com o mesmo payload.
+ */
+export type AuditEvent =
+  | {
+      action: "MODULE_TOGGLED"
+      entity: "modules_enabled"
+      payload: { module_key: string; enabled: boolean; cascade_from?: string; schedule_id?: string }
+    }
+  | {
+      action: "MODULE_SCHEDULED"
+      entity: "module_schedules"
+      payload: { module_key: string; enabled: boolean; run_at: string; cascade: string[] }
+    }
+  | {
+      action: "MODULE_SCHEDULE_CANCELLED"
+      entity: "module_schedules"
+      /** reason só quando cancelado pelo sistema (PLAN_CHANGED: módulo fora do plano novo) */
+      payload: { module_key: string; enabled: boolean; run_at: string; reason?: "PLAN_CHANGED" }
+    }
+  | {
+      action: "PLAN_CHANGED"
+      entity: "subscriptions"
+      payload: { from: string; to: string; provider: string }
+    }
+  | {
+      action: "MODULE_TRIAL_STARTED"
+      entity: "modules_enabled"
+      payload: { module_key: string; trial_ends_at: string; cascade_from?: string }
+    }
+  | {
+      action: "MODULE_TRIAL_EXPIRED"
+      entity: "modules_enabled"
+      payload: { module_key: string; trial_ends_at: string }
+    }
+  | {
+      action: "SETTINGS_UPDATED"
+      entity: "settings"
+      /** before/after/version desde 20260121 (eventos antigos só têm patch) */
+      payload: {
+        patch: Record<string, unknown>
+        before?: Record<string, unknown>
+        after?: Record<string, unknown>
+        version?: number | null
+      }
+    }
+  | {
+      action: "MODULE_SETTINGS_UPDATED"
+      entity: "settings"
+      payload: {
+        module_key: string
+        before: Record<string, unknown>
+        after: Record<string, unknown>
+        version?: number | null
+      }
+    }
+  | {
+      action: "SETTINGS_REVERTED"
+      entity: "settings"
+      payload: {
+        version: number
+        reverted_version: number
+        before: Record<string, unknown>
+        after: Record<string, unknown>
+      }
+    }
+  | {
+      action: "DOC_UPLOADED"
+      entity: "docs"
+      /** sha256 desde 20260128 */
+      payload: {
+        doc_id: string
+        filename: string | null
+        mime_type: string | null
+        size_bytes: number | null
+        sha256?: string | null
+      }
+    }
+  | {
+      action: "DOC_VERSION_UPLOADED"
+      entity: "docs"
+      payload: {
+        doc_id: string
+        version: number
+        filename: string | null
+        mime_type: string | null
+        size_bytes: number | null
+        sha256?: string | null
+      }
+    }
+  | {
+      action: "DOC_UPLOAD_FAILED"
+      entity: "docs"
+      payload: {
+        doc_id: string
+        version: number
+        reason: "UPLOAD_NOT_FOUND" | "UPLOAD_SIZE_MISMATCH" | "UPLOAD_CHECKSUM_MISMATCH" | "PLAN_STORAGE_QUOTA"
+        /** só PLAN_STORAGE_QUOTA (complete): uso/limite e tamanho medido */
+        stage?: "complete"
+        details?: string | null
+        size_bytes?: number
+      }
+    }
+  | {
+      action: "DOC_UPLOAD_REJECTED"
+      entity: "docs"
+      /** create/version: valores declarados; complete: medidos + detected_mime (magic bytes) */
+      payload: {
+        stage: "create" | "version" | "complete"
+        doc_id: string | null
+        version?: number
+        reason: "UPLOAD_TOO_LARGE" | "UPLOAD_EXTENSION_BLOCKED" | "UPLOAD_TYPE_NOT_ALLOWED" | "UPLOAD_MIME_MISMATCH"
+        details: string | null
+        filename: string | null
+        mime_type: string | null
+        size_bytes: number | null
+        detected_mime?: string
+      }
+    }
+  | {
+      action: "DOC_PURGED"
+      entity: "docs"
+      payload: { doc_id: string; filename: string | null; status: "pending" | "failed"; created_at: string }
+    }
+  | {
+      action: "DOC_VERSION_PURGED"
+      entity: "docs"
+      payload: { doc_id: string; version: number; status: "pending" | "failed" }
+    }
+  | {
+      action: "DOC_VERSION_CURRENT_SET"
+      entity: "docs"
+      payload: { doc_id: string; version: number; previous_version: number }
+    }
+  | {
+      action: "DOC_METADATA_UPDATED"
+      entity: "docs"
+      payload: {
+        doc_id: string
+        before: { folder_id: string | null; tag_ids: string[]; metadata: Record<string, unknown> }
+        after: { folder_id: string | null; tag_ids: string[]; metadata: Record<string, unknown> }
+      }
+    }
+  | {
+      action: "DOC_FOLDER_UPSERTED"
+      entity: "doc_folders"
+      payload: { folder_id: string; name: string; parent_id: string | null; created: boolean }
+    }
+  | { action: "DOC_FOLDER_DELETED"; entity: "doc_folders"; payload: { folder_id: string; name: string } }
+  | {
+      action: "DOC_TAG_UPSERTED"
+      entity: "doc_tags"
+      payload: { tag_id: string; name: string; color: string | null; created: boolean }
+    }
+  | { action: "DOC_TAG_DELETED"; entity: "doc_tags"; payload: { tag_id: string; name: string } }
+  | {
+      action: "DOC_FIELD_UPSERTED"
+      entity: "doc_meta_fields"
+      payload: { field_id: string; key: string; label: string; type: string; created: boolean }
+    }
+  | { action: "DOC_FIELD_DELETED"; entity: "doc_meta_fields"; payload: { field_id: string; key: string } }
+  | {
+      action: "EMPRESA_CREATED"
+      entity: "empresas"
+      payload: { nome: string; timezone: string; locale: string; currency: string; modules: string[] }
+    }
+  | {
+      action: "PROFILE_UPDATED"
+      entity: "profiles"
+      payload: { profile_id: string; before: Record<string, unknown>; after: Record<string, unknown> }
+    }
+  | {
+      action: "PROFILE_ACTIVATED" | "PROFILE_DEACTIVATED"
+      entity: "profiles"
+      payload: { profile_id: string; ativo: boolean }
+    }
+  | { action: "PROFILE_ROLES_ASSIGNED"; entity: "profiles"; payload: { profile_id: string; role_ids: string[] } }
+  | {
+      action: "ROLE_UPSERTED"
+      entity: "roles"
+      payload: { role_id: string; key: string; permissions: string[]; created: boolean }
+    }
+  | { action: "ROLE_DELETED"; entity: "roles"; payload: { role_id: string; key: string } }
+  | {
+      action: "INVITE_CREATED"
+      entity: "invites"
+      payload: {
+        email: string
+        role: ProfileRole
+        expires_at: string
+        /** só eventos anteriores a 20260204 (o audit é gravado antes do envio) */
+        channel?: "invite" | "magiclink"
+        source?: "onboarding"
+      }
+    }
+  | {
+      action: "INVITE_REVOKED"
+      entity: "invites"
+      /** reason só quando revogado pelo sistema (SEND_FAILED: o email do convite não saiu) */
+      payload: { email: string; reason?: "SEND_FAILED" }
+    }
+  | { action: "INVITE_ACCEPTED"; entity: "invites"; payload: { email: string; role: ProfileRole; profile_id: string } }
+  | {
+      action: "AUDIT_EXPORTED"
+      entity: "audit_log"
+      payload: { format: string; filters: Record<string, unknown>; rows: number; truncated: boolean }
+    }
+
+export type AuditAction = AuditEvent["action"]
+
+export type AuditWrite = AuditEvent & {
+  empresa_id: string
+  actor_user_id: string | null
+  actor_profile_id: string | null
+  entity_id?: string | null
+}
+
+export type AuditDelivery = "OK" | "QUEUED"
+
+export async function recordAudit(admin: SupabaseClient, ev: AuditWrite): Promise<AuditDelivery> {
+  const row = {
+    empresa_id: ev.empresa_id,
+    actor_user_id: ev.actor_user_id,
+    actor_profile_id: ev.actor_profile_id,
+    action: ev.action,
+    entity: ev.entity,
+    entity_id: ev.entity_id ?? null,
+    payload: ev.payload,
+  }
+
+  const { error } = await admin.from("audit_log").insert(row)
+  if (!error) return "OK"
+
+  const { error: outboxErr } = await admin.from("audit_outbox").insert({
+    empresa_id: ev.empresa_id,
+    event: row,
+    last_error: error.message,
+  })
+  if (outboxErr) throw new ApiError(500, "AUDIT_WRITE_FAILED", `${error.message} / ${outboxErr.message}`)
+
+  return "QUEUED"
+}
+
+/** Entrega eventos pendentes do outbox de uma empresa (todas: pg_cron a cada minuto). */
+export async function flushAuditOutbox(admin: SupabaseClient, empresaId: string, limit = 100) {
+  const { data, error } = await admin.rpc("moduz_audit_outbox_flush", { p_limit: limit, p_empresa_id: empresaId })
+  if (error) throw new ApiError(500, "DB_ERROR", error.message)
+  return Number(data ?? 0)
+}
@@ -0,0 +1,157 @@
+/**
+ * =============================================
+ * Moduz+ | Admin Doc Catalog
+ * Arquivo: lib/admin/doc-catalog.ts
+ * Módulo: Docs
+ * Etapa: Pastas, etiquetas e metadados (v1.3 - tipos sem any)
+ * Descrição:
+ *  - Colunas partilhadas de doc_folders / doc_tags / doc_meta_fields (catalog/get, upserts, list)
+ *  - normName / normFieldKey / normColor: validação leve dos inputs das rotas de organização
+ *  - sanitizeMetadata: valores de docs.metadata validados contra os campos da empresa
+ *      campo desconhecido / valor inválido -> ApiError 400 (UNKNOWN_META_FIELD / INVALID_META_VALUE)
+ *      vazio ("" / null) remove o valor; date = YYYY-MM-DD; number = finito
+ *  - DOC_LIST_COLUMNS + hydrateDocs: shape de saída de docs/list e docs/search
+ *      (status pending|uploaded|failed de docs.status — uploaded_ok derivado; tag_ids via doc_tag_links)
+ * =============================================
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ApiError } from "./route-handler"
+
+export const DOC_FOLDER_COLUMNS = "id, parent_id, name, created_at, updated_at"
+export const DOC_TAG_COLUMNS = "id, name, color, created_at"
+export const DOC_META_FIELD_COLUMNS = "id, key, label, type, position, created_at"
+
+export const DOC_LIST_COLUMNS =
+  "id, empresa_id, storage_bucket, storage_path, filename, mime_type, size_bytes, created_by, created_at, current_version, folder_id, metadata, content_status, status, sha256"
+
+export type DocOut = {
+  id: string
+  empresa_id: string
+  storage_bucket: string
+  storage_path: string
+  filename: string | null
+  mime_type: string | null
+  size_bytes: number | null
+  created_by: string | null
+  created_at: string
+  current_version: number
+  folder_id: string | null
+  tag_ids: string[]
+  metadata: Record<string, unknown>
+  content_status: string | null
+  status: "pending" | "uploaded" | "failed"
+  sha256: string | null
+  uploaded_ok: boolean
+}
+
+export const DOC_META_FIELD_TYPES = ["text", "date", "number"] as const
+
+export type DocMetaFieldType = (typeof DOC_META_FIELD_TYPES)[number]
+
+export type DocMetaField = {
+  id: string
+  key: string
+  label: string
+  type: DocMetaFieldType
+  position: number
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+const COLOR_RE = /^#[0-9a-f]{6}$/i
+
+export function isDocMetaFieldType(v: unknown): v is DocMetaFieldType {
+  return typeof v === "string" && (DOC_META_FIELD_TYPES as readonly string[]).includes(v)
+}
+
+export function normName(v: unknown, max = 80): string | null {
+  const s = String(v ?? "").replace(/\s+/g, " ").trim()
+  if (!s || /[/\\]/.test(s)) return null
+  return s.slice(0, max)
+}
+
+export function normFieldKey(v: unknown): string | null {
+  const s = String(v ?? "").trim().toLowerCase()
+  return /^[a-z][a-z0-9_]{1,39}$/.test(s) ? s : null
+}
+
+export function normColor(v: unknown): string | null {
+  const s = String(v ?? "").trim()
+  return COLOR_RE.test(s) ? s.toLowerCase() : null
+}
+
+export function sanitizeMetadata(fields: DocMetaField[], input: unknown): Record<string, string | number> {
+  if (input === null || input === undefined) return {}
+  if (typeof input !== "object" || Array.isArray(input)) throw new ApiError(400, "INVALID_METADATA")
+
+  const byKey = new Map(fields.map((f) => [f.key, f]))
+  const out: Record<string, string | number> = {}
+
+  for (const [key, raw] of Object.entries(input as Record<string, unknown>)) {
+    const field = byKey.get(key)
+    if (!field) throw new ApiError(400, "UNKNOWN_META_FIELD", key)
+    if (raw === null || raw === undefined || raw === "") continue
+
+    if (field.type === "number") {
+      const n = typeof raw === "number" ? raw : Number(String(raw).replace(",", "."))
+      if (!Number.isFinite(n)) throw new ApiError(400, "INVALID_META_VALUE", key)
+      out[key] = n
+    } else if (field.type === "date") {
+      const s = String(raw).trim()
+      if (!DATE_RE.test(s) || Number.isNaN(new Date(s).getTime())) throw new ApiError(400, "INVALID_META_VALUE", key)
+      out[key] = s
+    } else {
+      const s = String(raw).trim().slice(0, 500)
+      if (s) out[key] = s
+    }
+  }
+
+  return out
+}
+
+/** Linha de docs tal como vem do select DOC_LIST_COLUMNS. */
+export type DocRow = Omit<DocOut, "tag_ids" | "uploaded_ok" | "metadata" | "current_version" | "status"> & {
+  current_version: number | null
+  metadata: Record<string, unknown> | null
+  status: DocOut["status"] | null
+}
+
+/** Linhas de docs (DOC_LIST_COLUMNS) -> DocOut, pela ordem recebida. */
+export async function hydrateDocs(admin: SupabaseClient, empresaId: string, rows: DocRow[]): Promise<DocOut[]> {
+  const ids = rows.map((d) => d?.id).filter(Boolean) as string[]
+
+  const tagsByDoc = new Map<string, string[]>()
+
+  if (ids.length > 0) {
+    const { data: links, error: lErr } = await admin
+      .from("doc_tag_links")
+      .select("doc_id, tag_id")
+      .eq("empresa_id", empresaId)
+      .in("doc_id", ids)
+
+    if (lErr) throw new ApiError(500, "DB_ERROR", lErr.message)
+    for (const l of (links ?? []) as Array<{ doc_id: string; tag_id: string }>) {
+      tagsByDoc.set(l.doc_id, [...(tagsByDoc.get(l.doc_id) ?? []), l.tag_id])
+    }
+  }
+
+  return rows.map((d) => ({
+    id: d.id,
+    empresa_id: d.empresa_id,
+    storage_bucket: d.storage_bucket,
+    storage_path: d.storage_path,
+    filename: d.filename ?? null,
+    mime_type: d.mime_type ?? null,
+    size_bytes: typeof d.size_bytes === "number" ? d.size_bytes : d.size_bytes ?? null,
+    created_by: d.created_by ?? null,
+    created_at: d.created_at,
+    current_version: Number(d.current_version ?? 1),
+    folder_id: d.folder_id ?? null,
+    tag_ids: tagsByDoc.get(String(d.id)) ?? [],
+    metadata: d.metadata && typeof d.metadata === "object" ? d.metadata : {},
+    content_status: d.content_status ?? null,
+    status: d.status ?? "pending",
+    sha256: d.sha256 ?? null,
+    uploaded_ok: d.status === "uploaded",
+  }))
+}
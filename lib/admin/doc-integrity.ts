@@ -0,0 +1,130 @@
+/**
+ * =============================================
+ * Moduz+ | Admin Doc Integrity
+ * Arquivo: lib/admin/doc-integrity.ts
+ * Módulo: Docs
+ * Etapa: Integridade dos uploads (v1.3 - tipos sem any)
+ * Descrição:
+ *  - verifyUpload: tamanho pelos metadados do objeto (storage.info) contra o declarado e o max_bytes
+ *      da política — só depois descarrega para o SHA-256 (um objeto enorme nunca entra em memória)
+ *      (usado pelo docs/complete antes de marcar a versão como uploaded)
+ *  - purgeStaleDocs: docs/versões pending|failed com mais de DOC_STALE_AFTER_HOURS (moduz_docs_purge_stale)
+ *      + ficheiros do bucket sem versão associada (moduz_docs_orphan_objects -> storage.remove)
+ *      falha de RPC -> 500 DB_ERROR, do Storage -> 502 STORAGE_ERROR
+ *      chamada por POST docs/purge (admin, empresa ativa) e POST /api/cron/docs-purge (todas)
+ * =============================================
+ */
+
+import { createHash } from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ApiError } from "./route-handler"
+
+export const DOC_STALE_AFTER_HOURS = 24
+
+const SHA256_RE = /^[0-9a-f]{64}$/
+
+export type UploadFailure = "UPLOAD_NOT_FOUND" | "UPLOAD_SIZE_MISMATCH" | "UPLOAD_CHECKSUM_MISMATCH"
+
+export type UploadCheck =
+  | { ok: true; size_bytes: number; sha256: string; buf: Buffer }
+  | { ok: false; reason: UploadFailure; details: string | null }
+  | { ok: false; reason: "UPLOAD_TOO_LARGE"; details: string; size_bytes: number }
+
+export function normSha256(v: unknown): string | null {
+  const s = String(v ?? "").trim().toLowerCase()
+  return SHA256_RE.test(s) ? s : null
+}
+
+function isNotFound(error: { message: string } | null) {
+  return !error || /not.?found|does not exist/i.test(error.message)
+}
+
+function checkSize(size: number, expected: { size_bytes: number | null; max_bytes: number }): UploadCheck | null {
+  if (expected.size_bytes != null && size !== expected.size_bytes) {
+    return { ok: false, reason: "UPLOAD_SIZE_MISMATCH", details: `${size} != ${expected.size_bytes}` }
+  }
+  if (size > expected.max_bytes) {
+    return { ok: false, reason: "UPLOAD_TOO_LARGE", details: `${size}/${expected.max_bytes}`, size_bytes: size }
+  }
+  return null
+}
+
+export async function verifyUpload(
+  admin: SupabaseClient,
+  bucket: string,
+  path: string,
+  expected: { size_bytes: number | null; sha256: string | null; max_bytes: number }
+): Promise<UploadCheck> {
+  const storage = admin.storage.from(bucket)
+
+  const { data: info, error: iErr } = await storage.info(path)
+  if (iErr || !info) {
+    if (isNotFound(iErr)) return { ok: false, reason: "UPLOAD_NOT_FOUND", details: path }
+    throw new ApiError(502, "STORAGE_ERROR", iErr.message)
+  }
+  if (typeof info.size === "number") {
+    const bad = checkSize(info.size, expected)
+    if (bad) return bad
+  }
+
+  const { data: blob, error } = await storage.download(path)
+  if (error || !blob) {
+    if (isNotFound(error)) return { ok: false, reason: "UPLOAD_NOT_FOUND", details: path }
+    throw new ApiError(502, "STORAGE_ERROR", error.message)
+  }
+
+  // metadados sem size (ou objeto trocado entretanto): confere de novo com o que foi lido
+  const buf = Buffer.from(await blob.arrayBuffer())
+  const bad = checkSize(buf.length, expected)
+  if (bad) return bad
+
+  const sha256 = createHash("sha256").update(buf).digest("hex")
+  if (expected.sha256 && sha256 !== expected.sha256) {
+    return { ok: false, reason: "UPLOAD_CHECKSUM_MISMATCH", details: sha256 }
+  }
+
+  return { ok: true, size_bytes: buf.length, sha256, buf }
+}
+
+export type PurgeResult = { docs: number; versions: number; objects: number }
+
+/** empresaId null = todas as empresas. */
+export async function purgeStaleDocs(
+  admin: SupabaseClient,
+  empresaId: string | null,
+  limit = 200
+): Promise<PurgeResult> {
+  const out: PurgeResult = { docs: 0, versions: 0, objects: 0 }
+  const older = `${DOC_STALE_AFTER_HOURS} hours`
+
+  const { data, error } = await admin.rpc("moduz_docs_purge_stale", {
+    p_empresa_id: empresaId,
+    p_older_than: older,
+    p_limit: limit,
+  })
+  if (error) throw new ApiError(500, "DB_ERROR", error.message)
+
+  const rows = (data ?? {}) as { docs?: number; versions?: number }
+  out.docs = Number(rows.docs ?? 0)
+  out.versions = Number(rows.versions ?? 0)
+
+  const { data: orphans, error: oErr } = await admin.rpc("moduz_docs_orphan_objects", {
+    p_empresa_id: empresaId,
+    p_older_than: older,
+    p_limit: limit,
+  })
+  if (oErr) throw new ApiError(500, "DB_ERROR", oErr.message)
+
+  const byBucket = new Map<string, string[]>()
+  for (const o of (orphans ?? []) as Array<{ bucket: string; path: string }>) {
+    byBucket.set(o.bucket, [...(byBucket.get(o.bucket) ?? []), o.path])
+  }
+
+  for (const [bucket, paths] of byBucket) {
+    const { data: removed, error: rErr } = await admin.storage.from(bucket).remove(paths)
+    if (rErr) throw new ApiError(502, "STORAGE_ERROR", rErr.message)
+    out.objects += removed?.length ?? 0
+  }
+
+  return out
+}
@@ -0,0 +1,335 @@
+/**
+ * =============================================
+ * Moduz+ | Admin Doc Text
+ * Arquivo: lib/admin/doc-text.ts
+ * Módulo: Docs
+ * Etapa: Extração de texto p/ pesquisa (v1.3 - erro próprio para o limite)
+ * Descrição:
+ *  - extractText: texto de TXT/MD/CSV, DOCX (word/document.xml do zip) e PDF (operadores Tj/TJ
+ *      dos content streams, FlateDecode) — só Node (zlib), sem serviços externos
+ *      PDF digitalizado (imagem) ou com fontes CID sem texto legível -> "empty"
+ *  - indexDocContent: descarrega a versão atual do Storage, extrai e grava docs.content_text/content_status
+ *      (o trigger de 20260127 recalcula search_tsv); nunca lança — erros ficam como "failed"
+ *      buf opcional: conteúdo já descarregado (docs/complete, após verifyUpload) — evita 2º download
+ *  - Limites: ficheiros até DOC_TEXT_MAX_BYTES; texto cortado em DOC_TEXT_MAX_CHARS
+ *      descompressão (zip/FlateDecode) também limitada a DOC_TEXT_MAX_BYTES no total: acima disso
+ *      TextTooLargeError e o doc fica "too_large" (zip/deflate bomb não esgota a memória); qualquer
+ *      outro erro (RangeError de offsets num zip/PDF corrompido incluído) fica "failed"
+ * =============================================
+ */
+
+import { inflateRawSync, inflateSync } from "zlib"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export const DOC_TEXT_MAX_BYTES = 15 * 1024 * 1024
+export const DOC_TEXT_MAX_CHARS = 200_000
+
+export type ContentStatus = "ok" | "empty" | "unsupported" | "too_large" | "failed"
+
+type TextKind = "txt" | "docx" | "pdf"
+
+/** Descompressão acima de DOC_TEXT_MAX_BYTES (só isto dá "too_large" durante a extração). */
+class TextTooLargeError extends Error {
+  constructor() {
+    super("DOC_TEXT_MAX_BYTES")
+    this.name = "TextTooLargeError"
+  }
+}
+
+/** zlib com maxOutputLength: ultrapassar o limite lança ERR_BUFFER_TOO_LARGE -> TextTooLargeError. */
+function inflateCapped(inflate: typeof inflateSync, data: Buffer, max: number): Buffer {
+  try {
+    return inflate(data, { maxOutputLength: max })
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException)?.code === "ERR_BUFFER_TOO_LARGE") throw new TextTooLargeError()
+    throw e
+  }
+}
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+
+export function textKind(filename: string | null, mime: string | null): TextKind | null {
+  const ext = (filename ?? "").toLowerCase().split(".").pop() ?? ""
+  const m = (mime ?? "").toLowerCase()
+  if (m === "application/pdf" || ext === "pdf") return "pdf"
+  if (m === DOCX_MIME || ext === "docx") return "docx"
+  if (m.startsWith("text/") || ["txt", "md", "csv"].includes(ext)) return "txt"
+  return null
+}
+
+function normalizeText(s: string) {
+  return s
+    .replace(/\u0000/g, "")
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .slice(0, DOC_TEXT_MAX_CHARS)
+}
+
+// ---------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------
+
+/** Conteúdo (descomprimido) de uma entrada do zip, via central directory. */
+function zipEntry(buf: Buffer, name: string): Buffer | null {
+  const min = Math.max(0, buf.length - 65557)
+  let eocd = -1
+  for (let i = buf.length - 22; i >= min; i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) return null
+
+  const count = buf.readUInt16LE(eocd + 10)
+  let p = buf.readUInt32LE(eocd + 16)
+
+  for (let n = 0; n < count && p + 46 <= buf.length; n++) {
+    if (buf.readUInt32LE(p) !== 0x02014b50) return null
+    const method = buf.readUInt16LE(p + 10)
+    const compSize = buf.readUInt32LE(p + 20)
+    const nameLen = buf.readUInt16LE(p + 28)
+    const extraLen = buf.readUInt16LE(p + 30)
+    const commentLen = buf.readUInt16LE(p + 32)
+    const localOffset = buf.readUInt32LE(p + 42)
+    const entryName = buf.toString("utf8", p + 46, p + 46 + nameLen)
+
+    if (entryName === name) {
+      if (buf.readUInt32LE(localOffset) !== 0x04034b50) return null
+      const start = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28)
+      const data = buf.subarray(start, start + compSize)
+      if (method === 0) return data
+      if (method === 8) return inflateCapped(inflateRawSync, data, DOC_TEXT_MAX_BYTES)
+      return null
+    }
+
+    p += 46 + nameLen + extraLen + commentLen
+  }
+  return null
+}
+
+function decodeXmlEntities(s: string) {
+  return s
+    .replace(/&#x([0-9a-f]+);/gi, (_, h) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&#(\d+);/g, (_, d) => String.fromCodePoint(Number(d)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+}
+
+function docxText(buf: Buffer): string {
+  const xml = zipEntry(buf, "word/document.xml")
+  if (!xml) throw new Error("DOCX_WITHOUT_DOCUMENT")
+  return decodeXmlEntities(
+    xml
+      .toString("utf8")
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:br\/>|<\/w:p>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+}
+
+// ---------------------------------------------------------
+// PDF
+// ---------------------------------------------------------
+
+const PDF_ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" }
+
+/** Texto dos operadores de texto de um content stream (strings literais/hex antes de Tj/TJ/'/"). */
+function pdfStreamText(src: string): string {
+  const out: string[] = []
+  let pending: string[] = []
+  let inArray = false
+  let i = 0
+
+  while (i < src.length) {
+    const c = src[i]
+
+    if (c === "(") {
+      // string literal: parênteses equilibrados + escapes
+      let depth = 1
+      let s = ""
+      i++
+      while (i < src.length && depth > 0) {
+        const ch = src[i]
+        if (ch === "\\") {
+          const nx = src[i + 1] ?? ""
+          if (/[0-7]/.test(nx)) {
+            const oct = src.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0]
+            s += String.fromCharCode(parseInt(oct, 8))
+            i += 1 + oct.length
+            continue
+          }
+          if (nx === "\r" || nx === "\n") {
+            i += nx === "\r" && src[i + 2] === "\n" ? 3 : 2
+            continue
+          }
+          s += PDF_ESCAPES[nx] ?? nx
+          i += 2
+          continue
+        }
+        if (ch === "(") depth++
+        if (ch === ")") depth--
+        if (depth > 0) s += ch
+        i++
+      }
+      pending.push(s)
+      continue
+    }
+
+    if (c === "<" && src[i + 1] !== "<") {
+      const end = src.indexOf(">", i)
+      if (end < 0) break
+      const hex = src.slice(i + 1, end).replace(/\s+/g, "")
+      const bytes = Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex")
+      // hex de 1 byte por carácter (fontes simples); glyph ids de 2 bytes não são texto legível
+      const s = bytes.toString("latin1")
+      if (/^[\x20-\x7e\xa0-\xff\s]*$/.test(s)) pending.push(s)
+      i = end + 1
+      continue
+    }
+
+    if (c === "[" || c === "]") {
+      inArray = c === "["
+      i++
+      continue
+    }
+
+    if (inArray && /[-\d.]/.test(c)) {
+      // ajuste de espaçamento no TJ: recuo grande = espaço entre palavras
+      let j = i + 1
+      while (j < src.length && /[\d.]/.test(src[j])) j++
+      if (Number(src.slice(i, j)) < -150) pending.push(" ")
+      i = j
+      continue
+    }
+
+    if (/[A-Za-z'"*]/.test(c)) {
+      let j = i
+      while (j < src.length && /[A-Za-z'"*]/.test(src[j])) j++
+      const op = src.slice(i, j)
+      if (op === "Tj" || op === "TJ" || op === "'" || op === '"') {
+        if (op === "'" || op === '"') out.push("\n")
+        out.push(pending.join(""))
+        pending = []
+      } else if (op === "Td" || op === "TD" || op === "T*" || op === "Tm" || op === "ET") {
+        out.push(op === "Td" || op === "TD" || op === "Tm" ? " " : "\n")
+        pending = []
+      } else {
+        pending = []
+      }
+      i = j
+      continue
+    }
+
+    i++
+  }
+
+  return out.join("")
+}
+
+function pdfText(buf: Buffer): string {
+  const raw = buf.toString("latin1")
+  const parts: string[] = []
+  const re = /stream\r?\n/g
+  let m: RegExpExecArray | null
+  let budget = DOC_TEXT_MAX_BYTES
+
+  while ((m = re.exec(raw))) {
+    const start = m.index + m[0].length
+    const end = raw.indexOf("endstream", start)
+    if (end < 0) break
+
+    const dictStart = raw.lastIndexOf("<<", m.index)
+    const dict = dictStart >= 0 ? raw.slice(dictStart, m.index) : ""
+    re.lastIndex = end + 9
+
+    if (/\/Subtype\s*\/Image|\/Type\s*\/XObject|\/Length1|\/FontFile/.test(dict)) continue
+
+    const data = buf.subarray(start, end)
+    let decoded: Buffer | null = null
+    if (/\/FlateDecode/.test(dict)) {
+      if (budget <= 0) throw new TextTooLargeError()
+      try {
+        decoded = inflateCapped(inflateSync, data, budget)
+      } catch (e) {
+        if (e instanceof TextTooLargeError) throw e
+        decoded = null
+      }
+      if (decoded) budget -= decoded.length
+    } else if (!/\/Filter/.test(dict)) {
+      decoded = data
+    }
+    if (!decoded) continue
+
+    const src = decoded.toString("latin1")
+    if (!/\bBT\b/.test(src)) continue
+    parts.push(pdfStreamText(src))
+  }
+
+  return parts.join("\n")
+}
+
+// ---------------------------------------------------------
+// API
+// ---------------------------------------------------------
+
+export function extractText(buf: Buffer, kind: TextKind): string {
+  if (kind === "txt") return normalizeText(buf.toString("utf8").replace(/^\uFEFF/, ""))
+  if (kind === "docx") return normalizeText(docxText(buf))
+  return normalizeText(pdfText(buf))
+}
+
+/** Extrai e grava o texto da versão atual do doc. Devolve o estado (null se o doc não existir). */
+export async function indexDocContent(
+  admin: SupabaseClient,
+  empresaId: string,
+  docId: string,
+  buf?: Buffer
+): Promise<ContentStatus | null> {
+  const { data: doc, error } = await admin
+    .from("docs")
+    .select("id, storage_bucket, storage_path, filename, mime_type, size_bytes")
+    .eq("id", docId)
+    .eq("empresa_id", empresaId)
+    .maybeSingle()
+
+  if (error || !doc) return null
+
+  let status: ContentStatus
+  let text: string | null = null
+
+  const kind = textKind(doc.filename, doc.mime_type)
+  if (!kind) status = "unsupported"
+  else if (Number(doc.size_bytes ?? 0) > DOC_TEXT_MAX_BYTES) status = "too_large"
+  else {
+    try {
+      let data = buf
+      if (!data) {
+        const { data: blob, error: dErr } = await admin.storage.from(doc.storage_bucket).download(doc.storage_path)
+        if (dErr || !blob) throw new Error(dErr?.message ?? "DOWNLOAD_FAILED")
+        data = Buffer.from(await blob.arrayBuffer())
+      }
+
+      if (data.length > DOC_TEXT_MAX_BYTES) status = "too_large"
+      else {
+        text = extractText(data, kind) || null
+        status = text ? "ok" : "empty"
+      }
+    } catch (e) {
+      status = e instanceof TextTooLargeError ? "too_large" : "failed"
+    }
+  }
+
+  const { error: upErr } = await admin
+    .from("docs")
+    .update({ content_text: text, content_status: status, content_indexed_at: new Date().toISOString() })
+    .eq("id", docId)
+    .eq("empresa_id", empresaId)
+
+  return upErr ? "failed" : status
+}
@@ -0,0 +1,94 @@
+/**
+ * =============================================
+ * Moduz+ | Admin Entitlements
+ * Arquivo: lib/admin/entitlements.ts
+ * Módulo: Core (Plano / Entitlements)
+ * Etapa: Limites do plano (v1.2 - tipos sem any)
+ * Descrição:
+ *  - loadEntitlements: assinatura (public.subscriptions) + plano (components/adm/plans) + uso atual
+ *      sem assinatura ou cancelada -> DEFAULT_PLAN
+ *  - Asserts lançam ApiError 402 (o plano não cobre o pedido):
+ *      PLAN_MODULE_NOT_INCLUDED (details = módulos), PLAN_SEAT_LIMIT / PLAN_STORAGE_QUOTA (details = uso/limite)
+ *  - Lugares = profiles ativos + convites pendentes; storage = soma de doc_versions.size_bytes (todas as versões; moduz_core_usage)
+ * =============================================
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ApiError } from "./route-handler"
+import { SUBSCRIPTION_COLUMNS, type SubscriptionRow } from "../billing/provider"
+import {
+  DEFAULT_PLAN,
+  PLANS,
+  isPlanKey,
+  modulesOutsidePlan,
+  type PlanKey,
+  type PlanMeta,
+} from "../../components/adm/plans"
+import type { ModuleKey } from "../../components/adm/module-registry"
+
+export type Usage = {
+  seats_active: number
+  invites_pending: number
+  storage_bytes: number
+}
+
+export type Entitlements = {
+  plan_key: PlanKey
+  plan: PlanMeta
+  subscription: SubscriptionRow | null
+  usage: Usage
+}
+
+export async function loadEntitlements(admin: SupabaseClient, empresaId: string): Promise<Entitlements> {
+  const [{ data: sub, error: sErr }, { data: usage, error: uErr }] = await Promise.all([
+    admin.from("subscriptions").select(SUBSCRIPTION_COLUMNS).eq("empresa_id", empresaId).maybeSingle(),
+    admin.rpc("moduz_core_usage", { p_empresa_id: empresaId }),
+  ])
+
+  if (sErr) throw new ApiError(500, "DB_ERROR", sErr.message)
+  if (uErr) throw new ApiError(500, "DB_ERROR", uErr.message)
+
+  const subscription = (sub ?? null) as SubscriptionRow | null
+  const counts = (usage ?? {}) as Partial<Record<keyof Usage, number>>
+  const plan_key: PlanKey =
+    subscription && subscription.status !== "canceled" && isPlanKey(subscription.plan_key)
+      ? subscription.plan_key
+      : DEFAULT_PLAN
+
+  return {
+    plan_key,
+    plan: PLANS[plan_key],
+    subscription,
+    usage: {
+      seats_active: Number(counts.seats_active ?? 0),
+      invites_pending: Number(counts.invites_pending ?? 0),
+      storage_bytes: Number(counts.storage_bytes ?? 0),
+    },
+  }
+}
+
+export function seatsUsed(ent: Entitlements) {
+  return ent.usage.seats_active + ent.usage.invites_pending
+}
+
+export function assertModulesInPlan(ent: Entitlements, keys: ModuleKey[]) {
+  const outside = modulesOutsidePlan(ent.plan_key, keys)
+  if (outside.length) throw new ApiError(402, "PLAN_MODULE_NOT_INCLUDED", outside.join(","))
+}
+
+/** `extra` = lugares que o pedido vai ocupar (0 = só confirmar que o uso atual cabe no plano). */
+export function assertSeatAvailable(ent: Entitlements, extra = 1) {
+  const limit = ent.plan.seats
+  if (limit === null) return
+  const used = seatsUsed(ent)
+  if (used + extra > limit) throw new ApiError(402, "PLAN_SEAT_LIMIT", `${used}/${limit}`)
+}
+
+export function assertStorageAvailable(ent: Entitlements, bytes: number) {
+  const limitMb = ent.plan.storage_mb
+  if (limitMb === null) return
+  const limit = limitMb * 1024 * 1024
+  if (ent.usage.storage_bytes + Math.max(0, bytes) > limit) {
+    throw new ApiError(402, "PLAN_STORAGE_QUOTA", `${ent.usage.storage_bytes}/${limit}`)
+  }
+}
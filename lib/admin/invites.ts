@@ -0,0 +1,154 @@
+/**
+ * =============================================
+ * Moduz+ | Admin Invites
+ * Arquivo: lib/admin/invites.ts
+ * Módulo: Core (Convites)
+ * Etapa: Helpers server-side (v1.2 - convite e audit na mesma transação)
+ * Descrição:
+ *  - createInvite: grava convite + audit INVITE_CREATED (moduz_core_create_invite: 1 pendente por email)
+ *    e envia email (Utilizadores + Onboarding); email falhado -> revogado com reason SEND_FAILED
+ *  - Token do convite: aleatório (32 bytes, base64url); DB guarda só sha256
+ *  - Envio do email via Supabase Auth (SMTP do projeto; em local: mail catcher do supabase start)
+ *      - user novo: inviteUserByEmail (link type=invite -> define senha em /auth/reset)
+ *      - user existente: magic link (signInWithOtp, sem criar user)
+ * =============================================
+ */
+
+import { createHash, randomBytes } from "crypto"
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+import { ApiError, type ProfileRole } from "./route-handler"
+
+export const INVITE_DEFAULT_DAYS = 7
+export const INVITE_MAX_DAYS = 30
+
+export type InviteStatus = "pending" | "accepted" | "revoked" | "expired"
+
+export type InviteRow = {
+  id: string
+  empresa_id: string
+  email: string
+  role: ProfileRole
+  display_name: string | null
+  status: "pending" | "accepted" | "revoked"
+  expires_at: string
+  invited_by: string | null
+  accepted_by: string | null
+  accepted_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export const INVITE_COLUMNS =
+  "id, empresa_id, email, role, display_name, status, expires_at, invited_by, accepted_by, accepted_at, revoked_at, created_at"
+
+function requiredEnv(name: string) {
+  const v = process.env[name]
+  if (!v) throw new Error(`Missing env: ${name}`)
+  return v
+}
+
+export function newInviteToken(): string {
+  return randomBytes(32).toString("base64url")
+}
+
+export function hashInviteToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+export function normEmail(v: unknown): string | null {
+  const s = String(v ?? "").trim().toLowerCase()
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s) ? s.slice(0, 254) : null
+}
+
+/** Estado efetivo: pending com expires_at no passado -> expired */
+export function effectiveStatus(row: Pick<InviteRow, "status" | "expires_at">, now = Date.now()): InviteStatus {
+  if (row.status === "pending" && new Date(row.expires_at).getTime() <= now) return "expired"
+  return row.status
+}
+
+export function inviteRedirectUrl(origin: string, token: string) {
+  return `${origin}/auth/confirm?invite=${encodeURIComponent(token)}`
+}
+
+/**
+ * Envia o link do convite. Retorna o canal usado (para UI/auditoria).
+ */
+export async function sendInviteEmail(
+  admin: SupabaseClient,
+  args: { email: string; redirectTo: string }
+): Promise<{ ok: true; channel: "invite" | "magiclink" } | { ok: false; details: string }> {
+  const { error: invErr } = await admin.auth.admin.inviteUserByEmail(args.email, { redirectTo: args.redirectTo })
+  if (!invErr) return { ok: true, channel: "invite" }
+
+  // user já existe no Auth -> magic link (não cria user)
+  const anon = createClient(requiredEnv("NEXT_PUBLIC_SUPABASE_URL"), requiredEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY"), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { error: otpErr } = await anon.auth.signInWithOtp({
+    email: args.email,
+    options: { emailRedirectTo: args.redirectTo, shouldCreateUser: false },
+  })
+  if (!otpErr) return { ok: true, channel: "magiclink" }
+
+  return { ok: false, details: `${invErr.message} / ${otpErr.message}` }
+}
+
+/**
+ * Cria convite pendente (com audit) e envia o link. Lança ApiError:
+ * - 409 INVITE_ALREADY_PENDING (details = id do convite pendente)
+ * - 502 INVITE_SEND_FAILED (o convite é revogado: sem convites "fantasma")
+ */
+export async function createInvite(
+  admin: SupabaseClient,
+  args: {
+    empresaId: string
+    email: string
+    role: ProfileRole
+    displayName: string | null
+    days: number
+    invitedBy: string
+    actorProfileId: string | null
+    origin: string
+    source?: "onboarding"
+  }
+): Promise<{ invite: InviteRow; channel: "invite" | "magiclink" }> {
+  const expires_at = new Date(Date.now() + Math.floor(args.days) * 24 * 60 * 60 * 1000).toISOString()
+
+  const token = newInviteToken()
+
+  const { data, error: insErr } = await admin.rpc("moduz_core_create_invite", {
+    p_empresa_id: args.empresaId,
+    p_user_id: args.invitedBy,
+    p_profile_id: args.actorProfileId,
+    p_email: args.email,
+    p_role: args.role,
+    p_display_name: args.displayName,
+    p_token_hash: hashInviteToken(token),
+    p_expires_at: expires_at,
+    p_source: args.source ?? null,
+  })
+
+  if (insErr) {
+    if (insErr.message === "INVITE_ALREADY_PENDING") throw new ApiError(409, "INVITE_ALREADY_PENDING", insErr.details)
+    throw new ApiError(500, "DB_ERROR", insErr.message)
+  }
+  const invite = data as InviteRow
+
+  const sent = await sendInviteEmail(admin, {
+    email: args.email,
+    redirectTo: inviteRedirectUrl(args.origin, token),
+  })
+
+  if (sent.ok === false) {
+    const { error: revErr } = await admin.rpc("moduz_core_revoke_invite", {
+      p_empresa_id: args.empresaId,
+      p_user_id: args.invitedBy,
+      p_profile_id: args.actorProfileId,
+      p_invite_id: invite.id,
+      p_reason: "SEND_FAILED",
+    })
+    throw new ApiError(502, "INVITE_SEND_FAILED", revErr ? `${sent.details} / ${revErr.message}` : sent.details)
+  }
+
+  return { invite, channel: sent.channel }
+}
@@ -0,0 +1,64 @@
+/**
+ * =============================================
+ * Moduz+ | Admin Modules
+ * Arquivo: lib/admin/modules.ts
+ * Módulo: Core (Gestão de Módulos)
+ * Etapa: Estado + agendamentos (v1.1 - linha de agendamento tipada)
+ * Descrição:
+ *  - Leitura de modules_enabled com as colunas usadas pelo estado efetivo (trial_ends_at)
+ *  - applyModuleSchedules: aplica agendamentos vencidos + expira trials da empresa
+ *      (moduz_core_apply_module_schedules; também corre via pg_cron quando disponível)
+ *  - ModuleScheduleRow: colunas de MODULE_SCHEDULE_COLUMNS (module_schedules, 20260122)
+ *  - Estado efetivo (trial expirado / dependências) em components/adm/module-state.ts
+ * =============================================
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ApiError } from "./route-handler"
+import { activeModuleKeys, type ModuleStateRow } from "../../components/adm/module-state"
+import type { ModuleKey } from "../../components/adm/module-registry"
+
+export const MODULE_ROW_COLUMNS = "module_key, enabled, enabled_at, trial_ends_at, updated_at"
+
+export const MODULE_SCHEDULE_COLUMNS =
+  "id, module_key, enabled, cascade_keys, run_at, status, created_by_user_id, created_at, applied_at, cancelled_at, last_error"
+
+export type ModuleScheduleRow = {
+  id: string
+  module_key: string
+  enabled: boolean
+  cascade_keys: string[]
+  run_at: string
+  status: "pending" | "applied" | "cancelled" | "failed"
+  created_by_user_id: string | null
+  created_at: string
+  applied_at: string | null
+  cancelled_at: string | null
+  last_error: string | null
+}
+
+export type ModuleRow = ModuleStateRow & {
+  enabled_at: string | null
+  updated_at: string | null
+}
+
+/** Nunca falha a leitura por causa disto: no pior caso o estado efetivo já trata trials expirados. */
+export async function applyModuleSchedules(admin: SupabaseClient, empresaId: string) {
+  const { data, error } = await admin.rpc("moduz_core_apply_module_schedules", { p_empresa_id: empresaId })
+  return error ? 0 : Number(data ?? 0)
+}
+
+export async function loadModuleRows(admin: SupabaseClient, empresaId: string): Promise<ModuleRow[]> {
+  const { data, error } = await admin
+    .from("modules_enabled")
+    .select(MODULE_ROW_COLUMNS)
+    .eq("empresa_id", empresaId)
+    .order("module_key", { ascending: true })
+
+  if (error) throw new ApiError(500, "DB_ERROR", error.message)
+  return (data ?? []) as ModuleRow[]
+}
+
+export async function loadActiveModuleKeys(admin: SupabaseClient, empresaId: string): Promise<ModuleKey[]> {
+  return activeModuleKeys(await loadModuleRows(admin, empresaId))
+}
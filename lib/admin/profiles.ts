@@ -0,0 +1,67 @@
+/**
+ * =============================================
+ * Moduz+ | Admin Profiles
+ * Arquivo: lib/admin/profiles.ts
+ * Módulo: Core (Utilizadores)
+ * Etapa: Helpers server-side (v1)
+ * Descrição:
+ *  - Leitura de profiles da empresa (service role)
+ *  - Guardrail: empresa nunca fica sem admin ativo
+ * =============================================
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ApiError, type ProfileRole } from "./route-handler"
+
+export const PROFILE_ROLES: ProfileRole[] = ["admin", "interno", "externo"]
+
+export function isProfileRole(v: unknown): v is ProfileRole {
+  return typeof v === "string" && (PROFILE_ROLES as string[]).includes(v)
+}
+
+export type ProfileRow = {
+  id: string
+  empresa_id: string
+  user_id: string
+  role: ProfileRole
+  ativo: boolean
+  display_name: string | null
+  created_at: string
+  updated_at: string
+}
+
+export const PROFILE_COLUMNS = "id, empresa_id, user_id, role, ativo, display_name, created_at, updated_at"
+
+export async function getProfileOrThrow(
+  admin: SupabaseClient,
+  empresaId: string,
+  profileId: string
+): Promise<ProfileRow> {
+  const { data, error } = await admin
+    .from("profiles")
+    .select(PROFILE_COLUMNS)
+    .eq("id", profileId)
+    .eq("empresa_id", empresaId)
+    .maybeSingle()
+
+  if (error) throw new ApiError(500, "DB_ERROR", error.message)
+  if (!data) throw new ApiError(404, "PROFILE_NOT_FOUND")
+  return data as ProfileRow
+}
+
+/**
+ * Falha com LAST_ADMIN se a alteração deixar a empresa sem nenhum admin ativo.
+ * Chamar apenas quando `target` é admin ativo e vai deixar de o ser.
+ */
+export async function assertNotLastAdmin(admin: SupabaseClient, empresaId: string, target: ProfileRow) {
+  const { count, error } = await admin
+    .from("profiles")
+    .select("id", { count: "exact", head: true })
+    .eq("empresa_id", empresaId)
+    .eq("role", "admin")
+    .eq("ativo", true)
+    .neq("id", target.id)
+
+  if (error) throw new ApiError(500, "DB_ERROR", error.message)
+  if (!count) throw new ApiError(409, "LAST_ADMIN")
+}
@@ -0,0 +1,182 @@
+/**
+ * =============================================
+ * Moduz+ | Admin Route Kernel
+ * Arquivo: lib/admin/route-handler.ts
+ * Módulo: Core (API Admin)
+ * Etapa: Kernel partilhado (v1.4 - tipos sem any)
+ * Descrição:
+ *  - Wrapper único para route handlers tenant-scoped em /api/admin/**
+ *  - Resolve sessão (SSR cookies) → empresa ativa → profile → papel exigido
+ *  - Empresa ativa: header injetado pelo middleware (user_preferences validada);
+ *    sem header (rota fora do matcher), resolve aqui pela mesma RPC
+ *  - Resolve permissões granulares (roles) e valida a permissão exigida
+ *  - Gating por módulo: /api/admin/<module_key>/** só responde se o módulo estiver ativo na empresa
+ *      (estado efetivo: enabled, trial por expirar, dependências ativas) -> 403 MODULE_DISABLED
+ *      core e rotas fora do padrão (/api/admin/me, /bootstrap) não são gated
+ *  - Envelope de resposta uniforme:
+ *      - sucesso: { ok: true, ... }
+ *      - erro:    { ok: false, error, details }
+ *  - Handlers lançam ApiError para abortar com status/código próprios
+ * =============================================
+ */
+
+import { NextResponse } from "next/server"
+import type { SupabaseClient, User } from "@supabase/supabase-js"
+import { createSupabaseServerClient } from "../supabase/server"
+import { supabaseAdmin } from "../supabase/admin"
+import { ACTIVE_EMPRESA_HEADER, resolveActiveEmpresaId } from "./active-empresa"
+import {
+  DEFAULT_PERMISSIONS_BY_ROLE,
+  hasPermission,
+  type BaseRole,
+} from "../../components/adm/permissions"
+import { isModuleKey, type ModuleKey } from "../../components/adm/module-registry"
+import { loadActiveModuleKeys } from "./modules"
+
+export type ProfileRole = BaseRole
+
+/**
+ * Nível de acesso exigido pela rota:
+ * - "member": qualquer profile ativo na empresa
+ * - "admin": profile ativo com role = admin
+ */
+export type RouteAccess = "member" | "admin"
+
+export type AdminRouteContext = {
+  req: Request
+  user: User
+  empresaId: string
+  profile: { id: string; role: ProfileRole }
+  /** Permissões efetivas do profile na empresa ("*" para admin) */
+  permissions: string[]
+  admin: SupabaseClient
+}
+
+export type AdminRouteOptions = {
+  access: RouteAccess
+  /** Permissão granular exigida (ex.: "docs:upload"). Admin passa sempre. */
+  permission?: string
+  /**
+   * Módulo que tem de estar ativo. Default: segmento do URL (/api/admin/<module_key>/...);
+   * null desliga o gating (ex.: rota de um módulo que tem de responder mesmo desativado).
+   */
+  module?: ModuleKey | null
+}
+
+export class ApiError extends Error {
+  status: number
+  code: string
+  details: string | null
+
+  constructor(status: number, code: string, details?: string | null) {
+    super(code)
+    this.name = "ApiError"
+    this.status = status
+    this.code = code
+    this.details = details ?? null
+  }
+}
+
+export function jsonOk(body: Record<string, unknown> = {}, status = 200) {
+  return NextResponse.json({ ok: true, ...body }, { status })
+}
+
+export function jsonError(status: number, error: string, details?: string | null) {
+  return NextResponse.json({ ok: false, error, details: details ?? null }, { status })
+}
+
+/** Empresa ativa já validada pelo middleware (o browser não consegue definir este header). */
+export function getActiveEmpresaHeader(req: Request): string | null {
+  return req.headers.get(ACTIVE_EMPRESA_HEADER)
+}
+
+/** "/api/admin/docs/list" -> "docs"; null para core e segmentos que não são módulos. */
+export function moduleKeyFromPath(pathname: string): ModuleKey | null {
+  const seg = /^\/api\/admin\/([^/]+)(?:\/|$)/.exec(pathname)?.[1] ?? ""
+  return isModuleKey(seg) && seg !== "core" ? seg : null
+}
+
+async function assertModuleActive(admin: SupabaseClient, empresaId: string, moduleKey: ModuleKey) {
+  const active = await loadActiveModuleKeys(admin, empresaId)
+  if (!active.includes(moduleKey)) throw new ApiError(403, "MODULE_DISABLED", moduleKey)
+}
+
+async function resolveProfile(admin: SupabaseClient, userId: string, empresaId: string) {
+  const { data: profile, error } = await admin
+    .from("profiles")
+    .select("id, role, ativo")
+    .eq("user_id", userId)
+    .eq("empresa_id", empresaId)
+    .maybeSingle()
+
+  if (error) throw new ApiError(500, "PROFILE_LOOKUP_FAILED", error.message)
+  if (!profile || profile.ativo === false) throw new ApiError(403, "NO_PROFILE")
+
+  return { id: String(profile.id), role: profile.role as ProfileRole }
+}
+
+async function resolvePermissions(
+  admin: SupabaseClient,
+  profile: { id: string; role: ProfileRole }
+): Promise<string[]> {
+  if (profile.role === "admin") return DEFAULT_PERMISSIONS_BY_ROLE.admin
+
+  const { data, error } = await admin
+    .from("profile_roles")
+    .select("role:roles(permissions)")
+    .eq("profile_id", profile.id)
+
+  if (error) throw new ApiError(500, "PERMISSIONS_LOOKUP_FAILED", error.message)
+
+  const rows = Array.isArray(data) ? data : []
+  if (rows.length === 0) return DEFAULT_PERMISSIONS_BY_ROLE[profile.role] ?? []
+
+  const out = new Set<string>()
+  for (const r of rows) {
+    const perms = (r as { role?: { permissions?: unknown } | null }).role?.permissions
+    if (Array.isArray(perms)) perms.forEach((p: unknown) => typeof p === "string" && out.add(p))
+  }
+  return Array.from(out)
+}
+
+export function adminRoute(
+  opts: AdminRouteOptions,
+  handler: (ctx: AdminRouteContext) => Promise<Response>
+) {
+  return async function route(req: Request): Promise<Response> {
+    try {
+      // 1) sessão primeiro (a empresa ativa depende do user)
+      const supabase = createSupabaseServerClient()
+      const { data: userRes, error: userErr } = await supabase.auth.getUser()
+      const user = userRes?.user
+      if (userErr || !user) return jsonError(401, "MISSING_SESSION")
+
+      const admin = supabaseAdmin()
+
+      // 2) empresa ativa (server-side)
+      const empresaId = getActiveEmpresaHeader(req) ?? (await resolveActiveEmpresaId(supabase))
+      if (!empresaId) return jsonError(400, "MISSING_EMPRESA_ID")
+
+      // 3) profile + papel
+      const profile = await resolveProfile(admin, user.id, empresaId)
+      if (opts.access === "admin" && profile.role !== "admin") {
+        return jsonError(403, "NOT_ADMIN")
+      }
+
+      // 4) módulo ativo na empresa (não confia no cache/guard do cliente)
+      const moduleKey = opts.module === undefined ? moduleKeyFromPath(new URL(req.url).pathname) : opts.module
+      if (moduleKey && moduleKey !== "core") await assertModuleActive(admin, empresaId, moduleKey)
+
+      // 5) permissões granulares
+      const permissions = await resolvePermissions(admin, profile)
+      if (opts.permission && !hasPermission(permissions, opts.permission)) {
+        return jsonError(403, "MISSING_PERMISSION", opts.permission)
+      }
+
+      return await handler({ req, user, empresaId, profile, permissions, admin })
+    } catch (e) {
+      if (e instanceof ApiError) return jsonError(e.status, e.code, e.details)
+      return jsonError(500, "UNEXPECTED", e instanceof Error ? e.message : String(e))
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * =============================================
+ * Moduz+ | Admin Settings Versions
+ * Arquivo: lib/admin/settings-versions.ts
+ * Módulo: Core (Definições)
+ * Etapa: Diff + revert (v1.1 - linha tipada)
+ * Descrição:
+ *  - Snapshot = { timezone, locale, currency, extras } (moduz_core_settings_snapshot, 20260121)
+ *  - diffSettings: alterações campo a campo por caminho ("timezone", "extras.modules.docs.max_upload_mb")
+ *  - revertSnapshot: aplica ao estado atual os valores "before" dos campos alterados numa versão
+ *      (alterações posteriores a outros campos mantêm-se)
+ * =============================================
+ */
+
+export type SettingsSnapshot = Record<string, unknown>
+
+export type SettingsChange = {
+  path: string
+  before: unknown
+  after: unknown
+}
+
+export const SETTINGS_VERSION_COLUMNS =
+  "id, version, source, module_key, reverted_version, before, after, actor_user_id, actor_profile_id, created_at"
+
+export type SettingsVersionRow = {
+  id: string
+  version: number
+  source: "update" | "module_update" | "revert"
+  module_key: string | null
+  reverted_version: number | null
+  before: SettingsSnapshot
+  after: SettingsSnapshot
+  actor_user_id: string | null
+  actor_profile_id: string | null
+  created_at: string
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v)
+}
+
+function sameJson(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/** Folhas = valores não-objeto (arrays contam como folha). undefined = campo ausente. */
+function walk(before: unknown, after: unknown, path: string[], out: SettingsChange[]) {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort()
+    for (const k of keys) walk(before[k], after[k], [...path, k], out)
+    return
+  }
+  if (isPlainObject(before) && after === undefined) {
+    for (const k of Object.keys(before).sort()) walk(before[k], undefined, [...path, k], out)
+    return
+  }
+  if (before === undefined && isPlainObject(after)) {
+    for (const k of Object.keys(after).sort()) walk(undefined, after[k], [...path, k], out)
+    return
+  }
+  if (!sameJson(before, after)) {
+    out.push({ path: path.join("."), before: before ?? null, after: after ?? null })
+  }
+}
+
+export function diffSettings(before: SettingsSnapshot, after: SettingsSnapshot): SettingsChange[] {
+  const out: SettingsChange[] = []
+  walk(before ?? {}, after ?? {}, [], out)
+  return out
+}
+
+function setPath(target: Record<string, unknown>, path: string[], value: unknown) {
+  let node = target
+  for (const k of path.slice(0, -1)) {
+    if (!isPlainObject(node[k])) node[k] = {}
+    node = node[k] as Record<string, unknown>
+  }
+  const last = path[path.length - 1]
+  if (value === null || value === undefined) delete node[last]
+  else node[last] = value
+}
+
+/**
+ * Estado atual com os campos alterados na versão repostos ao valor anterior.
+ * Campos que não existiam antes da versão são removidos (só em extras; colunas do core nunca ficam vazias).
+ */
+export function revertSnapshot(current: SettingsSnapshot, version: { before: SettingsSnapshot; after: SettingsSnapshot }) {
+  const next = JSON.parse(JSON.stringify(current ?? {})) as SettingsSnapshot
+  for (const c of diffSettings(version.before, version.after)) {
+    const path = c.path.split(".")
+    if (path[0] !== "extras" && c.before === null) continue
+    setPath(next, path, c.before)
+  }
+  return next
+}
@@ -0,0 +1,355 @@
+/**
+ * =============================================
+ * Moduz+ | Admin Upload Policy
+ * Arquivo: lib/admin/upload-policy.ts
+ * Módulo: Docs
+ * Etapa: Política de upload + MIME pelo conteúdo (v1.2 - tipos sem any)
+ * Descrição:
+ *  - loadUploadPolicy: definições do módulo docs da empresa (settings.extras.modules.docs, com defaults)
+ *      max_upload_mb, allowed_types (grupos pdf/image/office/text/archive, MIME exatos, "tipo/*", "*")
+ *      e blocked_extensions
+ *  - checkUploadPolicy: tamanho, extensão e tipo — no create (valores declarados) e no complete (medidos)
+ *      executáveis/scripts nunca entram por "*": só com o MIME explícito
+ *  - sniffMime: tipo pelos magic bytes do ficheiro guardado (não confia no mime_type do browser)
+ *      resolveMime: junta o detetado com o declarado (zip -> docx/xlsx/…; texto -> csv/json/…);
+ *      famílias diferentes (ex.: declarado PDF, conteúdo executável) -> UPLOAD_MIME_MISMATCH
+ *      extensão de texto (csv/txt/md/json/xml) declarada como office vale pela extensão: o Windows
+ *      manda application/vnd.ms-excel para .csv (no complete só se o conteúdo for mesmo texto)
+ *  - Rejeições auditadas: DOC_UPLOAD_REJECTED (create via recordAudit; complete via moduz_docs_fail_version)
+ * =============================================
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { withDefaults } from "../../components/adm/module-settings"
+import { ApiError } from "./route-handler"
+import { recordAudit } from "./audit"
+
+export type UploadPolicy = {
+  max_bytes: number
+  allowed_types: string[]
+  blocked_extensions: string[]
+}
+
+export type UploadPolicyCode =
+  | "UPLOAD_TOO_LARGE"
+  | "UPLOAD_EXTENSION_BLOCKED"
+  | "UPLOAD_TYPE_NOT_ALLOWED"
+  | "UPLOAD_MIME_MISMATCH"
+
+export type UploadViolation = { status: 413 | 415; code: UploadPolicyCode; details: string }
+
+type MimeFamily = "pdf" | "image" | "office" | "text" | "archive" | "executable" | "other"
+
+const OCTET = "application/octet-stream"
+
+const OFFICE_MIMES = new Set([
+  "application/msword",
+  "application/vnd.ms-excel",
+  "application/vnd.ms-powerpoint",
+  "application/rtf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.oasis.opendocument.text",
+  "application/vnd.oasis.opendocument.spreadsheet",
+  "application/vnd.oasis.opendocument.presentation",
+])
+
+/** Formatos que são um zip por dentro (o sniff só vê "application/zip" quando não os reconhece). */
+const ZIP_CONTAINERS = new Set([...OFFICE_MIMES].filter((m) => /openxmlformats|opendocument/.test(m)))
+
+const ARCHIVE_MIMES = new Set([
+  "application/zip",
+  "application/gzip",
+  "application/x-7z-compressed",
+  "application/vnd.rar",
+])
+
+// html/svg ficam de fora de "text"/"image": podem levar scripts quando abertos pelo signed url
+const TEXT_MIMES = new Set(["text/plain", "text/csv", "text/markdown", "application/json", "application/xml", "text/xml"])
+
+const EXECUTABLE_MIMES = new Set([
+  "application/x-msdownload",
+  "application/x-executable",
+  "application/x-mach-binary",
+  "application/x-msi",
+  "application/java-archive",
+  "application/vnd.android.package-archive",
+  "text/x-shellscript",
+  "text/javascript",
+  "application/javascript",
+])
+
+const EXT_MIMES: Record<string, string> = {
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  heic: "image/heic",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+  doc: "application/msword",
+  xls: "application/vnd.ms-excel",
+  ppt: "application/vnd.ms-powerpoint",
+  rtf: "application/rtf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  odt: "application/vnd.oasis.opendocument.text",
+  ods: "application/vnd.oasis.opendocument.spreadsheet",
+  odp: "application/vnd.oasis.opendocument.presentation",
+  txt: "text/plain",
+  csv: "text/csv",
+  md: "text/markdown",
+  json: "application/json",
+  xml: "application/xml",
+  html: "text/html",
+  htm: "text/html",
+  zip: "application/zip",
+  gz: "application/gzip",
+  "7z": "application/x-7z-compressed",
+  rar: "application/vnd.rar",
+  mp3: "audio/mpeg",
+  ogg: "audio/ogg",
+  mp4: "video/mp4",
+  exe: "application/x-msdownload",
+  dll: "application/x-msdownload",
+  msi: "application/x-msi",
+  jar: "application/java-archive",
+  apk: "application/vnd.android.package-archive",
+  sh: "text/x-shellscript",
+  js: "text/javascript",
+}
+
+function splitList(v: unknown) {
+  return String(v ?? "")
+    .toLowerCase()
+    .split(",")
+    .map((s) => s.trim().replace(/^\./, ""))
+    .filter(Boolean)
+}
+
+export function fileExtension(filename: string | null) {
+  const name = (filename ?? "").toLowerCase()
+  const i = name.lastIndexOf(".")
+  return i > 0 ? name.slice(i + 1) : ""
+}
+
+/** "Text/CSV; charset=utf-8" -> "text/csv" (null se vazio/genérico) */
+export function normMime(v: unknown): string | null {
+  const s = String(v ?? "").split(";")[0].trim().toLowerCase()
+  return s && s !== OCTET && /^[a-z0-9.+-]+\/[a-z0-9.+-]+$/.test(s) ? s : null
+}
+
+export function mimeFromExtension(filename: string | null): string | null {
+  return EXT_MIMES[fileExtension(filename)] ?? null
+}
+
+function mimeFamily(mime: string): MimeFamily {
+  if (EXECUTABLE_MIMES.has(mime)) return "executable"
+  if (mime === "application/pdf") return "pdf"
+  if (OFFICE_MIMES.has(mime)) return "office"
+  if (ARCHIVE_MIMES.has(mime)) return "archive"
+  if (TEXT_MIMES.has(mime) || mime.startsWith("text/")) return "text"
+  if (mime.startsWith("image/")) return "image"
+  return "other"
+}
+
+/** .csv/.txt/… com MIME office declarado -> MIME da extensão (null se não se aplica). */
+function textExtensionMime(filename: string | null, declared: string | null): string | null {
+  const byExt = mimeFromExtension(filename)
+  return byExt && TEXT_MIMES.has(byExt) && declared && mimeFamily(declared) === "office" ? byExt : null
+}
+
+function mimeAllowed(policy: UploadPolicy, mime: string) {
+  const family = mimeFamily(mime)
+  return policy.allowed_types.some((t) => {
+    if (t === mime) return true
+    if (family === "executable") return false
+    if (t === "*") return true
+    if (t.endsWith("/*")) return mime.startsWith(t.slice(0, -1))
+    if (t === "image") return family === "image" && mime !== "image/svg+xml"
+    if (t === "text") return TEXT_MIMES.has(mime)
+    return t === family
+  })
+}
+
+export async function loadUploadPolicy(admin: SupabaseClient, empresaId: string): Promise<UploadPolicy> {
+  const { data, error } = await admin.from("settings").select("extras").eq("empresa_id", empresaId).maybeSingle()
+  if (error) throw new ApiError(500, "DB_ERROR", error.message)
+
+  const extras = (data as { extras: { modules?: Record<string, unknown> } | null } | null)?.extras
+  const values = withDefaults("docs", extras?.modules?.docs)
+  return {
+    max_bytes: Number(values.max_upload_mb) * 1024 * 1024,
+    allowed_types: splitList(values.allowed_types),
+    blocked_extensions: splitList(values.blocked_extensions),
+  }
+}
+
+/** mime_type = declarado (create) ou resolvido pelo conteúdo (complete); null = inferido da extensão. */
+export function checkUploadPolicy(
+  policy: UploadPolicy,
+  file: { filename: string | null; mime_type: string | null; size_bytes: number | null }
+): UploadViolation | null {
+  if (file.size_bytes != null && file.size_bytes > policy.max_bytes) {
+    return { status: 413, code: "UPLOAD_TOO_LARGE", details: `${file.size_bytes}/${policy.max_bytes}` }
+  }
+
+  const ext = fileExtension(file.filename)
+  if (ext && policy.blocked_extensions.includes(ext)) {
+    return { status: 415, code: "UPLOAD_EXTENSION_BLOCKED", details: ext }
+  }
+
+  const declared = normMime(file.mime_type)
+  const mime = textExtensionMime(file.filename, declared) ?? declared ?? mimeFromExtension(file.filename) ?? OCTET
+  if (!mimeAllowed(policy, mime)) return { status: 415, code: "UPLOAD_TYPE_NOT_ALLOWED", details: mime }
+
+  return null
+}
+
+/** Rejeição no create / versions/create (ainda sem ficheiro): DOC_UPLOAD_REJECTED. */
+export async function auditUploadRejected(
+  admin: SupabaseClient,
+  ev: {
+    empresa_id: string
+    actor_user_id: string
+    actor_profile_id: string
+    stage: "create" | "version"
+    doc_id: string | null
+    file: { filename: string | null; mime_type: string | null; size_bytes: number | null }
+    violation: UploadViolation
+  }
+) {
+  return recordAudit(admin, {
+    empresa_id: ev.empresa_id,
+    actor_user_id: ev.actor_user_id,
+    actor_profile_id: ev.actor_profile_id,
+    action: "DOC_UPLOAD_REJECTED",
+    entity: "docs",
+    entity_id: ev.doc_id,
+    payload: {
+      stage: ev.stage,
+      doc_id: ev.doc_id,
+      reason: ev.violation.code,
+      details: ev.violation.details,
+      filename: ev.file.filename,
+      mime_type: ev.file.mime_type,
+      size_bytes: ev.file.size_bytes,
+    },
+  })
+}
+
+// ---------------------------------------------------------
+// Magic bytes
+// ---------------------------------------------------------
+
+function startsWith(buf: Buffer, sig: number[], offset = 0) {
+  if (buf.length < offset + sig.length) return false
+  return sig.every((b, i) => buf[offset + i] === b)
+}
+
+function ascii(buf: Buffer, start: number, end: number) {
+  return buf.toString("latin1", start, Math.min(end, buf.length))
+}
+
+function sniffZip(buf: Buffer) {
+  const head = buf.toString("latin1", 0, Math.min(buf.length, 4096))
+  const odf = head.match(/mimetype(application\/vnd\.oasis\.opendocument\.[a-z]+)/)
+  if (odf) return odf[1]
+
+  // nomes das entradas aparecem nos headers locais e no central directory
+  if (buf.includes("word/document.xml")) return "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+  if (buf.includes("xl/workbook.xml")) return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  if (buf.includes("ppt/presentation.xml")) return "application/vnd.openxmlformats-officedocument.presentationml.presentation"
+  if (buf.includes("AndroidManifest.xml")) return "application/vnd.android.package-archive"
+  if (buf.includes("META-INF/MANIFEST.MF")) return "application/java-archive"
+  return "application/zip"
+}
+
+function looksLikeText(buf: Buffer) {
+  const sample = buf.subarray(0, 8192)
+  if (sample.includes(0)) return false
+  // bytes de controlo (fora de tab/CR/LF/FF/ESC) = binário
+  let ctrl = 0
+  for (const b of sample) if (b < 0x20 && ![9, 10, 12, 13, 27].includes(b)) ctrl++
+  return ctrl <= sample.length / 100
+}
+
+/** MIME pelo conteúdo; OLE2 (doc/xls/ppt/msi) só se distingue pela extensão. */
+export function sniffMime(buf: Buffer, filename: string | null): string {
+  if (startsWith(buf, [0x25, 0x50, 0x44, 0x46, 0x2d])) return "application/pdf"
+  if (startsWith(buf, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png"
+  if (startsWith(buf, [0xff, 0xd8, 0xff])) return "image/jpeg"
+  if (ascii(buf, 0, 6) === "GIF87a" || ascii(buf, 0, 6) === "GIF89a") return "image/gif"
+  if (ascii(buf, 0, 4) === "RIFF" && ascii(buf, 8, 12) === "WEBP") return "image/webp"
+  if (startsWith(buf, [0x49, 0x49, 0x2a, 0x00]) || startsWith(buf, [0x4d, 0x4d, 0x00, 0x2a])) return "image/tiff"
+  if (ascii(buf, 4, 8) === "ftyp") {
+    const brand = ascii(buf, 8, 12)
+    if (brand === "avif") return "image/avif"
+    if (["heic", "heix", "mif1", "msf1"].includes(brand)) return "image/heic"
+    return "video/mp4"
+  }
+  if (ascii(buf, 0, 2) === "BM" && buf.length > 14 && buf.readUInt32LE(2) === buf.length) return "image/bmp"
+
+  if (startsWith(buf, [0x50, 0x4b, 0x03, 0x04]) || startsWith(buf, [0x50, 0x4b, 0x05, 0x06])) return sniffZip(buf)
+  if (startsWith(buf, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    const m = mimeFromExtension(filename)
+    return m && (OFFICE_MIMES.has(m) || m === "application/x-msi") ? m : OCTET
+  }
+  if (ascii(buf, 0, 5) === "{\\rtf") return "application/rtf"
+  if (startsWith(buf, [0x1f, 0x8b])) return "application/gzip"
+  if (startsWith(buf, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) return "application/x-7z-compressed"
+  if (ascii(buf, 0, 6) === "Rar!\x1a\x07") return "application/vnd.rar"
+
+  if (ascii(buf, 0, 2) === "MZ") return "application/x-msdownload"
+  if (startsWith(buf, [0x7f, 0x45, 0x4c, 0x46])) return "application/x-executable"
+  if (
+    startsWith(buf, [0xfe, 0xed, 0xfa, 0xce]) ||
+    startsWith(buf, [0xfe, 0xed, 0xfa, 0xcf]) ||
+    startsWith(buf, [0xce, 0xfa, 0xed, 0xfe]) ||
+    startsWith(buf, [0xcf, 0xfa, 0xed, 0xfe])
+  ) {
+    return "application/x-mach-binary"
+  }
+
+  if (ascii(buf, 0, 3) === "ID3" || startsWith(buf, [0xff, 0xfb])) return "audio/mpeg"
+  if (ascii(buf, 0, 4) === "OggS") return "audio/ogg"
+
+  if (looksLikeText(buf)) {
+    const head = buf.toString("utf8", 0, Math.min(buf.length, 1024)).replace(/^\uFEFF/, "").trimStart().toLowerCase()
+    if (head.startsWith("#!")) return "text/x-shellscript"
+    if (head.includes("<svg")) return "image/svg+xml"
+    if (head.startsWith("<!doctype html") || head.startsWith("<html")) return "text/html"
+    return "text/plain"
+  }
+
+  return OCTET
+}
+
+/**
+ * Tipo a gravar: o detetado, afinado pelo declarado quando o conteúdo não distingue
+ * (zip -> docx/…, texto -> csv/json/…). mismatch = declarado e conteúdo de famílias diferentes.
+ */
+export function resolveMime(
+  sniffed: string,
+  declared: string | null,
+  filename: string | null
+): { mime: string; mismatch: boolean } {
+  const d = normMime(declared)
+  if (!d) return { mime: sniffed, mismatch: false }
+  if (sniffed === "application/zip" && ZIP_CONTAINERS.has(d)) return { mime: d, mismatch: false }
+  if (sniffed === "text/plain") {
+    if (mimeFamily(d) === "text") return { mime: d, mismatch: false }
+    const byExt = textExtensionMime(filename, d)
+    if (byExt) return { mime: byExt, mismatch: false }
+  }
+  // binário sem assinatura conhecida: só se confia no declarado para tipos que não sabemos detetar
+  if (sniffed === OCTET) return { mime: mimeFamily(d) === "other" ? d : OCTET, mismatch: false }
+  return { mime: sniffed, mismatch: mimeFamily(sniffed) !== mimeFamily(d) }
+}
@@ -0,0 +1,72 @@
+/**
+ * =============================================
+ * Moduz+ | Billing
+ * Arquivo: lib/billing/local.ts
+ * Módulo: Core (Plano / Entitlements)
+ * Etapa: Provider local (v1.1 - mudança de plano numa RPC)
+ * Descrição:
+ *  - Stand-in offline do provider de billing (dev/testes/self-hosted): sem cobrança nem rede
+ *  - Mudança de plano é imediata; período renovado a cada mudança (30 dias)
+ *  - provider_ref = "local_<empresa_id>"
+ *  - changePlan via moduz_core_change_plan (assinatura + agendamentos cancelados + audits atómicos)
+ * =============================================
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ApiError } from "../admin/route-handler"
+import type { PlanKey } from "../../components/adm/plans"
+import {
+  SUBSCRIPTION_COLUMNS,
+  type BillingProvider,
+  type PlanChange,
+  type PlanChangeActor,
+  type SubscriptionRow,
+} from "./types"
+
+const PERIOD_MS = 30 * 24 * 60 * 60 * 1000
+
+function periodEnd() {
+  return new Date(Date.now() + PERIOD_MS).toISOString()
+}
+
+export const localBilling: BillingProvider = {
+  key: "local",
+
+  async ensureSubscription(admin: SupabaseClient, empresaId: string, plan: PlanKey) {
+    const { error } = await admin.from("subscriptions").upsert(
+      {
+        empresa_id: empresaId,
+        plan_key: plan,
+        status: "active",
+        provider: "local",
+        provider_ref: `local_${empresaId}`,
+        current_period_end: periodEnd(),
+      },
+      { onConflict: "empresa_id", ignoreDuplicates: true }
+    )
+    if (error) throw new ApiError(502, "BILLING_FAILED", error.message)
+
+    const { data, error: selErr } = await admin
+      .from("subscriptions")
+      .select(SUBSCRIPTION_COLUMNS)
+      .eq("empresa_id", empresaId)
+      .single()
+    if (selErr || !data) throw new ApiError(502, "BILLING_FAILED", selErr?.message ?? null)
+    return data as SubscriptionRow
+  },
+
+  async changePlan(admin: SupabaseClient, empresaId: string, plan: PlanKey, actor: PlanChangeActor) {
+    const { data, error } = await admin.rpc("moduz_core_change_plan", {
+      p_empresa_id: empresaId,
+      p_user_id: actor.user_id,
+      p_profile_id: actor.profile_id,
+      p_from_plan: actor.from_plan,
+      p_plan_key: plan,
+      p_provider: "local",
+      p_provider_ref: `local_${empresaId}`,
+      p_period_end: periodEnd(),
+    })
+    if (error || !data) throw new ApiError(502, "BILLING_FAILED", error?.message ?? null)
+    return data as PlanChange
+  },
+}
@@ -0,0 +1,37 @@
+/**
+ * =============================================
+ * Moduz+ | Billing
+ * Arquivo: lib/billing/provider.ts
+ * Módulo: Core (Plano / Entitlements)
+ * Etapa: Seleção do provider (v1)
+ * Descrição:
+ *  - Registo de providers (contrato BillingProvider em ./types)
+ *  - O provider é a única peça que escreve em public.subscriptions
+ *  - Escolha por env BILLING_PROVIDER (default "local": stand-in offline, sem cobrança real)
+ *  - Erros: ApiError (500 BILLING_PROVIDER_UNKNOWN, 502 BILLING_FAILED)
+ * =============================================
+ */
+
+import { ApiError } from "../admin/route-handler"
+import type { BillingProvider } from "./types"
+import { localBilling } from "./local"
+
+export {
+  SUBSCRIPTION_COLUMNS,
+  type BillingProvider,
+  type PlanChange,
+  type PlanChangeActor,
+  type SubscriptionRow,
+  type SubscriptionStatus,
+} from "./types"
+
+const PROVIDERS: Record<string, BillingProvider> = {
+  local: localBilling,
+}
+
+export function billingProvider(): BillingProvider {
+  const key = (process.env.BILLING_PROVIDER ?? "local").trim().toLowerCase() || "local"
+  const p = PROVIDERS[key]
+  if (!p) throw new ApiError(500, "BILLING_PROVIDER_UNKNOWN", key)
+  return p
+}
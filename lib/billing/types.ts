@@ -0,0 +1,56 @@
+/**
+ * =============================================
+ * Moduz+ | Billing
+ * Arquivo: lib/billing/types.ts
+ * Módulo: Core (Plano / Entitlements)
+ * Etapa: Contrato do provider (v1.1 - mudança de plano transacional)
+ * Descrição:
+ *  - BillingProvider: o que o Core precisa de quem cobra (assinatura + mudança de plano)
+ *  - SubscriptionRow: linha de public.subscriptions (20260123)
+ *  - PlanChange: assinatura + agendamentos cancelados pela mudança (moduz_core_change_plan, 20260203)
+ * =============================================
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { PlanKey } from "../../components/adm/plans"
+import type { ModuleScheduleRow } from "../admin/modules"
+
+export type SubscriptionStatus = "active" | "trialing" | "past_due" | "canceled"
+
+export type SubscriptionRow = {
+  id: string
+  empresa_id: string
+  plan_key: string
+  status: SubscriptionStatus
+  provider: string
+  provider_ref: string | null
+  current_period_end: string | null
+  created_at: string
+  updated_at: string
+}
+
+export const SUBSCRIPTION_COLUMNS =
+  "id, empresa_id, plan_key, status, provider, provider_ref, current_period_end, created_at, updated_at"
+
+/** Quem muda e de onde: vai para o audit PLAN_CHANGED gravado na mesma transação. */
+export type PlanChangeActor = {
+  user_id: string
+  profile_id: string
+  from_plan: string
+}
+
+export type PlanChange = {
+  subscription: SubscriptionRow
+  cancelled_schedules: ModuleScheduleRow[]
+}
+
+export type BillingProvider = {
+  key: string
+  /** Cria a assinatura se ainda não existir (idempotente); devolve a atual. */
+  ensureSubscription(admin: SupabaseClient, empresaId: string, plan: PlanKey): Promise<SubscriptionRow>
+  /**
+   * Muda o plano (upgrade/downgrade) e cancela as ativações agendadas fora do plano novo, com os
+   * audits, numa só transação; validações de uso ficam no chamador.
+   */
+  changePlan(admin: SupabaseClient, empresaId: string, plan: PlanKey, actor: PlanChangeActor): Promise<PlanChange>
+}
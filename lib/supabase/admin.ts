@@ -0,0 +1,26 @@
+/**
+ * =============================================
+ * Moduz+ | Supabase Admin (Service Role)
+ * Arquivo: lib/supabase/admin.ts
+ * Módulo: Core (API Admin)
+ * Etapa: Cliente service role partilhado (v1)
+ * Descrição:
+ *  - Cliente Supabase com SUPABASE_SERVICE_ROLE_KEY (ignora RLS)
+ *  - Uso exclusivo server-side (route handlers em /api/admin/**)
+ *  - Sem persistência de sessão (stateless por request)
+ * =============================================
+ */
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+
+function requiredEnv(name: string) {
+  const v = process.env[name]
+  if (!v) throw new Error(`Missing env: ${name}`)
+  return v
+}
+
+export function supabaseAdmin(): SupabaseClient {
+  return createClient(requiredEnv("NEXT_PUBLIC_SUPABASE_URL"), requiredEnv("SUPABASE_SERVICE_ROLE_KEY"), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -1,5 +1,6 @@
 import { NextResponse, type NextRequest } from "next/server";
 import { createServerClient } from "@supabase/ssr";
+import { ACTIVE_EMPRESA_HEADER, resolveActiveEmpresaId } from "./lib/admin/active-empresa";
 
 function env(name: string): string {
   const v = process.env[name];
@@ -8,7 +9,11 @@ function env(name: string): string {
 }
 
 export async function middleware(req: NextRequest) {
-  let res = NextResponse.next({ request: { headers: req.headers } });
+  // empresa ativa só é confiável se vier daqui (nunca do browser)
+  const requestHeaders = new Headers(req.headers);
+  requestHeaders.delete(ACTIVE_EMPRESA_HEADER);
+
+  let res = NextResponse.next({ request: { headers: requestHeaders } });
 
   const supabase = createServerClient(env("NEXT_PUBLIC_SUPABASE_URL"), env("NEXT_PUBLIC_SUPABASE_ANON_KEY"), {
     cookies: {
@@ -25,7 +30,19 @@ export async function middleware(req: NextRequest) {
   });
 
   // isto força o SSR a manter cookies de sessão sincronizados
-  await supabase.auth.getUser();
+  const { data } = await supabase.auth.getUser();
+
+  // /api/admin/**: resolve + valida a empresa ativa (user_preferences ∩ profiles ativos)
+  if (data?.user && req.nextUrl.pathname.startsWith("/api/admin/")) {
+    const empresaId = await resolveActiveEmpresaId(supabase);
+    if (empresaId) {
+      requestHeaders.set(ACTIVE_EMPRESA_HEADER, empresaId);
+
+      const next = NextResponse.next({ request: { headers: requestHeaders } });
+      res.cookies.getAll().forEach((c) => next.cookies.set(c));
+      res = next;
+    }
+  }
 
   return res;
 }
@@ -0,0 +1,4 @@
+// GERADO por scripts/modules-sync.mjs a partir de modules/*/manifest.ts (não editar à mão)
+// Módulos extra (manifests): entram no registry (components/adm/module-registry.ts)
+
+export const MODULE_MANIFESTS = [] as const
@@ -0,0 +1,322 @@
+/**
+ * =============================================
+ * Moduz+ | Scripts
+ * Arquivo: scripts/modules-sync.mjs
+ * Módulo: Core (Gestão de Módulos)
+ * Etapa: Registry -> SQL (v2.2 - módulos por plano)
+ * Descrição:
+ *  - Lê components/adm/module-registry.ts (transpilado com o typescript do projeto, com os imports relativos)
+ *  - Manifests (modules/<key>/manifest.ts): gera modules/index.ts e copia modules/<key>/migrations/*.sql
+ *    para supabase/migrations (nome YYYYMMDD_<key>_<nome>.sql; um ficheiro copiado não pode mudar depois)
+ *  - Gera o SQL das chaves de módulos: check constraint, moduz_core_module_keys() e seed
+ *  - Gera também moduz_core_plan_modules() a partir de components/adm/plans.ts (o SQL que aplica
+ *    agendamentos confirma o plano sem duplicar o catálogo à mão)
+ *  - node scripts/modules-sync.mjs          -> escreve nova migration se o registry mudou
+ *  - node scripts/modules-sync.mjs --check  -> exit 1 se a última migration gerada, o modules/index.ts
+ *    ou as migrations dos manifests divergirem
+ *  - Valida também o próprio registry (chaves únicas, requires válidos e sem ciclos, core ativo,
+ *    secções com chave única, href em /adm e permissão do catálogo do módulo) e os módulos dos planos
+ * =============================================
+ */
+
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "node:fs"
+import { dirname, join, resolve } from "node:path"
+import { fileURLToPath } from "node:url"
+import ts from "typescript"
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..")
+const REGISTRY = join(ROOT, "components/adm/module-registry.ts")
+const PLANS_FILE = join(ROOT, "components/adm/plans.ts")
+const MIGRATIONS = join(ROOT, "supabase/migrations")
+const MANIFESTS_DIR = join(ROOT, "modules")
+const MANIFESTS_INDEX = join(MANIFESTS_DIR, "index.ts")
+const SUFFIX = "_core_module_registry.sql"
+
+function resolveTs(from, spec) {
+  const base = resolve(dirname(from), spec)
+  const hit = [`${base}.ts`, join(base, "index.ts"), base].find((f) => existsSync(f) && f.endsWith(".ts"))
+  if (!hit) throw new Error(`import não resolvido em ${from}: ${spec}`)
+  return hit
+}
+
+/** .ts -> data: URL; imports relativos viram data: URLs (recursivo). "import type" desaparece no transpile. */
+function toDataUrl(file, stack = []) {
+  if (stack.includes(file)) throw new Error(`ciclo de imports: ${[...stack, file].join(" -> ")}`)
+  const { outputText } = ts.transpileModule(readFileSync(file, "utf8"), {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  })
+  const code = outputText.replace(
+    /(\bfrom\s*|\bimport\s*)(["'])(\.{1,2}\/[^"']*)\2/g,
+    (_, pre, q, spec) => `${pre}${q}${toDataUrl(resolveTs(file, spec), [...stack, file])}${q}`
+  )
+  return `data:text/javascript;base64,${Buffer.from(code).toString("base64")}`
+}
+
+async function loadRegistry() {
+  const [registry, plans] = await Promise.all([import(toDataUrl(REGISTRY)), import(toDataUrl(PLANS_FILE))])
+  return { ...registry, PLAN_KEYS: plans.PLAN_KEYS, PLANS: plans.PLANS, DEFAULT_PLAN: plans.DEFAULT_PLAN }
+}
+
+/** Pastas modules/<key>/ com manifest.ts (ordem alfabética = ordem no registry). */
+function manifestDirs() {
+  if (!existsSync(MANIFESTS_DIR)) return []
+  return readdirSync(MANIFESTS_DIR, { withFileTypes: true })
+    .filter((d) => d.isDirectory() && existsSync(join(MANIFESTS_DIR, d.name, "manifest.ts")))
+    .map((d) => d.name)
+    .sort()
+}
+
+function ident(dir) {
+  return `m_${dir.replace(/[^a-zA-Z0-9_]/g, "_")}`
+}
+
+function renderManifestsIndex(dirs) {
+  const imports = dirs.map((d) => `import ${ident(d)} from "./${d}/manifest"\n`).join("")
+  return `// GERADO por scripts/modules-sync.mjs a partir de modules/*/manifest.ts (não editar à mão)
+// Módulos extra (manifests): entram no registry (components/adm/module-registry.ts)
+${imports ? `\n${imports}` : ""}
+export const MODULE_MANIFESTS = [${dirs.map(ident).join(", ")}] as const
+`
+}
+
+/** Migrations dos manifests: [{ key, file, src }] */
+function manifestMigrations(dirs) {
+  return dirs.flatMap((d) => {
+    const dir = join(MANIFESTS_DIR, d, "migrations")
+    if (!existsSync(dir)) return []
+    return readdirSync(dir)
+      .filter((f) => f.endsWith(".sql"))
+      .sort()
+      .map((f) => ({ key: d, file: f, src: readFileSync(join(dir, f), "utf8") }))
+  })
+}
+
+function validate({ MODULE_KEYS, MODULES, PLAN_KEYS, PLANS, DEFAULT_PLAN }) {
+  const errors = []
+  const keys = [...MODULE_KEYS]
+
+  if (new Set(keys).size !== keys.length) errors.push("MODULE_KEYS tem chaves repetidas")
+  for (const k of keys) {
+    if (!/^[a-z][a-z0-9_]{1,31}$/.test(k)) errors.push(`chave inválida: ${k}`)
+    if (!MODULES[k]) errors.push(`MODULES sem entrada para: ${k}`)
+  }
+  for (const k of Object.keys(MODULES)) {
+    if (!keys.includes(k)) errors.push(`MODULES.${k} não está em MODULE_KEYS`)
+    for (const d of MODULES[k].requires ?? []) {
+      if (!keys.includes(d)) errors.push(`MODULES.${k}.requires: chave desconhecida ${d}`)
+    }
+  }
+  if (!MODULES.core?.defaultEnabled) errors.push("core tem de ter defaultEnabled: true")
+
+  for (const k of keys) {
+    const sections = MODULES[k]?.sections ?? []
+    const declared = (MODULES[k]?.permissions ?? []).map((p) => p.key)
+    if (new Set(sections.map((x) => x.key)).size !== sections.length) errors.push(`MODULES.${k}.sections: chaves repetidas`)
+    for (const x of sections) {
+      if (x.href !== "/adm" && !x.href.startsWith("/adm/")) errors.push(`MODULES.${k}.sections.${x.key}: href fora de /adm`)
+      if (x.permission && !declared.includes(x.permission)) {
+        errors.push(`MODULES.${k}.sections.${x.key}: permissão ${x.permission} não declarada no módulo`)
+      }
+    }
+  }
+
+  for (const k of keys.filter((x) => MODULES[x]?.manifest)) {
+    for (const p of MODULES[k].permissions ?? []) {
+      if (!p.key.startsWith(`${k}:`)) errors.push(`MODULES.${k}.permissions: ${p.key} tem de começar por "${k}:"`)
+    }
+    if (MODULES[k].settings?.length && !MODULES[k].settings.every((f) => /^[a-z][a-z0-9_]*$/.test(f.key))) {
+      errors.push(`MODULES.${k}.settings: chaves de campo inválidas`)
+    }
+  }
+
+  for (const p of PLAN_KEYS) {
+    if (!PLANS[p]) errors.push(`PLANS sem entrada para: ${p}`)
+    for (const k of PLANS[p]?.modules ?? []) {
+      if (!keys.includes(k)) errors.push(`PLANS.${p}.modules: chave desconhecida ${k}`)
+    }
+  }
+  if (!PLAN_KEYS.includes(DEFAULT_PLAN)) errors.push(`DEFAULT_PLAN desconhecido: ${DEFAULT_PLAN}`)
+
+  // ciclos em requires
+  const state = {}
+  const visit = (k, path) => {
+    if (state[k] === "done") return
+    if (state[k] === "open") {
+      errors.push(`ciclo em requires: ${[...path, k].join(" -> ")}`)
+      return
+    }
+    state[k] = "open"
+    for (const d of MODULES[k]?.requires ?? []) visit(d, [...path, k])
+    state[k] = "done"
+  }
+  keys.forEach((k) => visit(k, []))
+
+  return errors
+}
+
+function renderSql({ MODULE_KEYS, MODULES, PLAN_KEYS, PLANS, DEFAULT_PLAN }) {
+  const keys = [...MODULE_KEYS]
+  const list = keys.map((k) => `'${k}'`).join(", ")
+  const seed = keys
+    .map((k) =>
+      MODULES[k].defaultEnabled
+        ? `    (p_empresa_id, '${k}', true, now())`
+        : `    (p_empresa_id, '${k}', false, null)`
+    )
+    .join(",\n")
+  // core está sempre incluído (planIncludesModule)
+  const planArray = (p) => `array[${["core", ...PLANS[p].modules].map((k) => `'${k}'`).join(", ")}]::text[]`
+  const planCases = PLAN_KEYS.map((p) => `    when '${p}' then ${planArray(p)}`).join("\n")
+
+  return `-- GERADO por scripts/modules-sync.mjs a partir de components/adm/module-registry.ts e plans.ts (não editar à mão)
+-- Core: chaves de módulos
+-- - check constraint modules_enabled_module_key_chk
+-- - moduz_core_module_keys(): lista canónica (ordem do registry)
+-- - moduz_core_seed_modules(): estado inicial (defaultEnabled)
+-- - moduz_core_plan_modules(): módulos incluídos em cada plano (desconhecido/null -> DEFAULT_PLAN)
+-- Remover um módulo exige antes apagar/migrar as linhas dele em modules_enabled.
+-- Idempotente.
+
+begin;
+
+alter table public.modules_enabled drop constraint if exists modules_enabled_module_key_chk;
+alter table public.modules_enabled
+  add constraint modules_enabled_module_key_chk
+  check (module_key in (${list}));
+
+create or replace function public.moduz_core_module_keys()
+returns text[]
+language sql
+immutable
+as $fn$
+  select array[${list}]::text[]
+$fn$;
+
+create or replace function public.moduz_core_seed_modules(p_empresa_id uuid)
+returns void
+language plpgsql
+security definer
+as $fn$
+begin
+  insert into public.modules_enabled (empresa_id, module_key, enabled, enabled_at)
+  values
+${seed}
+  on conflict (empresa_id, module_key) do nothing;
+end;
+$fn$;
+
+create or replace function public.moduz_core_plan_modules(p_plan_key text)
+returns text[]
+language sql
+immutable
+as $fn$
+  select case p_plan_key
+${planCases}
+    else ${planArray(DEFAULT_PLAN)}
+  end
+$fn$;
+
+commit;
+`
+}
+
+function ymd(d) {
+  return d.toISOString().slice(0, 10).replace(/-/g, "")
+}
+
+/** Dia seguinte à última migration datada (garante que a gerada corre depois de todas). */
+function nextMigrationDate(files) {
+  const last = files.map((f) => f.slice(0, 8)).filter((p) => /^\d{8}$/.test(p)).sort().pop()
+  if (!last) return ymd(new Date())
+  const d = new Date(`${last.slice(0, 4)}-${last.slice(4, 6)}-${last.slice(6, 8)}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + 1)
+  return ymd(d)
+}
+
+/** Corpo sem a 1ª linha (nome do ficheiro) — é o que se compara. */
+function bodyOf(text) {
+  return text.split("\n").slice(1).join("\n")
+}
+
+function syncManifests(check) {
+  const dirs = manifestDirs()
+  const errors = []
+  let changed = 0
+
+  const index = renderManifestsIndex(dirs)
+  const currentIndex = existsSync(MANIFESTS_INDEX) ? readFileSync(MANIFESTS_INDEX, "utf8") : null
+  if (currentIndex !== index) {
+    if (check) errors.push(`modules/index.ts desatualizado: corre "npm run modules:sync"`)
+    else {
+      writeFileSync(MANIFESTS_INDEX, index)
+      console.log("gerado modules/index.ts")
+      changed++
+    }
+  }
+
+  for (const m of manifestMigrations(dirs)) {
+    if (!new RegExp(`^\\d{8}_${m.key}_[a-z0-9_]+\\.sql$`).test(m.file)) {
+      errors.push(`modules/${m.key}/migrations/${m.file}: nome tem de ser YYYYMMDD_${m.key}_<nome>.sql`)
+      continue
+    }
+    const target = join(MIGRATIONS, m.file)
+    if (!existsSync(target)) {
+      if (check) errors.push(`migration de ${m.key} por copiar: ${m.file} (corre "npm run modules:sync")`)
+      else {
+        writeFileSync(target, m.src)
+        console.log(`copiado supabase/migrations/${m.file}`)
+        changed++
+      }
+    } else if (readFileSync(target, "utf8") !== m.src) {
+      errors.push(`supabase/migrations/${m.file} diverge de modules/${m.key}/migrations (migrations aplicadas não mudam: cria outra)`)
+    }
+  }
+
+  return { errors, changed }
+}
+
+async function main() {
+  const check = process.argv.includes("--check")
+
+  const synced = syncManifests(check)
+  if (synced.errors.length) {
+    console.error("manifests de módulos:\n - " + synced.errors.join("\n - "))
+    process.exit(1)
+  }
+
+  const registry = await loadRegistry()
+
+  const errors = validate(registry)
+  if (errors.length) {
+    console.error("module-registry inválido:\n - " + errors.join("\n - "))
+    process.exit(1)
+  }
+
+  const body = renderSql(registry)
+  const files = readdirSync(MIGRATIONS).sort()
+  const latest = files.filter((f) => f.endsWith(SUFFIX)).pop()
+  const current = latest ? bodyOf(readFileSync(join(MIGRATIONS, latest), "utf8")) : null
+
+  if (current === body) {
+    console.log(`módulos em dia (${latest})`)
+    return
+  }
+
+  if (check) {
+    console.error(
+      latest
+        ? `module-registry diverge de supabase/migrations/${latest}: corre "npm run modules:sync"`
+        : `sem migration gerada (*${SUFFIX}): corre "npm run modules:sync"`
+    )
+    process.exit(1)
+  }
+
+  const name = `${nextMigrationDate(files)}${SUFFIX}`
+  writeFileSync(join(MIGRATIONS, name), `-- ${name}\n${body}`)
+  console.log(`gerado supabase/migrations/${name}`)
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
@@ -0,0 +1,93 @@
+-- 20260110_core_roles_permissions.sql
+-- Core: papéis (roles) por empresa com permissões granulares por módulo
+-- - roles: conjunto nomeado de permissões ("docs:read", "finance:approve", ...)
+-- - profile_roles: atribuição de roles a profiles (N:N, por empresa)
+-- - moduz_role (admin/interno/externo) mantém-se como papel base:
+--     - admin: todas as permissões (implícito)
+--     - interno/externo: união das roles atribuídas (ou defaults do código se não tiver nenhuma)
+-- Idempotente.
+
+begin;
+
+create extension if not exists pgcrypto;
+
+-- =========================================================
+-- 1) roles
+-- =========================================================
+create table if not exists public.roles (
+  id          uuid primary key default gen_random_uuid(),
+  empresa_id  uuid not null references public.empresas(id) on delete cascade,
+  key         text not null,
+  nome        text not null,
+  descricao   text null,
+  permissions text[] not null default '{}'::text[],
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now(),
+  constraint roles_empresa_key_unique unique (empresa_id, key),
+  constraint roles_key_chk check (key ~ '^[a-z0-9_-]{2,40}$')
+);
+
+create index if not exists roles_empresa_idx on public.roles (empresa_id);
+
+drop trigger if exists set_updated_at_roles on public.roles;
+create trigger set_updated_at_roles
+before update on public.roles
+for each row execute function public.tg_set_updated_at();
+
+-- =========================================================
+-- 2) profile_roles
+-- =========================================================
+create table if not exists public.profile_roles (
+  id          uuid primary key default gen_random_uuid(),
+  empresa_id  uuid not null references public.empresas(id) on delete cascade,
+  profile_id  uuid not null references public.profiles(id) on delete cascade,
+  role_id     uuid not null references public.roles(id) on delete cascade,
+  created_at  timestamptz not null default now(),
+  constraint profile_roles_unique unique (profile_id, role_id)
+);
+
+create index if not exists profile_roles_empresa_idx on public.profile_roles (empresa_id);
+create index if not exists profile_roles_profile_idx on public.profile_roles (profile_id);
+
+-- =========================================================
+-- 3) RLS (leitura por membros; escrita via service role nas APIs admin)
+-- =========================================================
+alter table public.roles enable row level security;
+alter table public.profile_roles enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='roles' and policyname='roles_select_membership') then
+    create policy roles_select_membership
+    on public.roles
+    for select
+    to authenticated
+    using (
+      exists (
+        select 1
+        from public.profiles p
+        where p.empresa_id = roles.empresa_id
+          and p.user_id = auth.uid()
+          and p.ativo = true
+      )
+    );
+  end if;
+
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='profile_roles' and policyname='profile_roles_select_membership') then
+    create policy profile_roles_select_membership
+    on public.profile_roles
+    for select
+    to authenticated
+    using (
+      exists (
+        select 1
+        from public.profiles p
+        where p.empresa_id = profile_roles.empresa_id
+          and p.user_id = auth.uid()
+          and p.ativo = true
+      )
+    );
+  end if;
+end $$;
+
+commit;
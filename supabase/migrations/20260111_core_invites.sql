@@ -0,0 +1,42 @@
+-- 20260111_core_invites.sql
+-- Core: convites por email (admin inicia → user define a própria senha)
+-- - invites: convite pendente por empresa com role e validade
+-- - token guardado apenas como hash (sha256 hex); o token em claro só viaja no link do email
+-- - status: pending | accepted | revoked (expiração derivada de expires_at)
+-- Idempotente.
+
+begin;
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.invites (
+  id               uuid primary key default gen_random_uuid(),
+  empresa_id       uuid not null references public.empresas(id) on delete cascade,
+  email            text not null,
+  role             public.moduz_role not null default 'interno',
+  display_name     text null,
+  token_hash       text not null,
+  status           text not null default 'pending',
+  expires_at       timestamptz not null,
+  invited_by       uuid null, -- auth.users.id
+  accepted_by      uuid null, -- auth.users.id
+  accepted_at      timestamptz null,
+  revoked_at       timestamptz null,
+  created_at       timestamptz not null default now(),
+  updated_at       timestamptz not null default now(),
+  constraint invites_status_chk check (status in ('pending', 'accepted', 'revoked')),
+  constraint invites_token_hash_unique unique (token_hash)
+);
+
+create index if not exists invites_empresa_idx on public.invites (empresa_id, created_at desc);
+create index if not exists invites_email_idx on public.invites (lower(email));
+
+drop trigger if exists set_updated_at_invites on public.invites;
+create trigger set_updated_at_invites
+before update on public.invites
+for each row execute function public.tg_set_updated_at();
+
+-- RLS: sem policies para authenticated (leitura/escrita apenas via service role nas APIs)
+alter table public.invites enable row level security;
+
+commit;
@@ -0,0 +1,70 @@
+-- 20260112_core_user_preferences.sql
+-- Core: empresa ativa server-side (substitui localStorage moduz_empresa_id)
+-- - user_preferences: 1 linha por user (auth.users), guarda active_empresa_id
+-- - moduz_active_empresa_id(): empresa ativa VALIDADA do user autenticado
+--     - preferência, se o user tiver profile ativo nessa empresa
+--     - senão, 1ª empresa (created_at) com profile ativo
+--   Usada pelo middleware.ts (x-moduz-empresa-id em /api/admin/**) e pelo kernel admin.
+-- Idempotente.
+
+begin;
+
+create table if not exists public.user_preferences (
+  user_id            uuid primary key, -- auth.users.id
+  active_empresa_id  uuid null references public.empresas(id) on delete set null,
+  created_at         timestamptz not null default now(),
+  updated_at         timestamptz not null default now()
+);
+
+drop trigger if exists set_updated_at_user_preferences on public.user_preferences;
+create trigger set_updated_at_user_preferences
+before update on public.user_preferences
+for each row execute function public.tg_set_updated_at();
+
+alter table public.user_preferences enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='user_preferences' and policyname='user_preferences_select_own') then
+    create policy user_preferences_select_own
+    on public.user_preferences
+    for select
+    to authenticated
+    using (user_id = auth.uid());
+  end if;
+end $$;
+
+-- escrita apenas via service role (API valida a membership antes de gravar)
+
+create or replace function public.moduz_active_empresa_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $fn$
+  select coalesce(
+    (
+      select up.active_empresa_id
+      from public.user_preferences up
+      join public.profiles p
+        on p.empresa_id = up.active_empresa_id
+       and p.user_id = up.user_id
+       and p.ativo = true
+      where up.user_id = auth.uid()
+    ),
+    (
+      select p.empresa_id
+      from public.profiles p
+      where p.user_id = auth.uid()
+        and p.ativo = true
+      order by p.created_at asc
+      limit 1
+    )
+  )
+$fn$;
+
+revoke all on function public.moduz_active_empresa_id() from public;
+grant execute on function public.moduz_active_empresa_id() to authenticated;
+
+commit;
@@ -0,0 +1,96 @@
+-- 20260113_core_onboarding.sql
+-- Core: criação de empresa (onboarding) numa única transação
+-- - moduz_core_create_empresa(): empresa + seed modules_enabled + módulos escolhidos
+--   + settings + 1º profile admin + empresa ativa do criador + audit EMPRESA_CREATED
+-- - Chamada apenas pela API (service role): POST /api/admin/core/empresas/create
+-- - Convites dos primeiros utilizadores ficam fora (email não é transacional)
+-- Idempotente.
+
+begin;
+
+create or replace function public.moduz_core_create_empresa(
+  p_user_id      uuid,
+  p_nome         text,
+  p_slug         text,
+  p_timezone     text,
+  p_locale       text,
+  p_currency     text,
+  p_modules      text[],
+  p_display_name text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_empresa_id uuid;
+  v_profile_id uuid;
+  v_modules    text[] := coalesce(p_modules, '{}'::text[]);
+begin
+  if p_user_id is null then
+    raise exception 'MISSING_USER_ID';
+  end if;
+  if coalesce(btrim(p_nome), '') = '' then
+    raise exception 'INVALID_NOME';
+  end if;
+
+  -- 1) empresa
+  insert into public.empresas (nome, slug)
+  values (btrim(p_nome), nullif(btrim(coalesce(p_slug, '')), ''))
+  returning id into v_empresa_id;
+
+  -- 2) módulos: seed + escolha do wizard (core sempre ligado)
+  perform public.moduz_core_seed_modules(v_empresa_id);
+
+  update public.modules_enabled
+     set enabled = (module_key = 'core' or module_key = any(v_modules)),
+         enabled_at = case
+           when (module_key = 'core' or module_key = any(v_modules)) then coalesce(enabled_at, now())
+           else enabled_at
+         end
+   where empresa_id = v_empresa_id;
+
+  -- 3) settings
+  insert into public.settings (empresa_id, timezone, locale, currency)
+  values (
+    v_empresa_id,
+    coalesce(nullif(btrim(p_timezone), ''), 'Europe/Lisbon'),
+    coalesce(nullif(btrim(p_locale), ''), 'pt-PT'),
+    coalesce(nullif(btrim(p_currency), ''), 'EUR')
+  );
+
+  -- 4) 1º admin
+  insert into public.profiles (empresa_id, user_id, role, ativo, display_name)
+  values (v_empresa_id, p_user_id, 'admin', true, nullif(btrim(coalesce(p_display_name, '')), ''))
+  returning id into v_profile_id;
+
+  -- 5) empresa ativa do criador
+  insert into public.user_preferences (user_id, active_empresa_id)
+  values (p_user_id, v_empresa_id)
+  on conflict (user_id) do update set active_empresa_id = excluded.active_empresa_id;
+
+  -- 6) audit (mesma transação)
+  insert into public.audit_log (
+    empresa_id, actor_user_id, actor_profile_id, action, entity, entity_table, entity_id, payload
+  )
+  values (
+    v_empresa_id, p_user_id, v_profile_id, 'EMPRESA_CREATED', 'empresas', 'empresas', v_empresa_id,
+    jsonb_build_object(
+      'nome', btrim(p_nome),
+      'timezone', p_timezone,
+      'locale', p_locale,
+      'currency', p_currency,
+      'modules', to_jsonb(v_modules)
+    )
+  );
+
+  return v_empresa_id;
+end;
+$fn$;
+
+revoke all on function public.moduz_core_create_empresa(uuid, text, text, text, text, text, text[], text) from public;
+revoke all on function public.moduz_core_create_empresa(uuid, text, text, text, text, text, text[], text) from anon, authenticated;
+grant execute on function public.moduz_core_create_empresa(uuid, text, text, text, text, text, text[], text) to service_role;
+
+commit;
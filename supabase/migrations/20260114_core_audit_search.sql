@@ -0,0 +1,36 @@
+-- 20260114_core_audit_search.sql
+-- Core: pesquisa textual no audit_log (filtros/exportação em /api/admin/core/audit/*)
+-- - audit_search_text(audit_log): coluna computada (PostgREST) com action/entity/payload/metadata em minúsculas
+--   filtrável via ?audit_search_text=ilike.*termo*
+-- - índice trigram para o ilike não varrer a tabela
+-- - índices para filtros frequentes (action, actor)
+-- Idempotente.
+
+begin;
+
+create extension if not exists pg_trgm;
+
+create or replace function public.audit_search_text(a public.audit_log)
+returns text
+language sql
+immutable
+as $fn$
+  select lower(
+    coalesce(a.action, '') || ' ' ||
+    coalesce(a.entity, '') || ' ' ||
+    coalesce(a.entity_table, '') || ' ' ||
+    coalesce(a.payload::text, '') || ' ' ||
+    coalesce(a.metadata::text, '')
+  )
+$fn$;
+
+create index if not exists audit_log_search_trgm_idx
+  on public.audit_log using gin (public.audit_search_text(audit_log) gin_trgm_ops);
+
+create index if not exists audit_log_empresa_action_created_idx
+  on public.audit_log (empresa_id, action, created_at desc);
+
+create index if not exists audit_log_empresa_actor_created_idx
+  on public.audit_log (empresa_id, actor_user_id, created_at desc);
+
+commit;
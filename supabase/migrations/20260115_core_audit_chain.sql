@@ -0,0 +1,197 @@
+-- 20260115_core_audit_chain.sql
+-- Core: audit_log tamper-evident (cadeia de hashes por empresa)
+-- - chain_seq / prev_hash / hash: cada linha encadeia no hash da linha anterior da mesma empresa
+-- - hash calculado na BD (trigger before insert) -> nenhuma rota precisa de saber do encadeamento
+-- - audit_log passa a append-only (update/delete bloqueados; exceção: cascade ao apagar a empresa)
+-- - moduz_audit_verify_chain(): recalcula a cadeia e devolve o 1º elo quebrado
+--   (usado por GET /api/admin/core/audit/verify)
+-- - Backfill das linhas existentes por (created_at, id)
+-- Idempotente.
+
+begin;
+
+create extension if not exists pgcrypto;
+
+alter table public.audit_log
+  add column if not exists chain_seq bigint,
+  add column if not exists prev_hash text,
+  add column if not exists hash text;
+
+-- Hash canónico de uma linha (prev_hash + campos imutáveis; jsonb::text é normalizado)
+create or replace function public.audit_row_hash(p_prev_hash text, a public.audit_log)
+returns text
+language sql
+immutable
+set search_path = public, extensions
+as $fn$
+  select encode(
+    digest(
+      coalesce(p_prev_hash, '') || '|' ||
+      a.chain_seq::text || '|' ||
+      a.id::text || '|' ||
+      a.empresa_id::text || '|' ||
+      coalesce(a.actor_user_id::text, '') || '|' ||
+      coalesce(a.actor_profile_id::text, '') || '|' ||
+      a.action || '|' ||
+      coalesce(a.entity, '') || '|' ||
+      coalesce(a.entity_table, '') || '|' ||
+      coalesce(a.entity_id::text, '') || '|' ||
+      coalesce(a.payload::text, '') || '|' ||
+      coalesce(a.metadata::text, '') || '|' ||
+      to_char(a.created_at at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US'),
+      'sha256'
+    ),
+    'hex'
+  )
+$fn$;
+
+-- Backfill (antes do guard append-only; só linhas ainda sem hash)
+do $$
+declare
+  r        record;
+  v_emp    uuid := null;
+  v_seq    bigint;
+  v_prev   text;
+begin
+  for r in
+    select a.*
+      from public.audit_log a
+     where a.empresa_id in (select distinct empresa_id from public.audit_log where hash is null)
+     order by a.empresa_id, a.chain_seq nulls last, a.created_at, a.id
+  loop
+    if v_emp is distinct from r.empresa_id then
+      v_emp := r.empresa_id;
+      v_seq := 0;
+      v_prev := null;
+    end if;
+
+    if r.hash is not null then
+      v_seq := r.chain_seq;
+      v_prev := r.hash;
+      continue;
+    end if;
+
+    v_seq := v_seq + 1;
+    r.chain_seq := v_seq;
+    r.prev_hash := v_prev;
+    r.hash := public.audit_row_hash(v_prev, r::public.audit_log);
+
+    update public.audit_log
+       set chain_seq = r.chain_seq, prev_hash = r.prev_hash, hash = r.hash
+     where id = r.id;
+
+    v_prev := r.hash;
+  end loop;
+end$$;
+
+create unique index if not exists audit_log_empresa_chain_seq_uidx
+  on public.audit_log (empresa_id, chain_seq);
+
+-- Encadeamento no insert (lock por empresa serializa inserts concorrentes)
+create or replace function public.tg_audit_log_chain()
+returns trigger
+language plpgsql
+set search_path = public, extensions
+as $fn$
+declare
+  v_seq  bigint;
+  v_prev text;
+begin
+  perform pg_advisory_xact_lock(hashtextextended('audit_log:' || new.empresa_id::text, 0));
+
+  select a.chain_seq, a.hash
+    into v_seq, v_prev
+    from public.audit_log a
+   where a.empresa_id = new.empresa_id
+   order by a.chain_seq desc
+   limit 1;
+
+  new.chain_seq := coalesce(v_seq, 0) + 1;
+  new.prev_hash := v_prev;
+  new.hash := public.audit_row_hash(v_prev, new);
+  return new;
+end;
+$fn$;
+
+drop trigger if exists trg_audit_log_chain on public.audit_log;
+create trigger trg_audit_log_chain
+before insert on public.audit_log
+for each row execute function public.tg_audit_log_chain();
+
+-- Append-only
+create or replace function public.tg_audit_log_append_only()
+returns trigger
+language plpgsql
+set search_path = public
+as $fn$
+begin
+  -- cascade de empresas (on delete cascade) continua a funcionar
+  if tg_op = 'DELETE' and not exists (select 1 from public.empresas e where e.id = old.empresa_id) then
+    return old;
+  end if;
+  raise exception 'AUDIT_LOG_APPEND_ONLY';
+end;
+$fn$;
+
+drop trigger if exists trg_audit_log_append_only on public.audit_log;
+create trigger trg_audit_log_append_only
+before update or delete on public.audit_log
+for each row execute function public.tg_audit_log_append_only();
+
+-- Verificação (1º elo quebrado por ordem de chain_seq)
+create or replace function public.moduz_audit_verify_chain(p_empresa_id uuid)
+returns table (
+  ok          boolean,
+  total       bigint,
+  head_seq    bigint,
+  head_hash   text,
+  broken_id   uuid,
+  broken_seq  bigint,
+  reason      text
+)
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $fn$
+declare
+  r        public.audit_log%rowtype;
+  v_total  bigint := 0;
+  v_prev   text := null;
+begin
+  for r in
+    select * from public.audit_log a
+     where a.empresa_id = p_empresa_id
+     order by a.chain_seq nulls last, a.created_at, a.id
+  loop
+    v_total := v_total + 1;
+
+    if r.hash is null or r.chain_seq is null then
+      return query select false, v_total, r.chain_seq, v_prev, r.id, r.chain_seq, 'MISSING_HASH'::text;
+      return;
+    end if;
+    if r.chain_seq <> v_total then
+      return query select false, v_total, r.chain_seq, v_prev, r.id, r.chain_seq, 'SEQ_GAP'::text;
+      return;
+    end if;
+    if r.prev_hash is distinct from v_prev then
+      return query select false, v_total, r.chain_seq, v_prev, r.id, r.chain_seq, 'PREV_HASH_MISMATCH'::text;
+      return;
+    end if;
+    if r.hash <> public.audit_row_hash(v_prev, r) then
+      return query select false, v_total, r.chain_seq, v_prev, r.id, r.chain_seq, 'HASH_MISMATCH'::text;
+      return;
+    end if;
+
+    v_prev := r.hash;
+  end loop;
+
+  return query select true, v_total, v_total, v_prev, null::uuid, null::bigint, null::text;
+end;
+$fn$;
+
+revoke all on function public.moduz_audit_verify_chain(uuid) from public;
+revoke all on function public.moduz_audit_verify_chain(uuid) from anon, authenticated;
+grant execute on function public.moduz_audit_verify_chain(uuid) to service_role;
+
+commit;
@@ -0,0 +1,278 @@
+-- 20260116_core_audit_atomic.sql
+-- Core: auditoria que não falha em silêncio
+-- - moduz_audit_insert(): insert canónico no audit_log (usado pelas RPCs abaixo)
+-- - Mutação + audit na mesma transação (falha do audit => rollback da mutação):
+--     moduz_core_toggle_module()   -> POST /api/admin/core/modules/toggle
+--     moduz_core_update_settings() -> POST /api/admin/core/settings/update
+--     moduz_docs_complete()        -> POST /api/admin/docs/complete
+-- - audit_outbox: restantes rotas (lib/admin/audit.recordAudit) enfileiram o evento se o insert direto falhar
+-- - moduz_audit_outbox_flush(): entrega pendentes (retry com attempts/last_error)
+--   chamado pelo GET /api/admin/core/audit/list e, se existir pg_cron, a cada minuto
+-- Idempotente.
+
+begin;
+
+-- =========================================================
+-- 1) Insert canónico
+-- =========================================================
+create or replace function public.moduz_audit_insert(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_action     text,
+  p_entity     text,
+  p_entity_id  uuid,
+  p_payload    jsonb,
+  p_created_at timestamptz default now()
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_id uuid;
+begin
+  insert into public.audit_log (
+    empresa_id, actor_user_id, actor_profile_id, action, entity, entity_table, entity_id, payload, metadata, created_at
+  )
+  values (
+    p_empresa_id, p_user_id, p_profile_id, p_action, p_entity, p_entity, p_entity_id,
+    coalesce(p_payload, '{}'::jsonb), '{}'::jsonb, coalesce(p_created_at, now())
+  )
+  returning id into v_id;
+
+  return v_id;
+end;
+$fn$;
+
+-- =========================================================
+-- 2) Mutações atómicas
+-- =========================================================
+create or replace function public.moduz_core_toggle_module(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_module_key text,
+  p_enabled    boolean
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row jsonb;
+begin
+  if p_module_key = 'core' and p_enabled = false then
+    raise exception 'CORE_CANNOT_BE_DISABLED';
+  end if;
+
+  perform public.moduz_core_seed_modules(p_empresa_id);
+
+  update public.modules_enabled
+     set enabled = p_enabled,
+         enabled_at = case when p_enabled then now() else enabled_at end
+   where empresa_id = p_empresa_id
+     and module_key = p_module_key
+  returning jsonb_build_object(
+    'module_key', module_key,
+    'enabled', enabled,
+    'enabled_at', enabled_at,
+    'updated_at', updated_at
+  ) into v_row;
+
+  if v_row is null then
+    raise exception 'MODULE_NOT_FOUND';
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'MODULE_TOGGLED', 'modules_enabled', null,
+    jsonb_build_object('module_key', p_module_key, 'enabled', p_enabled)
+  );
+
+  return v_row;
+end;
+$fn$;
+
+create or replace function public.moduz_core_update_settings(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_patch      jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row jsonb;
+begin
+  insert into public.settings (empresa_id)
+  values (p_empresa_id)
+  on conflict (empresa_id) do nothing;
+
+  update public.settings
+     set timezone = coalesce(p_patch->>'timezone', timezone),
+         locale   = coalesce(p_patch->>'locale', locale),
+         currency = coalesce(p_patch->>'currency', currency),
+         extras   = case when p_patch ? 'extras' then p_patch->'extras' else extras end
+   where empresa_id = p_empresa_id
+  returning jsonb_build_object(
+    'id', id,
+    'empresa_id', empresa_id,
+    'timezone', timezone,
+    'locale', locale,
+    'currency', currency,
+    'extras', extras,
+    'created_at', created_at,
+    'updated_at', updated_at
+  ) into v_row;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'SETTINGS_UPDATED', 'settings', (v_row->>'id')::uuid,
+    jsonb_build_object('patch', p_patch)
+  );
+
+  return v_row;
+end;
+$fn$;
+
+create or replace function public.moduz_docs_complete(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_doc_id     uuid,
+  p_patch      jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_id uuid;
+begin
+  update public.docs
+     set created_by = p_user_id,
+         filename   = coalesce(p_patch->>'filename', filename),
+         mime_type  = coalesce(p_patch->>'mime_type', mime_type),
+         size_bytes = coalesce((p_patch->>'size_bytes')::bigint, size_bytes)
+   where id = p_doc_id
+     and empresa_id = p_empresa_id
+  returning id into v_id;
+
+  if v_id is null then
+    raise exception 'DOC_NOT_FOUND';
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'DOC_UPLOADED', 'docs', p_doc_id,
+    jsonb_build_object(
+      'doc_id', p_doc_id,
+      'filename', p_patch->'filename',
+      'mime_type', p_patch->'mime_type',
+      'size_bytes', p_patch->'size_bytes'
+    )
+  );
+
+  return v_id;
+end;
+$fn$;
+
+-- =========================================================
+-- 3) Outbox (fallback das rotas sem RPC)
+-- =========================================================
+create table if not exists public.audit_outbox (
+  id           uuid primary key default gen_random_uuid(),
+  empresa_id   uuid not null,
+  event        jsonb not null,
+  attempts     int not null default 0,
+  last_error   text,
+  created_at   timestamptz not null default now(),
+  delivered_at timestamptz,
+  audit_id     uuid
+);
+
+create index if not exists audit_outbox_pending_idx
+  on public.audit_outbox (created_at)
+  where delivered_at is null;
+
+alter table public.audit_outbox enable row level security;
+-- sem policies: só service role
+
+create or replace function public.moduz_audit_outbox_flush(p_limit int default 100)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  r          public.audit_outbox%rowtype;
+  v_id       uuid;
+  v_done     int := 0;
+begin
+  for r in
+    select * from public.audit_outbox
+     where delivered_at is null
+     order by created_at
+     limit greatest(1, least(coalesce(p_limit, 100), 1000))
+     for update skip locked
+  loop
+    begin
+      v_id := public.moduz_audit_insert(
+        r.empresa_id,
+        nullif(r.event->>'actor_user_id', '')::uuid,
+        nullif(r.event->>'actor_profile_id', '')::uuid,
+        r.event->>'action',
+        r.event->>'entity',
+        nullif(r.event->>'entity_id', '')::uuid,
+        r.event->'payload',
+        r.created_at
+      );
+
+      update public.audit_outbox
+         set delivered_at = now(), audit_id = v_id, attempts = attempts + 1, last_error = null
+       where id = r.id;
+      v_done := v_done + 1;
+    exception
+      when others then
+        update public.audit_outbox
+           set attempts = attempts + 1, last_error = sqlerrm
+         where id = r.id;
+    end;
+  end loop;
+
+  return v_done;
+end;
+$fn$;
+
+-- =========================================================
+-- 4) Grants (só service role)
+-- =========================================================
+revoke all on function public.moduz_audit_insert(uuid, uuid, uuid, text, text, uuid, jsonb, timestamptz) from public, anon, authenticated;
+revoke all on function public.moduz_core_toggle_module(uuid, uuid, uuid, text, boolean) from public, anon, authenticated;
+revoke all on function public.moduz_core_update_settings(uuid, uuid, uuid, jsonb) from public, anon, authenticated;
+revoke all on function public.moduz_docs_complete(uuid, uuid, uuid, uuid, jsonb) from public, anon, authenticated;
+revoke all on function public.moduz_audit_outbox_flush(int) from public, anon, authenticated;
+
+grant execute on function public.moduz_audit_insert(uuid, uuid, uuid, text, text, uuid, jsonb, timestamptz) to service_role;
+grant execute on function public.moduz_core_toggle_module(uuid, uuid, uuid, text, boolean) to service_role;
+grant execute on function public.moduz_core_update_settings(uuid, uuid, uuid, jsonb) to service_role;
+grant execute on function public.moduz_docs_complete(uuid, uuid, uuid, uuid, jsonb) to service_role;
+grant execute on function public.moduz_audit_outbox_flush(int) to service_role;
+
+-- =========================================================
+-- 5) Retry periódico (opcional: só se pg_cron estiver ativo)
+-- =========================================================
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    if not exists (select 1 from cron.job where jobname = 'moduz_audit_outbox_flush') then
+      perform cron.schedule('moduz_audit_outbox_flush', '* * * * *', 'select public.moduz_audit_outbox_flush(500)');
+    end if;
+  end if;
+end$$;
+
+commit;
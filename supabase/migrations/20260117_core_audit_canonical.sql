@@ -0,0 +1,254 @@
+-- 20260117_core_audit_canonical.sql
+-- Core: audit_log com um único shape canónico
+--   id, empresa_id, actor_user_id, actor_profile_id, action, entity, entity_id, payload, created_at
+--   (+ chain_seq/prev_hash/hash de 20260115)
+-- - Backfill: entity <- entity_table; payload <- metadata || payload (payload ganha em conflito)
+-- - Remove colunas legadas entity_table/metadata (0001_core.sql) e torna payload NOT NULL
+-- - Redefine funções que as usavam: audit_search_text, audit_row_hash, moduz_audit_insert,
+--   moduz_core_create_empresa
+-- - Re-hash da cadeia (o hash passa a cobrir só colunas canónicas); só na execução que remove as
+--   colunas legadas (re-execuções não "reparam" linhas adulteradas), com o guard append-only
+--   desligado apenas dentro desta transação
+-- - Antes de tocar no audit_log, verifica a cadeia de cada empresa com o hash antigo
+--   (moduz_audit_verify_chain); se algum elo estiver quebrado a migração aborta — o re-hash
+--   nunca branqueia adulterações anteriores
+-- - Lista fechada de ações: lib/admin/audit.ts (AuditEvent)
+-- Idempotente.
+
+begin;
+
+do $$
+declare
+  v_emp uuid;
+  v     record;
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema='public' and table_name='audit_log' and column_name='entity_table'
+  ) then
+    -- 0) cadeia íntegra antes do re-hash (audit_row_hash ainda é a versão com colunas legadas)
+    for v_emp in select distinct empresa_id from public.audit_log loop
+      select * into v from public.moduz_audit_verify_chain(v_emp);
+      if not v.ok then
+        raise exception 'AUDIT_CHAIN_BROKEN: empresa % seq % (%)', v_emp, v.broken_seq, v.reason;
+      end if;
+    end loop;
+
+    alter table public.audit_log disable trigger trg_audit_log_append_only;
+
+    -- 1) backfill
+    update public.audit_log
+       set entity = coalesce(entity, entity_table),
+           payload = coalesce(metadata, '{}'::jsonb) || coalesce(payload, '{}'::jsonb)
+     where entity is null
+        or payload is null
+        or coalesce(metadata, '{}'::jsonb) <> '{}'::jsonb;
+
+    -- 2) dependências das colunas legadas
+    drop index if exists public.audit_log_search_trgm_idx;
+    drop index if exists public.audit_log_entity_idx;
+
+    alter table public.audit_log drop column entity_table;
+    alter table public.audit_log drop column if exists metadata;
+
+    alter table public.audit_log enable trigger trg_audit_log_append_only;
+
+    perform set_config('moduz.audit_rehash', 'on', true);
+  end if;
+end$$;
+
+alter table public.audit_log alter column payload set default '{}'::jsonb;
+alter table public.audit_log alter column payload set not null;
+
+create index if not exists audit_log_entity_idx
+  on public.audit_log (entity, entity_id);
+
+-- =========================================================
+-- Funções (shape canónico)
+-- =========================================================
+create or replace function public.audit_search_text(a public.audit_log)
+returns text
+language sql
+immutable
+as $fn$
+  select lower(
+    coalesce(a.action, '') || ' ' ||
+    coalesce(a.entity, '') || ' ' ||
+    coalesce(a.payload::text, '')
+  )
+$fn$;
+
+create index if not exists audit_log_search_trgm_idx
+  on public.audit_log using gin (public.audit_search_text(audit_log) gin_trgm_ops);
+
+create or replace function public.audit_row_hash(p_prev_hash text, a public.audit_log)
+returns text
+language sql
+immutable
+set search_path = public, extensions
+as $fn$
+  select encode(
+    digest(
+      coalesce(p_prev_hash, '') || '|' ||
+      a.chain_seq::text || '|' ||
+      a.id::text || '|' ||
+      a.empresa_id::text || '|' ||
+      coalesce(a.actor_user_id::text, '') || '|' ||
+      coalesce(a.actor_profile_id::text, '') || '|' ||
+      a.action || '|' ||
+      coalesce(a.entity, '') || '|' ||
+      coalesce(a.entity_id::text, '') || '|' ||
+      a.payload::text || '|' ||
+      to_char(a.created_at at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US'),
+      'sha256'
+    ),
+    'hex'
+  )
+$fn$;
+
+create or replace function public.moduz_audit_insert(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_action     text,
+  p_entity     text,
+  p_entity_id  uuid,
+  p_payload    jsonb,
+  p_created_at timestamptz default now()
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_id uuid;
+begin
+  insert into public.audit_log (
+    empresa_id, actor_user_id, actor_profile_id, action, entity, entity_id, payload, created_at
+  )
+  values (
+    p_empresa_id, p_user_id, p_profile_id, p_action, p_entity, p_entity_id,
+    coalesce(p_payload, '{}'::jsonb), coalesce(p_created_at, now())
+  )
+  returning id into v_id;
+
+  return v_id;
+end;
+$fn$;
+
+create or replace function public.moduz_core_create_empresa(
+  p_user_id      uuid,
+  p_nome         text,
+  p_slug         text,
+  p_timezone     text,
+  p_locale       text,
+  p_currency     text,
+  p_modules      text[],
+  p_display_name text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_empresa_id uuid;
+  v_profile_id uuid;
+  v_modules    text[] := coalesce(p_modules, '{}'::text[]);
+begin
+  if p_user_id is null then
+    raise exception 'MISSING_USER_ID';
+  end if;
+  if coalesce(btrim(p_nome), '') = '' then
+    raise exception 'INVALID_NOME';
+  end if;
+
+  -- 1) empresa
+  insert into public.empresas (nome, slug)
+  values (btrim(p_nome), nullif(btrim(coalesce(p_slug, '')), ''))
+  returning id into v_empresa_id;
+
+  -- 2) módulos: seed + escolha do wizard (core sempre ligado)
+  perform public.moduz_core_seed_modules(v_empresa_id);
+
+  update public.modules_enabled
+     set enabled = (module_key = 'core' or module_key = any(v_modules)),
+         enabled_at = case
+           when (module_key = 'core' or module_key = any(v_modules)) then coalesce(enabled_at, now())
+           else enabled_at
+         end
+   where empresa_id = v_empresa_id;
+
+  -- 3) settings
+  insert into public.settings (empresa_id, timezone, locale, currency)
+  values (
+    v_empresa_id,
+    coalesce(nullif(btrim(p_timezone), ''), 'Europe/Lisbon'),
+    coalesce(nullif(btrim(p_locale), ''), 'pt-PT'),
+    coalesce(nullif(btrim(p_currency), ''), 'EUR')
+  );
+
+  -- 4) 1º admin
+  insert into public.profiles (empresa_id, user_id, role, ativo, display_name)
+  values (v_empresa_id, p_user_id, 'admin', true, nullif(btrim(coalesce(p_display_name, '')), ''))
+  returning id into v_profile_id;
+
+  -- 5) empresa ativa do criador
+  insert into public.user_preferences (user_id, active_empresa_id)
+  values (p_user_id, v_empresa_id)
+  on conflict (user_id) do update set active_empresa_id = excluded.active_empresa_id;
+
+  -- 6) audit (mesma transação)
+  perform public.moduz_audit_insert(
+    v_empresa_id, p_user_id, v_profile_id, 'EMPRESA_CREATED', 'empresas', v_empresa_id,
+    jsonb_build_object(
+      'nome', btrim(p_nome),
+      'timezone', p_timezone,
+      'locale', p_locale,
+      'currency', p_currency,
+      'modules', to_jsonb(v_modules)
+    )
+  );
+
+  return v_empresa_id;
+end;
+$fn$;
+
+-- =========================================================
+-- Re-hash da cadeia (só quando as colunas legadas foram removidas acima)
+-- =========================================================
+do $$
+declare
+  r       public.audit_log%rowtype;
+  v_emp   uuid := null;
+  v_prev  text;
+  v_hash  text;
+begin
+  if coalesce(current_setting('moduz.audit_rehash', true), '') <> 'on' then
+    return;
+  end if;
+
+  alter table public.audit_log disable trigger trg_audit_log_append_only;
+
+  for r in
+    select * from public.audit_log
+     order by empresa_id, chain_seq
+  loop
+    if v_emp is distinct from r.empresa_id then
+      v_emp := r.empresa_id;
+      v_prev := null;
+    end if;
+
+    v_hash := public.audit_row_hash(v_prev, r);
+    if r.prev_hash is distinct from v_prev or r.hash is distinct from v_hash then
+      update public.audit_log set prev_hash = v_prev, hash = v_hash where id = r.id;
+    end if;
+
+    v_prev := v_hash;
+  end loop;
+
+  alter table public.audit_log enable trigger trg_audit_log_append_only;
+end$$;
+
+commit;
@@ -0,0 +1,70 @@
+-- 20260118_core_module_dependencies.sql
+-- Core: toggle de módulos em cascata (dependências declaradas em components/adm/module-registry.ts)
+-- - moduz_core_toggle_modules(): módulo pedido + módulos em cascata numa única transação
+--   (audit MODULE_TOGGLED por módulo; os da cascata levam payload.cascade_from)
+-- - O grafo de dependências vive no registry; a API calcula a cascata e chama esta RPC
+-- Idempotente.
+
+begin;
+
+create or replace function public.moduz_core_toggle_modules(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_module_key text,
+  p_enabled    boolean,
+  p_cascade    text[]
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_key  text;
+  v_row  jsonb;
+  v_rows jsonb := '[]'::jsonb;
+begin
+  if p_enabled = false and ('core' = p_module_key or 'core' = any(coalesce(p_cascade, '{}'::text[]))) then
+    raise exception 'CORE_CANNOT_BE_DISABLED';
+  end if;
+
+  perform public.moduz_core_seed_modules(p_empresa_id);
+
+  foreach v_key in array (array[p_module_key] || coalesce(p_cascade, '{}'::text[]))
+  loop
+    update public.modules_enabled
+       set enabled = p_enabled,
+           enabled_at = case when p_enabled then now() else enabled_at end
+     where empresa_id = p_empresa_id
+       and module_key = v_key
+    returning jsonb_build_object(
+      'module_key', module_key,
+      'enabled', enabled,
+      'enabled_at', enabled_at,
+      'updated_at', updated_at
+    ) into v_row;
+
+    if v_row is null then
+      raise exception 'MODULE_NOT_FOUND';
+    end if;
+
+    perform public.moduz_audit_insert(
+      p_empresa_id, p_user_id, p_profile_id, 'MODULE_TOGGLED', 'modules_enabled', null,
+      case
+        when v_key = p_module_key then jsonb_build_object('module_key', v_key, 'enabled', p_enabled)
+        else jsonb_build_object('module_key', v_key, 'enabled', p_enabled, 'cascade_from', p_module_key)
+      end
+    );
+
+    v_rows := v_rows || jsonb_build_array(v_row);
+  end loop;
+
+  return v_rows;
+end;
+$fn$;
+
+revoke all on function public.moduz_core_toggle_modules(uuid, uuid, uuid, text, boolean, text[]) from public, anon, authenticated;
+grant execute on function public.moduz_core_toggle_modules(uuid, uuid, uuid, text, boolean, text[]) to service_role;
+
+commit;
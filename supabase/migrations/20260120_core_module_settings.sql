@@ -0,0 +1,89 @@
+-- 20260120_core_module_settings.sql
+-- Core: definições por módulo (schema declarado em components/adm/module-registry.ts)
+-- - core   -> colunas de public.settings (timezone/locale/currency)
+-- - outros -> public.settings.extras.modules.<module_key> (jsonb; merge por chave)
+-- - moduz_core_module_settings(): valores guardados de um módulo (sem defaults; a API completa)
+-- - moduz_core_update_module_settings(): update + audit MODULE_SETTINGS_UPDATED na mesma transação
+--   (validação feita na API: lib components/adm/module-settings.ts)
+-- Idempotente.
+
+begin;
+
+create or replace function public.moduz_core_module_settings(p_row public.settings, p_module_key text)
+returns jsonb
+language sql
+stable
+as $fn$
+  select case
+    when p_row is null then '{}'::jsonb
+    when p_module_key = 'core' then jsonb_build_object(
+      'timezone', p_row.timezone,
+      'locale', p_row.locale,
+      'currency', p_row.currency
+    )
+    else coalesce(p_row.extras->'modules'->p_module_key, '{}'::jsonb)
+  end
+$fn$;
+
+create or replace function public.moduz_core_update_module_settings(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_module_key text,
+  p_values     jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row    public.settings;
+  v_before jsonb;
+  v_after  jsonb;
+begin
+  if p_module_key not in (select unnest(public.moduz_core_module_keys())) then
+    raise exception 'INVALID_MODULE_KEY';
+  end if;
+
+  insert into public.settings (empresa_id)
+  values (p_empresa_id)
+  on conflict (empresa_id) do nothing;
+
+  select * into v_row from public.settings where empresa_id = p_empresa_id for update;
+  v_before := public.moduz_core_module_settings(v_row, p_module_key);
+
+  if p_module_key = 'core' then
+    update public.settings
+       set timezone = coalesce(p_values->>'timezone', timezone),
+           locale   = coalesce(p_values->>'locale', locale),
+           currency = coalesce(p_values->>'currency', currency)
+     where empresa_id = p_empresa_id
+    returning * into v_row;
+  else
+    update public.settings
+       set extras = jsonb_set(
+             case when jsonb_typeof(extras->'modules') = 'object' then extras
+                  else coalesce(extras, '{}'::jsonb) || jsonb_build_object('modules', '{}'::jsonb) end,
+             array['modules', p_module_key],
+             coalesce(extras->'modules'->p_module_key, '{}'::jsonb) || coalesce(p_values, '{}'::jsonb)
+           )
+     where empresa_id = p_empresa_id
+    returning * into v_row;
+  end if;
+
+  v_after := public.moduz_core_module_settings(v_row, p_module_key);
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'MODULE_SETTINGS_UPDATED', 'settings', v_row.id,
+    jsonb_build_object('module_key', p_module_key, 'before', v_before, 'after', v_after)
+  );
+
+  return v_after;
+end;
+$fn$;
+
+revoke all on function public.moduz_core_update_module_settings(uuid, uuid, uuid, text, jsonb) from public, anon, authenticated;
+grant execute on function public.moduz_core_update_module_settings(uuid, uuid, uuid, text, jsonb) to service_role;
+
+commit;
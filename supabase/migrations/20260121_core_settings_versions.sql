@@ -0,0 +1,294 @@
+-- 20260121_core_settings_versions.sql
+-- Core: histórico de versões das settings da empresa
+-- - settings_versions: 1 linha por alteração (snapshot before/after de timezone/locale/currency/extras)
+--   version sequencial por empresa; source update | module_update | revert
+-- - moduz_core_update_settings / moduz_core_update_module_settings passam a gravar versão
+--   (audit com before/after/version na mesma transação)
+-- - moduz_core_restore_settings(): reverter = novo snapshot calculado na API (lib/admin/settings-versions.ts)
+--   gravado como nova versão; p_expected_version evita reverter sobre alterações concorrentes
+-- Idempotente.
+
+begin;
+
+-- =========================================================
+-- 1) Tabela
+-- =========================================================
+create table if not exists public.settings_versions (
+  id               uuid primary key default gen_random_uuid(),
+  empresa_id       uuid not null references public.empresas(id) on delete cascade,
+  settings_id      uuid not null,
+  version          int not null,
+  source           text not null,
+  module_key       text,
+  reverted_version int,
+  before           jsonb not null,
+  after            jsonb not null,
+  actor_user_id    uuid,
+  actor_profile_id uuid,
+  created_at       timestamptz not null default now(),
+  constraint settings_versions_source_chk check (source in ('update', 'module_update', 'revert')),
+  constraint settings_versions_empresa_version_unique unique (empresa_id, version)
+);
+
+alter table public.settings_versions enable row level security;
+-- sem policies: só service role (API admin)
+
+-- =========================================================
+-- 2) Helpers
+-- =========================================================
+create or replace function public.moduz_core_settings_snapshot(p_row public.settings)
+returns jsonb
+language sql
+stable
+as $fn$
+  select case
+    when p_row is null then '{}'::jsonb
+    else jsonb_build_object(
+      'timezone', p_row.timezone,
+      'locale', p_row.locale,
+      'currency', p_row.currency,
+      'extras', coalesce(p_row.extras, '{}'::jsonb)
+    )
+  end
+$fn$;
+
+-- chamado com a linha de settings já bloqueada (for update) pelas RPCs abaixo
+create or replace function public.moduz_core_settings_record_version(
+  p_empresa_id       uuid,
+  p_settings_id      uuid,
+  p_user_id          uuid,
+  p_profile_id       uuid,
+  p_source           text,
+  p_module_key       text,
+  p_reverted_version int,
+  p_before           jsonb,
+  p_after            jsonb
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_version int;
+begin
+  if p_before = p_after then
+    return null;
+  end if;
+
+  select coalesce(max(version), 0) + 1 into v_version
+    from public.settings_versions
+   where empresa_id = p_empresa_id;
+
+  insert into public.settings_versions (
+    empresa_id, settings_id, version, source, module_key, reverted_version,
+    before, after, actor_user_id, actor_profile_id
+  )
+  values (
+    p_empresa_id, p_settings_id, v_version, p_source, p_module_key, p_reverted_version,
+    p_before, p_after, p_user_id, p_profile_id
+  );
+
+  return v_version;
+end;
+$fn$;
+
+revoke all on function public.moduz_core_settings_record_version(uuid, uuid, uuid, uuid, text, text, int, jsonb, jsonb) from public, anon, authenticated;
+
+-- =========================================================
+-- 3) RPCs de escrita (agora versionadas)
+-- =========================================================
+create or replace function public.moduz_core_update_settings(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_patch      jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row     public.settings;
+  v_before  jsonb;
+  v_after   jsonb;
+  v_version int;
+begin
+  insert into public.settings (empresa_id)
+  values (p_empresa_id)
+  on conflict (empresa_id) do nothing;
+
+  select * into v_row from public.settings where empresa_id = p_empresa_id for update;
+  v_before := public.moduz_core_settings_snapshot(v_row);
+
+  update public.settings
+     set timezone = coalesce(p_patch->>'timezone', timezone),
+         locale   = coalesce(p_patch->>'locale', locale),
+         currency = coalesce(p_patch->>'currency', currency),
+         extras   = case when p_patch ? 'extras' then p_patch->'extras' else extras end
+   where empresa_id = p_empresa_id
+  returning * into v_row;
+
+  v_after := public.moduz_core_settings_snapshot(v_row);
+  v_version := public.moduz_core_settings_record_version(
+    p_empresa_id, v_row.id, p_user_id, p_profile_id, 'update', null, null, v_before, v_after
+  );
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'SETTINGS_UPDATED', 'settings', v_row.id,
+    jsonb_build_object('patch', p_patch, 'before', v_before, 'after', v_after, 'version', v_version)
+  );
+
+  return jsonb_build_object(
+    'id', v_row.id,
+    'empresa_id', v_row.empresa_id,
+    'timezone', v_row.timezone,
+    'locale', v_row.locale,
+    'currency', v_row.currency,
+    'extras', v_row.extras,
+    'created_at', v_row.created_at,
+    'updated_at', v_row.updated_at,
+    'version', v_version
+  );
+end;
+$fn$;
+
+create or replace function public.moduz_core_update_module_settings(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_module_key text,
+  p_values     jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row     public.settings;
+  v_before  jsonb;
+  v_after   jsonb;
+  v_snap    jsonb;
+  v_version int;
+begin
+  if p_module_key not in (select unnest(public.moduz_core_module_keys())) then
+    raise exception 'INVALID_MODULE_KEY';
+  end if;
+
+  insert into public.settings (empresa_id)
+  values (p_empresa_id)
+  on conflict (empresa_id) do nothing;
+
+  select * into v_row from public.settings where empresa_id = p_empresa_id for update;
+  v_before := public.moduz_core_module_settings(v_row, p_module_key);
+  v_snap := public.moduz_core_settings_snapshot(v_row);
+
+  if p_module_key = 'core' then
+    update public.settings
+       set timezone = coalesce(p_values->>'timezone', timezone),
+           locale   = coalesce(p_values->>'locale', locale),
+           currency = coalesce(p_values->>'currency', currency)
+     where empresa_id = p_empresa_id
+    returning * into v_row;
+  else
+    update public.settings
+       set extras = jsonb_set(
+             case when jsonb_typeof(extras->'modules') = 'object' then extras
+                  else coalesce(extras, '{}'::jsonb) || jsonb_build_object('modules', '{}'::jsonb) end,
+             array['modules', p_module_key],
+             coalesce(extras->'modules'->p_module_key, '{}'::jsonb) || coalesce(p_values, '{}'::jsonb)
+           )
+     where empresa_id = p_empresa_id
+    returning * into v_row;
+  end if;
+
+  v_after := public.moduz_core_module_settings(v_row, p_module_key);
+  v_version := public.moduz_core_settings_record_version(
+    p_empresa_id, v_row.id, p_user_id, p_profile_id, 'module_update', p_module_key, null,
+    v_snap, public.moduz_core_settings_snapshot(v_row)
+  );
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'MODULE_SETTINGS_UPDATED', 'settings', v_row.id,
+    jsonb_build_object('module_key', p_module_key, 'before', v_before, 'after', v_after, 'version', v_version)
+  );
+
+  return v_after;
+end;
+$fn$;
+
+-- =========================================================
+-- 4) Reverter (snapshot calculado na API a partir da versão alvo)
+-- =========================================================
+create or replace function public.moduz_core_restore_settings(
+  p_empresa_id       uuid,
+  p_user_id          uuid,
+  p_profile_id       uuid,
+  p_snapshot         jsonb,
+  p_reverted_version int,
+  p_expected_version int
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row     public.settings;
+  v_head    int;
+  v_before  jsonb;
+  v_after   jsonb;
+  v_version int;
+begin
+  select * into v_row from public.settings where empresa_id = p_empresa_id for update;
+  if v_row.id is null then
+    raise exception 'SETTINGS_NOT_FOUND';
+  end if;
+
+  select coalesce(max(version), 0) into v_head
+    from public.settings_versions
+   where empresa_id = p_empresa_id;
+
+  if v_head <> coalesce(p_expected_version, -1) then
+    raise exception 'SETTINGS_VERSION_CONFLICT';
+  end if;
+
+  v_before := public.moduz_core_settings_snapshot(v_row);
+
+  update public.settings
+     set timezone = coalesce(p_snapshot->>'timezone', timezone),
+         locale   = coalesce(p_snapshot->>'locale', locale),
+         currency = coalesce(p_snapshot->>'currency', currency),
+         extras   = coalesce(p_snapshot->'extras', '{}'::jsonb)
+   where empresa_id = p_empresa_id
+  returning * into v_row;
+
+  v_after := public.moduz_core_settings_snapshot(v_row);
+  v_version := public.moduz_core_settings_record_version(
+    p_empresa_id, v_row.id, p_user_id, p_profile_id, 'revert', null, p_reverted_version, v_before, v_after
+  );
+
+  if v_version is null then
+    raise exception 'NOTHING_TO_REVERT';
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'SETTINGS_REVERTED', 'settings', v_row.id,
+    jsonb_build_object(
+      'version', v_version,
+      'reverted_version', p_reverted_version,
+      'before', v_before,
+      'after', v_after
+    )
+  );
+
+  return jsonb_build_object('version', v_version, 'settings', v_after);
+end;
+$fn$;
+
+revoke all on function public.moduz_core_restore_settings(uuid, uuid, uuid, jsonb, int, int) from public, anon, authenticated;
+grant execute on function public.moduz_core_restore_settings(uuid, uuid, uuid, jsonb, int, int) to service_role;
+
+commit;
@@ -0,0 +1,305 @@
+-- 20260122_core_module_schedules.sql
+-- Core: ativação/desativação agendada de módulos + trials com expiração
+-- - modules_enabled.trial_ends_at: null = ativação definitiva; preenchido = trial até essa data
+--   (toggle normal limpa o trial: ativar converte em definitivo)
+-- - module_schedules: pedidos de toggle para uma data futura (cascata calculada na API ao agendar)
+-- - moduz_core_apply_module_schedules(): aplica agendamentos vencidos + expira trials
+--   (audit MODULE_TOGGLED com schedule_id / MODULE_TRIAL_EXPIRED); pg_cron a cada minuto quando
+--   disponível e, por empresa, no GET /api/admin/core/modules/list
+-- - moduz_core_start_module_trial(): ativa módulo (+ dependências inativas) em trial, com audit
+-- - Estado efetivo (trial expirado / dependência inativa) também é calculado na API e no ModuleGuard
+--   (components/adm/module-state.ts), para não depender do cron
+-- Idempotente.
+
+begin;
+
+-- =========================================================
+-- 1) Trials
+-- =========================================================
+alter table public.modules_enabled add column if not exists trial_ends_at timestamptz;
+
+create index if not exists modules_enabled_trial_idx
+  on public.modules_enabled (trial_ends_at)
+  where enabled and trial_ends_at is not null;
+
+-- =========================================================
+-- 2) Agendamentos
+-- =========================================================
+create table if not exists public.module_schedules (
+  id                    uuid primary key default gen_random_uuid(),
+  empresa_id            uuid not null references public.empresas(id) on delete cascade,
+  module_key            text not null,
+  enabled               boolean not null,
+  cascade_keys          text[] not null default '{}'::text[],
+  run_at                timestamptz not null,
+  status                text not null default 'pending',
+  created_by_user_id    uuid,
+  created_by_profile_id uuid,
+  created_at            timestamptz not null default now(),
+  applied_at            timestamptz,
+  cancelled_at          timestamptz,
+  last_error            text,
+  constraint module_schedules_status_chk check (status in ('pending', 'applied', 'cancelled', 'failed'))
+);
+
+create index if not exists module_schedules_pending_idx
+  on public.module_schedules (run_at)
+  where status = 'pending';
+
+create index if not exists module_schedules_empresa_idx
+  on public.module_schedules (empresa_id, status, run_at);
+
+alter table public.module_schedules enable row level security;
+-- sem policies: só service role (API admin)
+
+-- =========================================================
+-- 3) Toggle manual limpa o trial
+-- =========================================================
+create or replace function public.moduz_core_toggle_modules(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_module_key text,
+  p_enabled    boolean,
+  p_cascade    text[]
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_key  text;
+  v_row  jsonb;
+  v_rows jsonb := '[]'::jsonb;
+begin
+  if p_enabled = false and ('core' = p_module_key or 'core' = any(coalesce(p_cascade, '{}'::text[]))) then
+    raise exception 'CORE_CANNOT_BE_DISABLED';
+  end if;
+
+  perform public.moduz_core_seed_modules(p_empresa_id);
+
+  foreach v_key in array (array[p_module_key] || coalesce(p_cascade, '{}'::text[]))
+  loop
+    update public.modules_enabled
+       set enabled = p_enabled,
+           enabled_at = case when p_enabled then now() else enabled_at end,
+           trial_ends_at = null
+     where empresa_id = p_empresa_id
+       and module_key = v_key
+    returning jsonb_build_object(
+      'module_key', module_key,
+      'enabled', enabled,
+      'enabled_at', enabled_at,
+      'trial_ends_at', trial_ends_at,
+      'updated_at', updated_at
+    ) into v_row;
+
+    if v_row is null then
+      raise exception 'MODULE_NOT_FOUND';
+    end if;
+
+    perform public.moduz_audit_insert(
+      p_empresa_id, p_user_id, p_profile_id, 'MODULE_TOGGLED', 'modules_enabled', null,
+      case
+        when v_key = p_module_key then jsonb_build_object('module_key', v_key, 'enabled', p_enabled)
+        else jsonb_build_object('module_key', v_key, 'enabled', p_enabled, 'cascade_from', p_module_key)
+      end
+    );
+
+    v_rows := v_rows || jsonb_build_array(v_row);
+  end loop;
+
+  return v_rows;
+end;
+$fn$;
+
+-- =========================================================
+-- 4) Trial
+-- =========================================================
+create or replace function public.moduz_core_start_module_trial(
+  p_empresa_id    uuid,
+  p_user_id       uuid,
+  p_profile_id    uuid,
+  p_module_key    text,
+  p_cascade       text[],
+  p_trial_ends_at timestamptz
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_key  text;
+  v_row  jsonb;
+  v_rows jsonb := '[]'::jsonb;
+begin
+  if p_module_key = 'core' then
+    raise exception 'CORE_CANNOT_BE_TRIAL';
+  end if;
+  if p_trial_ends_at is null or p_trial_ends_at <= now() then
+    raise exception 'INVALID_TRIAL_END';
+  end if;
+
+  perform public.moduz_core_seed_modules(p_empresa_id);
+
+  if exists (
+    select 1 from public.modules_enabled
+     where empresa_id = p_empresa_id and module_key = p_module_key
+       and enabled and trial_ends_at is null
+  ) then
+    raise exception 'MODULE_ALREADY_ENABLED';
+  end if;
+
+  -- dependências já ativas de forma definitiva ficam como estão
+  foreach v_key in array (array[p_module_key] || coalesce(p_cascade, '{}'::text[]))
+  loop
+    update public.modules_enabled
+       set enabled = true,
+           enabled_at = case when enabled then enabled_at else now() end,
+           trial_ends_at = p_trial_ends_at
+     where empresa_id = p_empresa_id
+       and module_key = v_key
+       and not (enabled and trial_ends_at is null)
+    returning jsonb_build_object(
+      'module_key', module_key,
+      'enabled', enabled,
+      'enabled_at', enabled_at,
+      'trial_ends_at', trial_ends_at,
+      'updated_at', updated_at
+    ) into v_row;
+
+    if v_row is null then
+      continue;
+    end if;
+
+    perform public.moduz_audit_insert(
+      p_empresa_id, p_user_id, p_profile_id, 'MODULE_TRIAL_STARTED', 'modules_enabled', null,
+      case
+        when v_key = p_module_key then jsonb_build_object('module_key', v_key, 'trial_ends_at', p_trial_ends_at)
+        else jsonb_build_object('module_key', v_key, 'trial_ends_at', p_trial_ends_at, 'cascade_from', p_module_key)
+      end
+    );
+
+    v_rows := v_rows || jsonb_build_array(v_row);
+    v_row := null;
+  end loop;
+
+  return v_rows;
+end;
+$fn$;
+
+-- =========================================================
+-- 5) Aplicar agendamentos vencidos + expirar trials
+-- =========================================================
+create or replace function public.moduz_core_apply_module_schedules(
+  p_empresa_id uuid default null,
+  p_limit      int default 100
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  s      public.module_schedules%rowtype;
+  t      record;
+  v_key  text;
+  v_done int := 0;
+begin
+  -- a) trials expirados
+  for t in
+    update public.modules_enabled
+       set enabled = false
+     where enabled
+       and trial_ends_at is not null
+       and trial_ends_at <= now()
+       and (p_empresa_id is null or empresa_id = p_empresa_id)
+    returning empresa_id, module_key, trial_ends_at
+  loop
+    perform public.moduz_audit_insert(
+      t.empresa_id, null, null, 'MODULE_TRIAL_EXPIRED', 'modules_enabled', null,
+      jsonb_build_object('module_key', t.module_key, 'trial_ends_at', t.trial_ends_at)
+    );
+    v_done := v_done + 1;
+  end loop;
+
+  -- b) agendamentos vencidos (um a um: falha de um não bloqueia os outros)
+  for s in
+    select * from public.module_schedules
+     where status = 'pending'
+       and run_at <= now()
+       and (p_empresa_id is null or empresa_id = p_empresa_id)
+     order by run_at, created_at
+     limit greatest(1, least(coalesce(p_limit, 100), 1000))
+     for update skip locked
+  loop
+    begin
+      if s.enabled = false and ('core' = s.module_key or 'core' = any(s.cascade_keys)) then
+        raise exception 'CORE_CANNOT_BE_DISABLED';
+      end if;
+
+      perform public.moduz_core_seed_modules(s.empresa_id);
+
+      foreach v_key in array (array[s.module_key] || s.cascade_keys)
+      loop
+        update public.modules_enabled
+           set enabled = s.enabled,
+               enabled_at = case when s.enabled then now() else enabled_at end,
+               trial_ends_at = null
+         where empresa_id = s.empresa_id
+           and module_key = v_key;
+
+        if not found then
+          raise exception 'MODULE_NOT_FOUND';
+        end if;
+
+        perform public.moduz_audit_insert(
+          s.empresa_id, s.created_by_user_id, s.created_by_profile_id, 'MODULE_TOGGLED', 'modules_enabled', null,
+          case
+            when v_key = s.module_key
+              then jsonb_build_object('module_key', v_key, 'enabled', s.enabled, 'schedule_id', s.id)
+            else jsonb_build_object('module_key', v_key, 'enabled', s.enabled, 'schedule_id', s.id, 'cascade_from', s.module_key)
+          end
+        );
+      end loop;
+
+      update public.module_schedules
+         set status = 'applied', applied_at = now(), last_error = null
+       where id = s.id;
+      v_done := v_done + 1;
+    exception
+      when others then
+        update public.module_schedules
+           set status = 'failed', last_error = sqlerrm
+         where id = s.id;
+    end;
+  end loop;
+
+  return v_done;
+end;
+$fn$;
+
+-- =========================================================
+-- 6) Grants (só service role)
+-- =========================================================
+revoke all on function public.moduz_core_start_module_trial(uuid, uuid, uuid, text, text[], timestamptz) from public, anon, authenticated;
+revoke all on function public.moduz_core_apply_module_schedules(uuid, int) from public, anon, authenticated;
+
+grant execute on function public.moduz_core_start_module_trial(uuid, uuid, uuid, text, text[], timestamptz) to service_role;
+grant execute on function public.moduz_core_apply_module_schedules(uuid, int) to service_role;
+
+-- =========================================================
+-- 7) Execução periódica (opcional: só se pg_cron estiver ativo)
+-- =========================================================
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    if not exists (select 1 from cron.job where jobname = 'moduz_core_apply_module_schedules') then
+      perform cron.schedule('moduz_core_apply_module_schedules', '* * * * *', 'select public.moduz_core_apply_module_schedules(null, 500)');
+    end if;
+  end if;
+end$$;
+
+commit;
@@ -0,0 +1,66 @@
+-- 20260123_core_subscriptions.sql
+-- Core: plano/assinatura por empresa (entitlements)
+-- - subscriptions: 1 por empresa; plan_key do catálogo em components/adm/plans.ts
+--   provider = quem cobra ("local" = stand-in offline em lib/billing/local.ts)
+-- - Empresas existentes ficam no plano "empresarial" (sem perder módulos/utilizadores)
+-- - moduz_core_usage(): lugares ocupados (profiles ativos + convites pendentes) e storage (docs)
+-- - Limites aplicados na API (lib/admin/entitlements.ts): toggle/agendamento de módulos,
+--   convites/ativação de utilizadores, upload de documentos
+-- Idempotente.
+
+begin;
+
+create table if not exists public.subscriptions (
+  id                 uuid primary key default gen_random_uuid(),
+  empresa_id         uuid not null references public.empresas(id) on delete cascade,
+  plan_key           text not null,
+  status             text not null default 'active',
+  provider           text not null default 'local',
+  provider_ref       text,
+  current_period_end timestamptz,
+  created_at         timestamptz not null default now(),
+  updated_at         timestamptz not null default now(),
+  constraint subscriptions_empresa_unique unique (empresa_id),
+  constraint subscriptions_status_chk check (status in ('active', 'trialing', 'past_due', 'canceled'))
+);
+
+drop trigger if exists set_updated_at_subscriptions on public.subscriptions;
+create trigger set_updated_at_subscriptions
+before update on public.subscriptions
+for each row execute function public.tg_set_updated_at();
+
+alter table public.subscriptions enable row level security;
+-- sem policies: só service role (API admin / provider de billing)
+
+insert into public.subscriptions (empresa_id, plan_key, status, provider, provider_ref)
+select e.id, 'empresarial', 'active', 'local', 'local_' || e.id::text
+  from public.empresas e
+on conflict (empresa_id) do nothing;
+
+create or replace function public.moduz_core_usage(p_empresa_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $fn$
+  select jsonb_build_object(
+    'seats_active', (
+      select count(*) from public.profiles
+       where empresa_id = p_empresa_id and ativo
+    ),
+    'invites_pending', (
+      select count(*) from public.invites
+       where empresa_id = p_empresa_id and status = 'pending' and expires_at > now()
+    ),
+    'storage_bytes', (
+      select coalesce(sum(size_bytes), 0) from public.docs
+       where empresa_id = p_empresa_id
+    )
+  )
+$fn$;
+
+revoke all on function public.moduz_core_usage(uuid) from public, anon, authenticated;
+grant execute on function public.moduz_core_usage(uuid) to service_role;
+
+commit;
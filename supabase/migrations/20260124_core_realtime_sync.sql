@@ -0,0 +1,30 @@
+-- 20260124_core_realtime_sync.sql
+-- Core: sync em tempo real de módulos e definições entre sessões (Supabase Realtime)
+-- - modules_enabled e settings entram na publicação supabase_realtime
+-- - Entrega respeita RLS: só membros ativos da empresa recebem (policies *_select_membership do 0001_core)
+-- - O cliente usa o evento só como sinal e relê pela API (components/adm/realtime-sync.ts)
+-- - Sem publicação (Postgres fora do Supabase) não faz nada: a UI só atualiza ao recarregar
+-- Idempotente.
+
+begin;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    if not exists (
+      select 1 from pg_publication_tables
+       where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'modules_enabled'
+    ) then
+      alter publication supabase_realtime add table public.modules_enabled;
+    end if;
+
+    if not exists (
+      select 1 from pg_publication_tables
+       where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'settings'
+    ) then
+      alter publication supabase_realtime add table public.settings;
+    end if;
+  end if;
+end$$;
+
+commit;
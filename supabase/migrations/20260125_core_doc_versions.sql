@@ -0,0 +1,336 @@
+-- 20260125_core_doc_versions.sql
+-- Core/Docs: versões de documentos
+-- - doc_versions: 1 linha por ficheiro enviado (version sequencial por doc; status pending | uploaded)
+--   v1 criada por trigger no insert em docs; novas versões em <pasta do doc>/v<n>/<filename>
+-- - docs.current_version: versão atual; docs espelha storage_path/filename/mime/size dessa versão
+-- - moduz_docs_create_version(): reserva a versão seguinte (pending) -> POST /api/admin/docs/versions/create
+-- - moduz_docs_complete_version(): marca uploaded + torna atual + audit na mesma transação
+--     v1 -> DOC_UPLOADED (payload de sempre); v2+ -> DOC_VERSION_UPLOADED
+-- - moduz_docs_set_current_version(): volta a uma versão anterior + audit DOC_VERSION_CURRENT_SET
+-- - moduz_docs_complete() passa a delegar (v1); moduz_core_usage() conta todas as versões no storage
+-- Idempotente.
+
+begin;
+
+-- =========================================================
+-- 1) Tabela + coluna
+-- =========================================================
+create table if not exists public.doc_versions (
+  id             uuid primary key default gen_random_uuid(),
+  empresa_id     uuid not null references public.empresas(id) on delete cascade,
+  doc_id         uuid not null references public.docs(id) on delete cascade,
+  version        int not null,
+  storage_bucket text not null,
+  storage_path   text not null,
+  filename       text,
+  mime_type      text,
+  size_bytes     bigint,
+  status         text not null default 'pending',
+  created_by     uuid,
+  created_at     timestamptz not null default now(),
+  uploaded_at    timestamptz,
+  constraint doc_versions_status_chk check (status in ('pending', 'uploaded')),
+  constraint doc_versions_doc_version_unique unique (doc_id, version)
+);
+
+create index if not exists doc_versions_empresa_idx on public.doc_versions (empresa_id);
+
+alter table public.doc_versions enable row level security;
+-- sem policies: só service role (API admin)
+
+alter table public.docs add column if not exists current_version int not null default 1;
+
+-- =========================================================
+-- 2) v1 automática + backfill
+-- =========================================================
+create or replace function public.tg_docs_initial_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+begin
+  insert into public.doc_versions (
+    empresa_id, doc_id, version, storage_bucket, storage_path, filename, mime_type, size_bytes, created_by, created_at
+  )
+  values (
+    new.empresa_id, new.id, 1, new.storage_bucket, new.storage_path, new.filename, new.mime_type, new.size_bytes,
+    new.created_by, new.created_at
+  )
+  on conflict (doc_id, version) do nothing;
+  return new;
+end;
+$fn$;
+
+drop trigger if exists trg_docs_initial_version on public.docs;
+create trigger trg_docs_initial_version
+after insert on public.docs
+for each row execute function public.tg_docs_initial_version();
+
+-- docs existentes: v1 = estado atual (uploaded se já houve DOC_UPLOADED)
+insert into public.doc_versions (
+  empresa_id, doc_id, version, storage_bucket, storage_path, filename, mime_type, size_bytes,
+  status, created_by, created_at, uploaded_at
+)
+select d.empresa_id, d.id, 1, d.storage_bucket, d.storage_path, d.filename, d.mime_type, d.size_bytes,
+       case when a.created_at is null then 'pending' else 'uploaded' end,
+       d.created_by, d.created_at, a.created_at
+  from public.docs d
+  left join lateral (
+    select min(l.created_at) as created_at
+      from public.audit_log l
+     where l.empresa_id = d.empresa_id and l.action = 'DOC_UPLOADED' and l.entity_id = d.id
+  ) a on true
+on conflict (doc_id, version) do nothing;
+
+-- =========================================================
+-- 3) RPCs
+-- =========================================================
+create or replace function public.moduz_docs_create_version(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_doc_id     uuid,
+  p_filename   text,
+  p_mime_type  text,
+  p_size_bytes bigint
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_doc     public.docs%rowtype;
+  v_base    text;
+  v_version int;
+  v_row     jsonb;
+begin
+  select * into v_doc
+    from public.docs
+   where id = p_doc_id and empresa_id = p_empresa_id
+   for update;
+
+  if v_doc.id is null then
+    raise exception 'DOC_NOT_FOUND';
+  end if;
+
+  -- pasta do doc = caminho da v1 sem o nome do ficheiro
+  select regexp_replace(storage_path, '/[^/]+$', '') into v_base
+    from public.doc_versions
+   where doc_id = p_doc_id and version = 1;
+
+  select coalesce(max(version), 0) + 1 into v_version
+    from public.doc_versions
+   where doc_id = p_doc_id;
+
+  insert into public.doc_versions (
+    empresa_id, doc_id, version, storage_bucket, storage_path, filename, mime_type, size_bytes, created_by
+  )
+  values (
+    p_empresa_id, p_doc_id, v_version, v_doc.storage_bucket,
+    coalesce(v_base, regexp_replace(v_doc.storage_path, '/[^/]+$', '')) || '/v' || v_version || '/' || p_filename,
+    p_filename, p_mime_type, p_size_bytes, p_user_id
+  )
+  returning jsonb_build_object(
+    'doc_id', doc_id,
+    'version', version,
+    'storage_bucket', storage_bucket,
+    'storage_path', storage_path,
+    'filename', filename,
+    'created_at', created_at
+  ) into v_row;
+
+  return v_row;
+end;
+$fn$;
+
+-- p_version null = última versão criada
+create or replace function public.moduz_docs_complete_version(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_doc_id     uuid,
+  p_version    int,
+  p_patch      jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_ver public.doc_versions%rowtype;
+begin
+  perform 1 from public.docs
+   where id = p_doc_id and empresa_id = p_empresa_id
+   for update;
+
+  if not found then
+    raise exception 'DOC_NOT_FOUND';
+  end if;
+
+  update public.doc_versions
+     set filename    = coalesce(p_patch->>'filename', filename),
+         mime_type   = coalesce(p_patch->>'mime_type', mime_type),
+         size_bytes  = coalesce((p_patch->>'size_bytes')::bigint, size_bytes),
+         status      = 'uploaded',
+         uploaded_at = now()
+   where doc_id = p_doc_id
+     and version = coalesce(p_version, (select max(version) from public.doc_versions where doc_id = p_doc_id))
+  returning * into v_ver;
+
+  if v_ver.id is null then
+    raise exception 'VERSION_NOT_FOUND';
+  end if;
+
+  update public.docs
+     set current_version = v_ver.version,
+         created_by      = case when v_ver.version = 1 then p_user_id else created_by end,
+         storage_path    = v_ver.storage_path,
+         filename        = v_ver.filename,
+         mime_type       = v_ver.mime_type,
+         size_bytes      = v_ver.size_bytes
+   where id = p_doc_id;
+
+  if v_ver.version = 1 then
+    perform public.moduz_audit_insert(
+      p_empresa_id, p_user_id, p_profile_id, 'DOC_UPLOADED', 'docs', p_doc_id,
+      jsonb_build_object(
+        'doc_id', p_doc_id,
+        'filename', p_patch->'filename',
+        'mime_type', p_patch->'mime_type',
+        'size_bytes', p_patch->'size_bytes'
+      )
+    );
+  else
+    perform public.moduz_audit_insert(
+      p_empresa_id, p_user_id, p_profile_id, 'DOC_VERSION_UPLOADED', 'docs', p_doc_id,
+      jsonb_build_object(
+        'doc_id', p_doc_id,
+        'version', v_ver.version,
+        'filename', v_ver.filename,
+        'mime_type', v_ver.mime_type,
+        'size_bytes', v_ver.size_bytes
+      )
+    );
+  end if;
+
+  return jsonb_build_object('doc_id', p_doc_id, 'version', v_ver.version, 'current_version', v_ver.version);
+end;
+$fn$;
+
+create or replace function public.moduz_docs_set_current_version(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_doc_id     uuid,
+  p_version    int
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_doc public.docs%rowtype;
+  v_ver public.doc_versions%rowtype;
+begin
+  select * into v_doc
+    from public.docs
+   where id = p_doc_id and empresa_id = p_empresa_id
+   for update;
+
+  if v_doc.id is null then
+    raise exception 'DOC_NOT_FOUND';
+  end if;
+
+  select * into v_ver
+    from public.doc_versions
+   where doc_id = p_doc_id and version = p_version;
+
+  if v_ver.id is null then
+    raise exception 'VERSION_NOT_FOUND';
+  end if;
+  if v_ver.status <> 'uploaded' then
+    raise exception 'VERSION_NOT_UPLOADED';
+  end if;
+  if v_doc.current_version = p_version then
+    raise exception 'VERSION_ALREADY_CURRENT';
+  end if;
+
+  update public.docs
+     set current_version = v_ver.version,
+         storage_path    = v_ver.storage_path,
+         filename        = v_ver.filename,
+         mime_type       = v_ver.mime_type,
+         size_bytes      = v_ver.size_bytes
+   where id = p_doc_id;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'DOC_VERSION_CURRENT_SET', 'docs', p_doc_id,
+    jsonb_build_object('doc_id', p_doc_id, 'version', p_version, 'previous_version', v_doc.current_version)
+  );
+
+  return jsonb_build_object('doc_id', p_doc_id, 'current_version', p_version, 'previous_version', v_doc.current_version);
+end;
+$fn$;
+
+-- compat: complete sem versão = v1 (contrato de 20260116)
+create or replace function public.moduz_docs_complete(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_doc_id     uuid,
+  p_patch      jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+begin
+  perform public.moduz_docs_complete_version(p_empresa_id, p_user_id, p_profile_id, p_doc_id, 1, p_patch);
+  return p_doc_id;
+end;
+$fn$;
+
+-- storage = todas as versões guardadas (não só a atual)
+create or replace function public.moduz_core_usage(p_empresa_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $fn$
+  select jsonb_build_object(
+    'seats_active', (
+      select count(*) from public.profiles
+       where empresa_id = p_empresa_id and ativo
+    ),
+    'invites_pending', (
+      select count(*) from public.invites
+       where empresa_id = p_empresa_id and status = 'pending' and expires_at > now()
+    ),
+    'storage_bytes', (
+      select coalesce(sum(size_bytes), 0) from public.doc_versions
+       where empresa_id = p_empresa_id
+    )
+  )
+$fn$;
+
+-- =========================================================
+-- 4) Grants (só service role)
+-- =========================================================
+revoke all on function public.moduz_docs_create_version(uuid, uuid, uuid, text, text, bigint) from public, anon, authenticated;
+revoke all on function public.moduz_docs_complete_version(uuid, uuid, uuid, uuid, int, jsonb) from public, anon, authenticated;
+revoke all on function public.moduz_docs_set_current_version(uuid, uuid, uuid, uuid, int) from public, anon, authenticated;
+revoke all on function public.moduz_docs_complete(uuid, uuid, uuid, uuid, jsonb) from public, anon, authenticated;
+revoke all on function public.moduz_core_usage(uuid) from public, anon, authenticated;
+
+grant execute on function public.moduz_docs_create_version(uuid, uuid, uuid, text, text, bigint) to service_role;
+grant execute on function public.moduz_docs_complete_version(uuid, uuid, uuid, uuid, int, jsonb) to service_role;
+grant execute on function public.moduz_docs_set_current_version(uuid, uuid, uuid, uuid, int) to service_role;
+grant execute on function public.moduz_docs_complete(uuid, uuid, uuid, uuid, jsonb) to service_role;
+grant execute on function public.moduz_core_usage(uuid) to service_role;
+
+commit;
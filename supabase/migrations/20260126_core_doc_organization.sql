@@ -0,0 +1,176 @@
+-- 20260126_core_doc_organization.sql
+-- Core/Docs: pastas, etiquetas e metadados por empresa
+-- - doc_folders: árvore de pastas (parent_id; nome único por pasta-mãe); docs.folder_id (null = raiz)
+-- - doc_tags + doc_tag_links: etiquetas N:N com docs
+-- - doc_meta_fields: campos de metadados definidos pela empresa (key/label/type text|date|number)
+--   valores em docs.metadata (jsonb; validados na API — lib/admin/doc-catalog.ts)
+-- - moduz_docs_update_meta(): pasta + etiquetas + metadados de um doc + audit DOC_METADATA_UPDATED
+--   (before/after) na mesma transação
+-- - CRUD de pastas/etiquetas/campos na API (recordAudit)
+-- Idempotente.
+
+begin;
+
+-- =========================================================
+-- 1) Tabelas
+-- =========================================================
+create table if not exists public.doc_folders (
+  id         uuid primary key default gen_random_uuid(),
+  empresa_id uuid not null references public.empresas(id) on delete cascade,
+  parent_id  uuid references public.doc_folders(id) on delete restrict,
+  name       text not null,
+  created_by uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists doc_folders_name_unique
+  on public.doc_folders (empresa_id, coalesce(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+
+drop trigger if exists set_updated_at_doc_folders on public.doc_folders;
+create trigger set_updated_at_doc_folders
+before update on public.doc_folders
+for each row execute function public.tg_set_updated_at();
+
+create table if not exists public.doc_tags (
+  id         uuid primary key default gen_random_uuid(),
+  empresa_id uuid not null references public.empresas(id) on delete cascade,
+  name       text not null,
+  color      text,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists doc_tags_name_unique on public.doc_tags (empresa_id, lower(name));
+
+create table if not exists public.doc_tag_links (
+  empresa_id uuid not null references public.empresas(id) on delete cascade,
+  doc_id     uuid not null references public.docs(id) on delete cascade,
+  tag_id     uuid not null references public.doc_tags(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (doc_id, tag_id)
+);
+
+create index if not exists doc_tag_links_tag_idx on public.doc_tag_links (tag_id);
+
+create table if not exists public.doc_meta_fields (
+  id         uuid primary key default gen_random_uuid(),
+  empresa_id uuid not null references public.empresas(id) on delete cascade,
+  key        text not null,
+  label      text not null,
+  type       text not null,
+  position   int not null default 0,
+  created_at timestamptz not null default now(),
+  constraint doc_meta_fields_type_chk check (type in ('text', 'date', 'number')),
+  constraint doc_meta_fields_empresa_key_unique unique (empresa_id, key)
+);
+
+alter table public.docs add column if not exists folder_id uuid references public.doc_folders(id) on delete set null;
+alter table public.docs add column if not exists metadata jsonb not null default '{}'::jsonb;
+
+create index if not exists docs_folder_idx on public.docs (empresa_id, folder_id);
+
+alter table public.doc_folders enable row level security;
+alter table public.doc_tags enable row level security;
+alter table public.doc_tag_links enable row level security;
+alter table public.doc_meta_fields enable row level security;
+-- sem policies: só service role (API admin)
+
+-- =========================================================
+-- 2) RPC: pasta/etiquetas/metadados de um doc (+ audit)
+-- =========================================================
+-- p_patch: { folder_id?: uuid|null, tag_ids?: uuid[], metadata?: object } — chaves ausentes não mudam
+create or replace function public.moduz_docs_update_meta(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_doc_id     uuid,
+  p_patch      jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_doc     public.docs%rowtype;
+  v_folder  uuid;
+  v_tags    uuid[];
+  v_before  jsonb;
+  v_after   jsonb;
+begin
+  select * into v_doc
+    from public.docs
+   where id = p_doc_id and empresa_id = p_empresa_id
+   for update;
+
+  if v_doc.id is null then
+    raise exception 'DOC_NOT_FOUND';
+  end if;
+
+  select coalesce(array_agg(tag_id order by tag_id), '{}') into v_tags
+    from public.doc_tag_links
+   where doc_id = p_doc_id;
+
+  v_before := jsonb_build_object('folder_id', v_doc.folder_id, 'tag_ids', to_jsonb(v_tags), 'metadata', v_doc.metadata);
+
+  if p_patch ? 'folder_id' then
+    v_folder := nullif(p_patch->>'folder_id', '')::uuid;
+    if v_folder is not null and not exists (
+      select 1 from public.doc_folders where id = v_folder and empresa_id = p_empresa_id
+    ) then
+      raise exception 'FOLDER_NOT_FOUND';
+    end if;
+    update public.docs set folder_id = v_folder where id = p_doc_id;
+  end if;
+
+  if p_patch ? 'metadata' then
+    update public.docs set metadata = coalesce(p_patch->'metadata', '{}'::jsonb) where id = p_doc_id;
+  end if;
+
+  if p_patch ? 'tag_ids' then
+    select coalesce(array_agg(distinct t::uuid), '{}') into v_tags
+      from jsonb_array_elements_text(coalesce(p_patch->'tag_ids', '[]'::jsonb)) t;
+
+    if exists (
+      select 1 from unnest(v_tags) x
+       where not exists (select 1 from public.doc_tags where id = x and empresa_id = p_empresa_id)
+    ) then
+      raise exception 'TAG_NOT_FOUND';
+    end if;
+
+    delete from public.doc_tag_links where doc_id = p_doc_id and not (tag_id = any (v_tags));
+    insert into public.doc_tag_links (empresa_id, doc_id, tag_id)
+    select p_empresa_id, p_doc_id, x from unnest(v_tags) x
+    on conflict (doc_id, tag_id) do nothing;
+  end if;
+
+  select jsonb_build_object(
+           'folder_id', d.folder_id,
+           'tag_ids', (
+             select coalesce(jsonb_agg(l.tag_id order by l.tag_id), '[]'::jsonb)
+               from public.doc_tag_links l where l.doc_id = d.id
+           ),
+           'metadata', d.metadata
+         )
+    into v_after
+    from public.docs d
+   where d.id = p_doc_id;
+
+  if v_before <> v_after then
+    perform public.moduz_audit_insert(
+      p_empresa_id, p_user_id, p_profile_id, 'DOC_METADATA_UPDATED', 'docs', p_doc_id,
+      jsonb_build_object('doc_id', p_doc_id, 'before', v_before, 'after', v_after)
+    );
+  end if;
+
+  return v_after;
+end;
+$fn$;
+
+-- =========================================================
+-- 3) Grants (só service role)
+-- =========================================================
+revoke all on function public.moduz_docs_update_meta(uuid, uuid, uuid, uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.moduz_docs_update_meta(uuid, uuid, uuid, uuid, jsonb) to service_role;
+
+commit;
@@ -0,0 +1,193 @@
+-- 20260127_core_doc_search.sql
+-- Core/Docs: pesquisa full-text (português) em nome, etiquetas, metadados e conteúdo
+-- - docs.content_text: texto extraído da versão atual (PDF/DOCX/TXT, na API — lib/admin/doc-text.ts)
+--   content_status: ok | empty | unsupported | too_large | failed (null = por indexar)
+-- - docs.search_tsv: pesos A nome, B etiquetas, C metadados, D conteúdo (config moduz_pt = portuguese + unaccent)
+--   mantido por trigger em docs (nome/metadados/conteúdo) e em doc_tag_links / doc_tags (etiquetas)
+-- - moduz_docs_search(): ranking (ts_rank_cd) + snippet (ts_headline, marcadores ⟦ ⟧) por empresa,
+--   filtros opcionais de pasta/etiqueta; termos com prefixo ("contra" encontra "contrato")
+-- Idempotente.
+
+begin;
+
+-- =========================================================
+-- 1) Configuração de texto (português sem acentos)
+-- =========================================================
+create extension if not exists unaccent;
+
+do $$
+begin
+  if not exists (select 1 from pg_ts_config where cfgname = 'moduz_pt') then
+    create text search configuration public.moduz_pt (copy = pg_catalog.portuguese);
+    alter text search configuration public.moduz_pt
+      alter mapping for hword, hword_part, word with unaccent, portuguese_stem;
+  end if;
+end$$;
+
+-- =========================================================
+-- 2) Colunas
+-- =========================================================
+alter table public.docs add column if not exists content_text text;
+alter table public.docs add column if not exists content_status text;
+alter table public.docs add column if not exists content_indexed_at timestamptz;
+alter table public.docs add column if not exists search_tsv tsvector;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'docs_content_status_chk') then
+    alter table public.docs add constraint docs_content_status_chk
+      check (content_status is null or content_status in ('ok', 'empty', 'unsupported', 'too_large', 'failed'));
+  end if;
+end$$;
+
+create index if not exists docs_search_tsv_idx on public.docs using gin (search_tsv);
+
+-- =========================================================
+-- 3) Vetor de pesquisa
+-- =========================================================
+create or replace function public.moduz_docs_search_vector(p_doc public.docs)
+returns tsvector
+language sql
+stable
+set search_path = public
+as $fn$
+  select
+    setweight(to_tsvector('public.moduz_pt', regexp_replace(coalesce(p_doc.filename, ''), '[._-]+', ' ', 'g')), 'A') ||
+    setweight(to_tsvector('public.moduz_pt', coalesce((
+      select string_agg(t.name, ' ')
+        from public.doc_tag_links l
+        join public.doc_tags t on t.id = l.tag_id
+       where l.doc_id = p_doc.id
+    ), '')), 'B') ||
+    setweight(to_tsvector('public.moduz_pt', coalesce((
+      select string_agg(v.value, ' ') from jsonb_each_text(coalesce(p_doc.metadata, '{}'::jsonb)) v
+    ), '')), 'C') ||
+    setweight(to_tsvector('public.moduz_pt', coalesce(p_doc.content_text, '')), 'D')
+$fn$;
+
+create or replace function public.tg_docs_search_tsv()
+returns trigger
+language plpgsql
+set search_path = public
+as $fn$
+begin
+  new.search_tsv := public.moduz_docs_search_vector(new);
+  return new;
+end;
+$fn$;
+
+drop trigger if exists trg_docs_search_tsv on public.docs;
+create trigger trg_docs_search_tsv
+before insert or update of filename, metadata, content_text on public.docs
+for each row execute function public.tg_docs_search_tsv();
+
+-- etiquetas vivem noutra tabela: recalcula os docs afetados
+create or replace function public.tg_doc_tag_links_search_tsv()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+begin
+  update public.docs d
+     set search_tsv = public.moduz_docs_search_vector(d)
+   where d.id = coalesce(new.doc_id, old.doc_id);
+  return null;
+end;
+$fn$;
+
+drop trigger if exists trg_doc_tag_links_search_tsv on public.doc_tag_links;
+create trigger trg_doc_tag_links_search_tsv
+after insert or delete on public.doc_tag_links
+for each row execute function public.tg_doc_tag_links_search_tsv();
+
+create or replace function public.tg_doc_tags_search_tsv()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+begin
+  update public.docs d
+     set search_tsv = public.moduz_docs_search_vector(d)
+   where d.id in (select l.doc_id from public.doc_tag_links l where l.tag_id = new.id);
+  return null;
+end;
+$fn$;
+
+drop trigger if exists trg_doc_tags_search_tsv on public.doc_tags;
+create trigger trg_doc_tags_search_tsv
+after update of name on public.doc_tags
+for each row execute function public.tg_doc_tags_search_tsv();
+
+-- docs existentes (o conteúdo chega depois, via docs/search/reindex)
+update public.docs d
+   set search_tsv = public.moduz_docs_search_vector(d)
+ where d.search_tsv is null;
+
+-- =========================================================
+-- 4) RPC de pesquisa
+-- =========================================================
+create or replace function public.moduz_docs_search(
+  p_empresa_id uuid,
+  p_query      text,
+  p_folder_id  uuid default null,
+  p_root_only  boolean default false,
+  p_tag_id     uuid default null,
+  p_limit      int default 50
+)
+returns table (doc_id uuid, rank real, snippet text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $fn$
+declare
+  v_q tsquery;
+begin
+  -- cada palavra vira prefixo (AND): "contr valid" -> contr:* & valid:*
+  select to_tsquery('public.moduz_pt', string_agg(quote_literal(w) || ':*', ' & '))
+    into v_q
+    from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') w
+   where length(w) > 0;
+
+  if v_q is null or numnode(v_q) = 0 then
+    return;
+  end if;
+
+  return query
+  select d.id,
+         ts_rank_cd(d.search_tsv, v_q) as rank,
+         ts_headline(
+           'public.moduz_pt',
+           concat_ws(' · ',
+             d.filename,
+             (select string_agg(t.name, ' ')
+                from public.doc_tag_links l join public.doc_tags t on t.id = l.tag_id
+               where l.doc_id = d.id),
+             (select string_agg(v.value, ' ') from jsonb_each_text(coalesce(d.metadata, '{}'::jsonb)) v),
+             left(d.content_text, 50000)
+           ),
+           v_q,
+           'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+         ) as snippet
+    from public.docs d
+   where d.empresa_id = p_empresa_id
+     and d.search_tsv @@ v_q
+     and (p_folder_id is null or d.folder_id = p_folder_id)
+     and (not p_root_only or d.folder_id is null)
+     and (p_tag_id is null or exists (
+       select 1 from public.doc_tag_links l where l.doc_id = d.id and l.tag_id = p_tag_id
+     ))
+   order by rank desc, d.created_at desc
+   limit greatest(1, least(coalesce(p_limit, 50), 100));
+end;
+$fn$;
+
+-- =========================================================
+-- 5) Grants (só service role)
+-- =========================================================
+revoke all on function public.moduz_docs_search(uuid, text, uuid, boolean, uuid, int) from public, anon, authenticated;
+grant execute on function public.moduz_docs_search(uuid, text, uuid, boolean, uuid, int) to service_role;
+
+commit;
@@ -0,0 +1,370 @@
+-- 20260128_core_doc_integrity.sql
+-- Core/Docs: integridade dos uploads + limpeza de órfãos
+-- - docs.status: pending | uploaded | failed (estado da v1; antes só se sabia pelo audit DOC_UPLOADED)
+-- - doc_versions.status ganha 'failed' (+ failure_reason); sha256 em doc_versions e espelhado em docs
+-- - docs/complete verifica o objeto no Storage (existe, tamanho, SHA-256) antes de marcar uploaded
+--   (lib/admin/doc-integrity.ts); falha -> moduz_docs_fail_version() + audit DOC_UPLOAD_FAILED
+-- - moduz_docs_purge_stale(): apaga docs/versões pending|failed antigos (+ audit DOC_PURGED / DOC_VERSION_PURGED)
+--   pg_cron de hora a hora quando disponível; também no POST /api/admin/docs/purge (por empresa)
+--   e no POST /api/cron/docs-purge (todas as empresas, com os objetos órfãos do Storage)
+-- - moduz_docs_orphan_objects(): objetos do bucket moduz-docs sem doc_versions -> removidos pela API
+--   (apagar storage.objects em SQL não apaga o ficheiro)
+-- Idempotente.
+
+begin;
+
+-- =========================================================
+-- 1) Colunas
+-- =========================================================
+alter table public.docs add column if not exists status text not null default 'pending';
+alter table public.docs add column if not exists sha256 text;
+
+alter table public.doc_versions add column if not exists sha256 text;
+alter table public.doc_versions add column if not exists failure_reason text;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'docs_status_chk') then
+    alter table public.docs add constraint docs_status_chk
+      check (status in ('pending', 'uploaded', 'failed'));
+  end if;
+end$$;
+
+alter table public.doc_versions drop constraint if exists doc_versions_status_chk;
+alter table public.doc_versions add constraint doc_versions_status_chk
+  check (status in ('pending', 'uploaded', 'failed'));
+
+create index if not exists docs_status_stale_idx
+  on public.docs (created_at)
+  where status <> 'uploaded';
+
+create index if not exists doc_versions_status_stale_idx
+  on public.doc_versions (created_at)
+  where status <> 'uploaded';
+
+-- docs existentes: v1 sem audit mas com ficheiro no Storage conta como enviada (não entra na limpeza)
+update public.doc_versions v
+   set status = 'uploaded',
+       uploaded_at = coalesce(v.uploaded_at, v.created_at)
+ where v.status = 'pending'
+   and exists (
+     select 1 from storage.objects o
+      where o.bucket_id = v.storage_bucket and o.name = v.storage_path
+   );
+
+update public.docs d
+   set status = 'uploaded'
+ where d.status = 'pending'
+   and exists (
+     select 1 from public.doc_versions v
+      where v.doc_id = d.id and v.version = 1 and v.status = 'uploaded'
+   );
+
+-- =========================================================
+-- 2) RPCs de upload (status + sha256)
+-- =========================================================
+-- p_patch ganha sha256 (calculado na API a partir do objeto no Storage)
+create or replace function public.moduz_docs_complete_version(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_doc_id     uuid,
+  p_version    int,
+  p_patch      jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_ver public.doc_versions%rowtype;
+begin
+  perform 1 from public.docs
+   where id = p_doc_id and empresa_id = p_empresa_id
+   for update;
+
+  if not found then
+    raise exception 'DOC_NOT_FOUND';
+  end if;
+
+  update public.doc_versions
+     set filename       = coalesce(p_patch->>'filename', filename),
+         mime_type      = coalesce(p_patch->>'mime_type', mime_type),
+         size_bytes     = coalesce((p_patch->>'size_bytes')::bigint, size_bytes),
+         sha256         = coalesce(p_patch->>'sha256', sha256),
+         status         = 'uploaded',
+         failure_reason = null,
+         uploaded_at    = now()
+   where doc_id = p_doc_id
+     and version = coalesce(p_version, (select max(version) from public.doc_versions where doc_id = p_doc_id))
+  returning * into v_ver;
+
+  if v_ver.id is null then
+    raise exception 'VERSION_NOT_FOUND';
+  end if;
+
+  update public.docs
+     set current_version = v_ver.version,
+         created_by      = case when v_ver.version = 1 then p_user_id else created_by end,
+         status          = 'uploaded',
+         storage_path    = v_ver.storage_path,
+         filename        = v_ver.filename,
+         mime_type       = v_ver.mime_type,
+         size_bytes      = v_ver.size_bytes,
+         sha256          = v_ver.sha256
+   where id = p_doc_id;
+
+  if v_ver.version = 1 then
+    perform public.moduz_audit_insert(
+      p_empresa_id, p_user_id, p_profile_id, 'DOC_UPLOADED', 'docs', p_doc_id,
+      jsonb_build_object(
+        'doc_id', p_doc_id,
+        'filename', p_patch->'filename',
+        'mime_type', p_patch->'mime_type',
+        'size_bytes', p_patch->'size_bytes',
+        'sha256', p_patch->'sha256'
+      )
+    );
+  else
+    perform public.moduz_audit_insert(
+      p_empresa_id, p_user_id, p_profile_id, 'DOC_VERSION_UPLOADED', 'docs', p_doc_id,
+      jsonb_build_object(
+        'doc_id', p_doc_id,
+        'version', v_ver.version,
+        'filename', v_ver.filename,
+        'mime_type', v_ver.mime_type,
+        'size_bytes', v_ver.size_bytes,
+        'sha256', v_ver.sha256
+      )
+    );
+  end if;
+
+  return jsonb_build_object('doc_id', p_doc_id, 'version', v_ver.version, 'current_version', v_ver.version);
+end;
+$fn$;
+
+-- verificação falhou: versão (e doc, se v1) passa a failed; versão já uploaded não regride
+create or replace function public.moduz_docs_fail_version(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_doc_id     uuid,
+  p_version    int,
+  p_reason     text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_ver public.doc_versions%rowtype;
+begin
+  perform 1 from public.docs
+   where id = p_doc_id and empresa_id = p_empresa_id
+   for update;
+
+  if not found then
+    raise exception 'DOC_NOT_FOUND';
+  end if;
+
+  update public.doc_versions
+     set status = 'failed',
+         failure_reason = p_reason
+   where doc_id = p_doc_id and version = p_version and status <> 'uploaded'
+  returning * into v_ver;
+
+  if v_ver.id is null then
+    return jsonb_build_object('doc_id', p_doc_id, 'version', p_version, 'status', null);
+  end if;
+
+  if v_ver.version = 1 then
+    update public.docs set status = 'failed' where id = p_doc_id and status <> 'uploaded';
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'DOC_UPLOAD_FAILED', 'docs', p_doc_id,
+    jsonb_build_object('doc_id', p_doc_id, 'version', p_version, 'reason', p_reason)
+  );
+
+  return jsonb_build_object('doc_id', p_doc_id, 'version', p_version, 'status', 'failed');
+end;
+$fn$;
+
+-- sha256 acompanha a versão atual
+create or replace function public.moduz_docs_set_current_version(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_doc_id     uuid,
+  p_version    int
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_doc public.docs%rowtype;
+  v_ver public.doc_versions%rowtype;
+begin
+  select * into v_doc
+    from public.docs
+   where id = p_doc_id and empresa_id = p_empresa_id
+   for update;
+
+  if v_doc.id is null then
+    raise exception 'DOC_NOT_FOUND';
+  end if;
+
+  select * into v_ver
+    from public.doc_versions
+   where doc_id = p_doc_id and version = p_version;
+
+  if v_ver.id is null then
+    raise exception 'VERSION_NOT_FOUND';
+  end if;
+  if v_ver.status <> 'uploaded' then
+    raise exception 'VERSION_NOT_UPLOADED';
+  end if;
+  if v_doc.current_version = p_version then
+    raise exception 'VERSION_ALREADY_CURRENT';
+  end if;
+
+  update public.docs
+     set current_version = v_ver.version,
+         storage_path    = v_ver.storage_path,
+         filename        = v_ver.filename,
+         mime_type       = v_ver.mime_type,
+         size_bytes      = v_ver.size_bytes,
+         sha256          = v_ver.sha256
+   where id = p_doc_id;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'DOC_VERSION_CURRENT_SET', 'docs', p_doc_id,
+    jsonb_build_object('doc_id', p_doc_id, 'version', p_version, 'previous_version', v_doc.current_version)
+  );
+
+  return jsonb_build_object('doc_id', p_doc_id, 'current_version', p_version, 'previous_version', v_doc.current_version);
+end;
+$fn$;
+
+-- =========================================================
+-- 3) Limpeza
+-- =========================================================
+-- p_empresa_id null = todas as empresas (cron)
+create or replace function public.moduz_docs_purge_stale(
+  p_empresa_id uuid default null,
+  p_older_than interval default interval '24 hours',
+  p_limit      int default 200
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  d record;
+  v record;
+  v_docs     int := 0;
+  v_versions int := 0;
+begin
+  -- docs cujo 1º upload nunca terminou (versões/etiquetas vão em cascata)
+  for d in
+    select id, empresa_id, filename, status, created_at
+      from public.docs
+     where status <> 'uploaded'
+       and created_at < now() - p_older_than
+       and (p_empresa_id is null or empresa_id = p_empresa_id)
+     order by created_at
+     limit greatest(1, p_limit)
+     for update skip locked
+  loop
+    perform public.moduz_audit_insert(
+      d.empresa_id, null, null, 'DOC_PURGED', 'docs', d.id,
+      jsonb_build_object('doc_id', d.id, 'filename', d.filename, 'status', d.status, 'created_at', d.created_at)
+    );
+    delete from public.docs where id = d.id;
+    v_docs := v_docs + 1;
+  end loop;
+
+  -- versões novas (v2+) abandonadas de docs que continuam válidos
+  for v in
+    select dv.id, dv.empresa_id, dv.doc_id, dv.version, dv.status
+      from public.doc_versions dv
+      join public.docs x on x.id = dv.doc_id
+     where dv.status <> 'uploaded'
+       and dv.version <> x.current_version
+       and dv.created_at < now() - p_older_than
+       and (p_empresa_id is null or dv.empresa_id = p_empresa_id)
+     order by dv.created_at
+     limit greatest(1, p_limit)
+     for update of dv skip locked
+  loop
+    perform public.moduz_audit_insert(
+      v.empresa_id, null, null, 'DOC_VERSION_PURGED', 'docs', v.doc_id,
+      jsonb_build_object('doc_id', v.doc_id, 'version', v.version, 'status', v.status)
+    );
+    delete from public.doc_versions where id = v.id;
+    v_versions := v_versions + 1;
+  end loop;
+
+  return jsonb_build_object('docs', v_docs, 'versions', v_versions);
+end;
+$fn$;
+
+-- objetos do bucket de docs (docs/create) sem nenhuma versão a apontar para eles
+create or replace function public.moduz_docs_orphan_objects(
+  p_empresa_id uuid default null,
+  p_older_than interval default interval '24 hours',
+  p_limit      int default 200
+)
+returns table (bucket text, path text)
+language sql
+stable
+security definer
+set search_path = public
+as $fn$
+  select o.bucket_id::text, o.name
+    from storage.objects o
+   where o.bucket_id = 'moduz-docs'
+     and o.created_at < now() - p_older_than
+     and (p_empresa_id is null or o.name like 'empresa/' || p_empresa_id::text || '/%')
+     and not exists (
+       select 1 from public.doc_versions v
+        where v.storage_bucket = o.bucket_id and v.storage_path = o.name
+     )
+   order by o.created_at
+   limit greatest(1, least(coalesce(p_limit, 200), 1000))
+$fn$;
+
+-- =========================================================
+-- 4) Grants (só service role)
+-- =========================================================
+revoke all on function public.moduz_docs_complete_version(uuid, uuid, uuid, uuid, int, jsonb) from public, anon, authenticated;
+revoke all on function public.moduz_docs_fail_version(uuid, uuid, uuid, uuid, int, text) from public, anon, authenticated;
+revoke all on function public.moduz_docs_set_current_version(uuid, uuid, uuid, uuid, int) from public, anon, authenticated;
+revoke all on function public.moduz_docs_purge_stale(uuid, interval, int) from public, anon, authenticated;
+revoke all on function public.moduz_docs_orphan_objects(uuid, interval, int) from public, anon, authenticated;
+
+grant execute on function public.moduz_docs_complete_version(uuid, uuid, uuid, uuid, int, jsonb) to service_role;
+grant execute on function public.moduz_docs_fail_version(uuid, uuid, uuid, uuid, int, text) to service_role;
+grant execute on function public.moduz_docs_set_current_version(uuid, uuid, uuid, uuid, int) to service_role;
+grant execute on function public.moduz_docs_purge_stale(uuid, interval, int) to service_role;
+grant execute on function public.moduz_docs_orphan_objects(uuid, interval, int) to service_role;
+
+-- =========================================================
+-- 5) Execução periódica (opcional: só se pg_cron estiver ativo)
+-- =========================================================
+-- só linhas: os ficheiros no Storage são removidos pela API (moduz_docs_orphan_objects)
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    if not exists (select 1 from cron.job where jobname = 'moduz_docs_purge_stale') then
+      perform cron.schedule('moduz_docs_purge_stale', '17 * * * *', 'select public.moduz_docs_purge_stale(null, interval ''24 hours'', 500)');
+    end if;
+  end if;
+end$$;
+
+commit;
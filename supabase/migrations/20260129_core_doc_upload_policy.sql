@@ -0,0 +1,73 @@
+-- 20260129_core_doc_upload_policy.sql
+-- Core/Docs: política de upload por empresa (tipos permitidos, tamanho máximo, extensões bloqueadas)
+-- - A política vive nas definições do módulo docs (settings.extras.modules.docs; schema no registry)
+--   e é aplicada na API (lib/admin/upload-policy.ts): no create com os valores declarados e no complete
+--   com o tipo detetado pelos magic bytes do ficheiro guardado
+-- - moduz_docs_fail_version() ganha p_details (juntos ao payload do audit); rejeições da política
+--   (UPLOAD_TOO_LARGE / UPLOAD_EXTENSION_BLOCKED / UPLOAD_TYPE_NOT_ALLOWED / UPLOAD_MIME_MISMATCH)
+--   ficam como DOC_UPLOAD_REJECTED — o mesmo evento que o create escreve via recordAudit
+-- Idempotente.
+
+begin;
+
+drop function if exists public.moduz_docs_fail_version(uuid, uuid, uuid, uuid, int, text);
+
+create or replace function public.moduz_docs_fail_version(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_doc_id     uuid,
+  p_version    int,
+  p_reason     text,
+  p_details    jsonb default '{}'::jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_ver    public.doc_versions%rowtype;
+  v_action text;
+begin
+  perform 1 from public.docs
+   where id = p_doc_id and empresa_id = p_empresa_id
+   for update;
+
+  if not found then
+    raise exception 'DOC_NOT_FOUND';
+  end if;
+
+  update public.doc_versions
+     set status = 'failed',
+         failure_reason = p_reason
+   where doc_id = p_doc_id and version = p_version and status <> 'uploaded'
+  returning * into v_ver;
+
+  if v_ver.id is null then
+    return jsonb_build_object('doc_id', p_doc_id, 'version', p_version, 'status', null);
+  end if;
+
+  if v_ver.version = 1 then
+    update public.docs set status = 'failed' where id = p_doc_id and status <> 'uploaded';
+  end if;
+
+  v_action := case
+    when p_reason in ('UPLOAD_TOO_LARGE', 'UPLOAD_EXTENSION_BLOCKED', 'UPLOAD_TYPE_NOT_ALLOWED', 'UPLOAD_MIME_MISMATCH')
+      then 'DOC_UPLOAD_REJECTED'
+    else 'DOC_UPLOAD_FAILED'
+  end;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, v_action, 'docs', p_doc_id,
+    coalesce(p_details, '{}'::jsonb) || jsonb_build_object('doc_id', p_doc_id, 'version', p_version, 'reason', p_reason)
+  );
+
+  return jsonb_build_object('doc_id', p_doc_id, 'version', p_version, 'status', 'failed');
+end;
+$fn$;
+
+revoke all on function public.moduz_docs_fail_version(uuid, uuid, uuid, uuid, int, text, jsonb) from public, anon, authenticated;
+grant execute on function public.moduz_docs_fail_version(uuid, uuid, uuid, uuid, int, text, jsonb) to service_role;
+
+commit;
@@ -0,0 +1,60 @@
+-- 20260130_core_module_registry.sql
+-- GERADO por scripts/modules-sync.mjs a partir de components/adm/module-registry.ts e plans.ts (não editar à mão)
+-- Core: chaves de módulos
+-- - check constraint modules_enabled_module_key_chk
+-- - moduz_core_module_keys(): lista canónica (ordem do registry)
+-- - moduz_core_seed_modules(): estado inicial (defaultEnabled)
+-- - moduz_core_plan_modules(): módulos incluídos em cada plano (desconhecido/null -> DEFAULT_PLAN)
+-- Remover um módulo exige antes apagar/migrar as linhas dele em modules_enabled.
+-- Idempotente.
+
+begin;
+
+alter table public.modules_enabled drop constraint if exists modules_enabled_module_key_chk;
+alter table public.modules_enabled
+  add constraint modules_enabled_module_key_chk
+  check (module_key in ('core', 'docs', 'people', 'track', 'finance', 'bizz', 'stock', 'assets', 'flow'));
+
+create or replace function public.moduz_core_module_keys()
+returns text[]
+language sql
+immutable
+as $fn$
+  select array['core', 'docs', 'people', 'track', 'finance', 'bizz', 'stock', 'assets', 'flow']::text[]
+$fn$;
+
+create or replace function public.moduz_core_seed_modules(p_empresa_id uuid)
+returns void
+language plpgsql
+security definer
+as $fn$
+begin
+  insert into public.modules_enabled (empresa_id, module_key, enabled, enabled_at)
+  values
+    (p_empresa_id, 'core', true, now()),
+    (p_empresa_id, 'docs', true, now()),
+    (p_empresa_id, 'people', false, null),
+    (p_empresa_id, 'track', false, null),
+    (p_empresa_id, 'finance', false, null),
+    (p_empresa_id, 'bizz', false, null),
+    (p_empresa_id, 'stock', false, null),
+    (p_empresa_id, 'assets', false, null),
+    (p_empresa_id, 'flow', false, null)
+  on conflict (empresa_id, module_key) do nothing;
+end;
+$fn$;
+
+create or replace function public.moduz_core_plan_modules(p_plan_key text)
+returns text[]
+language sql
+immutable
+as $fn$
+  select case p_plan_key
+    when 'essencial' then array['core', 'docs']::text[]
+    when 'profissional' then array['core', 'docs', 'people', 'track', 'finance']::text[]
+    when 'empresarial' then array['core', 'docs', 'people', 'track', 'finance', 'bizz', 'stock', 'assets', 'flow']::text[]
+    else array['core', 'docs']::text[]
+  end
+$fn$;
+
+commit;
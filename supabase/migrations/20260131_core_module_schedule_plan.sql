@@ -0,0 +1,138 @@
+-- 20260131_core_module_schedule_plan.sql
+-- Core: plano confirmado ao aplicar agendamentos
+-- - moduz_core_empresa_plan_key(): plano efetivo (mesma regra de lib/admin/entitlements: sem
+--   assinatura ou cancelada -> DEFAULT_PLAN, resolvido por moduz_core_plan_modules)
+-- - moduz_core_apply_module_schedules(): ativações fora do plano atual falham com
+--   PLAN_MODULE_NOT_INCLUDED em last_error (o plano pode ter mudado desde o agendamento)
+-- Idempotente.
+
+begin;
+
+-- =========================================================
+-- 1) Plano efetivo da empresa
+-- =========================================================
+create or replace function public.moduz_core_empresa_plan_key(p_empresa_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $fn$
+  select s.plan_key
+    from public.subscriptions s
+   where s.empresa_id = p_empresa_id
+     and s.status <> 'canceled'
+$fn$;
+
+-- =========================================================
+-- 2) Agendamentos: plano confirmado na aplicação
+-- =========================================================
+create or replace function public.moduz_core_apply_module_schedules(
+  p_empresa_id uuid default null,
+  p_limit      int default 100
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  s         public.module_schedules%rowtype;
+  t         record;
+  v_key     text;
+  v_outside text[];
+  v_done    int := 0;
+begin
+  -- a) trials expirados
+  for t in
+    update public.modules_enabled
+       set enabled = false
+     where enabled
+       and trial_ends_at is not null
+       and trial_ends_at <= now()
+       and (p_empresa_id is null or empresa_id = p_empresa_id)
+    returning empresa_id, module_key, trial_ends_at
+  loop
+    perform public.moduz_audit_insert(
+      t.empresa_id, null, null, 'MODULE_TRIAL_EXPIRED', 'modules_enabled', null,
+      jsonb_build_object('module_key', t.module_key, 'trial_ends_at', t.trial_ends_at)
+    );
+    v_done := v_done + 1;
+  end loop;
+
+  -- b) agendamentos vencidos (um a um: falha de um não bloqueia os outros)
+  for s in
+    select * from public.module_schedules
+     where status = 'pending'
+       and run_at <= now()
+       and (p_empresa_id is null or empresa_id = p_empresa_id)
+     order by run_at, created_at
+     limit greatest(1, least(coalesce(p_limit, 100), 1000))
+     for update skip locked
+  loop
+    begin
+      if s.enabled = false and ('core' = s.module_key or 'core' = any(s.cascade_keys)) then
+        raise exception 'CORE_CANNOT_BE_DISABLED';
+      end if;
+
+      if s.enabled then
+        select array_agg(k) into v_outside
+          from unnest(array[s.module_key] || s.cascade_keys) k
+         where not (k = any(public.moduz_core_plan_modules(public.moduz_core_empresa_plan_key(s.empresa_id))));
+
+        if v_outside is not null then
+          raise exception 'PLAN_MODULE_NOT_INCLUDED: %', array_to_string(v_outside, ',');
+        end if;
+      end if;
+
+      perform public.moduz_core_seed_modules(s.empresa_id);
+
+      foreach v_key in array (array[s.module_key] || s.cascade_keys)
+      loop
+        update public.modules_enabled
+           set enabled = s.enabled,
+               enabled_at = case when s.enabled then now() else enabled_at end,
+               trial_ends_at = null
+         where empresa_id = s.empresa_id
+           and module_key = v_key;
+
+        if not found then
+          raise exception 'MODULE_NOT_FOUND';
+        end if;
+
+        perform public.moduz_audit_insert(
+          s.empresa_id, s.created_by_user_id, s.created_by_profile_id, 'MODULE_TOGGLED', 'modules_enabled', null,
+          case
+            when v_key = s.module_key
+              then jsonb_build_object('module_key', v_key, 'enabled', s.enabled, 'schedule_id', s.id)
+            else jsonb_build_object('module_key', v_key, 'enabled', s.enabled, 'schedule_id', s.id, 'cascade_from', s.module_key)
+          end
+        );
+      end loop;
+
+      update public.module_schedules
+         set status = 'applied', applied_at = now(), last_error = null
+       where id = s.id;
+      v_done := v_done + 1;
+    exception
+      when others then
+        update public.module_schedules
+           set status = 'failed', last_error = sqlerrm
+         where id = s.id;
+    end;
+  end loop;
+
+  return v_done;
+end;
+$fn$;
+
+-- =========================================================
+-- 3) Grants (só service role)
+-- =========================================================
+revoke all on function public.moduz_core_empresa_plan_key(uuid) from public, anon, authenticated;
+revoke all on function public.moduz_core_apply_module_schedules(uuid, int) from public, anon, authenticated;
+
+grant execute on function public.moduz_core_empresa_plan_key(uuid) to service_role;
+grant execute on function public.moduz_core_apply_module_schedules(uuid, int) to service_role;
+
+commit;
@@ -0,0 +1,59 @@
+-- 20260201_core_roles_assign_atomic.sql
+-- Core: atribuição de roles a um profile numa só transação
+-- - moduz_core_assign_profile_roles(): valida profile/roles da empresa, substitui o conjunto em
+--   profile_roles e grava PROFILE_ROLES_ASSIGNED — falha a meio => rollback (o profile nunca fica
+--   sem roles e a cair nos defaults por engano)
+--   -> POST /api/admin/core/roles/assign
+-- Idempotente.
+
+begin;
+
+create or replace function public.moduz_core_assign_profile_roles(
+  p_empresa_id        uuid,
+  p_user_id           uuid,
+  p_profile_id        uuid,
+  p_target_profile_id uuid,
+  p_role_ids          uuid[]
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_role_ids uuid[] := coalesce(p_role_ids, '{}'::uuid[]);
+begin
+  perform 1 from public.profiles
+   where id = p_target_profile_id and empresa_id = p_empresa_id
+   for update;
+
+  if not found then
+    raise exception 'PROFILE_NOT_FOUND';
+  end if;
+
+  if (select count(*) from public.roles where empresa_id = p_empresa_id and id = any(v_role_ids))
+     <> cardinality(v_role_ids) then
+    raise exception 'INVALID_ROLE_ID';
+  end if;
+
+  delete from public.profile_roles
+   where empresa_id = p_empresa_id
+     and profile_id = p_target_profile_id;
+
+  insert into public.profile_roles (empresa_id, profile_id, role_id)
+  select p_empresa_id, p_target_profile_id, r
+    from unnest(v_role_ids) r;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'PROFILE_ROLES_ASSIGNED', 'profiles', p_target_profile_id,
+    jsonb_build_object('profile_id', p_target_profile_id, 'role_ids', to_jsonb(v_role_ids))
+  );
+
+  return jsonb_build_object('profile_id', p_target_profile_id, 'role_ids', to_jsonb(v_role_ids));
+end;
+$fn$;
+
+revoke all on function public.moduz_core_assign_profile_roles(uuid, uuid, uuid, uuid, uuid[]) from public, anon, authenticated;
+grant execute on function public.moduz_core_assign_profile_roles(uuid, uuid, uuid, uuid, uuid[]) to service_role;
+
+commit;
@@ -0,0 +1,83 @@
+-- 20260202_core_invite_accept_atomic.sql
+-- Core: aceitar convite numa só transação
+-- - moduz_core_accept_invite(): lock do convite (for update) -> estado/validade/email ->
+--   cria ou reativa o profile com a role do convite -> marca aceite -> audit INVITE_ACCEPTED
+--   Um revoke (ou aceite noutro lado) concorrente espera pelo lock: ou acontece antes e nada é
+--   concedido, ou depois e já não encontra o convite pendente
+--   -> POST /api/auth/invite/accept (lugares do plano continuam verificados na API antes da chamada)
+-- Idempotente.
+
+begin;
+
+create or replace function public.moduz_core_accept_invite(
+  p_invite_id uuid,
+  p_user_id   uuid,
+  p_email     text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_inv     public.invites%rowtype;
+  v_profile public.profiles%rowtype;
+begin
+  select * into v_inv from public.invites where id = p_invite_id for update;
+
+  if not found then
+    raise exception 'INVITE_NOT_FOUND';
+  end if;
+
+  if v_inv.status = 'accepted' then
+    if v_inv.accepted_by is distinct from p_user_id then
+      raise exception 'INVITE_ALREADY_USED';
+    end if;
+    return jsonb_build_object('empresa_id', v_inv.empresa_id, 'profile_id', null, 'already', true);
+  end if;
+  if v_inv.status = 'revoked' then
+    raise exception 'INVITE_REVOKED';
+  end if;
+  if v_inv.status <> 'pending' then
+    raise exception 'INVITE_NOT_PENDING';
+  end if;
+  if v_inv.expires_at <= now() then
+    raise exception 'INVITE_EXPIRED';
+  end if;
+  if lower(coalesce(p_email, '')) <> lower(v_inv.email) then
+    raise exception 'INVITE_EMAIL_MISMATCH';
+  end if;
+
+  -- profile: cria; se existir inativo, reativa com a role do convite; ativo mantém-se
+  select * into v_profile
+    from public.profiles
+   where empresa_id = v_inv.empresa_id and user_id = p_user_id
+   for update;
+
+  if not found then
+    insert into public.profiles (empresa_id, user_id, role, ativo, display_name)
+    values (v_inv.empresa_id, p_user_id, v_inv.role, true, v_inv.display_name)
+    returning * into v_profile;
+  elsif not v_profile.ativo then
+    update public.profiles
+       set ativo = true, role = v_inv.role
+     where id = v_profile.id;
+  end if;
+
+  update public.invites
+     set status = 'accepted', accepted_by = p_user_id, accepted_at = now()
+   where id = v_inv.id;
+
+  perform public.moduz_audit_insert(
+    v_inv.empresa_id, p_user_id, v_profile.id, 'INVITE_ACCEPTED', 'invites', v_inv.id,
+    jsonb_build_object('email', v_inv.email, 'role', v_inv.role, 'profile_id', v_profile.id)
+  );
+
+  return jsonb_build_object('empresa_id', v_inv.empresa_id, 'profile_id', v_profile.id, 'already', false);
+end;
+$fn$;
+
+revoke all on function public.moduz_core_accept_invite(uuid, uuid, text) from public, anon, authenticated;
+grant execute on function public.moduz_core_accept_invite(uuid, uuid, text) to service_role;
+
+commit;
@@ -0,0 +1,73 @@
+-- 20260203_core_plan_change.sql
+-- Core: mudança de plano numa só transação
+-- - moduz_core_change_plan(): grava a assinatura (upsert por empresa) -> cancela as ativações
+--   agendadas (pending) com módulos fora do plano novo -> audit MODULE_SCHEDULE_CANCELLED
+--   (reason PLAN_CHANGED) por agendamento + PLAN_CHANGED; falha a meio => rollback (nunca fica
+--   o plano mudado com agendamentos órfãos, nem agendamentos cancelados sem plano novo)
+--   -> lib/billing (provider) <- POST /api/admin/core/billing/change-plan
+-- Validações de uso (módulos/lugares/storage) continuam na API antes da chamada.
+-- Idempotente.
+
+begin;
+
+create or replace function public.moduz_core_change_plan(
+  p_empresa_id   uuid,
+  p_user_id      uuid,
+  p_profile_id   uuid,
+  p_from_plan    text,
+  p_plan_key     text,
+  p_provider     text,
+  p_provider_ref text,
+  p_period_end   timestamptz
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_sub       public.subscriptions%rowtype;
+  v_plan      text[] := public.moduz_core_plan_modules(p_plan_key);
+  s           public.module_schedules%rowtype;
+  v_cancelled jsonb := '[]'::jsonb;
+begin
+  insert into public.subscriptions (empresa_id, plan_key, status, provider, provider_ref, current_period_end)
+  values (p_empresa_id, p_plan_key, 'active', p_provider, p_provider_ref, p_period_end)
+  on conflict (empresa_id) do update
+     set plan_key = excluded.plan_key,
+         status = excluded.status,
+         provider = excluded.provider,
+         provider_ref = excluded.provider_ref,
+         current_period_end = excluded.current_period_end
+  returning * into v_sub;
+
+  for s in
+    update public.module_schedules ms
+       set status = 'cancelled', cancelled_at = now()
+     where ms.empresa_id = p_empresa_id
+       and ms.status = 'pending'
+       and ms.enabled
+       and not ((array[ms.module_key] || ms.cascade_keys) <@ v_plan)
+    returning ms.*
+  loop
+    perform public.moduz_audit_insert(
+      p_empresa_id, p_user_id, p_profile_id, 'MODULE_SCHEDULE_CANCELLED', 'module_schedules', s.id,
+      jsonb_build_object('module_key', s.module_key, 'enabled', s.enabled, 'run_at', s.run_at, 'reason', 'PLAN_CHANGED')
+    );
+
+    v_cancelled := v_cancelled || jsonb_build_array(to_jsonb(s));
+  end loop;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'PLAN_CHANGED', 'subscriptions', v_sub.id,
+    jsonb_build_object('from', p_from_plan, 'to', p_plan_key, 'provider', p_provider)
+  );
+
+  return jsonb_build_object('subscription', to_jsonb(v_sub), 'cancelled_schedules', v_cancelled);
+end;
+$fn$;
+
+revoke all on function public.moduz_core_change_plan(uuid, uuid, uuid, text, text, text, text, timestamptz) from public, anon, authenticated;
+grant execute on function public.moduz_core_change_plan(uuid, uuid, uuid, text, text, text, text, timestamptz) to service_role;
+
+commit;
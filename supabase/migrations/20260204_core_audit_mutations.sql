@@ -0,0 +1,656 @@
+-- 20260204_core_audit_mutations.sql
+-- Core: restantes mutações + audit na mesma transação (o audit deixa de ser gravado depois do commit)
+-- - Utilizadores: moduz_core_update_profile() (PROFILE_UPDATED before/after),
+--   moduz_core_set_profile_active() (PROFILE_ACTIVATED | PROFILE_DEACTIVATED)
+-- - Roles: moduz_core_upsert_role() (ROLE_UPSERTED), moduz_core_delete_role() (ROLE_DELETED)
+-- - Convites: moduz_core_create_invite() (1 pendente por email; INVITE_CREATED),
+--   moduz_core_revoke_invite() (INVITE_REVOKED; reason SEND_FAILED quando o email não saiu)
+-- - Agendamentos: moduz_core_create_module_schedule() (MODULE_SCHEDULED),
+--   moduz_core_cancel_module_schedule() (MODULE_SCHEDULE_CANCELLED)
+-- - Docs: moduz_docs_upsert_folder()/moduz_docs_delete_folder(), moduz_docs_upsert_tag()/
+--   moduz_docs_delete_tag(), moduz_docs_upsert_field()/moduz_docs_delete_field()
+--   (DOC_FOLDER_*/DOC_TAG_*/DOC_FIELD_*)
+-- - moduz_audit_outbox_flush(): filtro opcional por empresa (POST audit/flush só entrega a da sessão)
+-- Erros de negócio via raise exception '<CODE>' (mapeados na API); unique/fk chegam com o SQLSTATE.
+-- Idempotente.
+
+begin;
+
+-- =========================================================
+-- 1) Utilizadores
+-- =========================================================
+create or replace function public.moduz_core_update_profile(
+  p_empresa_id        uuid,
+  p_user_id           uuid,
+  p_profile_id        uuid,
+  p_target_profile_id uuid,
+  p_patch             jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_old    public.profiles%rowtype;
+  v_new    public.profiles%rowtype;
+  v_before jsonb := '{}'::jsonb;
+begin
+  select * into v_old
+    from public.profiles
+   where id = p_target_profile_id and empresa_id = p_empresa_id
+   for update;
+
+  if not found then
+    raise exception 'PROFILE_NOT_FOUND';
+  end if;
+
+  if p_patch ? 'role' then
+    v_before := v_before || jsonb_build_object('role', v_old.role);
+  end if;
+  if p_patch ? 'display_name' then
+    v_before := v_before || jsonb_build_object('display_name', v_old.display_name);
+  end if;
+
+  update public.profiles
+     set role = case when p_patch ? 'role' then (p_patch->>'role')::public.moduz_role else role end,
+         display_name = case when p_patch ? 'display_name' then p_patch->>'display_name' else display_name end
+   where id = v_old.id
+  returning * into v_new;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'PROFILE_UPDATED', 'profiles', v_old.id,
+    jsonb_build_object('profile_id', v_old.id, 'before', v_before, 'after', p_patch)
+  );
+
+  return to_jsonb(v_new);
+end;
+$fn$;
+
+create or replace function public.moduz_core_set_profile_active(
+  p_empresa_id        uuid,
+  p_user_id           uuid,
+  p_profile_id        uuid,
+  p_target_profile_id uuid,
+  p_ativo             boolean
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row public.profiles%rowtype;
+begin
+  update public.profiles
+     set ativo = p_ativo
+   where id = p_target_profile_id and empresa_id = p_empresa_id
+  returning * into v_row;
+
+  if not found then
+    raise exception 'PROFILE_NOT_FOUND';
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id,
+    case when p_ativo then 'PROFILE_ACTIVATED' else 'PROFILE_DEACTIVATED' end,
+    'profiles', v_row.id,
+    jsonb_build_object('profile_id', v_row.id, 'ativo', p_ativo)
+  );
+
+  return to_jsonb(v_row);
+end;
+$fn$;
+
+-- =========================================================
+-- 2) Roles
+-- =========================================================
+create or replace function public.moduz_core_upsert_role(
+  p_empresa_id  uuid,
+  p_user_id     uuid,
+  p_profile_id  uuid,
+  p_role_id     uuid,
+  p_key         text,
+  p_nome        text,
+  p_descricao   text,
+  p_permissions text[]
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row public.roles%rowtype;
+begin
+  if p_role_id is null then
+    insert into public.roles (empresa_id, key, nome, descricao, permissions)
+    values (p_empresa_id, p_key, p_nome, p_descricao, coalesce(p_permissions, '{}'::text[]))
+    returning * into v_row;
+  else
+    update public.roles
+       set key = p_key, nome = p_nome, descricao = p_descricao, permissions = coalesce(p_permissions, '{}'::text[])
+     where id = p_role_id and empresa_id = p_empresa_id
+    returning * into v_row;
+
+    if not found then
+      raise exception 'ROLE_NOT_FOUND';
+    end if;
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'ROLE_UPSERTED', 'roles', v_row.id,
+    jsonb_build_object('role_id', v_row.id, 'key', v_row.key, 'permissions', to_jsonb(v_row.permissions),
+                       'created', p_role_id is null)
+  );
+
+  return to_jsonb(v_row) - 'empresa_id';
+end;
+$fn$;
+
+create or replace function public.moduz_core_delete_role(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_role_id    uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_key text;
+begin
+  delete from public.roles
+   where id = p_role_id and empresa_id = p_empresa_id
+  returning key into v_key;
+
+  if not found then
+    raise exception 'ROLE_NOT_FOUND';
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'ROLE_DELETED', 'roles', p_role_id,
+    jsonb_build_object('role_id', p_role_id, 'key', v_key)
+  );
+
+  return jsonb_build_object('role_id', p_role_id, 'key', v_key);
+end;
+$fn$;
+
+-- =========================================================
+-- 3) Convites (o email sai depois, na API; se falhar, o convite é revogado com reason SEND_FAILED)
+-- =========================================================
+create or replace function public.moduz_core_create_invite(
+  p_empresa_id   uuid,
+  p_user_id      uuid,
+  p_profile_id   uuid,
+  p_email        text,
+  p_role         text,
+  p_display_name text,
+  p_token_hash   text,
+  p_expires_at   timestamptz,
+  p_source       text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_inv     public.invites%rowtype;
+  v_pending uuid;
+begin
+  -- serializa convites do mesmo email na empresa (dois pedidos em paralelo não criam dois pendentes)
+  perform pg_advisory_xact_lock(hashtextextended(p_empresa_id::text || ':' || lower(p_email), 0));
+
+  select id into v_pending
+    from public.invites
+   where empresa_id = p_empresa_id
+     and lower(email) = lower(p_email)
+     and status = 'pending'
+     and expires_at > now()
+   limit 1;
+
+  if v_pending is not null then
+    raise exception 'INVITE_ALREADY_PENDING' using detail = v_pending::text;
+  end if;
+
+  insert into public.invites (empresa_id, email, role, display_name, token_hash, status, expires_at, invited_by)
+  values (p_empresa_id, p_email, p_role::public.moduz_role, p_display_name, p_token_hash, 'pending', p_expires_at, p_user_id)
+  returning * into v_inv;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'INVITE_CREATED', 'invites', v_inv.id,
+    jsonb_strip_nulls(jsonb_build_object(
+      'email', v_inv.email, 'role', v_inv.role, 'expires_at', v_inv.expires_at, 'source', p_source
+    ))
+  );
+
+  return to_jsonb(v_inv) - 'token_hash' - 'updated_at';
+end;
+$fn$;
+
+create or replace function public.moduz_core_revoke_invite(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_invite_id  uuid,
+  p_reason     text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_inv public.invites%rowtype;
+begin
+  update public.invites
+     set status = 'revoked', revoked_at = now()
+   where id = p_invite_id and empresa_id = p_empresa_id and status = 'pending'
+  returning * into v_inv;
+
+  if not found then
+    raise exception 'INVITE_NOT_PENDING';
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'INVITE_REVOKED', 'invites', v_inv.id,
+    jsonb_strip_nulls(jsonb_build_object('email', v_inv.email, 'reason', p_reason))
+  );
+
+  return to_jsonb(v_inv) - 'token_hash' - 'updated_at';
+end;
+$fn$;
+
+-- =========================================================
+-- 4) Agendamentos de módulos
+-- =========================================================
+create or replace function public.moduz_core_create_module_schedule(
+  p_empresa_id   uuid,
+  p_user_id      uuid,
+  p_profile_id   uuid,
+  p_module_key   text,
+  p_enabled      boolean,
+  p_cascade_keys text[],
+  p_run_at       timestamptz
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row public.module_schedules%rowtype;
+begin
+  insert into public.module_schedules
+    (empresa_id, module_key, enabled, cascade_keys, run_at, created_by_user_id, created_by_profile_id)
+  values
+    (p_empresa_id, p_module_key, p_enabled, coalesce(p_cascade_keys, '{}'::text[]), p_run_at, p_user_id, p_profile_id)
+  returning * into v_row;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'MODULE_SCHEDULED', 'module_schedules', v_row.id,
+    jsonb_build_object('module_key', v_row.module_key, 'enabled', v_row.enabled, 'run_at', v_row.run_at,
+                       'cascade', to_jsonb(v_row.cascade_keys))
+  );
+
+  return to_jsonb(v_row);
+end;
+$fn$;
+
+create or replace function public.moduz_core_cancel_module_schedule(
+  p_empresa_id  uuid,
+  p_user_id     uuid,
+  p_profile_id  uuid,
+  p_schedule_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row public.module_schedules%rowtype;
+begin
+  update public.module_schedules
+     set status = 'cancelled', cancelled_at = now()
+   where id = p_schedule_id and empresa_id = p_empresa_id and status in ('pending', 'failed')
+  returning * into v_row;
+
+  if not found then
+    raise exception 'SCHEDULE_NOT_PENDING';
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'MODULE_SCHEDULE_CANCELLED', 'module_schedules', v_row.id,
+    jsonb_build_object('module_key', v_row.module_key, 'enabled', v_row.enabled, 'run_at', v_row.run_at)
+  );
+
+  return to_jsonb(v_row);
+end;
+$fn$;
+
+-- =========================================================
+-- 5) Docs: pastas, etiquetas, campos de metadados
+-- =========================================================
+create or replace function public.moduz_docs_upsert_folder(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_folder_id  uuid,
+  p_name       text,
+  p_parent_id  uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row public.doc_folders%rowtype;
+begin
+  if p_folder_id is null then
+    insert into public.doc_folders (empresa_id, name, parent_id, created_by)
+    values (p_empresa_id, p_name, p_parent_id, p_user_id)
+    returning * into v_row;
+  else
+    update public.doc_folders
+       set name = p_name, parent_id = p_parent_id
+     where id = p_folder_id and empresa_id = p_empresa_id
+    returning * into v_row;
+
+    if not found then
+      raise exception 'FOLDER_NOT_FOUND';
+    end if;
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'DOC_FOLDER_UPSERTED', 'doc_folders', v_row.id,
+    jsonb_build_object('folder_id', v_row.id, 'name', v_row.name, 'parent_id', v_row.parent_id,
+                       'created', p_folder_id is null)
+  );
+
+  return to_jsonb(v_row) - 'empresa_id' - 'created_by';
+end;
+$fn$;
+
+create or replace function public.moduz_docs_delete_folder(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_folder_id  uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_name     text;
+  v_children int;
+begin
+  select count(*) into v_children
+    from public.doc_folders
+   where empresa_id = p_empresa_id and parent_id = p_folder_id;
+
+  if v_children > 0 then
+    raise exception 'FOLDER_HAS_CHILDREN' using detail = v_children::text;
+  end if;
+
+  -- subpasta criada entre a contagem e o delete: fk on delete restrict (23503) na API
+  delete from public.doc_folders
+   where id = p_folder_id and empresa_id = p_empresa_id
+  returning name into v_name;
+
+  if not found then
+    raise exception 'FOLDER_NOT_FOUND';
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'DOC_FOLDER_DELETED', 'doc_folders', p_folder_id,
+    jsonb_build_object('folder_id', p_folder_id, 'name', v_name)
+  );
+
+  return jsonb_build_object('folder_id', p_folder_id, 'name', v_name);
+end;
+$fn$;
+
+create or replace function public.moduz_docs_upsert_tag(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_tag_id     uuid,
+  p_name       text,
+  p_color      text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row public.doc_tags%rowtype;
+begin
+  if p_tag_id is null then
+    insert into public.doc_tags (empresa_id, name, color)
+    values (p_empresa_id, p_name, p_color)
+    returning * into v_row;
+  else
+    update public.doc_tags
+       set name = p_name, color = p_color
+     where id = p_tag_id and empresa_id = p_empresa_id
+    returning * into v_row;
+
+    if not found then
+      raise exception 'TAG_NOT_FOUND';
+    end if;
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'DOC_TAG_UPSERTED', 'doc_tags', v_row.id,
+    jsonb_build_object('tag_id', v_row.id, 'name', v_row.name, 'color', v_row.color, 'created', p_tag_id is null)
+  );
+
+  return to_jsonb(v_row) - 'empresa_id';
+end;
+$fn$;
+
+create or replace function public.moduz_docs_delete_tag(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_tag_id     uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_name text;
+begin
+  delete from public.doc_tags
+   where id = p_tag_id and empresa_id = p_empresa_id
+  returning name into v_name;
+
+  if not found then
+    raise exception 'TAG_NOT_FOUND';
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'DOC_TAG_DELETED', 'doc_tags', p_tag_id,
+    jsonb_build_object('tag_id', p_tag_id, 'name', v_name)
+  );
+
+  return jsonb_build_object('tag_id', p_tag_id, 'name', v_name);
+end;
+$fn$;
+
+create or replace function public.moduz_docs_upsert_field(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_key        text,
+  p_label      text,
+  p_type       text,
+  p_position   int
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_old public.doc_meta_fields%rowtype;
+  v_row public.doc_meta_fields%rowtype;
+begin
+  select * into v_old
+    from public.doc_meta_fields
+   where empresa_id = p_empresa_id and key = p_key
+   for update;
+
+  if found and v_old.type <> p_type then
+    raise exception 'FIELD_TYPE_LOCKED' using detail = v_old.type;
+  end if;
+
+  insert into public.doc_meta_fields (empresa_id, key, label, type, position)
+  values (p_empresa_id, p_key, p_label, p_type, coalesce(p_position, 0))
+  on conflict (empresa_id, key) do update
+     set label = excluded.label, position = excluded.position
+  returning * into v_row;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'DOC_FIELD_UPSERTED', 'doc_meta_fields', v_row.id,
+    jsonb_build_object('field_id', v_row.id, 'key', v_row.key, 'label', v_row.label, 'type', v_row.type,
+                       'created', v_old.id is null)
+  );
+
+  return to_jsonb(v_row) - 'empresa_id';
+end;
+$fn$;
+
+create or replace function public.moduz_docs_delete_field(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_field_id   uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_key text;
+begin
+  delete from public.doc_meta_fields
+   where id = p_field_id and empresa_id = p_empresa_id
+  returning key into v_key;
+
+  if not found then
+    raise exception 'FIELD_NOT_FOUND';
+  end if;
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'DOC_FIELD_DELETED', 'doc_meta_fields', p_field_id,
+    jsonb_build_object('field_id', p_field_id, 'key', v_key)
+  );
+
+  return jsonb_build_object('field_id', p_field_id, 'key', v_key);
+end;
+$fn$;
+
+-- =========================================================
+-- 6) Outbox: entrega por empresa (null = todas, pg_cron)
+-- =========================================================
+drop function if exists public.moduz_audit_outbox_flush(int);
+
+create or replace function public.moduz_audit_outbox_flush(
+  p_limit      int default 100,
+  p_empresa_id uuid default null
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  r          public.audit_outbox%rowtype;
+  v_id       uuid;
+  v_done     int := 0;
+begin
+  for r in
+    select * from public.audit_outbox
+     where delivered_at is null
+       and (p_empresa_id is null or empresa_id = p_empresa_id)
+     order by created_at
+     limit greatest(1, least(coalesce(p_limit, 100), 1000))
+     for update skip locked
+  loop
+    begin
+      v_id := public.moduz_audit_insert(
+        r.empresa_id,
+        nullif(r.event->>'actor_user_id', '')::uuid,
+        nullif(r.event->>'actor_profile_id', '')::uuid,
+        r.event->>'action',
+        r.event->>'entity',
+        nullif(r.event->>'entity_id', '')::uuid,
+        r.event->'payload',
+        r.created_at
+      );
+
+      update public.audit_outbox
+         set delivered_at = now(), audit_id = v_id, attempts = attempts + 1, last_error = null
+       where id = r.id;
+      v_done := v_done + 1;
+    exception
+      when others then
+        update public.audit_outbox
+           set attempts = attempts + 1, last_error = sqlerrm
+         where id = r.id;
+    end;
+  end loop;
+
+  return v_done;
+end;
+$fn$;
+
+-- =========================================================
+-- 7) Grants (só service role)
+-- =========================================================
+revoke all on function public.moduz_core_update_profile(uuid, uuid, uuid, uuid, jsonb) from public, anon, authenticated;
+revoke all on function public.moduz_core_set_profile_active(uuid, uuid, uuid, uuid, boolean) from public, anon, authenticated;
+revoke all on function public.moduz_core_upsert_role(uuid, uuid, uuid, uuid, text, text, text, text[]) from public, anon, authenticated;
+revoke all on function public.moduz_core_delete_role(uuid, uuid, uuid, uuid) from public, anon, authenticated;
+revoke all on function public.moduz_core_create_invite(uuid, uuid, uuid, text, text, text, text, timestamptz, text) from public, anon, authenticated;
+revoke all on function public.moduz_core_revoke_invite(uuid, uuid, uuid, uuid, text) from public, anon, authenticated;
+revoke all on function public.moduz_core_create_module_schedule(uuid, uuid, uuid, text, boolean, text[], timestamptz) from public, anon, authenticated;
+revoke all on function public.moduz_core_cancel_module_schedule(uuid, uuid, uuid, uuid) from public, anon, authenticated;
+revoke all on function public.moduz_docs_upsert_folder(uuid, uuid, uuid, uuid, text, uuid) from public, anon, authenticated;
+revoke all on function public.moduz_docs_delete_folder(uuid, uuid, uuid, uuid) from public, anon, authenticated;
+revoke all on function public.moduz_docs_upsert_tag(uuid, uuid, uuid, uuid, text, text) from public, anon, authenticated;
+revoke all on function public.moduz_docs_delete_tag(uuid, uuid, uuid, uuid) from public, anon, authenticated;
+revoke all on function public.moduz_docs_upsert_field(uuid, uuid, uuid, text, text, text, int) from public, anon, authenticated;
+revoke all on function public.moduz_docs_delete_field(uuid, uuid, uuid, uuid) from public, anon, authenticated;
+revoke all on function public.moduz_audit_outbox_flush(int, uuid) from public, anon, authenticated;
+
+grant execute on function public.moduz_core_update_profile(uuid, uuid, uuid, uuid, jsonb) to service_role;
+grant execute on function public.moduz_core_set_profile_active(uuid, uuid, uuid, uuid, boolean) to service_role;
+grant execute on function public.moduz_core_upsert_role(uuid, uuid, uuid, uuid, text, text, text, text[]) to service_role;
+grant execute on function public.moduz_core_delete_role(uuid, uuid, uuid, uuid) to service_role;
+grant execute on function public.moduz_core_create_invite(uuid, uuid, uuid, text, text, text, text, timestamptz, text) to service_role;
+grant execute on function public.moduz_core_revoke_invite(uuid, uuid, uuid, uuid, text) to service_role;
+grant execute on function public.moduz_core_create_module_schedule(uuid, uuid, uuid, text, boolean, text[], timestamptz) to service_role;
+grant execute on function public.moduz_core_cancel_module_schedule(uuid, uuid, uuid, uuid) to service_role;
+grant execute on function public.moduz_docs_upsert_folder(uuid, uuid, uuid, uuid, text, uuid) to service_role;
+grant execute on function public.moduz_docs_delete_folder(uuid, uuid, uuid, uuid) to service_role;
+grant execute on function public.moduz_docs_upsert_tag(uuid, uuid, uuid, uuid, text, text) to service_role;
+grant execute on function public.moduz_docs_delete_tag(uuid, uuid, uuid, uuid) to service_role;
+grant execute on function public.moduz_docs_upsert_field(uuid, uuid, uuid, text, text, text, int) to service_role;
+grant execute on function public.moduz_docs_delete_field(uuid, uuid, uuid, uuid) to service_role;
+grant execute on function public.moduz_audit_outbox_flush(int, uuid) to service_role;
+
+commit;
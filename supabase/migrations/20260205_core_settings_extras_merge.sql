@@ -0,0 +1,74 @@
+-- 20260205_core_settings_extras_merge.sql
+-- Core: extras de settings fundidos no servidor
+-- - moduz_core_update_settings(): extras deixa de ser substituído pelo do patch — merge raso
+--   (extras || patch.extras) sem nunca tocar em extras.modules (gerido por
+--   moduz_core_update_module_settings); sem leitura prévia na API, sem corrida com settings/modules/update
+-- Idempotente.
+
+begin;
+
+create or replace function public.moduz_core_update_settings(
+  p_empresa_id uuid,
+  p_user_id    uuid,
+  p_profile_id uuid,
+  p_patch      jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $fn$
+declare
+  v_row     public.settings;
+  v_before  jsonb;
+  v_after   jsonb;
+  v_version int;
+begin
+  insert into public.settings (empresa_id)
+  values (p_empresa_id)
+  on conflict (empresa_id) do nothing;
+
+  select * into v_row from public.settings where empresa_id = p_empresa_id for update;
+  v_before := public.moduz_core_settings_snapshot(v_row);
+
+  update public.settings
+     set timezone = coalesce(p_patch->>'timezone', timezone),
+         locale   = coalesce(p_patch->>'locale', locale),
+         currency = coalesce(p_patch->>'currency', currency),
+         -- merge raso no servidor: chaves novas sobrepõem-se, modules nunca vem do patch
+         extras   = case
+                      when jsonb_typeof(p_patch->'extras') = 'object'
+                        then coalesce(extras, '{}'::jsonb) || ((p_patch->'extras') - 'modules')
+                      else extras
+                    end
+   where empresa_id = p_empresa_id
+  returning * into v_row;
+
+  v_after := public.moduz_core_settings_snapshot(v_row);
+  v_version := public.moduz_core_settings_record_version(
+    p_empresa_id, v_row.id, p_user_id, p_profile_id, 'update', null, null, v_before, v_after
+  );
+
+  perform public.moduz_audit_insert(
+    p_empresa_id, p_user_id, p_profile_id, 'SETTINGS_UPDATED', 'settings', v_row.id,
+    jsonb_build_object('patch', p_patch, 'before', v_before, 'after', v_after, 'version', v_version)
+  );
+
+  return jsonb_build_object(
+    'id', v_row.id,
+    'empresa_id', v_row.empresa_id,
+    'timezone', v_row.timezone,
+    'locale', v_row.locale,
+    'currency', v_row.currency,
+    'extras', v_row.extras,
+    'created_at', v_row.created_at,
+    'updated_at', v_row.updated_at,
+    'version', v_version
+  );
+end;
+$fn$;
+
+revoke all on function public.moduz_core_update_settings(uuid, uuid, uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.moduz_core_update_settings(uuid, uuid, uuid, jsonb) to service_role;
+
+commit;
@@ -0,0 +1,71 @@
+-- 20260206_core_doc_search_uploaded.sql
+-- Core/Docs: pesquisa só sobre documentos enviados
+-- - moduz_docs_search(): passa a filtrar d.status = 'uploaded' — docs pending|failed (upload por
+--   concluir, verificação falhada, rejeitado pela política) têm nome/etiquetas/metadados indexados
+--   mas não têm ficheiro válido, e não devem aparecer nos resultados até serem purgados
+--   (mesma assinatura e colunas; só o filtro é novo) -> GET /api/admin/docs/search
+-- Idempotente.
+
+begin;
+
+create or replace function public.moduz_docs_search(
+  p_empresa_id uuid,
+  p_query      text,
+  p_folder_id  uuid default null,
+  p_root_only  boolean default false,
+  p_tag_id     uuid default null,
+  p_limit      int default 50
+)
+returns table (doc_id uuid, rank real, snippet text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $fn$
+declare
+  v_q tsquery;
+begin
+  -- cada palavra vira prefixo (AND): "contr valid" -> contr:* & valid:*
+  select to_tsquery('public.moduz_pt', string_agg(quote_literal(w) || ':*', ' & '))
+    into v_q
+    from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') w
+   where length(w) > 0;
+
+  if v_q is null or numnode(v_q) = 0 then
+    return;
+  end if;
+
+  return query
+  select d.id,
+         ts_rank_cd(d.search_tsv, v_q) as rank,
+         ts_headline(
+           'public.moduz_pt',
+           concat_ws(' · ',
+             d.filename,
+             (select string_agg(t.name, ' ')
+                from public.doc_tag_links l join public.doc_tags t on t.id = l.tag_id
+               where l.doc_id = d.id),
+             (select string_agg(v.value, ' ') from jsonb_each_text(coalesce(d.metadata, '{}'::jsonb)) v),
+             left(d.content_text, 50000)
+           ),
+           v_q,
+           'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+         ) as snippet
+    from public.docs d
+   where d.empresa_id = p_empresa_id
+     and d.status = 'uploaded'
+     and d.search_tsv @@ v_q
+     and (p_folder_id is null or d.folder_id = p_folder_id)
+     and (not p_root_only or d.folder_id is null)
+     and (p_tag_id is null or exists (
+       select 1 from public.doc_tag_links l where l.doc_id = d.id and l.tag_id = p_tag_id
+     ))
+   order by rank desc, d.created_at desc
+   limit greatest(1, least(coalesce(p_limit, 50), 100));
+end;
+$fn$;
+
+revoke all on function public.moduz_docs_search(uuid, text, uuid, boolean, uuid, int) from public, anon, authenticated;
+grant execute on function public.moduz_docs_search(uuid, text, uuid, boolean, uuid, int) to service_role;
+
+commit;